@@ -2,12 +2,53 @@
 // This file contains commands related to AWS account management in the organization
 
 import { Command } from 'commander' // Import Commander library for CLI command creation
-import { BaseCommandOptions } from '../types' // Import common command options type
-import { formatOutput } from '../utils/formatter' // Import utility for formatting CLI output
+import { Organizations } from '@aws-sdk/client-organizations'
+import { AccountClient } from '@aws-sdk/client-account'
+import { STSClient } from '@aws-sdk/client-sts'
+import { AccountSelectionOptions, BaseCommandOptions, TargetError } from '../types' // Import common command options types
+import { formatResultsOutput } from '../utils/formatter' // Import utility for formatting CLI output
 import { generateAccountsHtml, openInBrowser } from '../utils/html-formatter' // HTML generation utilities
-import { createOrganizationsClient } from '../utils/clients' // AWS Organizations client creation
-import { getAllAccounts } from '../services/organization' // Service function to fetch accounts
-import { DEFAULT_OUTPUT_FORMAT } from '../config/constants' // Default configuration settings
+import { createAccountClient, createSTSClient } from '../utils/clients' // AWS client creation
+import { getOrganizationTargets, withOrganizationId } from '../utils/multi-org' // Multi-organization mode
+import { addAccountSelectionOptions, selectAccounts } from '../utils/account-selection' // Account selectors
+import { getSettings } from '../config/settings' // Runtime configuration settings
+import { logger } from '../utils/logger'
+import { classifyError, setExitCodeForErrors, toErrorMessage } from '../utils/errors'
+import { DEFAULT_MAX_CONCURRENCY, mapWithConcurrency } from '../utils/concurrency'
+import { getAccountCredentials } from '../utils/credential-helper'
+import { buildOrganizationalUnitPaths } from '../utils/org-tree'
+import { parsePositiveInteger } from '../utils'
+import {
+  getAccountTags,
+  getAllOrganizationalUnits,
+  getOrganizationDetails,
+  getOrganizationRoot,
+  getParentInfoForAccounts,
+} from '../services/organization'
+import { getAccountAlias } from '../services/iam'
+import { getAlternateContacts } from '../services/account'
+
+// Options accepted by the list-accounts command
+interface AccountsCommandOptions extends BaseCommandOptions, AccountSelectionOptions {
+  ouPath?: boolean // Add the full OU path of each account
+  tags?: boolean // Add the account tags
+  alias?: boolean // Add the IAM account alias (requires access to each account)
+  contacts?: boolean // Add the billing, operations and security contacts
+  roleName: string
+  maxConcurrency?: number
+}
+
+// Shared state used to enrich each account
+interface EnrichmentContext {
+  options: AccountsCommandOptions
+  organizationsClient: Organizations
+  accountClient?: AccountClient
+  stsClient?: STSClient
+  managementAccountId?: string
+  ouPaths: Map<string, string>
+  rootId?: string
+  errors: TargetError[]
+}
 
 /**
  * Register account-related commands with the Commander program
@@ -15,12 +56,34 @@ import { DEFAULT_OUTPUT_FORMAT } from '../config/constants' // Default configura
  * @param program The Commander program instance to register commands with
  */
 export function registerAccountCommands(program: Command): void {
-  program
+  const command = program
     .command('list-accounts') // Define a new command named 'list-accounts'
     .description('List all accounts in the organization') // Provide command description for help text
-    .option('-p, --profile <profile>', 'AWS profile to use (defaults to AWS environment variables if not specified)') // Add AWS profile option
-    .option('-o, --output <format>', `Output format (json, table, html)`, DEFAULT_OUTPUT_FORMAT) // Add output format option with default
-    .action(async (options: BaseCommandOptions) => {
+    .option(
+      '-p, --profile <profile>',
+      'AWS profile to use (defaults to the configured profile, then AWS environment variables)',
+      getSettings().profile,
+    ) // Add AWS profile option
+    .option('-o, --output <format>', `Output format (json, table, html)`, getSettings().output) // Add output format option with default
+    .option('--ou-path', 'Add the full OU path of each account (e.g. /Prod/Apps)') // Add OU path enrichment
+    .option('--tags', 'Add the tags of each account') // Add tag enrichment
+    .option('--alias', 'Add the IAM account alias (assumes the role in each account)') // Add alias enrichment
+    .option('--contacts', 'Add the billing, operations and security alternate contacts') // Add contact enrichment
+    .option(
+      '-r, --role-name <roleName>',
+      'Role name to assume in target accounts (for --alias)',
+      getSettings().roleName,
+    )
+    .option(
+      '--max-concurrency <number>',
+      'Maximum number of accounts enriched at the same time',
+      parsePositiveInteger,
+      DEFAULT_MAX_CONCURRENCY,
+    )
+
+  // Account selectors shared with the multi-account commands (--account-id, --ou, --account-tag, ...)
+  addAccountSelectionOptions(command) // Add account selection options
+    .action(async (options: AccountsCommandOptions) => {
       // Define the action to take when command is executed
       await listAccounts(options) // Call the implementation function with parsed options
     })
@@ -33,32 +96,161 @@ export function registerAccountCommands(program: Command): void {
  *
  * @param options Command options including profile and output format
  */
-async function listAccounts(options: BaseCommandOptions): Promise<void> {
+async function listAccounts(options: AccountsCommandOptions): Promise<void> {
   try {
-    // Create an Organizations client using the specified AWS profile or default credentials
-    const client = createOrganizationsClient(options.profile)
+    // One organization for the specified AWS profile (or default credentials),
+    // or one per management profile in multi-organization mode
+    const organizations = await getOrganizationTargets(options.profile)
+    const enrichedAccounts: Record<string, unknown>[] = []
+    const errors: TargetError[] = []
 
-    // Log progress message to console
-    console.log('Fetching all accounts in the organization...')
+    for (const { organizationId, profile, client } of organizations) {
+      // Log progress message to console
+      logger.info(`Fetching all accounts in the organization${organizationId ? ` ${organizationId}` : ''}...`)
 
-    // Call the service function to retrieve all accounts from AWS Organizations
-    const accounts = await getAllAccounts(client)
+      // Retrieve the accounts matching the selectors (all accounts when none are given)
+      const accounts = await selectAccounts(client, options)
 
-    // Log the number of accounts found
-    console.log(`Found ${accounts.length} accounts total`)
+      // Log the number of accounts found
+      logger.info(`Found ${accounts.length} accounts total`)
+
+      // Add the optional details requested with --ou-path, --tags, --alias and --contacts
+      const enriched = await enrichAccounts(client, accounts, { ...options, profile })
+      const tag = <T>(record: T): T => (organizationId ? withOrganizationId(record, organizationId) : record)
+      enrichedAccounts.push(...enriched.accounts.map(tag))
+      errors.push(...enriched.errors.map(tag))
+    }
 
     // Format and output the results based on the specified output format
     if (options.output === 'html') {
       // For HTML output, generate HTML and open in browser
-      const htmlContent = generateAccountsHtml(accounts, 'Organization Accounts')
+      const htmlContent = generateAccountsHtml(enrichedAccounts, 'Organization Accounts', errors)
       openInBrowser(htmlContent, 'list-accounts')
     } else {
-      // For other formats (json, table), use the formatter utility
-      formatOutput(accounts, options.output)
+      // For other formats (json, table), output the accounts along with the failed lookups
+      formatResultsOutput(enrichedAccounts, errors, options.output)
     }
+
+    // Exit with code 2 when some details could not be fetched
+    setExitCodeForErrors(errors)
   } catch (error) {
     // Handle and log any errors that occur during execution
-    console.error('Error fetching accounts:', error)
+    logger.error('Error fetching accounts:', error)
     process.exit(1) // Exit with error code
   }
 }
+
+/**
+ * Add the details requested by the enrichment options to each account
+ *
+ * Failing lookups are recorded per account and leave the corresponding fields out,
+ * so a single inaccessible account does not prevent listing the others.
+ *
+ * @param client - Organizations client
+ * @param accounts - Selected accounts
+ * @param options - Command options
+ * @returns Enriched accounts, in the same order, and the lookups that failed
+ */
+async function enrichAccounts(
+  client: Organizations,
+  accounts: Record<string, unknown>[],
+  options: AccountsCommandOptions,
+): Promise<{ accounts: Record<string, unknown>[]; errors: TargetError[] }> {
+  const context: EnrichmentContext = { options, organizationsClient: client, ouPaths: new Map(), errors: [] }
+  if (!options.ouPath && !options.tags && !options.alias && !options.contacts) {
+    return { accounts, errors: context.errors }
+  }
+
+  if (options.ouPath) {
+    logger.info('Fetching organizational units...')
+    context.rootId = await getOrganizationRoot(client)
+    context.ouPaths = buildOrganizationalUnitPaths(await getAllOrganizationalUnits(client, context.rootId))
+    accounts = await getParentInfoForAccounts(client, accounts)
+  }
+
+  if (options.alias) {
+    context.stsClient = createSTSClient(options.profile)
+  }
+
+  if (options.contacts) {
+    context.accountClient = createAccountClient(options.profile)
+    // The Account Management API rejects the management account ID; its own contacts are read without one
+    context.managementAccountId = String((await getOrganizationDetails(client))?.MasterAccountId || '')
+  }
+
+  logger.info(`Fetching account details for ${accounts.length} accounts...`)
+  const enriched = await mapWithConcurrency(accounts, options.maxConcurrency || DEFAULT_MAX_CONCURRENCY, (account) =>
+    enrichAccount(account, context),
+  )
+
+  return { accounts: enriched, errors: context.errors }
+}
+
+/**
+ * Add the requested details to a single account
+ */
+async function enrichAccount(
+  account: Record<string, unknown>,
+  context: EnrichmentContext,
+): Promise<Record<string, unknown>> {
+  const { options } = context
+  const accountId = String(account.Id)
+  const enriched: Record<string, unknown> = { ...account }
+
+  // Record a failed lookup and carry on with the other details
+  const attempt = async (detail: string, lookup: () => Promise<void>): Promise<void> => {
+    try {
+      await lookup()
+    } catch (error) {
+      const message = `${detail}: ${toErrorMessage(error)}`
+      logger.warn(`Could not fetch the ${message} for account ${accountId}`)
+      context.errors.push({
+        AccountId: accountId,
+        AccountName: String(account.Name || ''),
+        Status: classifyError(error, false),
+        Error: message,
+      })
+    }
+  }
+
+  if (options.ouPath) {
+    await attempt('OU path', async () => {
+      const parentId = String(account.ParentId)
+      if (parentId === context.rootId) {
+        enriched.OuPath = '/'
+      } else if (context.ouPaths.has(parentId)) {
+        enriched.OuPath = `/${context.ouPaths.get(parentId)}`
+      } else {
+        // getParentInfoForAccounts marks failed parent lookups as Unknown or Error
+        throw new Error(`parent of the account could not be determined (${parentId})`)
+      }
+    })
+    delete enriched.ParentId
+    delete enriched.ParentType
+  }
+
+  if (options.tags) {
+    await attempt('tags', async () => {
+      enriched.Tags = await getAccountTags(context.organizationsClient, accountId)
+    })
+  }
+
+  if (options.alias) {
+    await attempt('account alias', async () => {
+      const credentials = await getAccountCredentials(context.stsClient!, accountId, options.roleName, options.profile)
+      enriched.AccountAlias = await getAccountAlias(credentials, credentials ? undefined : options.profile)
+    })
+  }
+
+  if (options.contacts) {
+    await attempt('alternate contacts', async () => {
+      const isManagementAccount = accountId === context.managementAccountId
+      const contacts = await getAlternateContacts(context.accountClient!, isManagementAccount ? undefined : accountId)
+      enriched.BillingContact = contacts.BILLING || ''
+      enriched.OperationsContact = contacts.OPERATIONS || ''
+      enriched.SecurityContact = contacts.SECURITY || ''
+    })
+  }
+
+  return enriched
+}
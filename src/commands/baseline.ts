@@ -0,0 +1,347 @@
+// File: src/commands/baseline.ts
+// This file implements the 'check-baseline' command for the CLI tool, which checks every account
+// of the organization against a declarative landing zone baseline (account vending conformance).
+
+import { Command } from 'commander'
+import { Organizations } from '@aws-sdk/client-organizations'
+import {
+  AccountTarget,
+  BaselineCheckResult,
+  BaselineCheckStatus,
+  BaselineDefinition,
+  MultiRegionCommandOptions,
+  RegionTarget,
+} from '../types'
+import { formatOutput, formatResultsOutput } from '../utils/formatter'
+import { EXIT_CODE_INCOMPLETE, EXIT_CODE_NON_CONFORMING, toErrorMessage } from '../utils/errors'
+import { generateBaselineHtml, openInBrowser } from '../utils/html-formatter'
+import { getRoleExists } from '../services/iam'
+import { getTrailStatuses } from '../services/cloudtrail'
+import { getConfigRecorderStatuses } from '../services/config'
+import { getDefaultVpcIds } from '../services/ec2'
+import { getEbsEncryptionByDefault } from '../services/ebs'
+import { getAccountTags } from '../services/organization'
+import { parseNonNegativeInteger, parsePositiveInteger } from '../utils'
+import { addRegionSelectionOptions } from '../utils/region-selection'
+import { DEFAULT_MAX_CONCURRENCY } from '../utils/concurrency'
+import { addAccountSelectionOptions } from '../utils/account-selection'
+import { runAcrossAccounts, runAcrossAccountsAndRegions } from '../utils/multi-account'
+import { getOrganizationTargets } from '../utils/multi-org'
+import {
+  DEFAULT_NEW_ACCOUNT_DAYS,
+  checkRequiredTag,
+  getTagCheckName,
+  hasRegionalChecks,
+  readBaselineFile,
+  summarizeBaseline,
+} from '../utils/baseline'
+import { getSettings } from '../config/settings'
+import { logger } from '../utils/logger'
+
+/**
+ * Region reported for the checks that apply to the whole account
+ */
+const GLOBAL_REGION = 'global'
+
+// Options accepted by the check-baseline command
+interface BaselineCommandOptions extends MultiRegionCommandOptions {
+  baseline: string
+  newAccountDays?: number
+}
+
+/**
+ * Register baseline-related commands with the CLI program
+ *
+ * This function adds the 'check-baseline' command to the Commander program object,
+ * which checks the selected accounts against a baseline file.
+ *
+ * @param program The Commander program instance to register the command with
+ */
+export function registerBaselineCommands(program: Command): void {
+  const command = program
+    .command('check-baseline') // Define the command name
+    .description('Check that every account conforms to a landing zone baseline') // Command description
+    .requiredOption('-b, --baseline <file>', 'Baseline file (YAML or JSON) listing the checks to run')
+    .option(
+      '--new-account-days <days>',
+      `Flag accounts that joined the organization within this many days (default: newAccountDays of the baseline, then ${DEFAULT_NEW_ACCOUNT_DAYS})`,
+      parseNonNegativeInteger,
+    )
+    .option(
+      '--profile <profile>',
+      'AWS profile to use (defaults to the configured profile, then AWS environment variables)',
+      getSettings().profile,
+    )
+    .option('-r, --role-name <roleName>', 'Role name to assume in target accounts', getSettings().roleName)
+    .option('-o, --output <format>', 'Output format (json, table, html)', getSettings().output)
+
+  // Account selectors shared by all multi-account commands (--account-id, --ou, --account-tag, ...)
+  addAccountSelectionOptions(command)
+
+  // Region selectors shared by all multi-region commands (--region, --all-regions, --exclude-region)
+  addRegionSelectionOptions(command)
+    .option(
+      '--max-concurrency <number>',
+      'Maximum number of accounts/regions processed at the same time',
+      parsePositiveInteger,
+      DEFAULT_MAX_CONCURRENCY,
+    )
+    .action(async (options: BaselineCommandOptions) => {
+      // Execute the command implementation with the provided options
+      await checkBaseline(options)
+    })
+}
+
+/**
+ * Run a single check, recording an ERROR result when it cannot be evaluated
+ *
+ * @param target - Account being checked
+ * @param region - Region of the check, or GLOBAL_REGION for account-level checks
+ * @param check - Name of the check
+ * @param evaluate - Function returning the status and details of the check
+ */
+async function runCheck(
+  target: AccountTarget,
+  region: string,
+  check: string,
+  evaluate: () => Promise<[BaselineCheckStatus, string]>,
+): Promise<BaselineCheckResult> {
+  const result = { AccountId: target.accountId, AccountName: target.accountName, Region: region, Check: check }
+  try {
+    const [status, details] = await evaluate()
+    return { ...result, Status: status, Details: details }
+  } catch (error) {
+    logger.verbose(`Check ${check} failed in account ${target.accountId} (${region}): ${toErrorMessage(error)}`)
+    return { ...result, Status: 'ERROR', Details: toErrorMessage(error) }
+  }
+}
+
+/**
+ * Run the checks that apply to the whole account: IAM roles, CloudTrail and account tags
+ *
+ * @param baseline - Baseline to check
+ * @param target - Account being checked
+ * @param region - Region used to call regional APIs (CloudTrail)
+ * @param organizationClients - Organizations client of each organization, used to read account tags
+ */
+async function runAccountChecks(
+  baseline: BaselineDefinition,
+  target: AccountTarget,
+  region: string,
+  organizationClients: Map<string | undefined, Organizations>,
+): Promise<BaselineCheckResult[]> {
+  const { accountId, credentials } = target
+  const checks: Promise<BaselineCheckResult>[] = baseline.requiredRoles.map((role) =>
+    runCheck(target, GLOBAL_REGION, `iam-role:${role}`, async () =>
+      (await getRoleExists(null, role, credentials)) ? ['PASS', 'Role exists'] : ['FAIL', 'Role not found'],
+    ),
+  )
+
+  if (baseline.cloudTrail) {
+    checks.push(
+      runCheck(target, GLOBAL_REGION, 'cloudtrail', async () => {
+        const trails = await getTrailStatuses(region, credentials, accountId)
+        const active = trails.filter((trail) => trail.multiRegion && trail.logging)
+
+        // Trails whose status could not be read are reported but do not decide the check on their own
+        const unreadable = trails.filter((trail) => trail.statusError)
+        const unreadableDetails =
+          unreadable.length > 0
+            ? `; status not readable: ${unreadable.map((trail) => `${trail.name} (${trail.statusError})`).join(', ')}`
+            : ''
+
+        if (active.length > 0) {
+          return [
+            'PASS',
+            `Logging multi-region trails: ${active.map((trail) => trail.name).join(', ')}${unreadableDetails}`,
+          ]
+        }
+        if (unreadable.some((trail) => trail.multiRegion)) {
+          // One of the unreadable multi-region trails may be the one logging
+          return ['ERROR', `No readable logging multi-region trail${unreadableDetails}`]
+        }
+        return [
+          'FAIL',
+          trails.length > 0
+            ? `No logging multi-region trail (trails: ${trails.map((trail) => trail.name).join(', ')})${unreadableDetails}`
+            : 'No trail',
+        ]
+      }),
+    )
+  }
+
+  if (baseline.requiredTags.length > 0) {
+    // Every tag check uses the same lookup, made with the management account of the organization
+    let tags: Promise<Record<string, string>> | undefined
+    const getTags = () => {
+      const client = organizationClients.get(target.organizationId)
+      if (!client) {
+        throw new Error(`No Organizations client for organization ${target.organizationId}`)
+      }
+      tags = tags || getAccountTags(client, accountId)
+      return tags
+    }
+    checks.push(
+      ...baseline.requiredTags.map((requiredTag) =>
+        runCheck(target, GLOBAL_REGION, getTagCheckName(requiredTag), async () =>
+          checkRequiredTag(await getTags(), requiredTag),
+        ),
+      ),
+    )
+  }
+
+  return Promise.all(checks)
+}
+
+/**
+ * Run the checks that apply to each region: AWS Config, default VPC and EBS encryption by default
+ *
+ * @param baseline - Baseline to check
+ * @param target - Account/region pair being checked
+ */
+async function runRegionChecks(baseline: BaselineDefinition, target: RegionTarget): Promise<BaselineCheckResult[]> {
+  const { accountId, credentials, region } = target
+  const checks: Promise<BaselineCheckResult>[] = []
+
+  if (baseline.config) {
+    checks.push(
+      runCheck(target, region, 'config', async () => {
+        const recorders = await getConfigRecorderStatuses(region, credentials, accountId)
+        const recording = recorders.filter((recorder) => recorder.recording)
+        if (recording.length > 0) {
+          return ['PASS', `Recording: ${recording.map((recorder) => recorder.name).join(', ')}`]
+        }
+        return [
+          'FAIL',
+          recorders.length > 0
+            ? `Recorder not recording: ${recorders.map((recorder) => recorder.name).join(', ')}`
+            : 'No configuration recorder',
+        ]
+      }),
+    )
+  }
+
+  if (baseline.defaultVpcDeleted) {
+    checks.push(
+      runCheck(target, region, 'default-vpc', async () => {
+        const vpcIds = await getDefaultVpcIds(region, credentials)
+        return vpcIds.length > 0 ? ['FAIL', `Default VPC exists: ${vpcIds.join(', ')}`] : ['PASS', 'No default VPC']
+      }),
+    )
+  }
+
+  if (baseline.ebsEncryptionByDefault) {
+    checks.push(
+      runCheck(target, region, 'ebs-encryption', async () =>
+        (await getEbsEncryptionByDefault(region, credentials)) ? ['PASS', 'Enabled'] : ['FAIL', 'Disabled'],
+      ),
+    )
+  }
+
+  return Promise.all(checks)
+}
+
+/**
+ * Implements the check-baseline command functionality
+ *
+ * This function:
+ * 1. Reads the baseline file
+ * 2. Runs the account-level checks once per account and the regional checks in every region
+ * 3. Summarizes the results per account, flagging recently created accounts
+ * 4. Formats and displays the results
+ *
+ * @param options Command options including the baseline file, AWS profile, regions, output format, etc.
+ */
+async function checkBaseline(options: BaselineCommandOptions): Promise<void> {
+  try {
+    const baseline = readBaselineFile(options.baseline)
+    const newAccountDays = options.newAccountDays ?? baseline.newAccountDays ?? DEFAULT_NEW_ACCOUNT_DAYS
+
+    // Account tags are read from the management account of each organization
+    const organizationClients = new Map<string | undefined, Organizations>()
+    if (baseline.requiredTags.length > 0) {
+      for (const { organizationId, client } of await getOrganizationTargets(options.profile)) {
+        organizationClients.set(organizationId, client)
+      }
+    }
+
+    const runOptions = {
+      profile: options.profile,
+      roleName: options.roleName,
+      selection: options,
+      maxConcurrency: options.maxConcurrency,
+      resourceLabel: 'baseline checks',
+    }
+
+    let run
+    if (hasRegionalChecks(baseline)) {
+      // Account-level checks run with the first region checked in each account
+      const accountChecks = new Map<string, Promise<BaselineCheckResult[]>>()
+      run = await runAcrossAccountsAndRegions<BaselineCheckResult>(
+        {
+          ...runOptions,
+          regions: options.region,
+          allRegions: options.allRegions,
+          excludeRegions: options.excludeRegion,
+        },
+        async (target) => {
+          let accountResults: Promise<BaselineCheckResult[]> = Promise.resolve([])
+          if (!accountChecks.has(target.accountId)) {
+            accountResults = runAccountChecks(baseline, target, target.region, organizationClients)
+            accountChecks.set(target.accountId, accountResults)
+          }
+          return [...(await accountResults), ...(await runRegionChecks(baseline, target))]
+        },
+      )
+    } else {
+      // Without regional checks, each account is checked once
+      run = await runAcrossAccounts<BaselineCheckResult>(runOptions, (target) =>
+        runAccountChecks(baseline, target, options.region[0] || getSettings().regions[0], organizationClients),
+      )
+    }
+
+    const { activeAccounts, errors, skippedRegions } = run
+    const results = [...run.results].sort(
+      (a, b) =>
+        a.AccountId.localeCompare(b.AccountId) ||
+        Number(b.Region === GLOBAL_REGION) - Number(a.Region === GLOBAL_REGION) ||
+        a.Region.localeCompare(b.Region) ||
+        a.Check.localeCompare(b.Check),
+    )
+    const summaries = summarizeBaseline(activeAccounts, results, errors, newAccountDays)
+
+    const failing = summaries.filter((summary) => summary.Status === 'FAIL')
+    const newAccounts = summaries.filter((summary) => summary.NewAccount)
+    logger.info(`${summaries.length - failing.length} of ${summaries.length} accounts pass every baseline check`)
+    if (newAccounts.length > 0) {
+      logger.info(
+        `${newAccounts.length} accounts joined in the last ${newAccountDays} days: ${newAccounts.map((summary) => summary.AccountId).join(', ')}`,
+      )
+    }
+
+    // Format and display results based on specified output format
+    if (options.output === 'html') {
+      const htmlContent = generateBaselineHtml(summaries, results, 'Baseline Conformance', errors, skippedRegions)
+      openInBrowser(htmlContent, 'check-baseline')
+    } else if (options.output === 'table') {
+      console.log('\nAccounts:')
+      formatOutput(summaries as unknown as Record<string, unknown>[], options.output)
+      console.log('\nChecks:')
+      formatResultsOutput(results as unknown as Record<string, unknown>[], errors, options.output, skippedRegions)
+    } else {
+      formatOutput({ accounts: summaries, results, errors, skippedRegions }, options.output)
+    }
+
+    // Exit with code 3 when an account fails a check, or code 2 when some checks could not be run
+    if (errors.length > 0 || summaries.some((summary) => summary.Status === 'ERROR')) {
+      process.exitCode = EXIT_CODE_INCOMPLETE
+    }
+    if (failing.length > 0) {
+      process.exitCode = EXIT_CODE_NON_CONFORMING
+    }
+  } catch (error) {
+    // Handle any errors that occur during the process
+    logger.error('Error checking the baseline:', error)
+    process.exit(1) // Exit with error code 1 to indicate failure
+  }
+}
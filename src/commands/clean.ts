@@ -6,6 +6,15 @@ import { Command } from 'commander'
 import * as fs from 'fs' // Node.js file system module for file operations
 import * as path from 'path' // Node.js path module for handling file paths
 import * as os from 'os' // Node.js OS module for OS-specific functionality
+import { logger } from '../utils/logger'
+import { clearCredentialCache } from '../utils/credential-broker'
+import { clearPriceCatalog } from '../utils/price-catalog'
+
+// Options for the clean-temp command
+interface CleanOptions {
+  credentials?: boolean
+  pricingCache?: boolean
+}
 
 /**
  * Register the clean command with the CLI program
@@ -19,9 +28,17 @@ export function registerCleanCommands(program: Command): void {
   program
     .command('clean-temp') // Define the command name as 'clean-temp'
     .description('Clean all temporary HTML report files') // Provide a description for the command
-    .action(() => {
+    .option('--credentials', 'Also delete the on-disk credential cache (see --credential-cache)')
+    .option('--pricing-cache', 'Also delete the on-disk EC2 price catalog (see pricing refresh)')
+    .action((options: CleanOptions) => {
       // Define the action to take when command is executed
       cleanTempFiles() // Call the cleanTempFiles function
+      if (options.credentials) {
+        cleanCredentialCache()
+      }
+      if (options.pricingCache) {
+        cleanPriceCatalog()
+      }
     })
 }
 
@@ -40,7 +57,7 @@ function cleanTempFiles(): void {
 
     // Check if the directory exists before attempting operations
     if (!fs.existsSync(tempDir)) {
-      console.log('No temporary files found.')
+      logger.info('No temporary files found.')
       return
     }
 
@@ -49,7 +66,7 @@ function cleanTempFiles(): void {
 
     // If there are no files, inform the user and exit
     if (files.length === 0) {
-      console.log('No temporary files found.')
+      logger.info('No temporary files found.')
       return
     }
 
@@ -64,18 +81,42 @@ function cleanTempFiles(): void {
     }
 
     // Report how many files were deleted
-    console.log(`Successfully deleted ${deletedCount} temporary HTML files.`)
+    logger.info(`Successfully deleted ${deletedCount} temporary HTML files.`)
 
     // Check if the directory is now empty
     const remainingFiles = fs.readdirSync(tempDir)
     if (remainingFiles.length === 0) {
       // If empty, remove the directory as well
       fs.rmdirSync(tempDir)
-      console.log('Removed empty temporary directory.')
+      logger.info('Removed empty temporary directory.')
     }
   } catch (error) {
     // Handle any errors that occur during the process
-    console.error('Error cleaning temporary files:', error)
+    logger.error('Error cleaning temporary files:', error)
     process.exit(1) // Exit with error code 1 to indicate failure
   }
 }
+
+/**
+ * Delete the encrypted credential cache written by --credential-cache
+ */
+function cleanCredentialCache(): void {
+  try {
+    logger.info(clearCredentialCache() ? 'Deleted the credential cache.' : 'No credential cache found.')
+  } catch (error) {
+    logger.error('Error deleting the credential cache:', error)
+    process.exit(1)
+  }
+}
+
+/**
+ * Delete the EC2 price catalog
+ */
+function cleanPriceCatalog(): void {
+  try {
+    logger.info(clearPriceCatalog() ? 'Deleted the price catalog.' : 'No price catalog found.')
+  } catch (error) {
+    logger.error('Error deleting the price catalog:', error)
+    process.exit(1)
+  }
+}
@@ -0,0 +1,101 @@
+// File: src/commands/config.ts
+// This file implements the 'config' command, which shows the effective settings
+// merged from the configuration files and stores new values in them.
+
+import { Command } from 'commander'
+import { AppSettings } from '../types'
+import { formatOutput } from '../utils/formatter'
+import { getLoadedSettings, getUserConfigPath, SETTING_KEYS, writeSetting } from '../config/settings'
+import { logger } from '../utils/logger'
+import { toErrorMessage } from '../utils/errors'
+
+// Options for the config show subcommand
+interface ConfigShowOptions {
+  output: string
+}
+
+// Options for the config set subcommand
+interface ConfigSetOptions {
+  local?: boolean
+}
+
+/**
+ * Register the config command and its subcommands with the CLI program
+ *
+ * @param program The Commander program instance to register the command with
+ */
+export function registerConfigCommands(program: Command): void {
+  const config = program
+    .command('config')
+    .description('Show or change settings stored in the aws-org configuration files')
+
+  config
+    .command('show')
+    .description('Show the effective settings and the file each one comes from')
+    .option('-o, --output <format>', 'Output format (json, table)', 'table')
+    .action((options: ConfigShowOptions) => {
+      showConfig(options)
+    })
+
+  config
+    .command('set <key> <value>')
+    .description(
+      `Store a setting (${SETTING_KEYS.join(', ')}); lists are comma-separated and an empty value removes the setting`,
+    )
+    .option('--local', 'Write to the project file (.aws-org.json) instead of the user file')
+    .action((key: string, value: string, options: ConfigSetOptions) => {
+      setConfig(key, value, options)
+    })
+}
+
+/**
+ * Implements the config show command
+ *
+ * @param options Command options including the output format
+ */
+function showConfig(options: ConfigShowOptions): void {
+  try {
+    const { settings, sources, files } = getLoadedSettings()
+
+    if (options.output === 'json') {
+      formatOutput({ settings, sources, files } as unknown as Record<string, unknown>, options.output)
+      return
+    }
+
+    logger.info(`User configuration file: ${getUserConfigPath()}`)
+    logger.info(
+      files.length > 0 ? `Loaded: ${files.join(', ')}` : 'No configuration file found, using built-in defaults',
+    )
+
+    // One row per setting so that the source of each value is visible
+    const rows = SETTING_KEYS.map((key: keyof AppSettings) => {
+      const value = settings[key]
+      return {
+        Setting: key,
+        Value: Array.isArray(value) ? value.join(', ') : value || '',
+        Source: sources[key],
+      }
+    })
+    formatOutput(rows, options.output)
+  } catch (error) {
+    logger.error('Error reading configuration:', error)
+    process.exit(1)
+  }
+}
+
+/**
+ * Implements the config set command
+ *
+ * @param key Setting name
+ * @param value New value for the setting
+ * @param options Command options selecting the configuration file
+ */
+function setConfig(key: string, value: string, options: ConfigSetOptions): void {
+  try {
+    const filePath = writeSetting(key, value, options.local)
+    logger.info(value === '' ? `Removed ${key} from ${filePath}` : `Set ${key} in ${filePath}`)
+  } catch (error) {
+    logger.error(`Error updating configuration: ${toErrorMessage(error)}`)
+    process.exit(1)
+  }
+}
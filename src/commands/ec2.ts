@@ -1,147 +1,327 @@
 // File: src/commands/ec2.ts
 // This file implements the 'list-ec2' command for the CLI tool, which retrieves and displays
-// EC2 instance information across AWS accounts in an organization with optional pricing details.
-
-import { Command } from 'commander'
-import { MultiRegionCommandOptions, EC2InstanceInfo } from '../types'
-import { formatOutput } from '../utils/formatter'
-import { generateEC2Html, openInBrowser } from '../utils/html-formatter'
-import { createOrganizationsClient, createSTSClient } from '../utils/clients'
-import { getAccount, getAllAccounts } from '../services/organization'
+// EC2 instance information across AWS accounts in an organization with optional pricing details,
+// and the 'ec2-commitment-analysis' command, which compares the on-demand cost of the running
+// fleet with Reserved Instance prices.
+
+import { Command, InvalidArgumentError } from 'commander'
+import {
+  MultiRegionCommandOptions,
+  EC2CommitmentGroup,
+  EC2CostTotal,
+  EC2CostTotals,
+  EC2InstanceInfo,
+  EC2UpgradeRecommendation,
+} from '../types'
+import { formatOutput, formatResultsOutput } from '../utils/formatter'
+import { setExitCodeForErrors } from '../utils/errors'
+import { generateEC2CommitmentHtml, generateEC2Html, openInBrowser } from '../utils/html-formatter'
 import { getEC2Instances } from '../services/ec2'
-import { collectRegions } from '../utils'
-import { getAccountCredentials } from '../utils/credential-helper'
-import { DEFAULT_REGION, DEFAULT_ROLE_NAME, DEFAULT_OUTPUT_FORMAT } from '../config/constants'
+import { batchGetEC2Prices, getEC2Price, getEC2ReservedPrices, normalizeOSForPricing } from '../services/pricing'
+import { parsePositiveInteger } from '../utils'
+import { addRegionSelectionOptions } from '../utils/region-selection'
+import { DEFAULT_MAX_CONCURRENCY, mapWithConcurrency } from '../utils/concurrency'
+import { addAccountSelectionOptions } from '../utils/account-selection'
+import { runAcrossAccountsAndRegions } from '../utils/multi-account'
+import { getProfileCredentials } from '../utils/credential-broker'
+import {
+  HOURS_PER_MONTH,
+  analyzeCommitmentGroup,
+  groupRunningInstances,
+  summarizeCommitments,
+  summarizeEC2Costs,
+} from '../utils/ec2-costs'
+import { getUpgradeOptions, recommendUpgrades } from '../utils/instance-recommendations'
+import { getSettings } from '../config/settings'
+import { logger } from '../utils/logger'
 
 // Extend the base command options to include a flag for EC2 pricing information and tags
 interface EC2CommandOptions extends MultiRegionCommandOptions {
   includePricing?: boolean // Optional flag to include pricing information for EC2 instances
   includeTag?: string[] // Array of tag keys to include in the output
+  state?: string[] // Instance states to keep
+  instanceType?: string[] // Instance types to keep, wildcards allowed
+  tag?: string[] // key=value tags the instances must have
+  vpcId?: string[] // VPCs to keep
+  name?: string[] // Name tag patterns to keep
+  recommend?: boolean // Recommend upgrades for instances of previous-generation families
+}
+
+// Options of the ec2-commitment-analysis command
+interface EC2CommitmentCommandOptions extends MultiRegionCommandOptions {
+  offeringClass: string // standard, convertible or all
+}
+
+/**
+ * Instance states accepted by --state
+ */
+const INSTANCE_STATES = ['pending', 'running', 'shutting-down', 'terminated', 'stopping', 'stopped']
+
+/**
+ * Collect repeated option values into an array
+ */
+function collectValues(val: string, values: string[] = []): string[] {
+  return [...values, val]
+}
+
+/**
+ * Parse and collect an instance state
+ */
+function collectState(val: string, states: string[] = []): string[] {
+  const state = val.toLowerCase()
+  if (!INSTANCE_STATES.includes(state)) {
+    throw new InvalidArgumentError(`Expected one of ${INSTANCE_STATES.join(', ')}.`)
+  }
+  return states.includes(state) ? states : [...states, state]
+}
+
+/**
+ * Reserved Instance offering classes accepted by --offering-class
+ */
+const OFFERING_CLASSES = ['standard', 'convertible', 'all']
+
+/**
+ * Parse a Reserved Instance offering class
+ */
+function parseOfferingClass(val: string): string {
+  const offeringClass = val.toLowerCase()
+  if (!OFFERING_CLASSES.includes(offeringClass)) {
+    throw new InvalidArgumentError(`Expected one of ${OFFERING_CLASSES.join(', ')}.`)
+  }
+  return offeringClass
+}
+
+/**
+ * Parse and collect a key=value instance tag filter
+ */
+function collectInstanceTag(val: string, tags: string[] = []): string[] {
+  if (val.indexOf('=') < 1) {
+    throw new InvalidArgumentError('Expected a tag in key=value form.')
+  }
+  return [...tags, val]
 }
 
 /**
  * Register EC2-related commands with the CLI program
  *
  * This function adds the 'list-ec2' command to the Commander program object,
- * which allows users to list all EC2 instances across their AWS organization or in specific accounts.
+ * which allows users to list all EC2 instances across their AWS organization or in specific accounts,
+ * and the 'ec2-commitment-analysis' command.
  *
  * @param program The Commander program instance to register the command with
  */
 export function registerEC2Commands(program: Command): void {
-  program
+  const command = program
     .command('list-ec2') // Define the command name
     .description('List EC2 instances across all accounts in the organization') // Command description
-    .option('--profile <profile>', 'AWS profile to use (defaults to AWS environment variables if not specified)')
-    .option('-r, --role-name <roleName>', 'Role name to assume in target accounts', DEFAULT_ROLE_NAME)
-    .option('-o, --output <format>', 'Output format (json, table, html)', DEFAULT_OUTPUT_FORMAT)
-    .option('-a, --account-id <accountId>', 'Specific account ID to check (optional)')
-    .option('--region <region>', 'AWS region to check (can be specified multiple times)', collectRegions, [
-      DEFAULT_REGION, // Default to the region specified in constants if not provided
-    ])
-    .option('-p, --include-pricing', 'Include hourly pricing information for instances')
+    .option(
+      '--profile <profile>',
+      'AWS profile to use (defaults to the configured profile, then AWS environment variables)',
+      getSettings().profile,
+    )
+    .option('-r, --role-name <roleName>', 'Role name to assume in target accounts', getSettings().roleName)
+    .option('-o, --output <format>', 'Output format (json, table, html)', getSettings().output)
+
+  // Account selectors shared by all multi-account commands (--account-id, --ou, --account-tag, ...)
+  addAccountSelectionOptions(command)
+
+  // Region selectors shared by all multi-region commands (--region, --all-regions, --exclude-region)
+  addRegionSelectionOptions(command)
+    .option(
+      '--max-concurrency <number>',
+      'Maximum number of accounts/regions processed at the same time',
+      parsePositiveInteger,
+      DEFAULT_MAX_CONCURRENCY,
+    )
+    .option(
+      '-p, --include-pricing',
+      'Include on-demand pricing, projected monthly costs and cost totals by account, region and instance family',
+    )
+    .option(
+      '--recommend',
+      'Recommend current-generation and Graviton types for instances of previous-generation families, with the price delta',
+    )
     .option('--include-tag <tag...>', 'Include specific tag(s) in the output (can be specified multiple times)')
+    .option(
+      '--state <state>',
+      `Only instances in this state: ${INSTANCE_STATES.join(', ')} (can be specified multiple times)`,
+      collectState,
+    )
+    .option(
+      '--instance-type <type>',
+      'Only instances of this type, * and ? wildcards allowed, e.g. m5.* (can be specified multiple times)',
+      collectValues,
+    )
+    .option(
+      '--tag <key=value>',
+      'Only instances with this tag, wildcards allowed in the value (can be specified multiple times)',
+      collectInstanceTag,
+    )
+    .option('--vpc-id <vpcId>', 'Only instances in this VPC (can be specified multiple times)', collectValues)
+    .option(
+      '--name <pattern>',
+      'Only instances whose Name tag matches this pattern, * wildcards allowed, case-insensitive (can be specified multiple times)',
+      collectValues,
+    )
     .action(async (options: EC2CommandOptions) => {
       // Execute the command implementation with the provided options
       await listEC2Instances(options)
     })
+
+  const commitmentCommand = program
+    .command('ec2-commitment-analysis')
+    .description(
+      'Compare the on-demand cost of the running EC2 instances with Reserved Instance prices, per instance type, region and OS',
+    )
+    .option(
+      '--profile <profile>',
+      'AWS profile to use (defaults to the configured profile, then AWS environment variables)',
+      getSettings().profile,
+    )
+    .option('-r, --role-name <roleName>', 'Role name to assume in target accounts', getSettings().roleName)
+    .option('-o, --output <format>', 'Output format (json, table, html)', getSettings().output)
+
+  addAccountSelectionOptions(commitmentCommand)
+
+  addRegionSelectionOptions(commitmentCommand)
+    .option(
+      '--max-concurrency <number>',
+      'Maximum number of accounts/regions processed at the same time',
+      parsePositiveInteger,
+      DEFAULT_MAX_CONCURRENCY,
+    )
+    .option(
+      '--offering-class <class>',
+      `Reserved Instance offering class to compare: ${OFFERING_CLASSES.join(', ')}`,
+      parseOfferingClass,
+      'standard',
+    )
+    .action(async (options: EC2CommitmentCommandOptions) => {
+      await analyzeEC2Commitments(options)
+    })
+}
+
+/**
+ * Print the projected monthly cost of the running instances by account, region and instance family
+ */
+function printCostTotals(costTotals: EC2CostTotals): void {
+  const sections: Array<[string, EC2CostTotal[]]> = [
+    ['account', costTotals.ByAccount],
+    ['region', costTotals.ByRegion],
+    ['instance family', costTotals.ByFamily],
+    ['all running instances', costTotals.Total],
+  ]
+
+  for (const [label, totals] of sections) {
+    if (totals.length > 0) {
+      console.log(`\nProjected cost by ${label} (${HOURS_PER_MONTH} hours per month, on-demand):`)
+      formatOutput(totals as unknown as Record<string, unknown>[], 'table')
+    }
+  }
+}
+
+/**
+ * Price the instances of previous-generation families and their upgrade options
+ *
+ * The Price List API is public data, so it is queried once with the management account credentials.
+ *
+ * @param instances Instances of the fleet
+ * @param profile AWS profile of the command
+ * @returns Upgrade recommendations
+ */
+async function getUpgradeRecommendations(
+  instances: EC2InstanceInfo[],
+  profile: string | undefined,
+): Promise<EC2UpgradeRecommendation[]> {
+  const pairs = instances.flatMap((instance) => {
+    const options = getUpgradeOptions(instance.Type, normalizeOSForPricing(instance.OS))
+    return options.length === 0
+      ? []
+      : [instance.Type, ...options.map(({ specs }) => specs.InstanceType)].map((type) => ({
+          type,
+          region: instance.Region,
+          os: instance.OS,
+        }))
+  })
+  if (pairs.length === 0) {
+    return []
+  }
+
+  logger.info(
+    `Fetching prices of upgrade options for ${new Set(pairs.map((pair) => pair.type)).size} instance types...`,
+  )
+  const pricingCredentials = profile ? await getProfileCredentials(profile) : null
+  const priceMap = await batchGetEC2Prices(pairs, pricingCredentials)
+  return recommendUpgrades(
+    instances,
+    normalizeOSForPricing,
+    (type, region, os) => priceMap.get(`${type}:${region}:${os}`) || 'Price not available',
+  )
+}
+
+/**
+ * Print the upgrade recommendations for instances of previous-generation families
+ */
+function printUpgradeRecommendations(recommendations: EC2UpgradeRecommendation[]): void {
+  if (recommendations.length === 0) {
+    console.log('\nNo instances of previous-generation families found.')
+    return
+  }
+  console.log(`\nUpgrade recommendations (monthly delta for ${HOURS_PER_MONTH} hours, on-demand):`)
+  formatOutput(recommendations as unknown as Record<string, unknown>[], 'table')
 }
 
 /**
  * Implements the list-ec2 command functionality
  *
  * This function:
- * 1. Retrieves accounts from AWS Organizations
- * 2. For each account, gathers EC2 instance information across specified regions
- * 3. Optionally adds pricing information
+ * 1. Runs the EC2 collector across the selected accounts and regions, keeping the instances matching the filters
+ * 2. Optionally adds pricing information and projects the monthly cost of running instances
+ * 3. Optionally recommends upgrades for instances of previous-generation families
  * 4. Formats and displays the results
  *
  * @param options Command options including AWS profile, regions, output format, etc.
  */
 async function listEC2Instances(options: EC2CommandOptions): Promise<void> {
   try {
-    // Create clients for AWS Organizations and STS (Security Token Service)
-    const client = createOrganizationsClient(options.profile)
-    const stsClient = createSTSClient(options.profile)
-
-    // Get accounts - either a specific account or all accounts in the organization
-    let accounts: Record<string, unknown>[] = []
-
-    if (options.accountId) {
-      // If a specific account ID is provided, get just that one
-      const account = await getAccount(client, options.accountId)
-      if (account) {
-        accounts.push(account)
-      }
-    } else {
-      // Otherwise, get all accounts in the organization
-      accounts = await getAllAccounts(client)
-    }
+    // Gather EC2 instances from every account/region pair
+    const {
+      accounts,
+      results: allInstances,
+      errors,
+      skippedRegions,
+    } = await runAcrossAccountsAndRegions<EC2InstanceInfo>(
+      {
+        profile: options.profile,
+        roleName: options.roleName,
+        selection: options,
+        maxConcurrency: options.maxConcurrency,
+        regions: options.region,
+        allRegions: options.allRegions,
+        excludeRegions: options.excludeRegion,
+        resourceLabel: 'EC2 instances',
+      },
+      ({ region, credentials, accountId, accountName }) =>
+        getEC2Instances(
+          region,
+          credentials, // This could be null if using current credentials
+          accountId,
+          accountName,
+          options.includePricing, // Flag to include pricing information
+          options.includeTag, // Array of tag keys to include
+          {
+            states: options.state,
+            instanceTypes: options.instanceType,
+            tags: options.tag,
+            vpcIds: options.vpcId,
+            names: options.name,
+          },
+        ),
+    )
 
-    console.log(`Found ${accounts.length} accounts to check`)
-
-    // Filter only active accounts to process (ignore suspended/closed accounts)
-    const activeAccounts = accounts.filter((account) => account.Id && account.Status && account.Status === 'ACTIVE')
-
-    console.log(`Processing ${activeAccounts.length} active accounts concurrently...`)
-
-    // Create an array of promises to process each account concurrently
-    const accountPromises = activeAccounts.map(async (account) => {
-      try {
-        if (!account.Id) {
-          return []
-        }
-
-        const accountId = String(account.Id)
-        const accountName = String(account.Name || 'Unknown')
-        console.log(`Starting check for account: ${accountId} (${accountName})`)
-
-        try {
-          // Get credentials for this account
-          // This will return null if it's the current account (to use current credentials)
-          // or return assumed role credentials for cross-account access
-          const credentials = await getAccountCredentials(stsClient, accountId, options.roleName)
-
-          // Process all specified regions concurrently for this account
-          const regionPromises = options.region.map(async (region: string) => {
-            try {
-              // Get EC2 instances in this region for this account
-              const instancesInRegion = await getEC2Instances(
-                region,
-                credentials, // This could be null if using current credentials
-                accountId,
-                accountName,
-                options.includePricing, // Flag to include pricing information
-                options.includeTag, // Array of tag keys to include
-              )
-
-              console.log(`Found ${instancesInRegion.length} instances in ${region} for account ${accountId}`)
-              return instancesInRegion
-            } catch (regionError) {
-              console.warn(`Error checking region ${region} in account ${accountId}:`, regionError)
-              return [] // Return empty array for failed regions
-            }
-          })
-
-          // Wait for all region checks to complete and flatten the results
-          const results = await Promise.all(regionPromises)
-          return results.flat() // Combine all regions' results into a single array
-        } catch (credentialError) {
-          console.warn(`Error with credentials for account ${accountId}:`, credentialError)
-          return [] // Return empty array for failed accounts
-        }
-      } catch (accountError) {
-        console.warn(`Error processing account ${account.Id}:`, accountError)
-        return [] // Return empty array for failed accounts
-      }
-    })
-
-    // Wait for all account processing to complete
-    const instanceArrays = await Promise.all(accountPromises)
-
-    // Flatten the results from all accounts into a single array
-    const allInstances: EC2InstanceInfo[] = instanceArrays.flat()
-
-    console.log(`Found ${allInstances.length} EC2 instances total`)
+    const recommendations = options.recommend
+      ? await getUpgradeRecommendations(allInstances, options.profile)
+      : undefined
 
     // Format and display results based on specified output format
     if (options.output === 'html') {
@@ -151,15 +331,141 @@ async function listEC2Instances(options: EC2CommandOptions): Promise<void> {
         'EC2 Instances Across Accounts',
         accounts.length, // Total number of accounts in the organization
         accounts, // All accounts, including those without EC2
+        errors, // Accounts/regions that could not be checked
+        skippedRegions, // Regions not enabled in the account (--all-regions)
+        recommendations, // Upgrade recommendations (--recommend)
       )
       openInBrowser(htmlContent, 'list-ec2')
+    } else if ((options.includePricing || recommendations) && options.output !== 'table') {
+      // JSON output carries the cost totals and recommendations next to the instances
+      formatOutput(
+        {
+          results: allInstances,
+          ...(options.includePricing ? { costTotals: summarizeEC2Costs(allInstances) } : {}),
+          ...(recommendations ? { recommendations } : {}),
+          errors,
+          skippedRegions,
+        },
+        options.output,
+      )
     } else {
       // Otherwise, display as table or JSON in console
-      formatOutput(allInstances as unknown as Record<string, unknown>[], options.output)
+      formatResultsOutput(allInstances as unknown as Record<string, unknown>[], errors, options.output, skippedRegions)
+
+      if (options.includePricing) {
+        printCostTotals(summarizeEC2Costs(allInstances))
+      }
+      if (recommendations) {
+        printUpgradeRecommendations(recommendations)
+      }
     }
+
+    // Exit with code 2 when some accounts/regions could not be checked
+    setExitCodeForErrors(errors)
   } catch (error) {
     // Handle any errors that occur during the process
-    console.error('Error listing EC2 instances:', error)
+    logger.error('Error listing EC2 instances:', error)
     process.exit(1) // Exit with error code 1 to indicate failure
   }
 }
+
+/**
+ * Implements the ec2-commitment-analysis command functionality
+ *
+ * This function:
+ * 1. Runs the EC2 collector across the selected accounts and regions, keeping the running instances
+ * 2. Groups the instances by region, instance type and pricing OS
+ * 3. Compares the on-demand cost of each group with every Reserved Instance option
+ * 4. Formats and displays the groups and the savings of each option over the whole fleet
+ *
+ * @param options Command options including AWS profile, regions, output format, etc.
+ */
+async function analyzeEC2Commitments(options: EC2CommitmentCommandOptions): Promise<void> {
+  try {
+    const {
+      results: instances,
+      errors,
+      skippedRegions,
+    } = await runAcrossAccountsAndRegions<EC2InstanceInfo>(
+      {
+        profile: options.profile,
+        roleName: options.roleName,
+        selection: options,
+        maxConcurrency: options.maxConcurrency,
+        regions: options.region,
+        allRegions: options.allRegions,
+        excludeRegions: options.excludeRegion,
+        resourceLabel: 'EC2 instances',
+      },
+      ({ region, credentials, accountId, accountName }) =>
+        getEC2Instances(region, credentials, accountId, accountName, false, undefined, { states: ['running'] }),
+    )
+
+    // The Price List API is public data, so it is queried once with the management account credentials
+    const pricingCredentials = options.profile ? await getProfileCredentials(options.profile) : null
+    const offeringClasses = options.offeringClass === 'all' ? ['standard', 'convertible'] : [options.offeringClass]
+    const instanceGroups = groupRunningInstances(instances, normalizeOSForPricing)
+
+    logger.info(`Fetching on-demand and Reserved Instance prices for ${instanceGroups.length} instance groups...`)
+    const groups = await mapWithConcurrency(
+      instanceGroups,
+      options.maxConcurrency || DEFAULT_MAX_CONCURRENCY,
+      async (group) => {
+        const [onDemandPrice, reservedPrices] = await Promise.all([
+          getEC2Price(group.instanceType, group.region, group.os, pricingCredentials),
+          getEC2ReservedPrices(group.instanceType, group.region, group.os, pricingCredentials),
+        ])
+        return analyzeCommitmentGroup(group, onDemandPrice, reservedPrices, offeringClasses)
+      },
+    )
+    const totals = summarizeCommitments(groups)
+
+    if (options.output === 'html') {
+      const htmlContent = generateEC2CommitmentHtml(
+        groups,
+        totals,
+        'EC2 Reserved Instance Commitment Analysis',
+        errors,
+        skippedRegions,
+      )
+      openInBrowser(htmlContent, 'ec2-commitment-analysis')
+    } else if (options.output === 'table') {
+      formatResultsOutput(
+        groups.map(formatCommitmentGroupRow) as unknown as Record<string, unknown>[],
+        errors,
+        options.output,
+        skippedRegions,
+      )
+      if (totals.length > 0) {
+        console.log(`\nPotential savings over all running instances (${HOURS_PER_MONTH} hours per month):`)
+        formatOutput(totals as unknown as Record<string, unknown>[], 'table')
+      }
+    } else {
+      formatOutput({ groups, totals, errors, skippedRegions }, options.output)
+    }
+
+    // Exit with code 2 when some accounts/regions could not be checked
+    setExitCodeForErrors(errors)
+  } catch (error) {
+    logger.error('Error analyzing EC2 commitments:', error)
+    process.exit(1)
+  }
+}
+
+/**
+ * Flatten a commitment group into a table row, keeping only its best option
+ */
+function formatCommitmentGroupRow(group: EC2CommitmentGroup): Record<string, string | number> {
+  return {
+    Region: group.Region,
+    InstanceType: group.InstanceType,
+    PricingOS: group.PricingOS,
+    RunningInstances: group.RunningInstances,
+    Accounts: group.Accounts,
+    Currency: group.Currency,
+    OnDemandMonthlyCost: group.OnDemandMonthlyCost,
+    BestOption: group.BestOption || group.PriceError || '',
+    BestMonthlySavings: group.BestMonthlySavings,
+    BestSavingsPercent: group.BestSavingsPercent,
+  }
+}
@@ -0,0 +1,203 @@
+// File: src/commands/effective-policies.ts
+// This file implements the 'effective-policies' command, which shows the effective (merged) tag,
+// backup and AI services opt-out policies of each account and flags the accounts whose effective
+// policy differs from the other accounts of their OU.
+
+import { Command, InvalidArgumentError } from 'commander'
+import {
+  AccountSelectionOptions,
+  BaseCommandOptions,
+  EffectivePolicyInfo,
+  EffectivePolicyType,
+  TargetError,
+} from '../types'
+import { formatOutput, formatResultsOutput } from '../utils/formatter'
+import { generateEffectivePoliciesHtml, openInBrowser } from '../utils/html-formatter'
+import { addAccountSelectionOptions, selectAccounts } from '../utils/account-selection'
+import { buildOrganizationalUnitPaths } from '../utils/org-tree'
+import { flagOuMajorityDifferences } from '../utils/effective-policy'
+import { classifyError, setExitCodeForErrors, toErrorMessage } from '../utils/errors'
+import { DEFAULT_MAX_CONCURRENCY, mapWithConcurrency } from '../utils/concurrency'
+import { parsePositiveInteger } from '../utils'
+import { getAllOrganizationalUnits, getOrganizationRoot, getParentInfoForAccounts } from '../services/organization'
+import { getEffectivePolicy } from '../services/organization-policies'
+import { getSettings } from '../config/settings'
+import { getOrganizationTargets, withOrganizationId } from '../utils/multi-org'
+import { logger } from '../utils/logger'
+
+/**
+ * Short names accepted by --type, mapped to the Organizations policy types
+ */
+const EFFECTIVE_POLICY_TYPE_ALIASES: Record<string, EffectivePolicyType> = {
+  tag: 'TAG_POLICY',
+  backup: 'BACKUP_POLICY',
+  'ai-opt-out': 'AISERVICES_OPT_OUT_POLICY',
+}
+
+// Options accepted by the effective-policies command
+interface EffectivePoliciesCommandOptions extends BaseCommandOptions, AccountSelectionOptions {
+  type?: EffectivePolicyType[]
+  maxConcurrency?: number
+}
+
+/**
+ * Parse and collect a policy type (tag, backup, ai-opt-out or the full Organizations name)
+ */
+function collectEffectivePolicyType(val: string, types: EffectivePolicyType[] = []): EffectivePolicyType[] {
+  const fullNames = Object.values(EFFECTIVE_POLICY_TYPE_ALIASES)
+  const type = EFFECTIVE_POLICY_TYPE_ALIASES[val.toLowerCase()] || fullNames.find((name) => name === val.toUpperCase())
+  if (!type) {
+    throw new InvalidArgumentError(`Expected one of ${Object.keys(EFFECTIVE_POLICY_TYPE_ALIASES).join(', ')}.`)
+  }
+  return types.includes(type) ? types : [...types, type]
+}
+
+/**
+ * Register the effective-policies command with the CLI program
+ *
+ * @param program The Commander program instance to register the command with
+ */
+export function registerEffectivePolicyCommands(program: Command): void {
+  const command = program
+    .command('effective-policies')
+    .description('Show the effective tag, backup and AI opt-out policies of each account')
+    .option(
+      '-p, --profile <profile>',
+      'AWS profile to use (defaults to the configured profile, then AWS environment variables)',
+      getSettings().profile,
+    )
+    .option('-o, --output <format>', 'Output format (json, table, html)', getSettings().output)
+    .option(
+      '-t, --type <type>',
+      'Policy type: tag, backup or ai-opt-out (can be specified multiple times; default: all)',
+      collectEffectivePolicyType,
+    )
+    .option(
+      '--max-concurrency <number>',
+      'Maximum number of accounts processed at the same time',
+      parsePositiveInteger,
+      DEFAULT_MAX_CONCURRENCY,
+    )
+
+  // Account selectors shared by all multi-account commands (--account-id, --ou, --account-tag, ...)
+  addAccountSelectionOptions(command).action(async (options: EffectivePoliciesCommandOptions) => {
+    await showEffectivePolicies(options)
+  })
+}
+
+/**
+ * Implements the effective-policies command
+ *
+ * @param options Command options including profile, output format and policy types
+ */
+async function showEffectivePolicies(options: EffectivePoliciesCommandOptions): Promise<void> {
+  try {
+    const policyTypes =
+      options.type && options.type.length > 0 ? options.type : Object.values(EFFECTIVE_POLICY_TYPE_ALIASES)
+    const policies: EffectivePolicyInfo[] = []
+    const errors: TargetError[] = []
+
+    // One pass per organization in multi-organization mode, with the rows tagged with its ID
+    for (const { organizationId, client } of await getOrganizationTargets(options.profile)) {
+      const tag = <T>(record: T): T => (organizationId ? withOrganizationId(record, organizationId) : record)
+
+      logger.info(
+        `Fetching accounts and organizational units${organizationId ? ` of organization ${organizationId}` : ''}...`,
+      )
+      const rootId = await getOrganizationRoot(client)
+      const ouPaths = buildOrganizationalUnitPaths(await getAllOrganizationalUnits(client, rootId))
+      const accounts = await getParentInfoForAccounts(client, await selectAccounts(client, options))
+      logger.info(`Fetching ${policyTypes.join(', ')} effective policies for ${accounts.length} accounts...`)
+
+      // One lookup per account and policy type
+      const targets = accounts.flatMap((account) => policyTypes.map((policyType) => ({ account, policyType })))
+      const found = await mapWithConcurrency(
+        targets,
+        options.maxConcurrency || DEFAULT_MAX_CONCURRENCY,
+        async ({ account, policyType }): Promise<EffectivePolicyInfo | null> => {
+          const accountId = String(account.Id)
+          const parentId = String(account.ParentId)
+          try {
+            const effectivePolicy = await getEffectivePolicy(client, policyType, accountId)
+            return {
+              AccountId: accountId,
+              AccountName: String(account.Name || ''),
+              ParentId: parentId,
+              OuPath: parentId === rootId ? '/' : ouPaths.has(parentId) ? `/${ouPaths.get(parentId)}` : 'Unknown',
+              PolicyType: policyType,
+              Content: effectivePolicy?.Content || '',
+              LastUpdated: effectivePolicy?.LastUpdated,
+              DiffersFromOuMajority: false,
+            }
+          } catch (error) {
+            logger.warn(`Could not fetch the effective ${policyType} of account ${accountId}: ${toErrorMessage(error)}`)
+            errors.push(
+              tag({
+                AccountId: accountId,
+                AccountName: String(account.Name || ''),
+                Status: classifyError(error, false),
+                Error: `${policyType}: ${toErrorMessage(error)}`,
+              }),
+            )
+            return null
+          }
+        },
+      )
+
+      // Accounts are only compared with the other accounts of their OU, within their organization
+      const organizationPolicies = found.filter((policy): policy is EffectivePolicyInfo => !!policy)
+      policies.push(...flagOuMajorityDifferences(organizationPolicies).map(tag))
+    }
+
+    const differing = policies.filter((policy) => policy.DiffersFromOuMajority)
+    logger.info(`${differing.length} effective policies differ from the majority of their OU`)
+
+    if (options.output === 'html') {
+      const htmlContent = generateEffectivePoliciesHtml(policies, 'Effective Policies', errors)
+      openInBrowser(htmlContent, 'effective-policies')
+    } else if (options.output === 'table') {
+      // The documents are too large for a table; only the comparison is shown
+      formatResultsOutput(
+        policies.map((policy) => ({
+          ...(policy.OrganizationId ? { OrganizationId: policy.OrganizationId } : {}),
+          AccountId: policy.AccountId,
+          AccountName: policy.AccountName,
+          OuPath: policy.OuPath,
+          PolicyType: policy.PolicyType,
+          HasPolicy: policy.Content ? 'yes' : 'no',
+          DiffersFromOuMajority: policy.DiffersFromOuMajority ? 'yes' : '',
+        })),
+        errors,
+        options.output,
+      )
+    } else {
+      formatOutput(
+        {
+          results: policies.map((policy) => ({ ...policy, Content: parsePolicyContent(policy.Content) })),
+          errors,
+        },
+        options.output,
+      )
+    }
+
+    // Exit with code 2 when some accounts could not be checked
+    setExitCodeForErrors(errors)
+  } catch (error) {
+    logger.error('Error fetching effective policies:', error)
+    process.exit(1)
+  }
+}
+
+/**
+ * Parse a policy document for JSON output, keeping it as text when it is not valid JSON
+ */
+function parsePolicyContent(content: string): unknown {
+  if (!content) {
+    return null
+  }
+  try {
+    return JSON.parse(content)
+  } catch {
+    return content
+  }
+}
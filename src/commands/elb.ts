@@ -5,14 +5,17 @@
 
 import { Command } from 'commander'
 import { MultiRegionCommandOptions, ELBInfo } from '../types'
-import { formatOutput } from '../utils/formatter'
+import { formatResultsOutput } from '../utils/formatter'
+import { setExitCodeForErrors } from '../utils/errors'
 import { generateELBHtml, openInBrowser } from '../utils/html-formatter'
-import { createOrganizationsClient, createSTSClient } from '../utils/clients'
-import { getAccount, getAllAccounts } from '../services/organization'
-import { assumeRole } from '../services/sts'
 import { getELBs } from '../services/elb'
-import { collectRegions } from '../utils'
-import { DEFAULT_REGION, DEFAULT_ROLE_NAME, DEFAULT_OUTPUT_FORMAT } from '../config/constants'
+import { parsePositiveInteger } from '../utils'
+import { addRegionSelectionOptions } from '../utils/region-selection'
+import { DEFAULT_MAX_CONCURRENCY } from '../utils/concurrency'
+import { addAccountSelectionOptions } from '../utils/account-selection'
+import { runAcrossAccountsAndRegions } from '../utils/multi-account'
+import { getSettings } from '../config/settings'
+import { logger } from '../utils/logger'
 
 /**
  * Register ELB-related commands with the CLI program
@@ -24,16 +27,28 @@ import { DEFAULT_REGION, DEFAULT_ROLE_NAME, DEFAULT_OUTPUT_FORMAT } from '../con
  * @param program The Commander program instance to register the command with
  */
 export function registerELBCommands(program: Command): void {
-  program
+  const command = program
     .command('list-elb') // Define the command name
     .description('List Elastic Load Balancers across all accounts in the organization') // Command description
-    .option('--profile <profile>', 'AWS profile to use (defaults to AWS environment variables if not specified)')
-    .option('-r, --role-name <roleName>', 'Role name to assume in target accounts', DEFAULT_ROLE_NAME)
-    .option('-o, --output <format>', 'Output format (json, table, html)', DEFAULT_OUTPUT_FORMAT)
-    .option('-a, --account-id <accountId>', 'Specific account ID to check (optional)')
-    .option('--region <region>', 'AWS region to check (can be specified multiple times)', collectRegions, [
-      DEFAULT_REGION, // Default to the region specified in constants if not provided
-    ])
+    .option(
+      '--profile <profile>',
+      'AWS profile to use (defaults to the configured profile, then AWS environment variables)',
+      getSettings().profile,
+    )
+    .option('-r, --role-name <roleName>', 'Role name to assume in target accounts', getSettings().roleName)
+    .option('-o, --output <format>', 'Output format (json, table, html)', getSettings().output)
+
+  // Account selectors shared by all multi-account commands (--account-id, --ou, --account-tag, ...)
+  addAccountSelectionOptions(command)
+
+  // Region selectors shared by all multi-region commands (--region, --all-regions, --exclude-region)
+  addRegionSelectionOptions(command)
+    .option(
+      '--max-concurrency <number>',
+      'Maximum number of accounts/regions processed at the same time',
+      parsePositiveInteger,
+      DEFAULT_MAX_CONCURRENCY,
+    )
     .action(async (options: MultiRegionCommandOptions) => {
       // Execute the command implementation with the provided options
       await listELBs(options)
@@ -53,88 +68,25 @@ export function registerELBCommands(program: Command): void {
  */
 async function listELBs(options: MultiRegionCommandOptions): Promise<void> {
   try {
-    // Create client for AWS Organizations API
-    const client = createOrganizationsClient(options.profile)
-
-    // Get accounts - either a specific account or all accounts in the organization
-    let accounts: Record<string, unknown>[] = []
-
-    if (options.accountId) {
-      // If a specific account ID is provided, get just that one
-      const account = await getAccount(client, options.accountId)
-      if (account) {
-        accounts.push(account)
-      }
-    } else {
-      // Otherwise, get all accounts in the organization
-      accounts = await getAllAccounts(client)
-    }
-
-    console.log(`Found ${accounts.length} accounts to check`)
-
-    // Create STS client for assuming roles in target accounts
-    const stsClient = createSTSClient(options.profile)
-
-    // Filter only active accounts to process (ignore suspended/closed accounts)
-    const activeAccounts = accounts.filter((account) => account.Id && account.Status && account.Status === 'ACTIVE')
-
-    console.log(`Processing ${activeAccounts.length} active accounts concurrently...`)
-
-    // Create an array of promises to process each account concurrently
-    const accountPromises = activeAccounts.map(async (account) => {
-      try {
-        // Safety check for account ID
-        if (!account.Id) {
-          return []
-        }
-
-        console.log(`Starting check for account: ${account.Id} (${account.Name || 'Unknown'})`)
-
-        // Assume role in the target account to get temporary credentials
-        const credentials = await assumeRole(stsClient, String(account.Id), options.roleName)
-
-        if (!credentials) {
-          // Skip this account if we can't assume the role
-          console.warn(`Could not assume role in account ${account.Id}`)
-          return []
-        }
-
-        // Process all specified regions concurrently for this account
-        const regionPromises = options.region.map(async (region: string) => {
-          try {
-            // Get ELBs in this region for this account
-            // This retrieves Classic LBs, ALBs, NLBs, and Gateway LBs
-            const elbsInRegion = await getELBs(
-              region,
-              credentials,
-              String(account.Id),
-              String(account.Name || 'Unknown'),
-            )
-
-            console.log(`Found ${elbsInRegion.length} ELBs in ${region} for account ${account.Id}`)
-            return elbsInRegion
-          } catch (regionError) {
-            console.warn(`Error checking region ${region} in account ${account.Id}:`, regionError)
-            return [] // Return empty array for failed regions
-          }
-        })
-
-        // Wait for all region checks to complete and flatten the results
-        const results = await Promise.all(regionPromises)
-        return results.flat() // Combine all regions' results into a single array
-      } catch (accountError) {
-        console.warn(`Error processing account ${account.Id}:`, accountError)
-        return [] // Return empty array for failed accounts
-      }
-    })
-
-    // Wait for all account processing to complete
-    const elbArrays = await Promise.all(accountPromises)
-
-    // Flatten the results from all accounts into a single array
-    const allELBs: ELBInfo[] = elbArrays.flat()
-
-    console.log(`Found ${allELBs.length} ELBs total`)
+    // Gather ELBs from every account/region pair
+    const {
+      accounts,
+      results: allELBs,
+      errors,
+      skippedRegions,
+    } = await runAcrossAccountsAndRegions<ELBInfo>(
+      {
+        profile: options.profile,
+        roleName: options.roleName,
+        selection: options,
+        maxConcurrency: options.maxConcurrency,
+        regions: options.region,
+        allRegions: options.allRegions,
+        excludeRegions: options.excludeRegion,
+        resourceLabel: 'ELBs',
+      },
+      ({ region, credentials, accountId, accountName }) => getELBs(region, credentials, accountId, accountName),
+    )
 
     // Format and display results based on specified output format
     if (options.output === 'html') {
@@ -144,15 +96,20 @@ async function listELBs(options: MultiRegionCommandOptions): Promise<void> {
         'Elastic Load Balancers Across Accounts',
         accounts.length, // Total number of accounts in the organization
         accounts, // All accounts, including those without ELBs
+        errors, // Accounts/regions that could not be checked
+        skippedRegions, // Regions not enabled in the account (--all-regions)
       )
       openInBrowser(htmlContent, 'list-elb')
     } else {
       // Otherwise, display as table or JSON in console
-      formatOutput(allELBs as unknown as Record<string, unknown>[], options.output)
+      formatResultsOutput(allELBs as unknown as Record<string, unknown>[], errors, options.output, skippedRegions)
     }
+
+    // Exit with code 2 when some accounts/regions could not be checked
+    setExitCodeForErrors(errors)
   } catch (error) {
     // Handle any errors that occur during the process
-    console.error('Error listing ELBs:', error)
+    logger.error('Error listing ELBs:', error)
     process.exit(1) // Exit with error code 1 to indicate failure
   }
 }
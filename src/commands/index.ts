@@ -14,6 +14,14 @@ import { registerEBSCommands } from './ebs'
 import { registerHENICommands } from './heni'
 import { registerRoleCommands } from './role'
 import { registerS3Commands } from './s3'
+import { registerConfigCommands } from './config'
+import { registerOrgTreeCommands } from './org-tree'
+import { registerOrgPolicyCommands } from './org-policies'
+import { registerEffectivePolicyCommands } from './effective-policies'
+import { registerOrgServicesCommands } from './org-services'
+import { registerOrgSnapshotCommands } from './org-snapshot'
+import { registerBaselineCommands } from './baseline'
+import { registerPricingCommands } from './pricing'
 
 /**
  * Register all commands with the CLI program
@@ -40,9 +48,30 @@ export function registerCommands(program: Command): void {
   // Register account management commands
   registerAccountCommands(program)
 
+  // Register organization structure commands
+  registerOrgTreeCommands(program)
+
+  // Register organization policy commands
+  registerOrgPolicyCommands(program)
+
+  // Register effective policy commands
+  registerEffectivePolicyCommands(program)
+
+  // Register trusted access and delegated administrator commands
+  registerOrgServicesCommands(program)
+
+  // Register organization snapshot and diff commands
+  registerOrgSnapshotCommands(program)
+
+  // Register landing zone baseline commands
+  registerBaselineCommands(program)
+
   // Register EC2-related commands
   registerEC2Commands(program)
 
+  // Register EC2 price catalog commands
+  registerPricingCommands(program)
+
   // Register RDS database commands
   registerRDSCommands(program)
 
@@ -69,4 +98,7 @@ export function registerCommands(program: Command): void {
 
   // Register S3 bucket commands
   registerS3Commands(program)
+
+  // Register configuration commands
+  registerConfigCommands(program)
 }
@@ -0,0 +1,381 @@
+// File: src/commands/org-policies.ts
+// This file implements the 'list-policies' command, which lists the service control policies,
+// tag policies and backup policies of the organization with their attachments, and the SCPs
+// each account inherits along its OU path, and the 'evaluate-scp' command, which checks locally
+// whether these SCPs deny an action in an account.
+
+import { Command, InvalidArgumentError } from 'commander'
+import { Organizations } from '@aws-sdk/client-organizations'
+import {
+  AccountPolicyInheritance,
+  AccountSelectionOptions,
+  BaseCommandOptions,
+  OrganizationPolicyInfo,
+  OrganizationPolicyType,
+  ScpEvaluationResult,
+} from '../types'
+import { formatOutput } from '../utils/formatter'
+import { generateOrganizationPoliciesHtml, openInBrowser } from '../utils/html-formatter'
+import { addAccountSelectionOptions, selectAccounts } from '../utils/account-selection'
+import { computeInheritedPolicies, getPolicyLevels } from '../utils/policy-inheritance'
+import { evaluateScps } from '../utils/scp-evaluator'
+import { DEFAULT_MAX_CONCURRENCY } from '../utils/concurrency'
+import { parsePositiveInteger } from '../utils'
+import {
+  findAccount,
+  getAccount,
+  getAllOrganizationalUnits,
+  getOrganizationDetails,
+  getOrganizationRoot,
+  getParentInfoForAccounts,
+} from '../services/organization'
+import { getOrganizationPolicies, isPolicyTypeEnabled } from '../services/organization-policies'
+import { getSettings } from '../config/settings'
+import { getOrganizationTargets, isMultiOrganization, withOrganizationId } from '../utils/multi-org'
+import { logger } from '../utils/logger'
+
+/**
+ * Short names accepted by --type, mapped to the Organizations policy types
+ */
+const POLICY_TYPE_ALIASES: Record<string, OrganizationPolicyType> = {
+  scp: 'SERVICE_CONTROL_POLICY',
+  tag: 'TAG_POLICY',
+  backup: 'BACKUP_POLICY',
+}
+
+// Options accepted by the list-policies command
+interface PoliciesCommandOptions extends BaseCommandOptions, AccountSelectionOptions {
+  type?: OrganizationPolicyType[]
+  showContent?: boolean
+  maxConcurrency?: number
+}
+
+// Options accepted by the evaluate-scp command
+interface EvaluateScpCommandOptions extends BaseCommandOptions {
+  accountId: string
+  action: string
+  resource?: string
+  region?: string
+  principalArn?: string
+  context?: string[]
+}
+
+/**
+ * Parse and collect a policy type (scp, tag, backup or the full Organizations name)
+ */
+function collectPolicyType(val: string, types: OrganizationPolicyType[] = []): OrganizationPolicyType[] {
+  const fullNames = Object.values(POLICY_TYPE_ALIASES)
+  const type = POLICY_TYPE_ALIASES[val.toLowerCase()] || fullNames.find((name) => name === val.toUpperCase())
+  if (!type) {
+    throw new InvalidArgumentError(`Expected one of ${Object.keys(POLICY_TYPE_ALIASES).join(', ')}.`)
+  }
+  return types.includes(type) ? types : [...types, type]
+}
+
+/**
+ * Register the list-policies command with the CLI program
+ *
+ * @param program The Commander program instance to register the command with
+ */
+export function registerOrgPolicyCommands(program: Command): void {
+  const command = program
+    .command('list-policies')
+    .description('List SCPs, tag policies and backup policies with their targets, and the SCPs inherited by accounts')
+    .option(
+      '-p, --profile <profile>',
+      'AWS profile to use (defaults to the configured profile, then AWS environment variables)',
+      getSettings().profile,
+    )
+    .option('-o, --output <format>', 'Output format (json, table, html)', getSettings().output)
+    .option(
+      '-t, --type <type>',
+      'Policy type to list: scp, tag or backup (can be specified multiple times; default: all)',
+      collectPolicyType,
+    )
+    .option('--show-content', 'Print the policy documents in table output (always included in json and html)')
+    .option(
+      '--max-concurrency <number>',
+      'Maximum number of policies described at the same time',
+      parsePositiveInteger,
+      DEFAULT_MAX_CONCURRENCY,
+    )
+
+  // Account selectors limit the accounts shown in the inherited SCP section
+  addAccountSelectionOptions(command).action(async (options: PoliciesCommandOptions) => {
+    await listPolicies(options)
+  })
+
+  program
+    .command('evaluate-scp')
+    .description('Check locally whether the SCPs applying to an account deny an action')
+    .requiredOption('-a, --account-id <accountId>', 'Account ID to evaluate')
+    .requiredOption('--action <action>', 'Action to evaluate, e.g. s3:PutObject')
+    .option('--resource <arn>', 'Resource ARN of the request (default: any resource)')
+    .option('--region <region>', 'Region of the request (sets aws:RequestedRegion)')
+    .option('--principal-arn <arn>', 'ARN of the calling role or user (sets aws:PrincipalArn)')
+    .option(
+      '--context <key=value>',
+      'Additional condition key of the request, e.g. aws:PrincipalTag/team=platform (can be specified multiple times; repeat a key for multiple values)',
+      collectContextKey,
+    )
+    .option(
+      '-p, --profile <profile>',
+      'AWS profile to use (defaults to the configured profile, then AWS environment variables)',
+      getSettings().profile,
+    )
+    .option('-o, --output <format>', 'Output format (json, table)', getSettings().output)
+    .action(async (options: EvaluateScpCommandOptions) => {
+      await evaluateScp(options)
+    })
+}
+
+/**
+ * Parse and collect a key=value condition key
+ */
+function collectContextKey(val: string, values: string[] = []): string[] {
+  if (val.indexOf('=') < 1) {
+    throw new InvalidArgumentError('Expected a condition key in key=value form.')
+  }
+  return [...values, val]
+}
+
+/**
+ * Implements the list-policies command
+ *
+ * @param options Command options including profile, output format and policy types
+ */
+async function listPolicies(options: PoliciesCommandOptions): Promise<void> {
+  try {
+    const policyTypes = options.type && options.type.length > 0 ? options.type : Object.values(POLICY_TYPE_ALIASES)
+    const policies: OrganizationPolicyInfo[] = []
+    const inheritance: AccountPolicyInheritance[] = []
+
+    // One pass per organization in multi-organization mode, with the rows tagged with its ID
+    for (const { organizationId, client } of await getOrganizationTargets(options.profile)) {
+      const tag = <T>(record: T): T => (organizationId ? withOrganizationId(record, organizationId) : record)
+      const organizationLabel = organizationId ? ` in organization ${organizationId}` : ''
+
+      logger.info(`Fetching ${policyTypes.join(', ')} policies${organizationLabel}...`)
+      const organizationPolicies = await getOrganizationPolicies(client, policyTypes, options.maxConcurrency)
+      logger.info(`Found ${organizationPolicies.length} policies${organizationLabel}`)
+      policies.push(...organizationPolicies.map(tag))
+
+      // Inherited SCPs of the selected accounts, along their OU path
+      if (policyTypes.includes('SERVICE_CONTROL_POLICY')) {
+        logger.info(`Computing the SCPs inherited by each account${organizationLabel}...`)
+        const rootId = await getOrganizationRoot(client)
+        const ous = await getAllOrganizationalUnits(client, rootId)
+        const accounts = await getParentInfoForAccounts(client, await selectAccounts(client, options))
+        const scps = organizationPolicies.filter((policy) => policy.Type === 'SERVICE_CONTROL_POLICY')
+        inheritance.push(...computeInheritedPolicies({ rootId, ous, accounts }, scps).map(tag))
+      }
+    }
+
+    if (options.output === 'html') {
+      const htmlContent = generateOrganizationPoliciesHtml(policies, inheritance, 'Organization Policies')
+      openInBrowser(htmlContent, 'list-policies')
+      return
+    }
+
+    if (options.output !== 'table') {
+      formatOutput({ policies, accounts: inheritance } as unknown as Record<string, unknown>, options.output)
+      return
+    }
+
+    console.log(`\nPolicies (${policies.length}):`)
+    formatOutput(
+      policies.map((policy) => ({
+        ...(policy.OrganizationId ? { OrganizationId: policy.OrganizationId } : {}),
+        PolicyId: policy.PolicyId,
+        PolicyName: policy.PolicyName,
+        Type: policy.Type,
+        AwsManaged: policy.AwsManaged,
+        Targets: policy.Targets.map((target) => `${target.Name} (${target.Type})`).join(', '),
+      })),
+      options.output,
+    )
+
+    if (options.showContent) {
+      for (const policy of policies) {
+        console.log(`\n${policy.PolicyName} (${policy.PolicyId}):`)
+        console.log(formatPolicyContent(policy.Content))
+      }
+    }
+
+    if (inheritance.length > 0) {
+      console.log(`\nInherited SCPs (${inheritance.length} accounts):`)
+      formatOutput(
+        inheritance.map((account) => ({
+          ...(account.OrganizationId ? { OrganizationId: account.OrganizationId } : {}),
+          AccountId: account.AccountId,
+          AccountName: account.AccountName,
+          OuPath: account.OuPath,
+          SCPs: account.Policies.map((policy) => `${policy.PolicyName} (${policy.AttachedTo.Name})`).join(', '),
+        })),
+        options.output,
+      )
+    }
+  } catch (error) {
+    logger.error('Error listing organization policies:', error)
+    process.exit(1)
+  }
+}
+
+/**
+ * Pretty-print a policy document, keeping it as is when it is not valid JSON
+ */
+function formatPolicyContent(content: string): string {
+  try {
+    return JSON.stringify(JSON.parse(content), null, 2)
+  } catch {
+    return content
+  }
+}
+
+/**
+ * Build the condition keys of the evaluated request from the command options
+ *
+ * @param options evaluate-scp options
+ * @param account The evaluated account
+ * @param organizationId ID of the organization, for aws:PrincipalOrgID
+ * @returns Values of each condition key
+ */
+function buildRequestContext(
+  options: EvaluateScpCommandOptions,
+  account: Record<string, unknown>,
+  organizationId: string,
+): Record<string, string[]> {
+  const context: Record<string, string[]> = {
+    'aws:PrincipalAccount': [String(account.Id)],
+    'aws:PrincipalOrgID': [organizationId],
+  }
+  if (options.region) {
+    context['aws:RequestedRegion'] = [options.region]
+  }
+  if (options.principalArn) {
+    context['aws:PrincipalArn'] = [options.principalArn]
+  }
+
+  // Values given with --context replace the defaults above; a repeated key is multi-valued
+  const explicit: Record<string, string[]> = {}
+  for (const entry of options.context || []) {
+    const separator = entry.indexOf('=')
+    const key = entry.slice(0, separator)
+    explicit[key] = [...(explicit[key] || []), entry.slice(separator + 1)]
+  }
+  for (const key of Object.keys(explicit)) {
+    const existing = Object.keys(context).find((name) => name.toLowerCase() === key.toLowerCase())
+    if (existing) {
+      delete context[existing]
+    }
+  }
+
+  return { ...context, ...explicit }
+}
+
+/**
+ * Implements the evaluate-scp command
+ *
+ * @param options Command options including the account, action and request context
+ */
+async function evaluateScp(options: EvaluateScpCommandOptions): Promise<void> {
+  try {
+    // The organization holding the account; in multi-organization mode, each organization is searched
+    let client: Organizations | undefined
+    let organizationId: string | undefined
+    let account: Record<string, unknown> | null = null
+    for (const target of await getOrganizationTargets(options.profile)) {
+      account = target.organizationId
+        ? await findAccount(target.client, options.accountId)
+        : await getAccount(target.client, options.accountId)
+      if (account) {
+        client = target.client
+        organizationId = target.organizationId
+        break
+      }
+    }
+    if (!client || !account) {
+      logger.error(`Account ${options.accountId} not found in the organization${isMultiOrganization() ? 's' : ''}`)
+      process.exit(1)
+    }
+    const organization = await getOrganizationDetails(client)
+
+    let result: ScpEvaluationResult
+    if (organization?.MasterAccountId === options.accountId) {
+      // SCPs never restrict the management account
+      result = {
+        AccountId: options.accountId,
+        AccountName: String(account.Name || ''),
+        Action: options.action,
+        Resource: options.resource || '*',
+        Decision: 'ALLOWED',
+        Reason: 'SCPs do not apply to the management account',
+        MatchedStatements: [],
+        Warnings: [],
+      }
+    } else if (!(await isPolicyTypeEnabled(client, 'SERVICE_CONTROL_POLICY'))) {
+      // Without the policy type enabled on the root, no SCP is enforced
+      result = {
+        AccountId: options.accountId,
+        AccountName: String(account.Name || ''),
+        Action: options.action,
+        Resource: options.resource || '*',
+        Decision: 'ALLOWED',
+        Reason: 'SCPs are not enabled in the organization',
+        MatchedStatements: [],
+        Warnings: [],
+      }
+    } else {
+      logger.info('Fetching the SCPs applying to the account...')
+      const rootId = await getOrganizationRoot(client)
+      const ous = await getAllOrganizationalUnits(client, rootId)
+      const [accountWithParent] = await getParentInfoForAccounts(client, [account])
+      const scps = await getOrganizationPolicies(client, ['SERVICE_CONTROL_POLICY'])
+      const levels = getPolicyLevels({ rootId, ous, accounts: [accountWithParent] }, accountWithParent, scps)
+      if (levels.length === 1) {
+        logger.warn('The OU path of the account could not be determined; only SCPs attached to the account are used')
+      }
+
+      result = {
+        AccountId: options.accountId,
+        AccountName: String(account.Name || ''),
+        ...evaluateScps(levels, {
+          Action: options.action,
+          Resource: options.resource,
+          Context: buildRequestContext(options, account, String(organization?.Id || '')),
+        }),
+      }
+    }
+
+    if (organizationId) {
+      result = withOrganizationId(result, organizationId)
+    }
+
+    if (options.output !== 'table') {
+      formatOutput(result as unknown as Record<string, unknown>, options.output)
+      return
+    }
+
+    console.log(result.OrganizationId ? `\nOrganization: ${result.OrganizationId}` : '')
+    console.log(`Decision: ${result.Decision}`)
+    console.log(`Reason: ${result.Reason}`)
+    if (result.MatchedStatements.length > 0) {
+      console.log(`\nMatching statements (${result.MatchedStatements.length}):`)
+      formatOutput(
+        result.MatchedStatements.map((match) => ({
+          PolicyName: match.PolicyName,
+          PolicyId: match.PolicyId,
+          AttachedTo: `${match.AttachedTo.Name} (${match.AttachedTo.Type})`,
+          Statement: match.Sid || `#${match.StatementIndex}`,
+          Effect: match.Effect,
+          Deciding: match === result.DecidingStatement ? 'yes' : '',
+        })),
+        options.output,
+      )
+    }
+    result.Warnings.forEach((warning) => logger.warn(warning))
+  } catch (error) {
+    logger.error('Error evaluating SCPs:', error)
+    process.exit(1)
+  }
+}
@@ -0,0 +1,219 @@
+// File: src/commands/org-services.ts
+// This file implements the 'org-services' command, which reports the organization feature set and
+// management account, the AWS services with trusted access, and the delegated administrator accounts.
+
+import { Command } from 'commander'
+import { Organizations } from '@aws-sdk/client-organizations'
+import { BaseCommandOptions, DelegatedAdministratorInfo, OrganizationServicesReport } from '../types'
+import { formatOutput } from '../utils/formatter'
+import { generateOrganizationServicesHtml, openInBrowser } from '../utils/html-formatter'
+import { DEFAULT_MAX_CONCURRENCY, mapWithConcurrency } from '../utils/concurrency'
+import {
+  getAllAccounts,
+  getDelegatedAdministrators,
+  getDelegatedServices,
+  getOrganizationDetails,
+  getTrustedServiceAccess,
+} from '../services/organization'
+import { getSettings } from '../config/settings'
+import { getOrganizationTargets, isMultiOrganization } from '../utils/multi-org'
+import { logger } from '../utils/logger'
+
+/**
+ * Register the org-services command with the CLI program
+ *
+ * @param program The Commander program instance to register the command with
+ */
+export function registerOrgServicesCommands(program: Command): void {
+  program
+    .command('org-services')
+    .description('List the services with trusted access and the delegated administrators of the organization')
+    .option(
+      '-p, --profile <profile>',
+      'AWS profile to use (defaults to the configured profile, then AWS environment variables)',
+      getSettings().profile,
+    )
+    .option('-o, --output <format>', 'Output format (json, table, html)', getSettings().output)
+    .action(async (options: BaseCommandOptions) => {
+      await showOrganizationServices(options)
+    })
+}
+
+/**
+ * Collect the organization settings, trusted services and delegated administrators
+ *
+ * Delegated administrators are cross-referenced with the account list of the organization,
+ * and their services with the services that have trusted access.
+ *
+ * @param client - Organizations client using the management account (or a delegated administrator)
+ * @returns The report, with the inconsistencies found in Findings
+ */
+async function getOrganizationServicesReport(client: Organizations): Promise<OrganizationServicesReport> {
+  const organization = await getOrganizationDetails(client)
+  if (!organization) {
+    throw new Error('Organization details not available')
+  }
+
+  const accounts = await getAllAccounts(client)
+  const accountById = new Map(accounts.map((account) => [String(account.Id), account]))
+  const managementAccountId = String(organization.MasterAccountId || '')
+
+  const report: OrganizationServicesReport = {
+    OrganizationId: String(organization.Id || ''),
+    FeatureSet: String(organization.FeatureSet || ''),
+    ManagementAccountId: managementAccountId,
+    ManagementAccountEmail: String(organization.MasterAccountEmail || ''),
+    ManagementAccountName: String(accountById.get(managementAccountId)?.Name || ''),
+    TrustedServices: [],
+    DelegatedAdministrators: [],
+    Findings: [],
+  }
+
+  // Trusted access and delegated administrators are only available with all features enabled
+  if (report.FeatureSet !== 'ALL') {
+    report.Findings.push(
+      `The organization only has the ${report.FeatureSet} feature set; trusted access and delegated administrators require ALL features`,
+    )
+    return report
+  }
+
+  logger.info('Fetching services with trusted access...')
+  const trustedServices = await getTrustedServiceAccess(client)
+  const trustedPrincipals = new Set(trustedServices.map((service) => String(service.ServicePrincipal)))
+
+  logger.info('Fetching delegated administrators...')
+  const administrators = await getDelegatedAdministrators(client)
+  report.DelegatedAdministrators = await mapWithConcurrency(
+    administrators,
+    DEFAULT_MAX_CONCURRENCY,
+    async (administrator): Promise<DelegatedAdministratorInfo> => {
+      const accountId = String(administrator.Id)
+      const account = accountById.get(accountId)
+      const services = await getDelegatedServices(client, accountId)
+
+      return {
+        AccountId: accountId,
+        AccountName: String(account?.Name || administrator.Name || ''),
+        Email: String(account?.Email || administrator.Email || ''),
+        Status: account ? String(account.Status || 'Unknown') : 'NOT_FOUND',
+        DelegationEnabledDate: administrator.DelegationEnabledDate as Date | undefined,
+        Services: services
+          .map((service) => ({
+            ServicePrincipal: String(service.ServicePrincipal),
+            DelegationEnabledDate: service.DelegationEnabledDate as Date | undefined,
+            TrustedAccess: trustedPrincipals.has(String(service.ServicePrincipal)),
+          }))
+          .sort((a, b) => a.ServicePrincipal.localeCompare(b.ServicePrincipal)),
+      }
+    },
+  )
+  report.DelegatedAdministrators.sort((a, b) => a.AccountName.localeCompare(b.AccountName))
+
+  report.TrustedServices = trustedServices
+    .map((service) => ({
+      ServicePrincipal: String(service.ServicePrincipal),
+      DateEnabled: service.DateEnabled as Date | undefined,
+      DelegatedAdministrators: report.DelegatedAdministrators.filter((administrator) =>
+        administrator.Services.some(({ ServicePrincipal }) => ServicePrincipal === service.ServicePrincipal),
+      ).map((administrator) => administrator.AccountId),
+    }))
+    .sort((a, b) => a.ServicePrincipal.localeCompare(b.ServicePrincipal))
+
+  // Cross-reference delegated administrators with the account list and the trusted services
+  for (const administrator of report.DelegatedAdministrators) {
+    const label = `Delegated administrator ${administrator.AccountName || administrator.AccountId} (${administrator.AccountId})`
+    if (administrator.Status === 'NOT_FOUND') {
+      report.Findings.push(`${label} is not in the account list of the organization`)
+    } else if (administrator.Status !== 'ACTIVE') {
+      report.Findings.push(`${label} is ${administrator.Status}`)
+    }
+    for (const service of administrator.Services.filter(({ TrustedAccess }) => !TrustedAccess)) {
+      report.Findings.push(`${label} is delegated ${service.ServicePrincipal}, which does not have trusted access`)
+    }
+  }
+
+  return report
+}
+
+/**
+ * Print the report of one organization as tables
+ *
+ * @param report - Organization settings, trusted services and delegated administrators
+ */
+function printOrganizationServicesTable(report: OrganizationServicesReport): void {
+  console.log(`\nOrganization: ${report.OrganizationId}`)
+  console.log(`Feature set: ${report.FeatureSet}`)
+  console.log(
+    `Management account: ${report.ManagementAccountName} (${report.ManagementAccountId}) ${report.ManagementAccountEmail}`,
+  )
+
+  console.log(`\nServices with trusted access (${report.TrustedServices.length}):`)
+  if (report.TrustedServices.length > 0) {
+    formatOutput(
+      report.TrustedServices.map((service) => ({
+        ServicePrincipal: service.ServicePrincipal,
+        DateEnabled: service.DateEnabled,
+        DelegatedAdministrators: service.DelegatedAdministrators.join(', '),
+      })),
+      'table',
+    )
+  }
+
+  console.log(`\nDelegated administrators (${report.DelegatedAdministrators.length}):`)
+  if (report.DelegatedAdministrators.length > 0) {
+    // One row per delegated service
+    formatOutput(
+      report.DelegatedAdministrators.flatMap((administrator) =>
+        administrator.Services.map((service) => ({
+          AccountId: administrator.AccountId,
+          AccountName: administrator.AccountName,
+          Status: administrator.Status,
+          ServicePrincipal: service.ServicePrincipal,
+          DelegationEnabledDate: service.DelegationEnabledDate,
+          TrustedAccess: service.TrustedAccess ? 'yes' : 'no',
+        })),
+      ),
+      'table',
+    )
+  }
+
+  report.Findings.forEach((finding) => logger.warn(finding))
+}
+
+/**
+ * Implements the org-services command
+ *
+ * @param options Command options including profile and output format
+ */
+async function showOrganizationServices(options: BaseCommandOptions): Promise<void> {
+  try {
+    // One report per organization in multi-organization mode
+    const reports: OrganizationServicesReport[] = []
+    for (const { organizationId, client } of await getOrganizationTargets(options.profile)) {
+      logger.info(`Fetching organization details${organizationId ? ` of ${organizationId}` : ''}...`)
+      const report = await getOrganizationServicesReport(client)
+      logger.info(
+        `Found ${report.TrustedServices.length} services with trusted access and ${report.DelegatedAdministrators.length} delegated administrators`,
+      )
+      reports.push(report)
+    }
+
+    if (options.output === 'html') {
+      const htmlContent = generateOrganizationServicesHtml(reports, 'Organization Services')
+      openInBrowser(htmlContent, 'org-services')
+      return
+    }
+
+    if (options.output !== 'table') {
+      // A list of reports in multi-organization mode
+      const output = isMultiOrganization() ? reports : reports[0]
+      formatOutput(output as unknown as Record<string, unknown>, options.output)
+      return
+    }
+
+    reports.forEach(printOrganizationServicesTable)
+  } catch (error) {
+    logger.error('Error fetching organization services:', error)
+    process.exit(1)
+  }
+}
@@ -0,0 +1,222 @@
+// File: src/commands/org-snapshot.ts
+// This file implements the 'org-snapshot' command, which saves the accounts, OUs and SCP attachments
+// of the organization to a timestamped JSON file, and the 'org-diff' command, which reports what
+// changed between two snapshots or between a snapshot and the live organization.
+
+import * as fs from 'fs'
+import * as path from 'path'
+import { Command } from 'commander'
+import { Organizations } from '@aws-sdk/client-organizations'
+import { BaseCommandOptions, OrganizationSnapshot, SnapshotPolicyAttachment } from '../types'
+import { formatOutput } from '../utils/formatter'
+import { generateOrganizationDiffHtml, openInBrowser } from '../utils/html-formatter'
+import { buildOrganizationalUnitPaths } from '../utils/org-tree'
+import { diffSnapshots, getSnapshotFileName, readSnapshot, SNAPSHOT_VERSION } from '../utils/org-snapshot'
+import { toErrorMessage } from '../utils/errors'
+import { getOrganizationDetails, getOrganizationTreeData } from '../services/organization'
+import { getOrganizationPolicies } from '../services/organization-policies'
+import { getSettings } from '../config/settings'
+import { getOrganizationTargets, isMultiOrganization } from '../utils/multi-org'
+import { logger } from '../utils/logger'
+
+// Options accepted by the org-snapshot command
+interface SnapshotCommandOptions {
+  profile?: string
+  file?: string
+  dir: string
+}
+
+/**
+ * Register the org-snapshot and org-diff commands with the CLI program
+ *
+ * @param program The Commander program instance to register the commands with
+ */
+export function registerOrgSnapshotCommands(program: Command): void {
+  program
+    .command('org-snapshot')
+    .description('Save the accounts, OUs and SCP attachments of the organization to a timestamped JSON file')
+    .option(
+      '-p, --profile <profile>',
+      'AWS profile to use (defaults to the configured profile, then AWS environment variables)',
+      getSettings().profile,
+    )
+    .option('-d, --dir <directory>', 'Directory to write the snapshot to', '.')
+    .option('-f, --file <path>', 'File to write the snapshot to (default: org-snapshot-<timestamp>.json in --dir)')
+    .action(async (options: SnapshotCommandOptions) => {
+      await saveSnapshot(options)
+    })
+
+  program
+    .command('org-diff')
+    .description('Compare two organization snapshots, or a snapshot with the live organization')
+    .argument('<before>', 'Older snapshot file')
+    .argument('[after]', 'Newer snapshot file (default: the live organization)')
+    .option(
+      '-p, --profile <profile>',
+      'AWS profile to use for the live organization (defaults to the configured profile, then AWS environment variables)',
+      getSettings().profile,
+    )
+    .option('-o, --output <format>', 'Output format (json, table, html)', getSettings().output)
+    .action(async (before: string, after: string | undefined, options: BaseCommandOptions) => {
+      await showDiff(before, after, options)
+    })
+}
+
+/**
+ * Read the current state of the organization
+ *
+ * @param client - Organizations client
+ * @returns Snapshot of the accounts, OUs and SCP attachments
+ */
+async function takeSnapshot(client: Organizations): Promise<OrganizationSnapshot> {
+  const createdAt = new Date().toISOString()
+  const organization = await getOrganizationDetails(client)
+
+  logger.info('Fetching accounts and organizational units...')
+  const { rootId, ous, accounts } = await getOrganizationTreeData(client)
+  const ouPaths = buildOrganizationalUnitPaths(ous)
+  const pathOf = (parentId: string): string =>
+    parentId === rootId ? '/' : ouPaths.has(parentId) ? `/${ouPaths.get(parentId)}` : 'Unknown'
+
+  // SCPs are only available with all features enabled; null records that the attachments are unknown
+  let policyAttachments: SnapshotPolicyAttachment[] | null = null
+  try {
+    logger.info('Fetching SCP attachments...')
+    const scps = await getOrganizationPolicies(client, ['SERVICE_CONTROL_POLICY'])
+    policyAttachments = scps.flatMap((policy) =>
+      policy.Targets.map((target) => ({
+        PolicyId: policy.PolicyId,
+        PolicyName: policy.PolicyName,
+        Type: policy.Type,
+        TargetId: target.TargetId,
+        TargetName: target.Name,
+        TargetType: target.Type,
+      })),
+    )
+  } catch (error) {
+    logger.warn(`SCP attachments not recorded: ${toErrorMessage(error)}`)
+  }
+
+  return {
+    Version: SNAPSHOT_VERSION,
+    CreatedAt: createdAt,
+    OrganizationId: String(organization?.Id || ''),
+    RootId: rootId,
+    OrganizationalUnits: ous.map((ou) => ({
+      Id: String(ou.Id),
+      Name: String(ou.Name || ''),
+      ParentId: String(ou.ParentId),
+      Path: `/${ouPaths.get(String(ou.Id))}`,
+    })),
+    Accounts: accounts.map((account) => ({
+      Id: String(account.Id),
+      Name: String(account.Name || ''),
+      Email: String(account.Email || ''),
+      Status: String(account.Status || ''),
+      JoinedTimestamp: account.JoinedTimestamp ? new Date(account.JoinedTimestamp as Date).toISOString() : undefined,
+      ParentId: String(account.ParentId),
+      OuPath: pathOf(String(account.ParentId)),
+    })),
+    PolicyAttachments: policyAttachments,
+  }
+}
+
+/**
+ * Implements the org-snapshot command
+ *
+ * @param options Command options including profile and destination
+ */
+async function saveSnapshot(options: SnapshotCommandOptions): Promise<void> {
+  try {
+    // One snapshot per organization in multi-organization mode, each in its own file
+    if (options.file && isMultiOrganization()) {
+      logger.error('--file cannot be used in multi-organization mode; use --dir to write one snapshot per organization')
+      process.exit(1)
+    }
+
+    for (const { organizationId, client } of await getOrganizationTargets(options.profile)) {
+      if (organizationId) {
+        logger.info(`Taking a snapshot of organization ${organizationId}...`)
+      }
+      const snapshot = await takeSnapshot(client)
+
+      const filePath = options.file || path.join(options.dir, getSnapshotFileName(snapshot.CreatedAt, organizationId))
+      fs.mkdirSync(path.dirname(filePath), { recursive: true })
+      fs.writeFileSync(filePath, JSON.stringify(snapshot, null, 2))
+
+      logger.info(
+        `Saved ${snapshot.Accounts.length} accounts, ${snapshot.OrganizationalUnits.length} OUs and ${snapshot.PolicyAttachments ? snapshot.PolicyAttachments.length : 'no'} SCP attachments`,
+      )
+      // The path goes to stdout so that scripts can capture it
+      console.log(filePath)
+    }
+  } catch (error) {
+    logger.error('Error saving the organization snapshot:', error)
+    process.exit(1)
+  }
+}
+
+/**
+ * Get the Organizations client of the live organization to compare a snapshot with
+ *
+ * In multi-organization mode, the organization of the snapshot is looked up among the configured ones.
+ *
+ * @param before - Older snapshot
+ * @param profile - AWS profile of the command, used outside multi-organization mode
+ * @returns Organizations client of the organization
+ * @throws When the organization of the snapshot is not one of the configured organizations
+ */
+async function getLiveOrganizationClient(before: OrganizationSnapshot, profile?: string): Promise<Organizations> {
+  const targets = await getOrganizationTargets(profile)
+  if (!isMultiOrganization()) {
+    return targets[0].client
+  }
+
+  const target = targets.find(({ organizationId }) => organizationId === before.OrganizationId)
+  if (!target) {
+    throw new Error(
+      `The snapshot is of organization ${before.OrganizationId || 'unknown'}, which is not one of the configured organizations (${targets.map(({ organizationId }) => organizationId).join(', ')})`,
+    )
+  }
+  return target.client
+}
+
+/**
+ * Implements the org-diff command
+ *
+ * @param beforeFile Older snapshot file
+ * @param afterFile Newer snapshot file, or undefined to read the live organization
+ * @param options Command options including profile and output format
+ */
+async function showDiff(beforeFile: string, afterFile: string | undefined, options: BaseCommandOptions): Promise<void> {
+  try {
+    const before = readSnapshot(beforeFile)
+    const after = afterFile
+      ? readSnapshot(afterFile)
+      : await takeSnapshot(await getLiveOrganizationClient(before, options.profile))
+
+    if (before.OrganizationId && after.OrganizationId && before.OrganizationId !== after.OrganizationId) {
+      logger.warn(`Comparing different organizations: ${before.OrganizationId} and ${after.OrganizationId}`)
+    }
+
+    const diff = diffSnapshots(before, after)
+    diff.Warnings.forEach((warning) => logger.warn(warning))
+    logger.info(`Found ${diff.Changes.length} changes between ${diff.Before} and ${diff.After}`)
+
+    if (options.output === 'html') {
+      const htmlContent = generateOrganizationDiffHtml(diff, 'Organization Changes')
+      openInBrowser(htmlContent, 'org-diff')
+    } else if (options.output === 'table') {
+      if (diff.Changes.length === 0) {
+        console.log('No changes')
+        return
+      }
+      formatOutput(diff.Changes as unknown as Record<string, unknown>[], options.output)
+    } else {
+      formatOutput(diff as unknown as Record<string, unknown>, options.output)
+    }
+  } catch (error) {
+    logger.error('Error comparing organization snapshots:', error)
+    process.exit(1)
+  }
+}
@@ -0,0 +1,74 @@
+// File: src/commands/org-tree.ts
+// This file implements the 'org-tree' command, which displays the structure of the
+// organization: the root, its organizational units and the accounts in each of them.
+
+import { Command } from 'commander'
+import { BaseCommandOptions, OrganizationTreeNode } from '../types'
+import { formatOutput } from '../utils/formatter'
+import { generateOrganizationTreeHtml, openInBrowser } from '../utils/html-formatter'
+import { getOrganizationTargets, withOrganizationId } from '../utils/multi-org'
+import { getOrganizationTreeData } from '../services/organization'
+import { buildOrganizationTree, renderOrganizationTreeText } from '../utils/org-tree'
+import { getSettings } from '../config/settings'
+import { logger } from '../utils/logger'
+
+/**
+ * Register the org-tree command with the CLI program
+ *
+ * @param program The Commander program instance to register the command with
+ */
+export function registerOrgTreeCommands(program: Command): void {
+  program
+    .command('org-tree')
+    .description('Show the organization as a tree of OUs and accounts')
+    .option(
+      '-p, --profile <profile>',
+      'AWS profile to use (defaults to the configured profile, then AWS environment variables)',
+      getSettings().profile,
+    )
+    .option('-o, --output <format>', 'Output format (table for an ASCII tree, json, html)', getSettings().output)
+    .action(async (options: BaseCommandOptions) => {
+      await showOrganizationTree(options)
+    })
+}
+
+/**
+ * Implements the org-tree command
+ *
+ * In multi-organization mode, one tree is shown per organization, with the OrganizationId on its root.
+ *
+ * @param options Command options including profile and output format
+ */
+async function showOrganizationTree(options: BaseCommandOptions): Promise<void> {
+  try {
+    const roots: OrganizationTreeNode[] = []
+    for (const { organizationId, client } of await getOrganizationTargets(options.profile)) {
+      logger.info(`Fetching the structure of the organization${organizationId ? ` ${organizationId}` : ''}...`)
+      const treeData = await getOrganizationTreeData(client)
+      logger.info(`Found ${treeData.ous.length} organizational units and ${treeData.accounts.length} accounts`)
+
+      const root = buildOrganizationTree(treeData)
+      roots.push(organizationId ? withOrganizationId(root, organizationId) : root)
+    }
+
+    if (options.output === 'html') {
+      const htmlContent = generateOrganizationTreeHtml(roots, 'Organization Tree')
+      openInBrowser(htmlContent, 'org-tree')
+    } else if (options.output === 'json') {
+      // Nested JSON: each root/OU node has its child OUs and accounts in Children; one root per
+      // organization in multi-organization mode
+      const output = roots.length === 1 && !roots[0].OrganizationId ? roots[0] : roots
+      formatOutput(output as unknown as Record<string, unknown>, options.output)
+    } else {
+      roots.forEach((root, index) => {
+        if (root.OrganizationId) {
+          console.log(`${index > 0 ? '\n' : ''}Organization ${root.OrganizationId}`)
+        }
+        console.log(renderOrganizationTreeText(root))
+      })
+    }
+  } catch (error) {
+    logger.error('Error fetching the organization tree:', error)
+    process.exit(1)
+  }
+}
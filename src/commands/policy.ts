@@ -6,7 +6,6 @@ import * as fs from 'fs'
 import { Command } from 'commander'
 import {
   BaseCommandOptions,
-  RoleCredentials,
   PolicyDocument,
   PolicyStatement,
   PolicyVerificationResult,
@@ -14,33 +13,16 @@ import {
 } from '../types'
 import { formatOutput } from '../utils/formatter'
 import { generatePolicyVerificationHtml, openInBrowser } from '../utils/html-formatter'
-import { createOrganizationsClient, createIAMClient, createSTSClient } from '../utils/clients'
+import { createIAMClient, createSTSClient } from '../utils/clients'
 import { getAllAccounts } from '../services/organization'
 import { getUserExists, getRoleExists, getGroupExists } from '../services/iam'
-import { assumeRole } from '../services/sts'
+import { getAccountCredentials } from '../utils/credential-helper'
 import { IAMClient } from '@aws-sdk/client-iam'
 import { STSClient, GetCallerIdentityCommand } from '@aws-sdk/client-sts'
-import { DEFAULT_ROLE_NAME, DEFAULT_OUTPUT_FORMAT } from '../config/constants'
-
-/**
- * Create an IAM client with specific credentials (for cross-account access)
- *
- * This helper function creates an IAM client configured with specific credentials,
- * which is necessary for cross-account IAM operations.
- *
- * @param credentials - Temporary credentials obtained from assuming a role
- * @returns Configured IAM client
- */
-function createIAMClientWithCredentials(credentials: RoleCredentials): IAMClient {
-  return new IAMClient({
-    region: 'us-east-1', // IAM is a global service but requires a region
-    credentials: {
-      accessKeyId: credentials.accessKeyId,
-      secretAccessKey: credentials.secretAccessKey,
-      sessionToken: credentials.sessionToken,
-    },
-  })
-}
+import { getSettings } from '../config/settings'
+import { getOrganizationTargets, withOrganizationId } from '../utils/multi-org'
+import { logger } from '../utils/logger'
+import { getServicePrincipalName, parseArn } from '../utils/partition'
 
 /**
  * Get the current account ID from the caller identity
@@ -57,7 +39,7 @@ async function getCurrentAccountId(stsClient: STSClient): Promise<string> {
     const response = await stsClient.send(command)
     return response.Account || ''
   } catch (error) {
-    console.error('Error getting caller identity:', error)
+    logger.error('Error getting caller identity:', error)
     return ''
   }
 }
@@ -76,12 +58,16 @@ export function registerPolicyCommands(program: Command): void {
     .description('Verify if principals in a policy document exist')
     // Define command options with descriptions and default values
     .requiredOption('-f, --file <filePath>', 'Path to JSON policy file')
-    .option('-p, --profile <profile>', 'AWS profile to use (defaults to AWS environment variables if not specified)')
-    .option('-o, --output <format>', 'Output format (json, table, html)', DEFAULT_OUTPUT_FORMAT)
+    .option(
+      '-p, --profile <profile>',
+      'AWS profile to use (defaults to the configured profile, then AWS environment variables)',
+      getSettings().profile,
+    )
+    .option('-o, --output <format>', 'Output format (json, table, html)', getSettings().output)
     .option(
       '-r, --role-name <roleName>',
       'Role name to assume in target accounts for cross-account verification',
-      DEFAULT_ROLE_NAME,
+      getSettings().roleName,
     )
     .option('--cross-account', 'Enable cross-account verification of principals', false)
     // Register the action handler that will be called when this command is executed
@@ -109,7 +95,7 @@ async function verifyPrincipals(
   try {
     // Validate file exists
     if (!fs.existsSync(options.file)) {
-      console.error(`Policy file not found: ${options.file}`)
+      logger.error(`Policy file not found: ${options.file}`)
       process.exit(1)
     }
 
@@ -117,57 +103,57 @@ async function verifyPrincipals(
     const policyContent = fs.readFileSync(options.file, 'utf8')
     const policy = JSON.parse(policyContent) as PolicyDocument
 
-    console.log('Extracting principals from policy...')
+    logger.info('Extracting principals from policy...')
     const principals = extractPrincipals(policy)
 
     if (principals.length === 0) {
-      console.log('No principals found in the policy.')
+      logger.info('No principals found in the policy.')
       return
     }
 
-    console.log(`Found ${principals.length} principals in the policy.`)
-
-    // Create clients
-    const orgClient = createOrganizationsClient(options.profile)
-    const stsClient = createSTSClient(options.profile)
+    logger.info(`Found ${principals.length} principals in the policy.`)
 
-    // Get all accounts in organization for account validation
-    console.log('Fetching organization accounts...')
-    const accounts = await getAllAccounts(orgClient)
-    // Create a map for quick account lookup by ID
+    // Get all accounts in the organization (every organization in multi-organization mode) for account validation,
+    // with the profile of their organization for the IAM checks
     const accountMap = new Map<string, Record<string, unknown>>()
-    accounts.forEach((account) => {
-      if (account.Id) {
-        accountMap.set(String(account.Id), account)
-      }
-    })
-    console.log(`Found ${accounts.length} accounts in the organization.`)
-
-    // Prepare for cross-account verification
-    // This cache helps avoid repeatedly assuming the same role
-    const accountCredentialsCache = new Map<string, RoleCredentials>()
+    const accountProfiles = new Map<string, { profile?: string; stsClient: STSClient }>()
+    for (const { organizationId, profile, client } of await getOrganizationTargets(options.profile)) {
+      logger.info(`Fetching organization accounts${organizationId ? ` of ${organizationId}` : ''}...`)
+      const accounts = await getAllAccounts(client)
+      const organizationProfile = { profile, stsClient: createSTSClient(profile) }
+      // Create a map for quick account lookup by ID
+      accounts.forEach((account) => {
+        if (account.Id) {
+          accountMap.set(String(account.Id), organizationId ? withOrganizationId(account, organizationId) : account)
+          accountProfiles.set(String(account.Id), organizationProfile)
+        }
+      })
+      logger.info(`Found ${accounts.length} accounts in the organization.`)
+    }
+    const defaultProfile = { profile: options.profile, stsClient: createSTSClient(options.profile) }
 
     // Verify each principal
-    console.log('Verifying principals...')
+    logger.info('Verifying principals...')
     const results: PolicyVerificationResult[] = []
 
     for (const principal of principals) {
+      const { profile, stsClient } = (principal.AccountId && accountProfiles.get(principal.AccountId)) || defaultProfile
+      const organizationId = principal.AccountId ? accountMap.get(principal.AccountId)?.OrganizationId : undefined
       try {
         // verifyPrincipal does the actual verification for each principal
         const result = await verifyPrincipal(
           principal,
           accountMap,
-          options.profile,
+          profile,
           options.crossAccount
             ? {
                 enabled: true,
-                roleName: options.roleName || DEFAULT_ROLE_NAME,
+                roleName: options.roleName || getSettings().roleName,
                 stsClient,
-                accountCredentialsCache,
               }
             : undefined,
         )
-        results.push(result)
+        results.push(organizationId ? withOrganizationId(result, String(organizationId)) : result)
       } catch (error) {
         // If verification fails, record the error
         results.push({
@@ -180,7 +166,7 @@ async function verifyPrincipals(
     }
 
     // Format and display results
-    console.log('Verification complete.')
+    logger.info('Verification complete.')
 
     if (options.output === 'html') {
       // Generate HTML report and open in browser
@@ -192,7 +178,7 @@ async function verifyPrincipals(
     }
   } catch (error) {
     // Handle any uncaught errors
-    console.error('Error verifying policy principals:', error)
+    logger.error('Error verifying policy principals:', error)
     process.exit(1)
   }
 }
@@ -262,8 +248,8 @@ function parsePrincipal(type: string, principal: string): PolicyPrincipalInfo {
     return { Type: 'Any', Principal: principal }
   }
 
-  // Handle ARNs
-  if (principal.startsWith('arn:aws:')) {
+  // Handle ARNs of any partition (aws, aws-cn, aws-us-gov)
+  if (parseArn(principal)) {
     const parts = principal.split(':')
     // arn:aws:iam::123456789012:user/username
     if (parts.length >= 6 && parts[2] === 'iam') {
@@ -342,7 +328,6 @@ async function verifyPrincipal(
     enabled: boolean
     roleName: string
     stsClient: STSClient
-    accountCredentialsCache: Map<string, RoleCredentials>
   },
 ): Promise<PolicyVerificationResult> {
   // Handle wildcard - always "exists"
@@ -356,11 +341,8 @@ async function verifyPrincipal(
 
   // Handle service principals with more detailed service types
   if (principal.Type.toLowerCase() === 'service') {
-    // Extract just the service name without domain if it has one
-    let serviceName = principal.Principal
-    if (serviceName.includes('.amazonaws.com')) {
-      serviceName = serviceName.replace('.amazonaws.com', '')
-    }
+    // Extract just the service name without domain if it has one (amazonaws.com, or amazonaws.com.cn in China)
+    const serviceName = getServicePrincipalName(principal.Principal)
 
     return {
       Principal: principal.Principal,
@@ -370,7 +352,12 @@ async function verifyPrincipal(
   }
 
   // Handle CloudFront Origin Access Identity
-  if (principal.Principal.includes('arn:aws:iam::cloudfront:user/CloudFront Origin Access Identity')) {
+  const arn = parseArn(principal.Principal)
+  if (
+    arn?.service === 'iam' &&
+    arn.accountId === 'cloudfront' &&
+    arn.resource.startsWith('user/CloudFront Origin Access Identity')
+  ) {
     // CloudFront OAI should be considered valid, and we'd need CloudFront APIs to verify them
     // Since they are special system principals, we'll assume they exist
     return {
@@ -382,7 +369,7 @@ async function verifyPrincipal(
   }
 
   // Handle AWS service ARNs that use the format arn:aws:iam::{service}:{resource-type}/etc
-  if (principal.Principal.startsWith('arn:aws:iam::') && !principal.Principal.match(/^\d+$/)) {
+  if (arn?.service === 'iam' && arn.region === '') {
     const arnParts = principal.Principal.split(':')
     if (arnParts.length >= 5) {
       const accountPart = arnParts[4]
@@ -496,30 +483,11 @@ async function verifyPrincipal(
     if (crossAccount?.enabled && accountId !== (await getCurrentAccountId(crossAccount.stsClient))) {
       // For cross-account verification
       try {
-        // Check if we already have cached credentials for this account
-        let credentials = crossAccount.accountCredentialsCache.get(accountId)
-
-        if (!credentials) {
-          // If not, assume role and get credentials
-          console.log(`Assuming role ${crossAccount.roleName} in account ${accountId}...`)
-          credentials = await assumeRole(crossAccount.stsClient, accountId, crossAccount.roleName)
-
-          if (!credentials) {
-            return {
-              Principal: principal.Principal,
-              Type: `IAM ${iamType}`,
-              Exists: false,
-              AccountId: accountId,
-              Error: `Could not assume role in account ${accountId}`,
-            }
-          }
-
-          // Cache the credentials
-          crossAccount.accountCredentialsCache.set(accountId, credentials)
-        }
+        // The credential broker assumes the role only once per account while the session is valid
+        const credentials = await getAccountCredentials(crossAccount.stsClient, accountId, crossAccount.roleName)
 
         // Create IAM client with assumed role credentials
-        iamClient = createIAMClientWithCredentials(credentials)
+        iamClient = createIAMClient(undefined, credentials)
       } catch (error) {
         return {
           Principal: principal.Principal,
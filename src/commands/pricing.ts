@@ -0,0 +1,146 @@
+// File: src/commands/pricing.ts
+// This file implements the 'pricing' command, which fills the on-disk EC2 price catalog used by
+// list-ec2 --include-pricing and ec2-commitment-analysis, from the Price List API or a bulk price list file.
+
+import { Command, InvalidArgumentError } from 'commander'
+import { formatOutput } from '../utils/formatter'
+import { EXIT_CODE_INCOMPLETE, toErrorMessage } from '../utils/errors'
+import { importEC2BulkPriceList, PRICING_OPERATING_SYSTEMS, refreshEC2PriceCatalog } from '../services/pricing'
+import { collectRegions } from '../utils'
+import { getProfileCredentials } from '../utils/credential-broker'
+import { getPriceCatalogPath, savePriceCatalog } from '../utils/price-catalog'
+import { getSettings } from '../config/settings'
+import { logger } from '../utils/logger'
+
+// Options for the pricing refresh subcommand
+interface PricingRefreshOptions {
+  profile?: string
+  region: string[]
+  os?: string[]
+  instanceType?: string[]
+  output: string
+}
+
+/**
+ * Parse and collect a Price List operating system
+ */
+function collectOperatingSystem(val: string, values: string[] = []): string[] {
+  const os = PRICING_OPERATING_SYSTEMS.find((name) => name.toLowerCase() === val.toLowerCase())
+  if (!os) {
+    throw new InvalidArgumentError(`Expected one of ${PRICING_OPERATING_SYSTEMS.join(', ')}.`)
+  }
+  return values.includes(os) ? values : [...values, os]
+}
+
+/**
+ * Collect repeated option values into an array
+ */
+function collectValues(val: string, values: string[] = []): string[] {
+  return [...values, val]
+}
+
+/**
+ * Register the pricing command and its subcommands with the CLI program
+ *
+ * @param program The Commander program instance to register the command with
+ */
+export function registerPricingCommands(program: Command): void {
+  const pricing = program
+    .command('pricing')
+    .description('Manage the on-disk EC2 price catalog used by --include-pricing and ec2-commitment-analysis')
+
+  pricing
+    .command('refresh')
+    .description('Prefetch the EC2 prices of regions from the Price List API into the price catalog')
+    .option(
+      '--profile <profile>',
+      'AWS profile to use (defaults to the configured profile, then AWS environment variables)',
+      getSettings().profile,
+    )
+    .option(
+      '--region <region>',
+      'AWS region to prefetch (can be specified multiple times)',
+      collectRegions,
+      getSettings().regions,
+    )
+    .option(
+      '--os <os>',
+      `Operating system to prefetch: ${PRICING_OPERATING_SYSTEMS.join(', ')} (can be specified multiple times, default: all)`,
+      collectOperatingSystem,
+    )
+    .option(
+      '--instance-type <type>',
+      'Instance type to prefetch (can be specified multiple times, default: every instance type of the region)',
+      collectValues,
+    )
+    .option('-o, --output <format>', 'Output format (json, table)', 'table')
+    .action(async (options: PricingRefreshOptions) => {
+      await refreshPricing(options)
+    })
+
+  pricing
+    .command('import <file>')
+    .description('Import an AWS bulk price list file (EC2 offer file) into the price catalog')
+    .action((file: string) => {
+      importPricing(file)
+    })
+}
+
+/**
+ * Implements the pricing refresh command
+ *
+ * Each region and operating system is fetched in turn, since the Price List API has low rate limits.
+ * A failed region/OS pair is reported and the others are still stored.
+ *
+ * @param options Command options including AWS profile, regions and operating systems
+ */
+async function refreshPricing(options: PricingRefreshOptions): Promise<void> {
+  try {
+    const credentials = options.profile ? await getProfileCredentials(options.profile) : null
+    const operatingSystems = options.os || PRICING_OPERATING_SYSTEMS
+    const results: Array<{ Region: string; OS: string; Products: number; Error?: string }> = []
+
+    for (const region of options.region) {
+      for (const os of operatingSystems) {
+        logger.info(`Fetching ${os} EC2 prices in ${region}...`)
+        try {
+          const products = await refreshEC2PriceCatalog(region, os, options.instanceType || [], credentials)
+          results.push({ Region: region, OS: os, Products: products })
+        } catch (error) {
+          logger.warn(`Could not fetch ${os} EC2 prices in ${region}: ${toErrorMessage(error)}`)
+          results.push({ Region: region, OS: os, Products: 0, Error: toErrorMessage(error) })
+        }
+      }
+    }
+
+    savePriceCatalog()
+    formatOutput(results, options.output)
+    logger.info(`Price catalog: ${getPriceCatalogPath()}`)
+
+    // Exit with code 2 when some regions could not be fetched
+    if (results.some((result) => result.Error)) {
+      process.exitCode = EXIT_CODE_INCOMPLETE
+    }
+  } catch (error) {
+    logger.error('Error refreshing the price catalog:', error)
+    process.exit(1)
+  }
+}
+
+/**
+ * Implements the pricing import command
+ *
+ * @param file Path of the bulk price list file
+ */
+function importPricing(file: string): void {
+  try {
+    const { products, regions } = importEC2BulkPriceList(file)
+    savePriceCatalog()
+    logger.info(
+      `Imported ${products} EC2 products${regions.length > 0 ? ` in ${regions.join(', ')}` : ''} into ${getPriceCatalogPath()}`,
+    )
+  } catch (error) {
+    logger.error('Error importing the price list:', error)
+    process.exit(1)
+  }
+}
@@ -3,14 +3,23 @@
 // across AWS accounts in an organization and provides role distribution statistics.
 
 import { Command } from 'commander'
-import { BaseCommandOptions } from '../types'
-import { formatOutput } from '../utils/formatter'
-import { createOrganizationsClient, createSTSClient } from '../utils/clients'
-import { getAccount, getAllAccounts } from '../services/organization'
-import { assumeRole } from '../services/sts'
+import { AccountRoleCounts, AccountSelectionOptions, BaseCommandOptions } from '../types'
+import { formatResultsOutput } from '../utils/formatter'
+import { setExitCodeForErrors } from '../utils/errors'
 import { getIAMRoles, countRolesByPath, formatRoleCountResults } from '../services/role'
-import { DEFAULT_ROLE_NAME, DEFAULT_OUTPUT_FORMAT } from '../config/constants'
+import { getSettings } from '../config/settings'
 import { generateRoleCountHtml, openInBrowser } from '../utils/html-formatter'
+import { parsePositiveInteger } from '../utils'
+import { DEFAULT_MAX_CONCURRENCY } from '../utils/concurrency'
+import { addAccountSelectionOptions } from '../utils/account-selection'
+import { runAcrossAccounts } from '../utils/multi-account'
+import { logger } from '../utils/logger'
+
+// Options accepted by the count-role command
+interface RoleCommandOptions extends BaseCommandOptions, AccountSelectionOptions {
+  roleName?: string
+  maxConcurrency?: number
+}
 
 /**
  * Register role-related commands with the CLI program
@@ -21,13 +30,26 @@ import { generateRoleCountHtml, openInBrowser } from '../utils/html-formatter'
  * @param program The Commander program instance to register the command with
  */
 export function registerRoleCommands(program: Command): void {
-  program
+  const command = program
     .command('count-role') // Define the command name
     .description('Count IAM roles across all accounts in the organization') // Command description
-    .option('-r, --role-name <roleName>', 'Role name to assume in target accounts', DEFAULT_ROLE_NAME)
-    .option('-o, --output <format>', 'Output format (json, table, html)', DEFAULT_OUTPUT_FORMAT)
-    .option('-a, --account-id <accountId>', 'Specific account ID to check (optional)')
-    .action(async (options: BaseCommandOptions & { accountId?: string; roleName?: string }) => {
+    .option(
+      '--profile <profile>',
+      'AWS profile to use (defaults to the configured profile, then AWS environment variables)',
+      getSettings().profile,
+    )
+    .option('-r, --role-name <roleName>', 'Role name to assume in target accounts', getSettings().roleName)
+    .option('-o, --output <format>', 'Output format (json, table, html)', getSettings().output)
+
+  // Account selectors shared by all multi-account commands (--account-id, --ou, --account-tag, ...)
+  addAccountSelectionOptions(command)
+    .option(
+      '--max-concurrency <number>',
+      'Maximum number of accounts processed at the same time',
+      parsePositiveInteger,
+      DEFAULT_MAX_CONCURRENCY,
+    )
+    .action(async (options: RoleCommandOptions) => {
       // Execute the command implementation with the provided options
       await countRoles(options)
     })
@@ -37,78 +59,39 @@ export function registerRoleCommands(program: Command): void {
  * Implements the count-role command functionality
  *
  * This function:
- * 1. Retrieves accounts from AWS Organizations
- * 2. For each account, gathers IAM role counts
+ * 1. Runs the IAM role collector across the selected accounts
+ * 2. Aggregates role counts per account and for the organization
  * 3. Formats and displays the results
  *
  * @param options Command options including AWS profile, output format, etc.
  */
-async function countRoles(options: BaseCommandOptions & { accountId?: string; roleName?: string }): Promise<void> {
+async function countRoles(options: RoleCommandOptions): Promise<void> {
   try {
-    // Create clients for AWS Organizations and STS
-    const client = createOrganizationsClient(options.profile)
-    const stsClient = createSTSClient(options.profile)
-
-    // Get accounts - either a specific account or all accounts in the organization
-    let accounts: Record<string, unknown>[] = []
-
-    if (options.accountId) {
-      // If a specific account ID is provided, get just that one
-      const account = await getAccount(client, options.accountId)
-      if (account) {
-        accounts.push(account)
-      }
-    } else {
-      // Otherwise, get all accounts in the organization
-      accounts = await getAllAccounts(client)
-    }
-
-    console.log(`Found ${accounts.length} accounts to check`)
-
-    // Filter only active accounts to process (ignore suspended/closed accounts)
-    const activeAccounts = accounts.filter((account) => account.Id && account.Status && account.Status === 'ACTIVE')
-
-    console.log(`Processing ${activeAccounts.length} active accounts...`)
-
-    // Store role counts by account
-    const accountRoleCounts = new Map<string, { counts: Record<string, number>; accountName: string }>()
-
-    // Process each account to get role counts
-    for (const account of activeAccounts) {
-      try {
-        if (!account.Id) {
-          continue
-        }
-
-        const accountId = String(account.Id)
-        const accountName = String(account.Name || 'Unknown')
-        console.log(`Counting roles in account: ${accountId} (${accountName})`)
-
-        // Get credentials for this account (required for IAM access)
-        const credentials = await assumeRole(stsClient, accountId, options.roleName || DEFAULT_ROLE_NAME)
-
-        if (!credentials) {
-          console.warn(`Could not assume role in account ${accountId}`)
-          continue
-        }
-
+    // Count roles in every account (IAM is global, so no region iteration is needed)
+    const { results, errors } = await runAcrossAccounts(
+      {
+        profile: options.profile,
+        roleName: options.roleName || getSettings().roleName,
+        selection: options,
+        maxConcurrency: options.maxConcurrency,
+        resourceLabel: 'role count results',
+      },
+      async ({ credentials, accountId, accountName, organizationId }) => {
         // Get all IAM roles in this account
         const { roles } = await getIAMRoles(credentials, accountId, accountName)
 
-        // Count roles by path/type
-        const roleCounts = countRolesByPath(roles)
+        logger.verbose(`Found ${roles.length} IAM roles in account ${accountId}`)
 
-        // Store the counts for this account
-        accountRoleCounts.set(accountId, {
-          counts: roleCounts,
-          accountName,
-        })
+        // Count roles by path/type
+        return [{ accountId, accountName, organizationId, counts: countRolesByPath(roles) }]
+      },
+    )
 
-        console.log(`Found ${roles.length} IAM roles in account ${accountId}`)
-      } catch (accountError) {
-        console.warn(`Error processing account ${account.Id}:`, accountError)
-      }
-    }
+    // Store role counts by account
+    const accountRoleCounts = new Map<string, AccountRoleCounts>()
+    results.forEach(({ accountId, accountName, organizationId, counts }) => {
+      accountRoleCounts.set(accountId, { counts, accountName, organizationId })
+    })
 
     // Calculate organization totals
     const organizationTotals: Record<string, number> = {
@@ -127,11 +110,11 @@ async function countRoles(options: BaseCommandOptions & { accountId?: string; ro
     })
 
     // Print summary to console
-    console.log(`\nRole count summary across ${accountRoleCounts.size} accounts:`)
-    console.log(`Total roles: ${organizationTotals.total}`)
-    console.log(`AWS service roles: ${organizationTotals.awsService}`)
-    console.log(`AWS reserved roles: ${organizationTotals.awsReserved}`)
-    console.log(`Custom roles: ${organizationTotals.custom}`)
+    logger.info(`\nRole count summary across ${accountRoleCounts.size} accounts:`)
+    logger.info(`Total roles: ${organizationTotals.total}`)
+    logger.info(`AWS service roles: ${organizationTotals.awsService}`)
+    logger.info(`AWS reserved roles: ${organizationTotals.awsReserved}`)
+    logger.info(`Custom roles: ${organizationTotals.custom}`)
 
     // Format the results for output
     const formattedResults = formatRoleCountResults(accountRoleCounts)
@@ -153,15 +136,23 @@ async function countRoles(options: BaseCommandOptions & { accountId?: string; ro
     // Format and display results based on specified output format
     if (options.output === 'html') {
       // Generate HTML report and open in browser
-      const htmlContent = generateRoleCountHtml(formattedResults, accountRoleCounts, 'IAM Roles Across Accounts')
+      const htmlContent = generateRoleCountHtml(
+        formattedResults,
+        accountRoleCounts,
+        'IAM Roles Across Accounts',
+        errors, // Accounts that could not be checked
+      )
       openInBrowser(htmlContent, 'count-role')
     } else {
       // Otherwise, display as table or JSON in console
-      formatOutput(formattedResults, options.output)
+      formatResultsOutput(formattedResults, errors, options.output)
     }
+
+    // Exit with code 2 when some accounts/regions could not be checked
+    setExitCodeForErrors(errors)
   } catch (error) {
     // Handle any errors that occur during the process
-    console.error('Error counting IAM roles:', error)
+    logger.error('Error counting IAM roles:', error)
     process.exit(1) // Exit with error code 1 to indicate failure
   }
 }
@@ -4,14 +4,16 @@
 
 import { Command } from 'commander'
 import { MultiRegionCommandOptions, S3BucketInfo } from '../types'
-import { formatOutput } from '../utils/formatter'
+import { formatResultsOutput } from '../utils/formatter'
+import { setExitCodeForErrors } from '../utils/errors'
 import { generateS3Html, openInBrowser } from '../utils/html-formatter'
-import { createOrganizationsClient, createSTSClient } from '../utils/clients'
-import { getAccount, getAllAccounts } from '../services/organization'
-import { getAccountCredentials } from '../utils/credential-helper'
 import { getS3Buckets } from '../services/s3'
-import { collectRegions } from '../utils'
-import { DEFAULT_REGION, DEFAULT_ROLE_NAME, DEFAULT_OUTPUT_FORMAT } from '../config/constants'
+import { collectRegions, parsePositiveInteger } from '../utils'
+import { DEFAULT_MAX_CONCURRENCY } from '../utils/concurrency'
+import { addAccountSelectionOptions } from '../utils/account-selection'
+import { runAcrossAccounts } from '../utils/multi-account'
+import { getSettings } from '../config/settings'
+import { logger } from '../utils/logger'
 
 /**
  * Register S3-related commands with the CLI program
@@ -23,16 +25,31 @@ import { DEFAULT_REGION, DEFAULT_ROLE_NAME, DEFAULT_OUTPUT_FORMAT } from '../con
  * @param program The Commander program instance to register the command with
  */
 export function registerS3Commands(program: Command): void {
-  program
+  const command = program
     .command('list-s3') // Define the command name
     .description('List S3 buckets across all accounts in the organization') // Command description
-    .option('--profile <profile>', 'AWS profile to use (defaults to AWS environment variables if not specified)')
-    .option('-r, --role-name <roleName>', 'Role name to assume in target accounts', DEFAULT_ROLE_NAME)
-    .option('-o, --output <format>', 'Output format (json, table, html)', DEFAULT_OUTPUT_FORMAT)
-    .option('-a, --account-id <accountId>', 'Specific account ID to check (optional)')
-    .option('--region <region>', 'AWS region to check (can be specified multiple times)', collectRegions, [
-      DEFAULT_REGION, // Default to the region specified in constants if not provided
-    ])
+    .option(
+      '--profile <profile>',
+      'AWS profile to use (defaults to the configured profile, then AWS environment variables)',
+      getSettings().profile,
+    )
+    .option('-r, --role-name <roleName>', 'Role name to assume in target accounts', getSettings().roleName)
+    .option('-o, --output <format>', 'Output format (json, table, html)', getSettings().output)
+
+  // Account selectors shared by all multi-account commands (--account-id, --ou, --account-tag, ...)
+  addAccountSelectionOptions(command)
+    .option(
+      '--region <region>',
+      'AWS region to check (can be specified multiple times)',
+      collectRegions,
+      getSettings().regions,
+    )
+    .option(
+      '--max-concurrency <number>',
+      'Maximum number of accounts/regions processed at the same time',
+      parsePositiveInteger,
+      DEFAULT_MAX_CONCURRENCY,
+    )
     .action(async (options: MultiRegionCommandOptions) => {
       // Execute the command implementation with the provided options
       await listS3Buckets(options)
@@ -52,85 +69,26 @@ export function registerS3Commands(program: Command): void {
  */
 async function listS3Buckets(options: MultiRegionCommandOptions): Promise<void> {
   try {
-    // Create client for AWS Organizations API
-    const client = createOrganizationsClient(options.profile)
-
-    // Get accounts - either a specific account or all accounts in the organization
-    let accounts: Record<string, unknown>[] = []
-
-    if (options.accountId) {
-      // If a specific account ID is provided, get just that one
-      const account = await getAccount(client, options.accountId)
-      if (account) {
-        accounts.push(account)
-      }
-    } else {
-      // Otherwise, get all accounts in the organization
-      accounts = await getAllAccounts(client)
-    }
-
-    console.log(`Found ${accounts.length} accounts to check`)
-
-    // Create STS client for assuming roles in target accounts
-    const stsClient = createSTSClient(options.profile)
-
-    // Filter only active accounts to process (ignore suspended/closed accounts)
-    const activeAccounts = accounts.filter((account) => account.Id && account.Status && account.Status === 'ACTIVE')
-
-    console.log(`Processing ${activeAccounts.length} active accounts concurrently...`)
-
-    // Create an array of promises to process each account concurrently
-    const accountPromises = activeAccounts.map(async (account) => {
-      try {
-        // Safety check for account ID
-        if (!account.Id) {
-          return []
-        }
-
-        const accountId = account.Id as string
-        const accountName = (account.Name as string) || 'Unknown'
-
-        console.log(`Starting check for account: ${accountId} (${accountName})`)
-
-        // Get credentials for this account
-        // This will return null if it's the current account (to use current credentials)
-        // or return assumed role credentials for cross-account access
-        const credentials = await getAccountCredentials(stsClient, accountId, options.roleName)
-
-        // Note: For S3, we only need to check one region since ListBuckets is global
-        // But we'll use the first region from the options for client configuration
-        const region = options.region[0]
-        
-        console.log(`Checking S3 buckets in account ${accountId} (${accountName}) using region ${region}...`)
-
-        try {
-          const buckets = await getS3Buckets(region, credentials, accountId, accountName)
-          return buckets
-        } catch (error) {
-          console.error(`Error getting S3 buckets for account ${accountId}: ${error}`)
-          return []
-        }
-
-      } catch (error) {
-        console.error(`Error processing account: ${error}`)
-        return []
-      }
-    })
-
-    // Wait for all account processing to complete
-    console.log('Gathering S3 bucket information across all accounts...')
-    const accountResults = await Promise.allSettled(accountPromises)
-
-    // Collect all S3 buckets from all accounts
-    const allBuckets: S3BucketInfo[] = []
-    accountResults.forEach((result, index) => {
-      if (result.status === 'fulfilled') {
-        allBuckets.push(...result.value)
-      } else {
-        const account = activeAccounts[index]
-        console.error(`Failed to process account ${account?.Id}: ${result.reason}`)
-      }
-    })
+    // Note: For S3, we only need to check one region since ListBuckets is global
+    // But we'll use the first region from the options for client configuration
+    const region = options.region[0]
+
+    // Gather S3 buckets from every account
+    const {
+      accounts,
+      activeAccounts,
+      results: allBuckets,
+      errors,
+    } = await runAcrossAccounts<S3BucketInfo>(
+      {
+        profile: options.profile,
+        roleName: options.roleName,
+        selection: options,
+        maxConcurrency: options.maxConcurrency,
+        resourceLabel: 'S3 buckets',
+      },
+      ({ credentials, accountId, accountName }) => getS3Buckets(region, credentials, accountId, accountName),
+    )
 
     // Sort buckets by account name, then by bucket name for consistent output
     allBuckets.sort((a, b) => {
@@ -139,7 +97,7 @@ async function listS3Buckets(options: MultiRegionCommandOptions): Promise<void>
       return a.BucketName.localeCompare(b.BucketName)
     })
 
-    console.log(`\nFound ${allBuckets.length} S3 buckets across ${activeAccounts.length} accounts`)
+    logger.info(`\nFound ${allBuckets.length} S3 buckets across ${activeAccounts.length} accounts`)
 
     // Format and display the results based on the requested output format
     if (options.output === 'html') {
@@ -149,15 +107,18 @@ async function listS3Buckets(options: MultiRegionCommandOptions): Promise<void>
         'S3 Buckets Across Accounts',
         accounts.length, // Total number of accounts in the organization
         accounts, // All accounts, including those without buckets
+        errors, // Accounts/regions that could not be checked
       )
       await openInBrowser(html, 's3-buckets.html')
     } else {
       // Use standard formatter for JSON and table output
-      formatOutput(allBuckets as unknown as Record<string, unknown>[], options.output)
+      formatResultsOutput(allBuckets as unknown as Record<string, unknown>[], errors, options.output)
     }
 
+    // Exit with code 2 when some accounts/regions could not be checked
+    setExitCodeForErrors(errors)
   } catch (error) {
-    console.error('Error executing list-s3 command:', error)
+    logger.error('Error executing list-s3 command:', error)
     process.exit(1)
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,75 @@
+// File: src/config/constants.ts
+// Built-in defaults and application information
+// Users override the defaults with a configuration file (see src/config/settings.ts)
+// instead of editing this file.
+
+import { AwsPartition, PartitionRegions } from '../types'
+
+/**
+ * Default AWS region to use when not specified in the configuration
+ */
+export const DEFAULT_REGION = 'ca-central-1'
+
+/**
+ * Default role name to assume in target accounts for cross-account access
+ */
+export const DEFAULT_ROLE_NAME = 'OrganizationAccountAccessRole'
+
+/**
+ * Default output format for command results
+ */
+export const DEFAULT_OUTPUT_FORMAT = 'table'
+
+/**
+ * Duration of assumed role sessions, in seconds
+ * One hour is the default maximum session duration of IAM roles.
+ */
+export const DEFAULT_SESSION_DURATION_SECONDS = 3600
+
+/**
+ * Default AWS partition (commercial regions)
+ */
+export const DEFAULT_PARTITION: AwsPartition = 'aws'
+
+/**
+ * Regions used to reach AWS in each partition
+ * Global services are served from a single region of the partition. The Price List API has no
+ * GovCloud endpoint: GovCloud prices are only published by the commercial endpoint, which
+ * GovCloud credentials cannot call.
+ */
+export const PARTITION_REGIONS: Record<AwsPartition, PartitionRegions> = {
+  aws: {
+    defaultRegion: DEFAULT_REGION,
+    iamRegion: 'us-east-1',
+    organizationsRegion: 'us-east-1',
+    pricingRegion: 'us-east-1',
+  },
+  'aws-cn': {
+    defaultRegion: 'cn-north-1',
+    iamRegion: 'cn-north-1',
+    organizationsRegion: 'cn-northwest-1',
+    pricingRegion: 'cn-northwest-1',
+  },
+  'aws-us-gov': {
+    defaultRegion: 'us-gov-west-1',
+    iamRegion: 'us-gov-west-1',
+    organizationsRegion: 'us-gov-west-1',
+  },
+}
+
+/**
+ * Format of IAM role ARNs accepted in a role chain, in any partition
+ */
+export const ROLE_ARN_PATTERN = /^arn:aws(-cn|-us-gov)?:iam::\d{12}:role\/.+$/
+
+/**
+ * Format accepted by STS for role session names and source identities
+ */
+export const SESSION_IDENTIFIER_PATTERN = /^[\w+=,.@-]{2,64}$/
+
+/**
+ * Application name and version information
+ */
+export const APP_NAME = 'aws-org'
+export const APP_DESCRIPTION = 'CLI tool to get information from AWS Organizations'
+export const APP_VERSION = '0.1.0'
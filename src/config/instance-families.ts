@@ -0,0 +1,275 @@
+// File: src/config/instance-families.ts
+// Bundled catalog of EC2 instance families used by list-ec2 --recommend
+// Each family lists its generation, architecture and the memory per vCPU of its sizes; previous-generation
+// families name the current-generation x86 and Graviton families they are upgraded to. Families that are
+// not listed are never flagged.
+
+import { EC2InstanceFamily } from '../types'
+
+/**
+ * vCPUs and memory of the sizes of the burstable t3, t3a and t4g families
+ */
+const BURSTABLE_SIZE_SPECS: Record<string, [number, number]> = {
+  nano: [2, 0.5],
+  micro: [2, 1],
+  small: [2, 2],
+  medium: [2, 4],
+  large: [2, 8],
+  xlarge: [4, 16],
+  '2xlarge': [8, 32],
+}
+
+/**
+ * Sizes of the current-generation Intel families (m7i, c7i, r7i)
+ */
+const INTEL_SIZES = ['large', 'xlarge', '2xlarge', '4xlarge', '8xlarge', '12xlarge', '16xlarge', '24xlarge', '48xlarge']
+
+/**
+ * Sizes of the Graviton3 families (m7g, c7g, r7g)
+ */
+const GRAVITON_SIZES = ['medium', 'large', 'xlarge', '2xlarge', '4xlarge', '8xlarge', '12xlarge', '16xlarge']
+
+/**
+ * Instance families by name
+ */
+export const INSTANCE_FAMILIES: Record<string, EC2InstanceFamily> = {
+  // Burstable
+  t1: {
+    Category: 'burstable',
+    Generation: 1,
+    Current: false,
+    Architecture: 'x86_64',
+    MemoryPerVCpu: 0.613,
+    SizeSpecs: { micro: [1, 0.613] },
+    Upgrade: 't3',
+    GravitonUpgrade: 't4g',
+  },
+  t2: {
+    Category: 'burstable',
+    Generation: 2,
+    Current: false,
+    Architecture: 'x86_64',
+    MemoryPerVCpu: 4,
+    SizeSpecs: {
+      nano: [1, 0.5],
+      micro: [1, 1],
+      small: [1, 2],
+      medium: [2, 4],
+      large: [2, 8],
+      xlarge: [4, 16],
+      '2xlarge': [8, 32],
+    },
+    Upgrade: 't3',
+    GravitonUpgrade: 't4g',
+  },
+  t3: {
+    Category: 'burstable',
+    Generation: 3,
+    Current: true,
+    Architecture: 'x86_64',
+    MemoryPerVCpu: 4,
+    SizeSpecs: BURSTABLE_SIZE_SPECS,
+    Sizes: Object.keys(BURSTABLE_SIZE_SPECS),
+  },
+  t3a: {
+    Category: 'burstable',
+    Generation: 3,
+    Current: true,
+    Architecture: 'x86_64',
+    MemoryPerVCpu: 4,
+    SizeSpecs: BURSTABLE_SIZE_SPECS,
+    Sizes: Object.keys(BURSTABLE_SIZE_SPECS),
+  },
+  t4g: {
+    Category: 'burstable',
+    Generation: 4,
+    Current: true,
+    Architecture: 'arm64',
+    MemoryPerVCpu: 4,
+    SizeSpecs: BURSTABLE_SIZE_SPECS,
+    Sizes: Object.keys(BURSTABLE_SIZE_SPECS),
+  },
+
+  // General purpose
+  m1: {
+    Category: 'general',
+    Generation: 1,
+    Current: false,
+    Architecture: 'x86_64',
+    MemoryPerVCpu: 3.75,
+    SizeSpecs: { small: [1, 1.7] },
+    Upgrade: 'm7i',
+    GravitonUpgrade: 'm7g',
+  },
+  m3: {
+    Category: 'general',
+    Generation: 3,
+    Current: false,
+    Architecture: 'x86_64',
+    MemoryPerVCpu: 3.75,
+    Upgrade: 'm7i',
+    GravitonUpgrade: 'm7g',
+  },
+  m4: {
+    Category: 'general',
+    Generation: 4,
+    Current: false,
+    Architecture: 'x86_64',
+    MemoryPerVCpu: 4,
+    Upgrade: 'm7i',
+    GravitonUpgrade: 'm7g',
+  },
+  m5: { Category: 'general', Generation: 5, Current: true, Architecture: 'x86_64', MemoryPerVCpu: 4 },
+  m5a: { Category: 'general', Generation: 5, Current: true, Architecture: 'x86_64', MemoryPerVCpu: 4 },
+  m6i: { Category: 'general', Generation: 6, Current: true, Architecture: 'x86_64', MemoryPerVCpu: 4 },
+  m6a: { Category: 'general', Generation: 6, Current: true, Architecture: 'x86_64', MemoryPerVCpu: 4 },
+  m6g: { Category: 'general', Generation: 6, Current: true, Architecture: 'arm64', MemoryPerVCpu: 4 },
+  m7i: {
+    Category: 'general',
+    Generation: 7,
+    Current: true,
+    Architecture: 'x86_64',
+    MemoryPerVCpu: 4,
+    Sizes: INTEL_SIZES,
+  },
+  m7a: { Category: 'general', Generation: 7, Current: true, Architecture: 'x86_64', MemoryPerVCpu: 4 },
+  m7g: {
+    Category: 'general',
+    Generation: 7,
+    Current: true,
+    Architecture: 'arm64',
+    MemoryPerVCpu: 4,
+    Sizes: GRAVITON_SIZES,
+  },
+
+  // Compute optimized
+  c1: {
+    Category: 'compute',
+    Generation: 1,
+    Current: false,
+    Architecture: 'x86_64',
+    MemoryPerVCpu: 0.875,
+    SizeSpecs: { medium: [2, 1.7], xlarge: [8, 7] },
+    Upgrade: 'c7i',
+    GravitonUpgrade: 'c7g',
+  },
+  c3: {
+    Category: 'compute',
+    Generation: 3,
+    Current: false,
+    Architecture: 'x86_64',
+    MemoryPerVCpu: 1.875,
+    Upgrade: 'c7i',
+    GravitonUpgrade: 'c7g',
+  },
+  c4: {
+    Category: 'compute',
+    Generation: 4,
+    Current: false,
+    Architecture: 'x86_64',
+    MemoryPerVCpu: 1.875,
+    SizeSpecs: { '8xlarge': [36, 60] },
+    Upgrade: 'c7i',
+    GravitonUpgrade: 'c7g',
+  },
+  c5: { Category: 'compute', Generation: 5, Current: true, Architecture: 'x86_64', MemoryPerVCpu: 2 },
+  c5a: { Category: 'compute', Generation: 5, Current: true, Architecture: 'x86_64', MemoryPerVCpu: 2 },
+  c6i: { Category: 'compute', Generation: 6, Current: true, Architecture: 'x86_64', MemoryPerVCpu: 2 },
+  c6a: { Category: 'compute', Generation: 6, Current: true, Architecture: 'x86_64', MemoryPerVCpu: 2 },
+  c6g: { Category: 'compute', Generation: 6, Current: true, Architecture: 'arm64', MemoryPerVCpu: 2 },
+  c7i: {
+    Category: 'compute',
+    Generation: 7,
+    Current: true,
+    Architecture: 'x86_64',
+    MemoryPerVCpu: 2,
+    Sizes: INTEL_SIZES,
+  },
+  c7g: {
+    Category: 'compute',
+    Generation: 7,
+    Current: true,
+    Architecture: 'arm64',
+    MemoryPerVCpu: 2,
+    Sizes: GRAVITON_SIZES,
+  },
+
+  // Memory optimized
+  m2: {
+    Category: 'memory',
+    Generation: 2,
+    Current: false,
+    Architecture: 'x86_64',
+    MemoryPerVCpu: 8.55,
+    SizeSpecs: { xlarge: [2, 17.1], '2xlarge': [4, 34.2], '4xlarge': [8, 68.4] },
+    Upgrade: 'r7i',
+    GravitonUpgrade: 'r7g',
+  },
+  r3: {
+    Category: 'memory',
+    Generation: 3,
+    Current: false,
+    Architecture: 'x86_64',
+    MemoryPerVCpu: 7.625,
+    Upgrade: 'r7i',
+    GravitonUpgrade: 'r7g',
+  },
+  r4: {
+    Category: 'memory',
+    Generation: 4,
+    Current: false,
+    Architecture: 'x86_64',
+    MemoryPerVCpu: 7.625,
+    Upgrade: 'r7i',
+    GravitonUpgrade: 'r7g',
+  },
+  r5: { Category: 'memory', Generation: 5, Current: true, Architecture: 'x86_64', MemoryPerVCpu: 8 },
+  r5a: { Category: 'memory', Generation: 5, Current: true, Architecture: 'x86_64', MemoryPerVCpu: 8 },
+  r6i: { Category: 'memory', Generation: 6, Current: true, Architecture: 'x86_64', MemoryPerVCpu: 8 },
+  r6a: { Category: 'memory', Generation: 6, Current: true, Architecture: 'x86_64', MemoryPerVCpu: 8 },
+  r6g: { Category: 'memory', Generation: 6, Current: true, Architecture: 'arm64', MemoryPerVCpu: 8 },
+  r7i: {
+    Category: 'memory',
+    Generation: 7,
+    Current: true,
+    Architecture: 'x86_64',
+    MemoryPerVCpu: 8,
+    Sizes: INTEL_SIZES,
+  },
+  r7g: {
+    Category: 'memory',
+    Generation: 7,
+    Current: true,
+    Architecture: 'arm64',
+    MemoryPerVCpu: 8,
+    Sizes: GRAVITON_SIZES,
+  },
+
+  // Storage optimized
+  i2: {
+    Category: 'storage',
+    Generation: 2,
+    Current: false,
+    Architecture: 'x86_64',
+    MemoryPerVCpu: 7.625,
+    Upgrade: 'i4i',
+    GravitonUpgrade: 'i4g',
+  },
+  i3: { Category: 'storage', Generation: 3, Current: true, Architecture: 'x86_64', MemoryPerVCpu: 7.625 },
+  i4i: {
+    Category: 'storage',
+    Generation: 4,
+    Current: true,
+    Architecture: 'x86_64',
+    MemoryPerVCpu: 8,
+    Sizes: ['large', 'xlarge', '2xlarge', '4xlarge', '8xlarge', '12xlarge', '16xlarge', '24xlarge', '32xlarge'],
+  },
+  i4g: {
+    Category: 'storage',
+    Generation: 4,
+    Current: true,
+    Architecture: 'arm64',
+    MemoryPerVCpu: 8,
+    Sizes: ['large', 'xlarge', '2xlarge', '4xlarge', '8xlarge', '16xlarge'],
+  },
+}
@@ -0,0 +1,318 @@
+// File: src/config/settings.ts
+// Runtime settings loaded from configuration files
+//
+// Settings are merged in the following order, later sources overriding earlier ones:
+// 1. Built-in defaults (src/config/constants.ts)
+// 2. User configuration file (~/.config/aws-org/config, or $XDG_CONFIG_HOME/aws-org/config)
+// 3. Project configuration file (.aws-org.json, .aws-org.yaml or .aws-org.yml in the current
+//    directory or the closest parent directory)
+// Command-line flags override all of them, because they are registered with these settings as defaults.
+
+import * as fs from 'fs'
+import * as path from 'path'
+import * as os from 'os'
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml'
+import { AccessMode, AppSettings, AppSettingsSources, AwsPartition } from '../types'
+import {
+  DEFAULT_OUTPUT_FORMAT,
+  DEFAULT_PARTITION,
+  DEFAULT_REGION,
+  DEFAULT_ROLE_NAME,
+  PARTITION_REGIONS,
+  ROLE_ARN_PATTERN,
+  SESSION_IDENTIFIER_PATTERN,
+} from './constants'
+import { toErrorMessage } from '../utils/errors'
+
+/**
+ * File names recognized as project configuration files, in order of preference
+ */
+export const PROJECT_CONFIG_FILES = ['.aws-org.json', '.aws-org.yaml', '.aws-org.yml']
+
+/**
+ * Output formats accepted by the output setting
+ */
+const OUTPUT_FORMATS = ['json', 'table', 'html']
+
+/**
+ * Values accepted by the accessMode setting
+ */
+export const ACCESS_MODES: AccessMode[] = ['assume-role', 'sso']
+
+/**
+ * Values accepted by the partition setting
+ */
+export const PARTITIONS = Object.keys(PARTITION_REGIONS) as AwsPartition[]
+
+/**
+ * Source name reported for settings that are not set in any configuration file
+ */
+const BUILT_IN_SOURCE = 'built-in default'
+
+/**
+ * Settings that hold a list of values
+ */
+const LIST_SETTINGS: (keyof AppSettings)[] = ['regions', 'excludeAccounts', 'roleChain', 'orgProfiles']
+
+/**
+ * Names of all supported settings
+ */
+export const SETTING_KEYS: (keyof AppSettings)[] = [
+  'regions',
+  'roleName',
+  'profile',
+  'output',
+  'excludeAccounts',
+  'roleChain',
+  'externalId',
+  'mfaSerial',
+  'sessionName',
+  'sourceIdentity',
+  'accessMode',
+  'permissionSet',
+  'orgProfiles',
+  'partition',
+]
+
+/**
+ * Effective settings together with the configuration files they were read from
+ */
+export interface LoadedSettings {
+  settings: AppSettings
+  sources: AppSettingsSources
+  files: string[] // Configuration files that were found, lowest precedence first
+}
+
+// Settings are loaded once per execution
+let loadedSettings: LoadedSettings | undefined
+
+/**
+ * Get the path of the user configuration file
+ */
+export function getUserConfigPath(): string {
+  const configHome = process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config')
+  return path.join(configHome, 'aws-org', 'config')
+}
+
+/**
+ * Find the project configuration file for a directory
+ *
+ * Looks in the directory itself, then in each parent directory up to the filesystem root.
+ *
+ * @param startDir - Directory to start searching from
+ * @returns Path of the closest project configuration file, or undefined when there is none
+ */
+export function findProjectConfigPath(startDir: string = process.cwd()): string | undefined {
+  let dir = path.resolve(startDir)
+
+  while (true) {
+    for (const fileName of PROJECT_CONFIG_FILES) {
+      const candidate = path.join(dir, fileName)
+      if (fs.existsSync(candidate)) {
+        return candidate
+      }
+    }
+
+    const parent = path.dirname(dir)
+    if (parent === dir) {
+      return undefined
+    }
+    dir = parent
+  }
+}
+
+/**
+ * Validate a single setting value and normalize it to its expected type
+ *
+ * List settings accept either an array or a comma-separated string.
+ *
+ * @param key - Setting name
+ * @param value - Raw value read from a file or the command line
+ * @param source - File or command the value comes from, used in error messages
+ * @returns Normalized value
+ */
+function normalizeSettingValue(key: keyof AppSettings, value: unknown, source: string): string | string[] {
+  if (LIST_SETTINGS.includes(key)) {
+    const items = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : undefined
+    // Unquoted account IDs are parsed as numbers, which drops their leading zeros
+    if (items?.some((item) => typeof item === 'number')) {
+      throw new Error(
+        `Invalid value for "${key}" in ${source}: expected a list of strings; quote account IDs, e.g. "012345678901"`,
+      )
+    }
+    if (!items || items.some((item) => typeof item !== 'string')) {
+      throw new Error(`Invalid value for "${key}" in ${source}: expected a list of strings`)
+    }
+    const list = items.map((item: string) => item.trim()).filter((item) => item.length > 0)
+    if (key === 'roleChain' && list.some((item) => !ROLE_ARN_PATTERN.test(item))) {
+      throw new Error(`Invalid value for "roleChain" in ${source}: expected a list of IAM role ARNs`)
+    }
+    return list
+  }
+
+  if (typeof value !== 'string' || value.trim().length === 0) {
+    throw new Error(`Invalid value for "${key}" in ${source}: expected a non-empty string`)
+  }
+
+  if (key === 'output' && !OUTPUT_FORMATS.includes(value)) {
+    throw new Error(`Invalid value for "output" in ${source}: expected one of ${OUTPUT_FORMATS.join(', ')}`)
+  }
+
+  if (key === 'accessMode' && !ACCESS_MODES.includes(value as AccessMode)) {
+    throw new Error(`Invalid value for "accessMode" in ${source}: expected one of ${ACCESS_MODES.join(', ')}`)
+  }
+
+  if (key === 'partition' && !PARTITIONS.includes(value as AwsPartition)) {
+    throw new Error(`Invalid value for "partition" in ${source}: expected one of ${PARTITIONS.join(', ')}`)
+  }
+
+  if ((key === 'sessionName' || key === 'sourceIdentity') && !SESSION_IDENTIFIER_PATTERN.test(value.trim())) {
+    throw new Error(`Invalid value for "${key}" in ${source}: expected 2 to 64 letters, digits or any of _+=,.@-`)
+  }
+
+  return value.trim()
+}
+
+/**
+ * Read and validate a configuration file
+ *
+ * JSON and YAML are both accepted whatever the file name, since YAML is a superset of JSON.
+ *
+ * @param filePath - Path of the configuration file
+ * @returns Settings defined in the file
+ */
+export function readConfigFile(filePath: string): Partial<AppSettings> {
+  let content: unknown
+  try {
+    content = parseYaml(fs.readFileSync(filePath, 'utf8'))
+  } catch (error) {
+    throw new Error(`Could not parse configuration file ${filePath}: ${toErrorMessage(error)}`)
+  }
+
+  // An empty file is a valid, empty configuration
+  if (content === null || content === undefined) {
+    return {}
+  }
+
+  if (typeof content !== 'object' || Array.isArray(content)) {
+    throw new Error(`Invalid configuration file ${filePath}: expected an object of settings`)
+  }
+
+  const settings: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(content as Record<string, unknown>)) {
+    if (!SETTING_KEYS.includes(key as keyof AppSettings)) {
+      throw new Error(`Unknown setting "${key}" in ${filePath}. Supported settings: ${SETTING_KEYS.join(', ')}`)
+    }
+    settings[key] = normalizeSettingValue(key as keyof AppSettings, value, filePath)
+  }
+
+  return settings as Partial<AppSettings>
+}
+
+/**
+ * Load the effective settings by merging the built-in defaults with the configuration files
+ *
+ * @param cwd - Directory used to find the project configuration file
+ * @returns Effective settings, where each one comes from and the files that were read
+ */
+export function loadSettings(cwd: string = process.cwd()): LoadedSettings {
+  const settings: AppSettings = {
+    regions: [DEFAULT_REGION],
+    roleName: DEFAULT_ROLE_NAME,
+    output: DEFAULT_OUTPUT_FORMAT,
+    excludeAccounts: [],
+    roleChain: [],
+    accessMode: 'assume-role',
+    orgProfiles: [],
+    partition: DEFAULT_PARTITION,
+  }
+  const sources = Object.fromEntries(SETTING_KEYS.map((key) => [key, BUILT_IN_SOURCE])) as AppSettingsSources
+  const files: string[] = []
+
+  // User file first so that the project file takes precedence
+  const candidates = [getUserConfigPath(), findProjectConfigPath(cwd)]
+  for (const filePath of candidates) {
+    if (!filePath || !fs.existsSync(filePath)) {
+      continue
+    }
+
+    const fileSettings = readConfigFile(filePath)
+    Object.assign(settings, fileSettings)
+    for (const key of Object.keys(fileSettings) as (keyof AppSettings)[]) {
+      sources[key] = filePath
+    }
+    files.push(filePath)
+  }
+
+  // Without configured regions, check the default region of the partition
+  if (sources.regions === BUILT_IN_SOURCE) {
+    settings.regions = [PARTITION_REGIONS[settings.partition].defaultRegion]
+  }
+
+  return { settings, sources, files }
+}
+
+/**
+ * Get the effective settings for this execution
+ * Configuration files are read on first use and cached afterwards.
+ */
+export function getSettings(): AppSettings {
+  return getLoadedSettings().settings
+}
+
+/**
+ * Get the effective settings along with their sources
+ */
+export function getLoadedSettings(): LoadedSettings {
+  if (!loadedSettings) {
+    loadedSettings = loadSettings()
+  }
+  return loadedSettings
+}
+
+/**
+ * Store a setting in a configuration file
+ *
+ * The file is created if needed. Existing YAML files are rewritten as YAML,
+ * everything else is written as JSON. An empty value removes the setting.
+ *
+ * @param key - Setting name
+ * @param value - New value; list settings take a comma-separated list
+ * @param local - Write to the project configuration file instead of the user configuration file
+ * @returns Path of the file that was written
+ */
+export function writeSetting(key: string, value: string, local = false): string {
+  if (!SETTING_KEYS.includes(key as keyof AppSettings)) {
+    throw new Error(`Unknown setting "${key}". Supported settings: ${SETTING_KEYS.join(', ')}`)
+  }
+  const settingKey = key as keyof AppSettings
+
+  const filePath = local
+    ? findProjectConfigPath() || path.join(process.cwd(), PROJECT_CONFIG_FILES[0])
+    : getUserConfigPath()
+
+  const existing: Record<string, unknown> = fs.existsSync(filePath) ? { ...readConfigFile(filePath) } : {}
+
+  if (value === '') {
+    delete existing[settingKey]
+  } else {
+    existing[settingKey] = normalizeSettingValue(settingKey, value, 'command line')
+  }
+
+  // Keep YAML files in YAML; use JSON for new files and JSON files.
+  // The user file has no extension, so its format is detected from its content.
+  const isYaml =
+    /\.ya?ml$/.test(filePath) ||
+    (path.extname(filePath) === '' &&
+      fs.existsSync(filePath) &&
+      !fs.readFileSync(filePath, 'utf8').trimStart().startsWith('{'))
+  const content = isYaml ? stringifyYaml(existing) : `${JSON.stringify(existing, null, 2)}\n`
+
+  fs.mkdirSync(path.dirname(filePath), { recursive: true })
+  fs.writeFileSync(filePath, content, 'utf8')
+
+  // Reload on next access so that the new value is visible in this execution
+  loadedSettings = undefined
+
+  return filePath
+}
@@ -1,7 +1,16 @@
 #!/usr/bin/env node
-import { Command } from 'commander'
+import { Command, Option } from 'commander'
 import { registerCommands } from './commands'
 import { APP_NAME, APP_DESCRIPTION, APP_VERSION } from './config/constants'
+import { logger, resolveLogLevel, setLogLevel } from './utils/logger'
+import { getSettings, PARTITIONS } from './config/settings'
+import { configureRoleSessions, enableCredentialDiskCache } from './utils/credential-broker'
+import { configureSsoAccess } from './utils/sso-session'
+import { configureOrganizationProfiles } from './utils/multi-org'
+import { configurePartition, getPartitionRegions, getRegionPartition } from './utils/partition'
+import { configureOfflinePricing } from './utils/price-catalog'
+import { toErrorMessage } from './utils/errors'
+import { collectOrganizationProfiles, collectRoleArns, parseSessionIdentifier } from './utils'
 
 // Initialize the CLI program
 const program = new Command()
@@ -9,6 +18,92 @@ const program = new Command()
 // Setup version and description
 program.name(APP_NAME).description(APP_DESCRIPTION).version(APP_VERSION)
 
+// Global logging options; diagnostics go to stderr so stdout only carries command results
+program
+  .option('-q, --quiet', 'Only log errors')
+  .option('--verbose', 'Log per-account and per-region progress details')
+  .option('--debug', 'Log low-level details, including full AWS error responses')
+  .option('--credential-cache', 'Reuse assumed role sessions across runs through an encrypted on-disk cache')
+  .option('--offline-pricing', 'Only read EC2 prices from the on-disk price catalog, never from the Price List API')
+
+// Global role session options; each one falls back to the matching setting
+program
+  .option(
+    '--role-chain <roleArn>',
+    'Role assumed before the role in each target account; repeat for a chain of roles, in order',
+    collectRoleArns,
+  )
+  .option('--external-id <externalId>', 'External ID required by the role in target accounts')
+  .option('--mfa-serial <arn>', 'MFA device of the caller; the token is prompted once per run')
+  .option('--session-name <name>', 'Role session name (default: aws-org-cli-<timestamp>)', parseSessionIdentifier)
+  .option(
+    '--source-identity <name>',
+    'Source identity recorded in CloudTrail for every role session (roles must allow sts:SetSourceIdentity)',
+    parseSessionIdentifier,
+  )
+  .addOption(
+    new Option('--access-mode <mode>', 'How credentials for target accounts are obtained').choices([
+      'assume-role',
+      'sso',
+    ]),
+  )
+  .option('--permission-set <name>', 'IAM Identity Center permission set used with --access-mode sso')
+  .addOption(new Option('--partition <partition>', 'AWS partition of the accounts').choices(PARTITIONS))
+  .option(
+    '--org-profile <profile>',
+    'Management account profile of an organization to check; repeat to run across several organizations',
+    collectOrganizationProfiles,
+  )
+  .hook('preAction', (thisCommand, actionCommand) => {
+    const options = thisCommand.opts()
+    const settings = getSettings()
+
+    setLogLevel(resolveLogLevel(options))
+    if (options.credentialCache) {
+      enableCredentialDiskCache()
+    }
+    configureOfflinePricing(Boolean(options.offlinePricing))
+    configureRoleSessions({
+      roleChain: options.roleChain || settings.roleChain,
+      externalId: options.externalId || settings.externalId,
+      mfaSerial: options.mfaSerial || settings.mfaSerial,
+      sessionName: options.sessionName || settings.sessionName,
+      sourceIdentity: options.sourceIdentity || settings.sourceIdentity,
+    })
+    const organizationProfiles: string[] = options.orgProfile || settings.orgProfiles
+    if (organizationProfiles.length > 0 && (options.accessMode || settings.accessMode) === 'sso') {
+      // The SSO access mode reads a single SSO session from the profile of the command
+      logger.error('Multi-organization mode (--org-profile) cannot be combined with the sso access mode')
+      process.exit(1)
+    }
+    configureOrganizationProfiles(organizationProfiles)
+
+    const partition = options.partition || settings.partition
+    configurePartition(partition)
+    // Default regions of another partition cannot be reached (e.g. with --partition aws-cn only on the
+    // command line); regions given with --region are left as they are
+    const regions = actionCommand.getOptionValue('region')
+    if (regions === settings.regions && settings.regions.some((region) => getRegionPartition(region) !== partition)) {
+      actionCommand.setOptionValue('region', [getPartitionRegions(partition).defaultRegion])
+    }
+
+    if ((options.accessMode || settings.accessMode) === 'sso') {
+      // The SSO session comes from the AWS profile of the command
+      configureSsoAccess({
+        profile: actionCommand.opts().profile || settings.profile,
+        permissionSet: options.permissionSet || settings.permissionSet,
+      })
+    }
+  })
+
+// Load the configuration files before registering commands, since option defaults come from them
+try {
+  getSettings()
+} catch (error) {
+  logger.error(`Error loading configuration: ${toErrorMessage(error)}`)
+  process.exit(1)
+}
+
 // Register all commands
 registerCommands(program)
 
@@ -0,0 +1,51 @@
+// File: src/services/account.ts
+// AWS Account Management API operations
+// This module provides functionality for reading account settings, such as the
+// alternate contacts, of member accounts from the management account.
+
+import { AccountClient, AlternateContactType, GetAlternateContactCommand } from '@aws-sdk/client-account'
+import { logger } from '../utils/logger'
+
+/**
+ * Alternate contact types, in display order
+ */
+export const ALTERNATE_CONTACT_TYPES: AlternateContactType[] = ['BILLING', 'OPERATIONS', 'SECURITY']
+
+/**
+ * Get the alternate contacts of an account
+ *
+ * Requires trusted access for AWS Account Management in the organization.
+ * Contacts are formatted as "Name <email>".
+ *
+ * @param client - Account Management client using the management account credentials
+ * @param accountId - Member account ID, or undefined for the management account itself
+ *   (the API rejects the management account ID)
+ * @returns Promise resolving to the contact of each type; types without a contact are omitted
+ */
+export async function getAlternateContacts(
+  client: AccountClient,
+  accountId: string | undefined,
+): Promise<Partial<Record<AlternateContactType, string>>> {
+  const contacts: Partial<Record<AlternateContactType, string>> = {}
+
+  for (const contactType of ALTERNATE_CONTACT_TYPES) {
+    try {
+      const response = await client.send(
+        new GetAlternateContactCommand({ AccountId: accountId, AlternateContactType: contactType }),
+      )
+      const contact = response.AlternateContact
+      if (contact) {
+        contacts[contactType] = `${contact.Name || ''} <${contact.EmailAddress || ''}>`
+      }
+    } catch (error) {
+      // An unset contact is reported as not found
+      if ((error as Error).name === 'ResourceNotFoundException') {
+        continue
+      }
+      logger.debug(`Error fetching ${contactType} contact for account ${accountId || 'management'}:`, error)
+      throw error
+    }
+  }
+
+  return contacts
+}
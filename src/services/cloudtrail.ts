@@ -0,0 +1,76 @@
+// File: src/services/cloudtrail.ts
+// CloudTrail service functions
+// This module finds the trails of an account and whether they are logging, so that
+// check-baseline can verify that API activity is recorded in every region.
+
+import { DescribeTrailsCommand, GetTrailStatusCommand, Trail } from '@aws-sdk/client-cloudtrail'
+import { RoleCredentials } from '../types'
+import { createCloudTrailClient } from '../utils/clients'
+import { toErrorMessage } from '../utils/errors'
+import { logger } from '../utils/logger'
+
+/**
+ * Trail of an account along with its logging status
+ */
+export interface TrailStatus {
+  name: string
+  arn: string
+  homeRegion: string
+  multiRegion: boolean
+  organizationTrail: boolean // Trail created in the management account for the whole organization
+  logging?: boolean // Undefined when the status could not be read
+  statusError?: string // Why the status could not be read
+}
+
+/**
+ * Get the trails that apply to an account and whether they are logging
+ *
+ * Organization trails created in the management account are listed too (shadow trails).
+ * The status of each trail is read in its home region, where the trail is managed. A trail whose status
+ * cannot be read (e.g. an organization trail the role has no access to) is returned with statusError.
+ *
+ * @param region - Region used to list the trails
+ * @param credentials - Role credentials (null for current account)
+ * @param accountId - AWS account ID, used in log messages
+ * @returns Trails with their logging status
+ */
+export async function getTrailStatuses(
+  region: string,
+  credentials: RoleCredentials | null,
+  accountId: string,
+): Promise<TrailStatus[]> {
+  const client = createCloudTrailClient(region, credentials)
+
+  try {
+    const { trailList = [] } = await client.send(new DescribeTrailsCommand({ includeShadowTrails: true }))
+
+    const statuses = await Promise.allSettled(
+      trailList.map(async (trail: Trail) => {
+        const homeRegion = trail.HomeRegion || region
+        const statusClient = homeRegion === region ? client : createCloudTrailClient(homeRegion, credentials)
+        return statusClient.send(new GetTrailStatusCommand({ Name: trail.TrailARN || trail.Name }))
+      }),
+    )
+
+    return trailList.map((trail: Trail, index): TrailStatus => {
+      const status = statuses[index]
+      const trailStatus: TrailStatus = {
+        name: trail.Name || '',
+        arn: trail.TrailARN || '',
+        homeRegion: trail.HomeRegion || region,
+        multiRegion: !!trail.IsMultiRegionTrail,
+        organizationTrail: !!trail.IsOrganizationTrail,
+      }
+      if (status.status === 'fulfilled') {
+        trailStatus.logging = !!status.value.IsLogging
+      } else {
+        logger.debug(`Error getting the status of trail ${trailStatus.name} in account ${accountId}:`, status.reason)
+        trailStatus.statusError = toErrorMessage(status.reason)
+      }
+      return trailStatus
+    })
+  } catch (error) {
+    logger.debug(`Error getting CloudTrail trails in account ${accountId}:`, error)
+    throw error
+  }
+}
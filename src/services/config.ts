@@ -0,0 +1,47 @@
+// File: src/services/config.ts
+// AWS Config service functions
+// This module reports the configuration recorders of an account in a region, so that
+// check-baseline can verify that resource configuration changes are recorded.
+
+import { DescribeConfigurationRecorderStatusCommand } from '@aws-sdk/client-config-service'
+import { RoleCredentials } from '../types'
+import { createConfigServiceClient } from '../utils/clients'
+import { logger } from '../utils/logger'
+
+/**
+ * Configuration recorder of a region along with its recording status
+ */
+export interface ConfigRecorderStatus {
+  name: string
+  recording: boolean
+  lastStatus: string // SUCCESS, FAILURE or PENDING; empty before the first recording
+}
+
+/**
+ * Get the configuration recorders of an account in a region
+ *
+ * @param region - AWS region to check
+ * @param credentials - Role credentials (null for current account)
+ * @param accountId - AWS account ID, used in log messages
+ * @returns Recorders of the region (AWS Config allows at most one customer managed recorder per region)
+ */
+export async function getConfigRecorderStatuses(
+  region: string,
+  credentials: RoleCredentials | null,
+  accountId: string,
+): Promise<ConfigRecorderStatus[]> {
+  const client = createConfigServiceClient(region, credentials)
+
+  try {
+    const response = await client.send(new DescribeConfigurationRecorderStatusCommand({}))
+
+    return (response.ConfigurationRecordersStatus || []).map((recorder) => ({
+      name: recorder.name || '',
+      recording: !!recorder.recording,
+      lastStatus: recorder.lastStatus || '',
+    }))
+  } catch (error) {
+    logger.debug(`Error getting AWS Config recorders in account ${accountId}, region ${region}:`, error)
+    throw error
+  }
+}
@@ -10,36 +10,16 @@
  * - Tag information including Name tag
  */
 
-import { DescribeVolumesCommand, Volume, EC2Client, Tag, VolumeAttachment } from '@aws-sdk/client-ec2'
+import {
+  DescribeVolumesCommand,
+  GetEbsEncryptionByDefaultCommand,
+  Volume,
+  Tag,
+  VolumeAttachment,
+} from '@aws-sdk/client-ec2'
 import { EBSVolumeInfo, RoleCredentials } from '../types'
-
-/**
- * Create an EC2 client for a specific region
- *
- * This function creates an EC2 client for interacting with the AWS EC2 API.
- * If credentials are provided, they're used for cross-account access.
- * Otherwise, the default credentials from the AWS SDK are used.
- *
- * @param region - AWS region to connect to (e.g., us-east-1)
- * @param credentials - Role credentials for cross-account access (or null for default credentials)
- * @returns Configured EC2Client instance
- */
-function getEC2Client(region: string, credentials: RoleCredentials | null): EC2Client {
-  if (credentials) {
-    // Use provided credentials (for cross-account access)
-    return new EC2Client({
-      region,
-      credentials: {
-        accessKeyId: credentials.accessKeyId,
-        secretAccessKey: credentials.secretAccessKey,
-        sessionToken: credentials.sessionToken,
-      },
-    })
-  } else {
-    // Use current credentials
-    return new EC2Client({ region })
-  }
-}
+import { createEC2Client } from '../utils/clients'
+import { logger } from '../utils/logger'
 
 /**
  * Get EBS volumes in a specific region of an account
@@ -60,7 +40,7 @@ export async function getEBSVolumes(
   accountName: string,
 ): Promise<EBSVolumeInfo[]> {
   // Create EC2 client with appropriate credentials
-  const ec2Client = getEC2Client(region, credentials)
+  const ec2Client = createEC2Client(region, credentials)
 
   const volumes: EBSVolumeInfo[] = []
   let nextToken: string | undefined
@@ -86,8 +66,8 @@ export async function getEBSVolumes(
 
     return volumes
   } catch (error) {
-    console.error(`Error fetching EBS volumes in ${region} for account ${accountId}:`, error)
-    return []
+    logger.debug(`Error fetching EBS volumes in ${region} for account ${accountId}:`, error)
+    throw error // Let the caller record the failure for this account/region
   }
 }
 
@@ -158,3 +138,17 @@ function formatVolumeInfo(volume: Volume, region: string, accountId: string, acc
     MultiAttachEnabled: volume.MultiAttachEnabled || false,
   }
 }
+
+/**
+ * Check whether new EBS volumes are encrypted by default in a region of an account
+ *
+ * @param region - AWS region to check
+ * @param credentials - Role credentials (null for current account)
+ * @returns Whether EBS encryption by default is enabled
+ */
+export async function getEbsEncryptionByDefault(region: string, credentials: RoleCredentials | null): Promise<boolean> {
+  const ec2Client = createEC2Client(region, credentials)
+
+  const response = await ec2Client.send(new GetEbsEncryptionByDefaultCommand({}))
+  return !!response.EbsEncryptionByDefault
+}
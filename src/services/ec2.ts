@@ -9,37 +9,19 @@
  * - Formatting instance information into standardized objects
  */
 
-import { DescribeInstancesCommand, DescribeImagesCommand, Instance, EC2Client } from '@aws-sdk/client-ec2'
-import { EC2InstanceInfo, RoleCredentials } from '../types'
-import { batchGetEC2Prices, normalizeOSForPricing } from './pricing'
-
-/**
- * Create an EC2 client for a specific region
- *
- * This function creates an EC2 client for interacting with the AWS EC2 API.
- * If credentials are provided, they're used for cross-account access.
- * Otherwise, the default credentials from the AWS SDK are used.
- *
- * @param region - AWS region to connect to (e.g., us-east-1)
- * @param credentials - Role credentials for cross-account access (or null for default credentials)
- * @returns Configured EC2Client instance
- */
-function getEC2Client(region: string, credentials: RoleCredentials | null): EC2Client {
-  if (credentials) {
-    // Use provided credentials (for cross-account access)
-    return new EC2Client({
-      region,
-      credentials: {
-        accessKeyId: credentials.accessKeyId,
-        secretAccessKey: credentials.secretAccessKey,
-        sessionToken: credentials.sessionToken,
-      },
-    })
-  } else {
-    // Use current credentials
-    return new EC2Client({ region })
-  }
-}
+import {
+  DescribeInstancesCommand,
+  DescribeImagesCommand,
+  DescribeVpcsCommand,
+  Filter,
+  Instance,
+  EC2Client,
+} from '@aws-sdk/client-ec2'
+import { EC2InstanceFilters, EC2InstanceInfo, RoleCredentials } from '../types'
+import { createEC2Client } from '../utils/clients'
+import { batchGetEC2Prices, formatEC2Price, normalizeOSForPricing } from './pricing'
+import { applyEC2Price } from '../utils/ec2-costs'
+import { logger } from '../utils/logger'
 
 /**
  * Determine detailed operating system of an EC2 instance
@@ -156,7 +138,7 @@ async function determineDetailedOS(instance: Instance, ec2Client: EC2Client): Pr
         }
       }
     } catch (error) {
-      console.warn(`Could not retrieve AMI information for ${instance.ImageId}:`, error)
+      logger.warn(`Could not retrieve AMI information for ${instance.ImageId}:`, error)
       // Continue with other detection methods
     }
   }
@@ -231,6 +213,58 @@ export async function formatInstanceInfo(
   return instanceInfo
 }
 
+/**
+ * Translate instance filters into EC2 API filters
+ *
+ * The EC2 API matches * and ? wildcards in filter values. Name patterns are not sent,
+ * since API filters are case-sensitive; they are matched by matchesInstanceNames.
+ *
+ * @param filters - Instance filters of list-ec2
+ * @returns Filters for DescribeInstances, or undefined when there are none
+ */
+export function buildInstanceFilters(filters: EC2InstanceFilters = {}): Filter[] | undefined {
+  const apiFilters: Filter[] = []
+
+  if (filters.states && filters.states.length > 0) {
+    apiFilters.push({ Name: 'instance-state-name', Values: filters.states })
+  }
+  if (filters.instanceTypes && filters.instanceTypes.length > 0) {
+    apiFilters.push({ Name: 'instance-type', Values: filters.instanceTypes })
+  }
+  if (filters.vpcIds && filters.vpcIds.length > 0) {
+    apiFilters.push({ Name: 'vpc-id', Values: filters.vpcIds })
+  }
+
+  // One filter per tag key, so that values of the same key are alternatives
+  const tagValues = new Map<string, string[]>()
+  for (const tag of filters.tags || []) {
+    const separator = tag.indexOf('=')
+    const key = tag.slice(0, separator)
+    tagValues.set(key, [...(tagValues.get(key) || []), tag.slice(separator + 1)])
+  }
+  tagValues.forEach((values, key) => apiFilters.push({ Name: `tag:${key}`, Values: values }))
+
+  return apiFilters.length > 0 ? apiFilters : undefined
+}
+
+/**
+ * Check whether the Name tag of an instance matches one of the name patterns
+ *
+ * @param instance - EC2 instance from the AWS SDK
+ * @param patterns - Name patterns with * wildcards, matched case-insensitively; none matches every instance
+ */
+export function matchesInstanceNames(instance: Instance, patterns: string[] = []): boolean {
+  if (patterns.length === 0) {
+    return true
+  }
+
+  const name = instance.Tags?.find((tag) => tag.Key === 'Name')?.Value || ''
+  return patterns.some((pattern) => {
+    const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*')
+    return new RegExp(`^${escaped}$`, 'i').test(name)
+  })
+}
+
 /**
  * Get EC2 instances in a specific region of an account with enhanced OS detection
  *
@@ -244,6 +278,7 @@ export async function formatInstanceInfo(
  * @param accountName - Account name
  * @param includePricing - Whether to include pricing information
  * @param includeTags - Optional array of tag keys to include in the output
+ * @param filters - Optional instance filters, applied before OS detection and pricing
  * @returns Array of EC2 instance information objects
  */
 export async function getEC2Instances(
@@ -253,9 +288,10 @@ export async function getEC2Instances(
   accountName: string,
   includePricing = false,
   includeTags?: string[],
+  filters: EC2InstanceFilters = {},
 ): Promise<EC2InstanceInfo[]> {
   // Create EC2 client with appropriate credentials
-  const ec2Client = getEC2Client(region, credentials)
+  const ec2Client = createEC2Client(region, credentials)
 
   const instances: EC2InstanceInfo[] = []
   let nextToken: string | undefined
@@ -264,6 +300,7 @@ export async function getEC2Instances(
     do {
       // Get instances with pagination
       const command = new DescribeInstancesCommand({
+        Filters: buildInstanceFilters(filters),
         NextToken: nextToken,
       })
 
@@ -273,9 +310,10 @@ export async function getEC2Instances(
       if (response.Reservations) {
         // Use Promise.all to process instances concurrently
         const instancePromises = response.Reservations.flatMap((reservation) =>
-          (reservation.Instances || []).map((instance) =>
-            formatInstanceInfo(instance, ec2Client, region, accountId, accountName, includeTags),
-          ),
+          (reservation.Instances || [])
+            // Name patterns are matched here, so that only matching instances are OS-probed and priced
+            .filter((instance) => matchesInstanceNames(instance, filters.names))
+            .map((instance) => formatInstanceInfo(instance, ec2Client, region, accountId, accountName, includeTags)),
         )
 
         const formattedInstances = await Promise.all(instancePromises)
@@ -292,8 +330,8 @@ export async function getEC2Instances(
 
     return instances
   } catch (error) {
-    console.error(`Error fetching EC2 instances in ${region} for account ${accountId}:`, error)
-    return []
+    logger.debug(`Error fetching EC2 instances in ${region} for account ${accountId}:`, error)
+    throw error // Let the caller record the failure for this account/region
   }
 }
 
@@ -309,7 +347,7 @@ export async function getEC2Instances(
  */
 async function addPricingInformation(instances: EC2InstanceInfo[], credentials: RoleCredentials | null): Promise<void> {
   try {
-    console.log(`Fetching pricing information for ${instances.length} instances...`)
+    logger.info(`Fetching pricing information for ${instances.length} instances...`)
 
     // Prepare list of unique instance types, regions, and operating systems
     const instanceTypeRegionOSPairs = instances.map((instance) => ({
@@ -328,27 +366,34 @@ async function addPricingInformation(instances: EC2InstanceInfo[], credentials:
       const fullKey = `${instance.Type}:${instance.Region}:${normalizedOS}`
 
       // Try OS-specific key first, fall back to generic key
-      if (priceMap.has(fullKey)) {
-        instance.HourlyPrice = priceMap.get(fullKey)
-        console.log(`Using OS-specific pricing for ${instance.InstanceId} (${instance.OS}): ${instance.HourlyPrice}`)
-      } else {
-        // Fall back to the generic key
-        const genericKey = `${instance.Type}:${instance.Region}`
-        if (priceMap.has(genericKey)) {
-          instance.HourlyPrice = priceMap.get(genericKey)
-          console.log(`Using generic pricing for ${instance.InstanceId}: ${instance.HourlyPrice}`)
-        } else {
-          instance.HourlyPrice = 'Price not available'
-        }
-      }
+      const price =
+        priceMap.get(fullKey) || priceMap.get(`${instance.Type}:${instance.Region}`) || 'Price not available'
+      applyEC2Price(instance, price)
+      logger.debug(`Pricing for ${instance.InstanceId} (${instance.OS}): ${formatEC2Price(price)}`)
     })
 
-    console.log('Pricing information added successfully')
+    logger.verbose('Pricing information added successfully')
   } catch (error) {
-    console.error('Error adding pricing information:', error)
+    logger.warn('Error adding pricing information:', error)
     // Don't fail the whole operation if pricing information can't be retrieved
-    instances.forEach((instance) => {
-      instance.HourlyPrice = 'Error retrieving price'
-    })
+    instances.forEach((instance) => applyEC2Price(instance, 'Error retrieving price'))
   }
 }
+
+/**
+ * Get the IDs of the default VPCs of an account in a region
+ *
+ * A region has at most one default VPC; an empty list means it was deleted.
+ *
+ * @param region - AWS region to check
+ * @param credentials - Role credentials (null for current account)
+ * @returns Default VPC IDs
+ */
+export async function getDefaultVpcIds(region: string, credentials: RoleCredentials | null): Promise<string[]> {
+  const ec2Client = createEC2Client(region, credentials)
+
+  const response = await ec2Client.send(
+    new DescribeVpcsCommand({ Filters: [{ Name: 'is-default', Values: ['true'] }] }),
+  )
+  return (response.Vpcs || []).map((vpc) => vpc.VpcId || 'Unknown')
+}
@@ -30,8 +30,10 @@ import {
 
 import { EC2Client, DescribeNetworkInterfacesCommand } from '@aws-sdk/client-ec2'
 import { ELBInfo, RoleCredentials } from '../types'
+import { createEC2Client, createELBClient, createELBv2Client } from '../utils/clients'
 import * as dns from 'dns'
 import { promisify } from 'util'
+import { logger } from '../utils/logger'
 
 // Define extended interfaces to help TypeScript understand the AWS SDK types
 // These interfaces ensure type safety when accessing potentially undefined properties
@@ -67,41 +69,10 @@ const resolve4 = promisify(dns.resolve4)
  * @returns Object containing all necessary clients
  */
 function createClients(region: string, credentials: RoleCredentials | null) {
-  if (credentials) {
-    // Use provided credentials (for cross-account access)
-    return {
-      elbClient: new ElasticLoadBalancingClient({
-        region,
-        credentials: {
-          accessKeyId: credentials.accessKeyId,
-          secretAccessKey: credentials.secretAccessKey,
-          sessionToken: credentials.sessionToken,
-        },
-      }),
-      elbv2Client: new ElasticLoadBalancingV2Client({
-        region,
-        credentials: {
-          accessKeyId: credentials.accessKeyId,
-          secretAccessKey: credentials.secretAccessKey,
-          sessionToken: credentials.sessionToken,
-        },
-      }),
-      ec2Client: new EC2Client({
-        region,
-        credentials: {
-          accessKeyId: credentials.accessKeyId,
-          secretAccessKey: credentials.secretAccessKey,
-          sessionToken: credentials.sessionToken,
-        },
-      }),
-    }
-  } else {
-    // Use current credentials
-    return {
-      elbClient: new ElasticLoadBalancingClient({ region }),
-      elbv2Client: new ElasticLoadBalancingV2Client({ region }),
-      ec2Client: new EC2Client({ region }),
-    }
+  return {
+    elbClient: createELBClient(region, credentials),
+    elbv2Client: createELBv2Client(region, credentials),
+    ec2Client: createEC2Client(region, credentials),
   }
 }
 
@@ -134,8 +105,8 @@ export async function getELBs(
     // Combine the results
     return [...classicElbs, ...albNlbs]
   } catch (error) {
-    console.error(`Error fetching ELBs in ${region} for account ${accountId}:`, error)
-    return []
+    logger.debug(`Error fetching ELBs in ${region} for account ${accountId}:`, error)
+    throw error
   }
 }
 
@@ -186,7 +157,7 @@ async function getClassicELBs(
                 publicIps: resolvedIps,
               }
             } catch (error) {
-              console.warn(`Error resolving DNS for ${loadBalancer.DNSName}:`, error)
+              logger.warn(`Error resolving DNS for ${loadBalancer.DNSName}:`, error)
             }
           }
 
@@ -199,8 +170,8 @@ async function getClassicELBs(
 
     return elbs
   } catch (error) {
-    console.error(`Error fetching Classic ELBs in ${region} for account ${accountId}:`, error)
-    return []
+    logger.debug(`Error fetching Classic ELBs in ${region} for account ${accountId}:`, error)
+    throw error
   }
 }
 
@@ -277,7 +248,7 @@ async function getALBNLBs(
                   publicIps: resolvedIps,
                 }
               } catch (error) {
-                console.warn(`Error resolving DNS for ${loadBalancer.DNSName}:`, error)
+                logger.warn(`Error resolving DNS for ${loadBalancer.DNSName}:`, error)
               }
             }
           }
@@ -291,8 +262,8 @@ async function getALBNLBs(
 
     return elbs
   } catch (error) {
-    console.error(`Error fetching ALB/NLBs in ${region} for account ${accountId}:`, error)
-    return []
+    logger.debug(`Error fetching ALB/NLBs in ${region} for account ${accountId}:`, error)
+    throw error
   }
 }
 
@@ -327,7 +298,7 @@ async function resolveElbDns(dnsName?: string): Promise<string[]> {
 
     return ipv4Addresses
   } catch (error) {
-    console.warn(`Error resolving DNS for ${dnsName}:`, error)
+    logger.warn(`Error resolving DNS for ${dnsName}:`, error)
     return []
   }
 }
@@ -396,7 +367,7 @@ async function getELBIpAddresses(
       publicIps: [...new Set(publicIps)], // Remove duplicates
     }
   } catch (error) {
-    console.warn(`Error fetching IP addresses for ELB ${dnsName}:`, error)
+    logger.warn(`Error fetching IP addresses for ELB ${dnsName}:`, error)
     return { privateIps: [], publicIps: [] }
   }
 }
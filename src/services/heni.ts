@@ -10,32 +10,10 @@
  * understand service usage patterns in AWS accounts.
  */
 
-import { DescribeNetworkInterfacesCommand, EC2Client, NetworkInterface } from '@aws-sdk/client-ec2'
+import { DescribeNetworkInterfacesCommand, NetworkInterface } from '@aws-sdk/client-ec2'
 import { HENIInfo, RoleCredentials } from '../types'
-
-/**
- * Create an EC2 client for a specific region
- *
- * @param region - AWS region to connect to
- * @param credentials - Role credentials for cross-account access (or null for default credentials)
- * @returns Configured EC2Client instance
- */
-function getEC2Client(region: string, credentials: RoleCredentials | null): EC2Client {
-  if (credentials) {
-    // Use provided credentials (for cross-account access)
-    return new EC2Client({
-      region,
-      credentials: {
-        accessKeyId: credentials.accessKeyId,
-        secretAccessKey: credentials.secretAccessKey,
-        sessionToken: credentials.sessionToken,
-      },
-    })
-  } else {
-    // Use current credentials
-    return new EC2Client({ region })
-  }
-}
+import { createEC2Client } from '../utils/clients'
+import { logger } from '../utils/logger'
 
 /**
  * Get HENI (Hyperplane ENI) information in a specific region of an account
@@ -56,7 +34,7 @@ export async function getHENIInfo(
   accountName: string,
 ): Promise<HENIInfo> {
   // Create EC2 client with appropriate credentials
-  const ec2Client = getEC2Client(region, credentials)
+  const ec2Client = createEC2Client(region, credentials)
 
   try {
     // Initialize counts
@@ -126,22 +104,8 @@ export async function getHENIInfo(
       LambdaHENIs: lambdaHENIs,
     }
   } catch (error) {
-    console.error(`Error fetching network interfaces in ${region} for account ${accountId}:`, error)
-
-    // Return empty result with zero counts on error
-    return {
-      AccountId: accountId,
-      AccountName: accountName,
-      Region: region,
-      TotalENIs: 0,
-      AvailableENIs: 0,
-      InUseENIs: 0,
-      TotalHENIs: 0,
-      TotalLambdaHENIs: 0,
-      RegularENIs: [],
-      HyperplaneENIs: [],
-      LambdaHENIs: [],
-    }
+    logger.debug(`Error fetching network interfaces in ${region} for account ${accountId}:`, error)
+    throw error // Let the caller record the failure for this account/region
   }
 }
 
@@ -14,46 +14,17 @@
  * - Error handling with appropriate type discrimination
  */
 
-import { IAMClient, GetUserCommand, GetRoleCommand, GetGroupCommand, NoSuchEntityException } from '@aws-sdk/client-iam'
-import { fromIni } from '@aws-sdk/credential-providers'
+import {
+  IAMClient,
+  GetUserCommand,
+  GetRoleCommand,
+  GetGroupCommand,
+  ListAccountAliasesCommand,
+  NoSuchEntityException,
+} from '@aws-sdk/client-iam'
 import { RoleCredentials } from '../types'
-
-/**
- * Create an IAM client with appropriate credentials
- *
- * This function returns an IAM client configured with credentials from one of three sources:
- * 1. Provided temporary credentials (for cross-account operations)
- * 2. Named profile in ~/.aws/credentials
- * 3. Default credential chain (environment variables, instance profile, etc.)
- *
- * @param credentials - Role credentials for cross-account access
- * @param profile - Named AWS profile to use for credentials
- * @returns Configured IAM client
- */
-function getIAMClient(credentials: RoleCredentials | null, profile?: string): IAMClient {
-  if (credentials) {
-    // Use provided credentials for cross-account access
-    return new IAMClient({
-      region: 'us-east-1', // IAM is a global service but requires a region
-      credentials: {
-        accessKeyId: credentials.accessKeyId,
-        secretAccessKey: credentials.secretAccessKey,
-        sessionToken: credentials.sessionToken,
-      },
-    })
-  } else if (profile) {
-    // Use profile credentials
-    return new IAMClient({
-      region: 'us-east-1',
-      credentials: fromIni({ profile }),
-    })
-  } else {
-    // Use default credentials
-    return new IAMClient({
-      region: 'us-east-1',
-    })
-  }
-}
+import { createIAMClient } from '../utils/clients'
+import { logger } from '../utils/logger'
 
 /**
  * Check if a user exists in IAM
@@ -74,26 +45,26 @@ export async function getUserExists(
   profile?: string,
 ): Promise<boolean> {
   // Create client if not provided
-  const client = iamClient || getIAMClient(credentials || null, profile)
+  const client = iamClient || createIAMClient(profile, credentials)
 
   try {
     // Extract just the username (the part after the last slash)
     const userName = userPath.includes('/') ? userPath.split('/').pop() || userPath : userPath
-    console.log(`Checking if user exists: Original=${userPath}, Extracted=${userName}`)
+    logger.verbose(`Checking if user exists: Original=${userPath}, Extracted=${userName}`)
 
     // Call GetUser API to check if user exists
     await client.send(new GetUserCommand({ UserName: userName }))
-    console.log(`User ${userName} exists`)
+    logger.verbose(`User ${userName} exists`)
     return true
   } catch (error) {
     const userName = userPath.includes('/') ? userPath.split('/').pop() || userPath : userPath
     if (error instanceof NoSuchEntityException) {
       // Handle "not found" case specially
-      console.log(`User ${userName} not found`)
+      logger.verbose(`User ${userName} not found`)
       return false
     }
     // Re-throw other errors (permissions, throttling, etc.)
-    console.error(`Error checking user ${userName}:`, error)
+    logger.error(`Error checking user ${userName}:`, error)
     throw error
   }
 }
@@ -117,7 +88,7 @@ export async function getRoleExists(
   profile?: string,
 ): Promise<boolean> {
   // Create client if not provided
-  const client = iamClient || getIAMClient(credentials || null, profile)
+  const client = iamClient || createIAMClient(profile, credentials)
 
   try {
     // Extract just the role name (the part after the last slash)
@@ -155,7 +126,7 @@ export async function getGroupExists(
   profile?: string,
 ): Promise<boolean> {
   // Create client if not provided
-  const client = iamClient || getIAMClient(credentials || null, profile)
+  const client = iamClient || createIAMClient(profile, credentials)
 
   try {
     // Extract just the group name (the part after the last slash)
@@ -173,3 +144,19 @@ export async function getGroupExists(
     throw error
   }
 }
+
+/**
+ * Get the IAM alias of an account
+ *
+ * An account has at most one alias.
+ *
+ * @param credentials - Role credentials (null for current account)
+ * @param profile - Optional AWS profile name for credentials
+ * @returns Promise resolving to the alias, or an empty string when the account has none
+ */
+export async function getAccountAlias(credentials: RoleCredentials | null, profile?: string): Promise<string> {
+  const client = createIAMClient(profile, credentials)
+
+  const response = await client.send(new ListAccountAliasesCommand({}))
+  return response.AccountAliases?.[0] || ''
+}
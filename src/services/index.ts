@@ -53,4 +53,28 @@ export * from './heni'
 
 // S3 service - Functions for managing and retrieving information about S3 buckets
 // Contains functions to list S3 buckets and their configurations across accounts
-export * from './s3'
\ No newline at end of file
+export * from './s3'
+
+// Regions service - Functions for discovering the regions enabled in an account
+// Contains getAccountRegions, which splits regions by opt-in status
+export * from './regions'
+
+// SSO service - Functions for the IAM Identity Center portal
+// Contains functions to list the accounts of an SSO user and get permission set credentials
+export * from './sso'
+
+// Account service - Functions for the AWS Account Management API
+// Contains getAlternateContacts for the billing, operations and security contacts of an account
+export * from './account'
+
+// Organization policies service - Functions for SCPs, tag policies and backup policies
+// Contains getOrganizationPolicies and the per-policy target and content lookups
+export * from './organization-policies'
+
+// CloudTrail service - Functions for the trails of an account
+// Contains getTrailStatuses, which lists trails (organization trails included) with their logging status
+export * from './cloudtrail'
+
+// Config service - Functions for AWS Config
+// Contains getConfigRecorderStatuses for the configuration recorders of a region
+export * from './config'
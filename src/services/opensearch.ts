@@ -15,35 +15,10 @@
  * - Handling of complex nested AWS API response structures
  */
 
-import { ListDomainNamesCommand, DescribeDomainCommand, OpenSearchClient } from '@aws-sdk/client-opensearch'
+import { ListDomainNamesCommand, DescribeDomainCommand } from '@aws-sdk/client-opensearch'
 import { OpenSearchDomainInfo, RoleCredentials } from '../types'
-
-/**
- * Creates an OpenSearch client for a specific AWS region
- *
- * This function returns an OpenSearch client configured with credentials from one of two sources:
- * 1. Provided temporary credentials (for cross-account operations)
- * 2. Default credential chain (environment variables, instance profile, etc.)
- *
- * @param region - AWS region to connect to
- * @param credentials - Role credentials for cross-account access (null for default credentials)
- * @returns Configured OpenSearchClient instance
- */
-function getOpenSearchClient(region: string, credentials: RoleCredentials | null): OpenSearchClient {
-  if (credentials) {
-    return new OpenSearchClient({
-      region,
-      credentials: {
-        accessKeyId: credentials.accessKeyId,
-        secretAccessKey: credentials.secretAccessKey,
-        sessionToken: credentials.sessionToken,
-      },
-    })
-  } else {
-    // Use current credentials
-    return new OpenSearchClient({ region })
-  }
-}
+import { createOpenSearchClient } from '../utils/clients'
+import { logger } from '../utils/logger'
 
 /**
  * Get OpenSearch domains in a specific region of an account
@@ -65,7 +40,7 @@ export async function getOpenSearchDomains(
   accountName: string,
 ): Promise<OpenSearchDomainInfo[]> {
   // Create OpenSearch client with appropriate credentials
-  const opensearchClient = getOpenSearchClient(region, credentials)
+  const opensearchClient = createOpenSearchClient(region, credentials)
 
   const domains: OpenSearchDomainInfo[] = []
 
@@ -107,14 +82,14 @@ export async function getOpenSearchDomains(
           domains.push(domainInfo)
         }
       } catch (domainError) {
-        console.warn(`Error getting details for domain ${domainName} in ${region}:`, domainError)
+        logger.warn(`Error getting details for domain ${domainName} in ${region}:`, domainError)
       }
     }
 
     return domains
   } catch (error) {
-    console.error(`Error fetching OpenSearch domains in ${region} for account ${accountId}:`, error)
-    return []
+    logger.debug(`Error fetching OpenSearch domains in ${region} for account ${accountId}:`, error)
+    throw error // Let the caller record the failure for this account/region
   }
 }
 
@@ -0,0 +1,180 @@
+// File: src/services/organization-policies.ts
+// Organizations policy functions - This module retrieves the service control policies,
+// tag policies and backup policies of the organization together with their attachments
+
+import { Organizations, PolicySummary } from '@aws-sdk/client-organizations'
+import { EffectivePolicyType, OrganizationPolicyInfo, OrganizationPolicyType, PolicyTarget } from '../types'
+import { DEFAULT_MAX_CONCURRENCY, mapWithConcurrency } from '../utils/concurrency'
+import { logger } from '../utils/logger'
+
+/**
+ * Get the summaries of all policies of a type, with pagination
+ *
+ * @param client - The AWS Organizations client instance
+ * @param policyType - Policy type to list
+ * @returns Promise resolving to the policy summaries
+ */
+export async function listPoliciesByType(
+  client: Organizations,
+  policyType: OrganizationPolicyType,
+): Promise<PolicySummary[]> {
+  const policies: PolicySummary[] = []
+  let nextToken: string | undefined
+
+  try {
+    do {
+      const response = await client.listPolicies({ Filter: policyType, NextToken: nextToken })
+      policies.push(...(response.Policies || []))
+      nextToken = response.NextToken
+    } while (nextToken)
+
+    return policies
+  } catch (error) {
+    logger.debug(`Error listing ${policyType} policies:`, error)
+    throw error
+  }
+}
+
+/**
+ * Get the roots, OUs and accounts a policy is attached to, with pagination
+ *
+ * @param client - The AWS Organizations client instance
+ * @param policyId - ID of the policy
+ * @returns Promise resolving to the policy targets
+ */
+export async function getPolicyTargets(client: Organizations, policyId: string): Promise<PolicyTarget[]> {
+  const targets: PolicyTarget[] = []
+  let nextToken: string | undefined
+
+  try {
+    do {
+      const response = await client.listTargetsForPolicy({ PolicyId: policyId, NextToken: nextToken })
+      for (const target of response.Targets || []) {
+        targets.push({
+          TargetId: target.TargetId || '',
+          Name: target.Name || target.TargetId || '',
+          Type: target.Type as PolicyTarget['Type'],
+        })
+      }
+      nextToken = response.NextToken
+    } while (nextToken)
+
+    return targets
+  } catch (error) {
+    logger.debug(`Error fetching targets of policy ${policyId}:`, error)
+    throw error
+  }
+}
+
+/**
+ * Get the document of a policy
+ *
+ * @param client - The AWS Organizations client instance
+ * @param policyId - ID of the policy
+ * @returns Promise resolving to the policy content (JSON text)
+ */
+export async function getPolicyContent(client: Organizations, policyId: string): Promise<string> {
+  try {
+    const response = await client.describePolicy({ PolicyId: policyId })
+    return response.Policy?.Content || ''
+  } catch (error) {
+    logger.debug(`Error fetching policy ${policyId}:`, error)
+    throw error
+  }
+}
+
+/**
+ * Check whether a policy type is enabled on the root of the organization
+ *
+ * Policies of a disabled type may still exist, but they are neither attached nor enforced.
+ *
+ * @param client - The AWS Organizations client instance
+ * @param policyType - Policy type to check
+ * @returns Promise resolving to true when the policy type is enabled
+ */
+export async function isPolicyTypeEnabled(client: Organizations, policyType: OrganizationPolicyType): Promise<boolean> {
+  try {
+    const response = await client.listRoots({})
+    const root = response.Roots?.[0]
+    return (root?.PolicyTypes || []).some((type) => type.Type === policyType && type.Status === 'ENABLED')
+  } catch (error) {
+    logger.debug(`Error checking whether ${policyType} is enabled:`, error)
+    throw error
+  }
+}
+
+/**
+ * Get all policies of the given types with their targets and content
+ *
+ * Policy types that are not enabled in the organization simply have no policies.
+ *
+ * @param client - The AWS Organizations client instance
+ * @param policyTypes - Policy types to fetch
+ * @param maxConcurrency - Maximum number of policies described at the same time
+ * @returns Promise resolving to the policies, grouped by type in the order of policyTypes
+ */
+export async function getOrganizationPolicies(
+  client: Organizations,
+  policyTypes: OrganizationPolicyType[],
+  maxConcurrency = DEFAULT_MAX_CONCURRENCY,
+): Promise<OrganizationPolicyInfo[]> {
+  const policies: OrganizationPolicyInfo[] = []
+
+  for (const policyType of policyTypes) {
+    const summaries = await listPoliciesByType(client, policyType)
+    logger.verbose(`Found ${summaries.length} ${policyType} policies`)
+
+    const details = await mapWithConcurrency(summaries, maxConcurrency, async (summary) => {
+      const policyId = summary.Id || ''
+      const [targets, content] = await Promise.all([
+        getPolicyTargets(client, policyId),
+        getPolicyContent(client, policyId),
+      ])
+      return {
+        PolicyId: policyId,
+        PolicyName: summary.Name || policyId,
+        Type: policyType,
+        Description: summary.Description || '',
+        AwsManaged: !!summary.AwsManaged,
+        Targets: targets,
+        Content: content,
+      }
+    })
+
+    policies.push(...details.sort((a, b) => a.PolicyName.localeCompare(b.PolicyName)))
+  }
+
+  return policies
+}
+
+/**
+ * Get the effective policy of a type for an account
+ *
+ * The effective policy merges the policies attached to the root, the OUs above the account
+ * and the account itself, following the inheritance rules of the policy type.
+ *
+ * @param client - The AWS Organizations client instance
+ * @param policyType - Tag, backup or AI services opt-out policy
+ * @param accountId - ID of the account
+ * @returns Promise resolving to the effective policy, or null when no policy of this type applies
+ */
+export async function getEffectivePolicy(
+  client: Organizations,
+  policyType: EffectivePolicyType,
+  accountId: string,
+): Promise<{ Content: string; LastUpdated?: Date } | null> {
+  try {
+    const response = await client.describeEffectivePolicy({ PolicyType: policyType, TargetId: accountId })
+    return {
+      Content: response.EffectivePolicy?.PolicyContent || '',
+      LastUpdated: response.EffectivePolicy?.LastUpdatedTimestamp,
+    }
+  } catch (error) {
+    // Accounts without any policy of the type have no effective policy
+    if ((error as Error).name === 'EffectivePolicyNotFoundException') {
+      return null
+    }
+    logger.debug(`Error fetching effective ${policyType} for account ${accountId}:`, error)
+    throw error
+  }
+}
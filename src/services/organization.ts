@@ -2,7 +2,9 @@
 // Organizations service functions - This module provides functions to interact with AWS Organizations API
 // It helps retrieve AWS accounts and organizational units information
 
-import { Organizations } from '@aws-sdk/client-organizations'
+import { Organizations, OrganizationalUnit } from '@aws-sdk/client-organizations'
+import { OrganizationTreeData } from '../types'
+import { logger } from '../utils/logger'
 
 /**
  * Get all accounts from the organization with pagination
@@ -34,8 +36,8 @@ export async function getAllAccounts(client: Organizations): Promise<Record<stri
 
     return accounts
   } catch (error) {
-    // Log and re-throw any errors that occur
-    console.error('Error fetching accounts:', error)
+    // Re-throw so callers can report the error, or fall back to another account source
+    logger.debug('Error fetching accounts:', error)
     throw error
   }
 }
@@ -59,11 +61,33 @@ export async function getAccount(client: Organizations, accountId: string): Prom
     return (response.Account as Record<string, unknown>) || null
   } catch (error) {
     // Log error but don't throw - return null instead to indicate account not found
-    console.error(`Error fetching account ${accountId}:`, error)
+    logger.error(`Error fetching account ${accountId}:`, error)
     return null
   }
 }
 
+/**
+ * Look up an account that may belong to another organization
+ *
+ * Unlike getAccount, an account outside the organization is not reported as an error,
+ * so that each organization can be searched in multi-organization mode.
+ *
+ * @param client - The AWS Organizations client instance
+ * @param accountId - The AWS account ID to look up
+ * @returns Promise resolving to the account object, or null when it is not in the organization
+ */
+export async function findAccount(client: Organizations, accountId: string): Promise<Record<string, unknown> | null> {
+  try {
+    const response = await client.describeAccount({ AccountId: accountId })
+    return (response.Account as Record<string, unknown>) || null
+  } catch (error) {
+    if ((error as Error).name === 'AccountNotFoundException') {
+      return null
+    }
+    throw error
+  }
+}
+
 /**
  * Get organization details
  *
@@ -82,7 +106,7 @@ export async function getOrganizationDetails(client: Organizations): Promise<Rec
     return (response.Organization as Record<string, unknown>) || null
   } catch (error) {
     // Log and re-throw any errors that occur
-    console.error('Error fetching organization details:', error)
+    logger.error('Error fetching organization details:', error)
     throw error
   }
 }
@@ -115,7 +139,7 @@ export async function getOrganizationRoot(client: Organizations): Promise<string
     return rootId
   } catch (error) {
     // Log and re-throw any errors that occur
-    console.error('Error fetching organization root:', error)
+    logger.error('Error fetching organization root:', error)
     throw error
   }
 }
@@ -137,18 +161,20 @@ export async function getAllOrganizationalUnits(
   let allOUs: Array<Record<string, unknown>> = [] // Initialize empty OUs array
 
   try {
-    // Get direct child OUs for this parent
-    const response = await client.listOrganizationalUnitsForParent({
-      ParentId: parentId,
-    })
-
-    // If no OUs were found, return empty array
-    if (!response.OrganizationalUnits || response.OrganizationalUnits.length === 0) {
-      return allOUs
-    }
+    // Get direct child OUs for this parent, handling pagination
+    const childOUs: OrganizationalUnit[] = []
+    let nextToken: string | undefined
+    do {
+      const response = await client.listOrganizationalUnitsForParent({
+        ParentId: parentId,
+        NextToken: nextToken,
+      })
+      childOUs.push(...(response.OrganizationalUnits || []))
+      nextToken = response.NextToken
+    } while (nextToken)
 
     // For each OU found, process it and its children
-    for (const ou of response.OrganizationalUnits) {
+    for (const ou of childOUs) {
       // Add parent ID reference to make the hierarchy clear in the output
       const ouWithParent = { ...ou, ParentId: parentId }
       allOUs.push(ouWithParent as Record<string, unknown>)
@@ -163,7 +189,7 @@ export async function getAllOrganizationalUnits(
     return allOUs
   } catch (error) {
     // Log and re-throw any errors that occur
-    console.error(`Error fetching OUs for parent ${parentId}:`, error)
+    logger.error(`Error fetching OUs for parent ${parentId}:`, error)
     throw error
   }
 }
@@ -208,7 +234,7 @@ export async function getParentInfoForAccounts(
         }
       } catch (error) {
         // Log error and add account with error parent info
-        console.error(`Error fetching parent for account ${account.Id}:`, error)
+        logger.error(`Error fetching parent for account ${account.Id}:`, error)
         accountsWithParents.push({
           ...account,
           ParentId: 'Error',
@@ -220,3 +246,127 @@ export async function getParentInfoForAccounts(
 
   return accountsWithParents
 }
+
+/**
+ * Get the tags attached to an account
+ *
+ * @param client - The AWS Organizations client instance
+ * @param accountId - The ID of the account
+ * @returns Promise resolving to the account tags as a key/value map
+ */
+export async function getAccountTags(client: Organizations, accountId: string): Promise<Record<string, string>> {
+  const tags: Record<string, string> = {}
+  let nextToken: string | undefined
+
+  try {
+    do {
+      const response = await client.listTagsForResource({ ResourceId: accountId, NextToken: nextToken })
+      for (const tag of response.Tags || []) {
+        if (tag.Key) {
+          tags[tag.Key] = tag.Value || ''
+        }
+      }
+      nextToken = response.NextToken
+    } while (nextToken)
+
+    return tags
+  } catch (error) {
+    // Callers decide whether a missing tag list is fatal
+    logger.debug(`Error fetching tags for account ${accountId}:`, error)
+    throw error
+  }
+}
+
+/**
+ * Get the data needed to build the organization tree
+ *
+ * Retrieves the root, every OU with its parent and every account with its parent.
+ *
+ * @param client - The AWS Organizations client instance
+ * @returns Promise resolving to the root ID, the OUs and the accounts with parent information
+ */
+export async function getOrganizationTreeData(client: Organizations): Promise<OrganizationTreeData> {
+  const rootId = await getOrganizationRoot(client)
+  const ous = await getAllOrganizationalUnits(client, rootId)
+  const accounts = await getParentInfoForAccounts(client, await getAllAccounts(client))
+
+  return { rootId, ous, accounts }
+}
+
+/**
+ * Get the AWS services with trusted access enabled for the organization, with pagination
+ *
+ * Requires the ALL features set.
+ *
+ * @param client - The AWS Organizations client instance
+ * @returns Promise resolving to the services, each with ServicePrincipal and DateEnabled
+ */
+export async function getTrustedServiceAccess(client: Organizations): Promise<Record<string, unknown>[]> {
+  let services: Record<string, unknown>[] = []
+  let nextToken: string | undefined
+
+  try {
+    do {
+      const response = await client.listAWSServiceAccessForOrganization({ NextToken: nextToken })
+      services = services.concat((response.EnabledServicePrincipals || []) as Record<string, unknown>[])
+      nextToken = response.NextToken
+    } while (nextToken)
+
+    return services
+  } catch (error) {
+    logger.debug('Error fetching trusted service access:', error)
+    throw error
+  }
+}
+
+/**
+ * Get the delegated administrator accounts of the organization, with pagination
+ *
+ * @param client - The AWS Organizations client instance
+ * @returns Promise resolving to the delegated administrator accounts (Id, Name, Email, Status, DelegationEnabledDate, ...)
+ */
+export async function getDelegatedAdministrators(client: Organizations): Promise<Record<string, unknown>[]> {
+  let administrators: Record<string, unknown>[] = []
+  let nextToken: string | undefined
+
+  try {
+    do {
+      const response = await client.listDelegatedAdministrators({ NextToken: nextToken })
+      administrators = administrators.concat((response.DelegatedAdministrators || []) as Record<string, unknown>[])
+      nextToken = response.NextToken
+    } while (nextToken)
+
+    return administrators
+  } catch (error) {
+    logger.debug('Error fetching delegated administrators:', error)
+    throw error
+  }
+}
+
+/**
+ * Get the services an account is a delegated administrator for, with pagination
+ *
+ * @param client - The AWS Organizations client instance
+ * @param accountId - ID of the delegated administrator account
+ * @returns Promise resolving to the services, each with ServicePrincipal and DelegationEnabledDate
+ */
+export async function getDelegatedServices(
+  client: Organizations,
+  accountId: string,
+): Promise<Record<string, unknown>[]> {
+  let services: Record<string, unknown>[] = []
+  let nextToken: string | undefined
+
+  try {
+    do {
+      const response = await client.listDelegatedServicesForAccount({ AccountId: accountId, NextToken: nextToken })
+      services = services.concat((response.DelegatedServices || []) as Record<string, unknown>[])
+      nextToken = response.NextToken
+    } while (nextToken)
+
+    return services
+  } catch (error) {
+    logger.debug(`Error fetching delegated services for account ${accountId}:`, error)
+    throw error
+  }
+}
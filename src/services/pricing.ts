@@ -2,35 +2,40 @@
 // EC2 pricing service functions
 // This module provides functionality to retrieve AWS EC2 pricing information
 // from the AWS Pricing API and includes helpers for OS normalization and caching.
+// Products are kept in the on-disk price catalog (src/utils/price-catalog.ts) across runs.
+
+import * as fs from 'fs'
+import { GetProductsCommand, Filter } from '@aws-sdk/client-pricing'
+import {
+  EC2Price,
+  EC2ReservedPrice,
+  PriceListDimension,
+  PriceListProduct,
+  PriceListTerm,
+  RoleCredentials,
+} from '../types'
+import { createPricingClient } from '../utils/clients'
+import { toErrorMessage } from '../utils/errors'
+import { mapWithConcurrency } from '../utils/concurrency'
+import { logger } from '../utils/logger'
+import { getPartition, getPartitionRegions } from '../utils/partition'
+import { isOfflinePricing, readPriceCatalog, writePriceCatalog } from '../utils/price-catalog'
+import { readJsonMembers } from '../utils/json-stream'
 
-import { PricingClient, GetProductsCommand, Filter } from '@aws-sdk/client-pricing'
-import { RoleCredentials } from '../types'
+/**
+ * Default number of concurrent Pricing API requests issued by batchGetEC2Prices
+ */
+const PRICING_MAX_CONCURRENCY = 5
 
 /**
- * Create a Pricing client
- *
- * Creates an AWS Pricing client with either provided credentials or default credentials.
- * Note that the AWS Pricing API is only available in us-east-1 and ap-south-1 regions.
- *
- * @param credentials - Role credentials for cross-account access, or null to use default credentials
- * @returns Configured PricingClient instance
+ * Hours in a year, used to spread the upfront fee of Reserved Instances over their term
  */
-function getPricingClient(credentials: RoleCredentials | null): PricingClient {
-  if (credentials) {
-    // Use provided credentials (for cross-account access)
-    return new PricingClient({
-      region: 'us-east-1', // Pricing API is only available in us-east-1 and ap-south-1
-      credentials: {
-        accessKeyId: credentials.accessKeyId,
-        secretAccessKey: credentials.secretAccessKey,
-        sessionToken: credentials.sessionToken,
-      },
-    })
-  } else {
-    // Use current credentials
-    return new PricingClient({ region: 'us-east-1' })
-  }
-}
+const HOURS_PER_YEAR = 8760
+
+/**
+ * Operating systems of the Price List API that prices are looked up for (see normalizeOSForPricing)
+ */
+export const PRICING_OPERATING_SYSTEMS = ['Linux', 'Windows', 'RHEL', 'SUSE']
 
 /**
  * Normalize OS names to match AWS Pricing API values with improved precision
@@ -116,26 +121,94 @@ export function normalizeOSForPricing(os: string): string {
 }
 
 /**
- * Retrieve the hourly on-demand price for an EC2 instance with formatted output
+ * Format a price for display, e.g. "0.0960 USD/hr (Linux)"
  *
- * This function queries the AWS Pricing API for the hourly price of an EC2 instance
- * based on instance type, region, and operating system. It formats the result as
- * a human-readable string with currency information.
+ * @param price - Price from getEC2Price, or the reason no price is available
+ * @returns Display text of the price
+ */
+export function formatEC2Price(price: EC2Price | string): string {
+  if (typeof price === 'string') {
+    return price
+  }
+  return `${price.HourlyPrice.toFixed(4)} ${price.Currency}/hr (${price.PricingOS})`
+}
+
+/**
+ * Build the Price List API filters of the EC2 products of a region and operating system
+ *
+ * @param regionName - Region name, as returned by getRegionName
+ * @param normalizedOS - Operating system, as returned by normalizeOSForPricing
+ * @param instanceType - Instance type; every instance type when omitted
+ */
+function getPriceListFilters(regionName: string, normalizedOS: string, instanceType?: string): Filter[] {
+  // These filters narrow the products down to shared tenancy instances without pre-installed software
+  const filters: Filter[] = [
+    { Type: 'TERM_MATCH' as const, Field: 'serviceCode', Value: 'AmazonEC2' },
+    { Type: 'TERM_MATCH' as const, Field: 'location', Value: regionName },
+    { Type: 'TERM_MATCH' as const, Field: 'tenancy', Value: 'Shared' },
+    { Type: 'TERM_MATCH' as const, Field: 'operatingSystem', Value: normalizedOS },
+    { Type: 'TERM_MATCH' as const, Field: 'capacityStatus', Value: 'Used' },
+    { Type: 'TERM_MATCH' as const, Field: 'preInstalledSw', Value: 'NA' },
+  ]
+  if (instanceType) {
+    filters.push({ Type: 'TERM_MATCH' as const, Field: 'instanceType', Value: instanceType })
+  }
+  return filters
+}
+
+/**
+ * Check whether a product includes the OS license; Windows products also exist for bring your own license
+ */
+function isLicenseIncluded(product: PriceListProduct): boolean {
+  return product.product?.attributes?.licenseModel !== 'Bring your own license'
+}
+
+/**
+ * Keep only the fields of a Price List product that are read, to keep the price catalog small
+ */
+function compactPriceListProduct(product: PriceListProduct): PriceListProduct {
+  const compactTerms = (terms: Record<string, PriceListTerm> = {}): Record<string, PriceListTerm> =>
+    Object.fromEntries(
+      Object.entries(terms).map(([code, term]) => [
+        code,
+        { termAttributes: term.termAttributes, priceDimensions: term.priceDimensions },
+      ]),
+    )
+
+  return {
+    product: {
+      sku: product.product?.sku,
+      attributes: { instanceType: product.product?.attributes?.instanceType || '' },
+    },
+    terms: { OnDemand: compactTerms(product.terms?.OnDemand), Reserved: compactTerms(product.terms?.Reserved) },
+  }
+}
+
+/**
+ * Query the AWS Pricing API for the product of an EC2 instance type
+ *
+ * The product of an instance type, region and operating system holds both its OnDemand and
+ * its Reserved terms.
  *
  * @param instanceType - EC2 instance type (e.g., 't2.micro')
  * @param region - AWS region (e.g., 'us-east-1')
- * @param os - Operating system (e.g., 'Linux', 'Windows')
+ * @param normalizedOS - Operating system, as returned by normalizeOSForPricing
  * @param credentials - Role credentials (null for current account)
- * @returns The hourly price as a string or error message if not available
+ * @returns The product, or the reason it is not available (e.g. "Price not found")
  */
-export async function getEC2HourlyPrice(
+async function fetchPriceListProduct(
   instanceType: string,
   region: string,
-  os: string = 'Linux',
-  credentials: RoleCredentials | null = null,
-): Promise<string> {
+  normalizedOS: string,
+  credentials: RoleCredentials | null,
+): Promise<PriceListProduct | string> {
   try {
-    const client = getPricingClient(credentials)
+    // GovCloud has no Price List API; skip the lookup instead of failing for every instance
+    if (!getPartitionRegions().pricingRegion) {
+      return `Pricing not available in ${getPartition()}`
+    }
+
+    const client = createPricingClient(credentials)
 
     // Convert region to region name (required for pricing API)
     const regionName = getRegionName(region)
@@ -143,60 +216,341 @@ export async function getEC2HourlyPrice(
       return 'Region not recognized'
     }
 
-    // Use the normalized OS name for pricing API
-    const normalizedOS = normalizeOSForPricing(os)
-    console.log(`Looking up price for ${instanceType} in ${region} with OS: ${normalizedOS} (original: ${os})`)
-
-    // Define filters for the pricing API
-    // These filters help narrow down the specific product we're looking for
-    const filters: Filter[] = [
-      { Type: 'TERM_MATCH' as const, Field: 'serviceCode', Value: 'AmazonEC2' },
-      { Type: 'TERM_MATCH' as const, Field: 'instanceType', Value: instanceType },
-      { Type: 'TERM_MATCH' as const, Field: 'location', Value: regionName },
-      { Type: 'TERM_MATCH' as const, Field: 'tenancy', Value: 'Shared' },
-      { Type: 'TERM_MATCH' as const, Field: 'operatingSystem', Value: normalizedOS },
-      { Type: 'TERM_MATCH' as const, Field: 'capacityStatus', Value: 'Used' },
-      { Type: 'TERM_MATCH' as const, Field: 'preInstalledSw', Value: 'NA' },
-    ]
+    logger.debug(`Looking up price for ${instanceType} in ${region} with OS: ${normalizedOS}`)
 
     // Create and send the API request
     const command = new GetProductsCommand({
       ServiceCode: 'AmazonEC2',
-      Filters: filters,
+      Filters: getPriceListFilters(regionName, normalizedOS, instanceType),
       MaxResults: 10, // Typically only need one result
     })
 
     const response = await client.send(command)
 
-    // Process the response if we have pricing data
-    if (response.PriceList && response.PriceList.length > 0) {
-      // Parse the price list which comes as JSON strings
-      const priceData = JSON.parse(response.PriceList[0])
+    // The price list comes as JSON strings
+    for (const item of response.PriceList || []) {
+      const product = JSON.parse(item) as PriceListProduct
+      if (isLicenseIncluded(product)) {
+        return compactPriceListProduct(product)
+      }
+    }
 
-      // Navigate the complex pricing structure to find on-demand price
-      if (priceData.terms && priceData.terms.OnDemand) {
-        const onDemandKey = Object.keys(priceData.terms.OnDemand)[0]
-        const priceDimensionsKey = Object.keys(priceData.terms.OnDemand[onDemandKey].priceDimensions)[0]
-        const pricePerUnit = priceData.terms.OnDemand[onDemandKey].priceDimensions[priceDimensionsKey].pricePerUnit
+    return 'Price not found'
+  } catch (error) {
+    logger.warn(`Error fetching EC2 hourly price for ${instanceType} in ${region}:`, error)
+    return 'Error retrieving price'
+  }
+}
 
-        // Get price and currency
-        const currency = Object.keys(pricePerUnit)[0]
-        const price = pricePerUnit[currency]
+/**
+ * Get the Price List product of an EC2 instance type from the price catalog or the AWS Pricing API
+ *
+ * Products and "Price not found" answers are stored in the catalog; failed lookups are not,
+ * so that they are retried by the next run. In offline mode, only the catalog is read.
+ *
+ * @param instanceType - EC2 instance type
+ * @param region - AWS region
+ * @param normalizedOS - Operating system, as returned by normalizeOSForPricing
+ * @param credentials - Role credentials (null for current account)
+ * @returns The product, or the reason it is not available
+ */
+async function loadPriceListProduct(
+  instanceType: string,
+  region: string,
+  normalizedOS: string,
+  credentials: RoleCredentials | null,
+): Promise<PriceListProduct | string> {
+  const catalogKey = `${instanceType}:${region}:${normalizedOS}`
+  const stored = readPriceCatalog(catalogKey)
+  if (stored !== undefined) {
+    return stored
+  }
+  if (isOfflinePricing()) {
+    return 'Price not in the offline price catalog'
+  }
 
-        // Format price to show exactly 4 decimal places
-        const formattedPrice = parseFloat(price).toFixed(4)
+  const product = await fetchPriceListProduct(instanceType, region, normalizedOS, credentials)
+  if (typeof product !== 'string' || product === 'Price not found') {
+    writePriceCatalog(catalogKey, product)
+  }
+  return product
+}
 
-        return `${formattedPrice} ${currency}/hr (${normalizedOS})`
+/**
+ * Store every EC2 product of a region and operating system in the price catalog
+ *
+ * Used by `pricing refresh` to prefetch prices; the caller saves the catalog.
+ *
+ * @param region - AWS region (e.g., 'us-east-1')
+ * @param normalizedOS - Operating system, as returned by normalizeOSForPricing
+ * @param instanceTypes - Instance types to fetch; every instance type of the region when empty
+ * @param credentials - Role credentials (null for current account)
+ * @returns Number of products stored
+ */
+export async function refreshEC2PriceCatalog(
+  region: string,
+  normalizedOS: string,
+  instanceTypes: string[],
+  credentials: RoleCredentials | null = null,
+): Promise<number> {
+  if (!getPartitionRegions().pricingRegion) {
+    throw new Error(`Pricing not available in ${getPartition()}`)
+  }
+  const regionName = getRegionName(region)
+  if (!regionName) {
+    throw new Error(`Region not recognized by the Price List API: ${region}`)
+  }
+
+  const client = createPricingClient(credentials)
+  let stored = 0
+  for (const instanceType of instanceTypes.length > 0 ? instanceTypes : [undefined]) {
+    let nextToken: string | undefined
+    let found = false
+    do {
+      const response = await client.send(
+        new GetProductsCommand({
+          ServiceCode: 'AmazonEC2',
+          Filters: getPriceListFilters(regionName, normalizedOS, instanceType),
+          MaxResults: 100,
+          NextToken: nextToken,
+        }),
+      )
+
+      for (const item of response.PriceList || []) {
+        const product = JSON.parse(item) as PriceListProduct
+        const type = product.product?.attributes?.instanceType
+        if (type && isLicenseIncluded(product)) {
+          writePriceCatalog(`${type}:${region}:${normalizedOS}`, compactPriceListProduct(product))
+          stored++
+          found = true
+        }
       }
+      nextToken = response.NextToken
+    } while (nextToken)
+
+    if (instanceType && !found) {
+      writePriceCatalog(`${instanceType}:${region}:${normalizedOS}`, 'Price not found')
     }
+  }
 
-    return 'Price not found'
+  return stored
+}
+
+// Product of an AWS bulk price list (offer file), limited to the fields we read
+interface BulkPriceListProduct {
+  sku?: string
+  productFamily?: string
+  attributes?: Record<string, string>
+}
+
+/**
+ * Store the EC2 products of an AWS bulk price list file in the price catalog
+ *
+ * The file is an EC2 offer file of the Price List Bulk API, e.g.
+ * https://pricing.us-east-1.amazonaws.com/offers/v1.0/aws/AmazonEC2/current/us-east-1/index.json.
+ * Only the products matching the Price List API queries are kept: shared tenancy instances
+ * without pre-installed software, with a license included for Windows.
+ * Offer files can be several gigabytes, so the file is streamed and only the kept products and
+ * their terms are held in memory. Offer files list the products before the terms.
+ *
+ * @param filePath - Path of the bulk price list JSON file
+ * @returns Number of products stored and the regions they belong to
+ */
+export function importEC2BulkPriceList(filePath: string): { products: number; regions: string[] } {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Price list file not found: ${filePath}`)
+  }
+
+  const regionCodes = new Map(Object.entries(regionNameMap).map(([code, name]) => [name, code]))
+  // Catalog key, region and instance type of the kept products by SKU, then their terms by SKU
+  const kept = new Map<string, { key: string; region: string; instanceType: string }>()
+  const terms = new Map<string, NonNullable<PriceListProduct['terms']>>()
+  let offerCode: unknown
+  let hasProducts = false
+
+  const keepProduct = (sku: string, product: BulkPriceListProduct): void => {
+    const attributes = product.attributes || {}
+    const region = attributes.regionCode || regionCodes.get(attributes.location)
+    if (
+      product.productFamily !== 'Compute Instance' ||
+      !region ||
+      !attributes.instanceType ||
+      !PRICING_OPERATING_SYSTEMS.includes(attributes.operatingSystem) ||
+      attributes.tenancy !== 'Shared' ||
+      attributes.capacitystatus !== 'Used' ||
+      attributes.preInstalledSw !== 'NA' ||
+      !isLicenseIncluded({ product })
+    ) {
+      return
+    }
+    kept.set(sku, {
+      key: `${attributes.instanceType}:${region}:${attributes.operatingSystem}`,
+      region,
+      instanceType: attributes.instanceType,
+    })
+  }
+
+  try {
+    readJsonMembers(filePath, (path) => {
+      const [section, group, sku] = path
+      if (path.length === 1) {
+        if (section === 'offerCode') {
+          return (value) => {
+            offerCode = value
+          }
+        }
+        return section === 'products' || section === 'terms' ? 'descend' : undefined
+      }
+      if (section === 'products' && path.length === 2) {
+        hasProducts = true
+        return (value) => keepProduct(group, value as BulkPriceListProduct)
+      }
+      if (section === 'terms' && path.length === 2) {
+        return group === 'OnDemand' || group === 'Reserved' ? 'descend' : undefined
+      }
+      if (section === 'terms' && path.length === 3 && kept.has(sku)) {
+        return (value) => {
+          terms.set(sku, { ...terms.get(sku), [group]: value as Record<string, PriceListTerm> })
+        }
+      }
+      return undefined
+    })
   } catch (error) {
-    console.error(`Error fetching EC2 hourly price for ${instanceType} in ${region}:`, error)
-    return 'Error retrieving price'
+    throw new Error(`Could not parse price list file ${filePath}: ${toErrorMessage(error)}`)
+  }
+  if (offerCode !== 'AmazonEC2' || !hasProducts) {
+    throw new Error(`Invalid price list file ${filePath}: expected an AmazonEC2 offer file`)
+  }
+
+  const regions = new Set<string>()
+  for (const [sku, { key, region, instanceType }] of kept) {
+    writePriceCatalog(key, {
+      product: { sku, attributes: { instanceType } },
+      terms: { OnDemand: terms.get(sku)?.OnDemand, Reserved: terms.get(sku)?.Reserved },
+    })
+    regions.add(region)
+  }
+
+  return { products: kept.size, regions: Array.from(regions).sort() }
+}
+
+/**
+ * Get the price and currency of a price dimension
+ */
+function getDimensionPrice(dimension: PriceListDimension): { price: number; currency: string } {
+  const currency = Object.keys(dimension.pricePerUnit || {})[0] || ''
+  return { price: parseFloat(dimension.pricePerUnit?.[currency] ?? ''), currency }
+}
+
+/**
+ * Retrieve the hourly on-demand price of an EC2 instance type
+ *
+ * This function queries the AWS Pricing API for the hourly price of an EC2 instance
+ * based on instance type, region, and operating system.
+ *
+ * @param instanceType - EC2 instance type (e.g., 't2.micro')
+ * @param region - AWS region (e.g., 'us-east-1')
+ * @param os - Operating system (e.g., 'Linux', 'Windows')
+ * @param credentials - Role credentials (null for current account)
+ * @returns The price, or the reason it is not available (e.g. "Price not found")
+ */
+export async function getEC2Price(
+  instanceType: string,
+  region: string,
+  os: string = 'Linux',
+  credentials: RoleCredentials | null = null,
+): Promise<EC2Price | string> {
+  // Use the normalized OS name for pricing API
+  const normalizedOS = normalizeOSForPricing(os)
+  const product = await getPriceListProductCached(instanceType, region, normalizedOS, credentials)
+  if (typeof product === 'string') {
+    return product
+  }
+
+  // Navigate the complex pricing structure to find on-demand price
+  const onDemandTerm = Object.values(product.terms?.OnDemand || {})[0]
+  const dimension = onDemandTerm && Object.values(onDemandTerm.priceDimensions || {})[0]
+  if (!dimension) {
+    return 'Price not found'
+  }
+
+  const { price, currency } = getDimensionPrice(dimension)
+  if (isNaN(price)) {
+    return 'Price not found'
+  }
+
+  return {
+    HourlyPrice: price,
+    Currency: currency,
+    PricingOS: normalizedOS,
+    PricingSku: String(product.product?.sku || ''),
   }
 }
 
+/**
+ * Retrieve the Reserved Instance prices of an EC2 instance type
+ *
+ * Every term of the product is returned: 1 or 3 years, standard or convertible, with
+ * no, partial or all upfront payment. The effective hourly price spreads the upfront fee
+ * over every hour of the term.
+ *
+ * @param instanceType - EC2 instance type (e.g., 't2.micro')
+ * @param region - AWS region (e.g., 'us-east-1')
+ * @param os - Operating system (e.g., 'Linux', 'Windows')
+ * @param credentials - Role credentials (null for current account)
+ * @returns The reserved prices, or the reason they are not available
+ */
+export async function getEC2ReservedPrices(
+  instanceType: string,
+  region: string,
+  os: string = 'Linux',
+  credentials: RoleCredentials | null = null,
+): Promise<EC2ReservedPrice[] | string> {
+  const normalizedOS = normalizeOSForPricing(os)
+  const product = await getPriceListProductCached(instanceType, region, normalizedOS, credentials)
+  if (typeof product === 'string') {
+    return product
+  }
+
+  const reservedPrices: EC2ReservedPrice[] = []
+  for (const term of Object.values(product.terms?.Reserved || {})) {
+    const attributes = term.termAttributes || {}
+    const years = parseInt(attributes.LeaseContractLength || '', 10)
+    if (!years || !attributes.PurchaseOption) {
+      continue
+    }
+
+    // A term has an hourly dimension (Hrs) and, unless paid with no upfront, an upfront fee (Quantity)
+    let upfrontFee = 0
+    let hourlyPrice = 0
+    let currency = ''
+    for (const dimension of Object.values(term.priceDimensions || {})) {
+      const { price, currency: dimensionCurrency } = getDimensionPrice(dimension)
+      if (isNaN(price)) {
+        continue
+      }
+      currency = dimensionCurrency
+      if (dimension.unit === 'Quantity') {
+        upfrontFee += price
+      } else {
+        hourlyPrice += price
+      }
+    }
+
+    reservedPrices.push({
+      LeaseContractLength: attributes.LeaseContractLength as EC2ReservedPrice['LeaseContractLength'],
+      PurchaseOption: attributes.PurchaseOption as EC2ReservedPrice['PurchaseOption'],
+      OfferingClass: attributes.OfferingClass || 'standard',
+      UpfrontFee: upfrontFee,
+      HourlyPrice: hourlyPrice,
+      EffectiveHourlyPrice: hourlyPrice + upfrontFee / (years * HOURS_PER_YEAR),
+      Currency: currency,
+    })
+  }
+
+  return reservedPrices.length > 0 ? reservedPrices : 'Reserved prices not found'
+}
+
 /**
  * Get pricing information for multiple EC2 instances in batch with improved OS handling
  *
@@ -205,14 +559,16 @@ export async function getEC2HourlyPrice(
  *
  * @param instances - Array of instance type, region, and OS pairs
  * @param credentials - Role credentials (null for current account)
- * @returns Map of "instanceType:region:os" to hourly price
+ * @param maxConcurrency - Maximum number of pricing requests in flight at the same time
+ * @returns Map of "instanceType:region:os" to the price, or to the reason it is not available
  */
 export async function batchGetEC2Prices(
   instances: Array<{ type: string; region: string; os: string }>,
   credentials: RoleCredentials | null = null,
-): Promise<Map<string, string>> {
+  maxConcurrency = PRICING_MAX_CONCURRENCY,
+): Promise<Map<string, EC2Price | string>> {
   // Create a map to store results
-  const priceMap = new Map<string, string>()
+  const priceMap = new Map<string, EC2Price | string>()
 
   // Create a set of unique instance type + region + os combinations to query
   // This avoids making duplicate API calls for the same combination
@@ -223,10 +579,11 @@ export async function batchGetEC2Prices(
     uniqueCombinations.add(`${type}:${region}:${normalizedOS}`)
   })
 
-  // Query each unique combination concurrently
-  const promises = Array.from(uniqueCombinations).map(async (combo) => {
+  // Query the unique combinations with a bounded number of concurrent requests
+  // The Pricing API has low rate limits, so firing every lookup at once leads to throttling
+  await mapWithConcurrency(Array.from(uniqueCombinations), maxConcurrency, async (combo) => {
     const [type, region, os] = combo.split(':')
-    const price = await getEC2HourlyPrice(type, region, os, credentials)
+    const price = await getEC2Price(type, region, os, credentials)
 
     // Store the price with the full key including OS
     priceMap.set(combo, price)
@@ -235,9 +592,6 @@ export async function batchGetEC2Prices(
     priceMap.set(`${type}:${region}`, price)
   })
 
-  // Wait for all queries to complete
-  await Promise.all(promises)
-
   return priceMap
 }
 
@@ -246,6 +600,7 @@ export async function batchGetEC2Prices(
  *
  * The pricing API requires region names (e.g., "US East (N. Virginia)")
  * rather than region codes (e.g., "us-east-1"). This map provides the translation.
+ * China regions are priced by the aws-cn Price List API, in CNY.
  */
 const regionNameMap: Record<string, string> = {
   'us-east-1': 'US East (N. Virginia)',
@@ -269,6 +624,10 @@ const regionNameMap: Record<string, string> = {
   'eu-north-1': 'EU (Stockholm)',
   'me-south-1': 'Middle East (Bahrain)',
   'sa-east-1': 'South America (Sao Paulo)',
+  'cn-north-1': 'China (Beijing)',
+  'cn-northwest-1': 'China (Ningxia)',
+  'us-gov-west-1': 'AWS GovCloud (US-West)',
+  'us-gov-east-1': 'AWS GovCloud (US-East)',
 }
 
 /**
@@ -287,55 +646,53 @@ function getRegionName(regionCode: string): string | undefined {
 /**
  * Cache for EC2 pricing to reduce API calls
  *
- * This cache stores previously retrieved pricing information to avoid
- * redundant API calls within the same execution.
+ * This cache stores previously retrieved Price List products to avoid
+ * redundant API calls within the same execution; on-demand and reserved
+ * prices of the same instance type are read from the same product.
  * Key format: "instanceType:region:os"
  */
-const pricingCache = new Map<string, { price: string; timestamp: number }>()
+const pricingCache = new Map<string, { product: Promise<PriceListProduct | string>; timestamp: number }>()
 
 // Cache expiration in milliseconds (1 hour)
 const CACHE_EXPIRATION = 60 * 60 * 1000
 
 /**
- * Get EC2 hourly price with caching
+ * Get the Price List product of an EC2 instance type with caching
  *
  * This function adds caching to the EC2 pricing lookup to reduce API calls
- * and improve performance. It checks a local cache before making an API call
- * and caches results for future use.
+ * and improve performance. Concurrent lookups of the same product share one request.
  *
  * @param instanceType - EC2 instance type
  * @param region - AWS region
- * @param os - Operating system
+ * @param normalizedOS - Operating system, as returned by normalizeOSForPricing
  * @param credentials - Role credentials (null for current account)
- * @returns The hourly price as a string
+ * @returns The product, or the reason it is not available
  */
-export async function getEC2HourlyPriceCached(
+async function getPriceListProductCached(
   instanceType: string,
   region: string,
-  os: string = 'Linux',
-  credentials: RoleCredentials | null = null,
-): Promise<string> {
-  // Normalize OS before creating the cache key
-  const normalizedOS = normalizeOSForPricing(os)
+  normalizedOS: string,
+  credentials: RoleCredentials | null,
+): Promise<PriceListProduct | string> {
   const cacheKey = `${instanceType}:${region}:${normalizedOS}`
 
   // Check if we have a valid cached entry
   const cachedData = pricingCache.get(cacheKey)
   const now = Date.now()
 
-  // If cache entry exists and is not expired, return the cached price
+  // If cache entry exists and is not expired, return the cached product
   if (cachedData && now - cachedData.timestamp < CACHE_EXPIRATION) {
-    return cachedData.price
+    return cachedData.product
   }
 
-  // Fetch fresh price data if not in cache or expired
-  const price = await getEC2HourlyPrice(instanceType, region, os, credentials)
+  // Load the product from the price catalog or the API if not in cache or expired
+  const product = loadPriceListProduct(instanceType, region, normalizedOS, credentials)
 
   // Cache the result with current timestamp
   pricingCache.set(cacheKey, {
-    price,
+    product,
     timestamp: now,
   })
 
-  return price
+  return product
 }
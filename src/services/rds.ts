@@ -3,35 +3,10 @@
 // This module provides functionality to interact with AWS RDS (Relational Database Service)
 // It enables retrieving information about RDS instances across AWS accounts and regions
 
-import { DescribeDBInstancesCommand, DBInstance, RDSClient } from '@aws-sdk/client-rds'
+import { DescribeDBInstancesCommand, DBInstance } from '@aws-sdk/client-rds'
 import { RDSInstanceInfo, RoleCredentials } from '../types'
-
-/**
- * Get an RDS client for the specified region
- *
- * Creates an AWS RDS client configured for the specified region,
- * optionally using provided credentials for cross-account access.
- *
- * @param region - AWS region to configure the client for
- * @param credentials - Optional credentials for cross-account access, null to use default credentials
- * @returns Configured RDS client instance
- */
-function getRDSClient(region: string, credentials: RoleCredentials | null): RDSClient {
-  if (credentials) {
-    // Create client with provided credentials for cross-account access
-    return new RDSClient({
-      region,
-      credentials: {
-        accessKeyId: credentials.accessKeyId,
-        secretAccessKey: credentials.secretAccessKey,
-        sessionToken: credentials.sessionToken,
-      },
-    })
-  } else {
-    // Use current credentials (for current account)
-    return new RDSClient({ region })
-  }
-}
+import { createRDSClient } from '../utils/clients'
+import { logger } from '../utils/logger'
 
 /**
  * Get RDS instances in a specific region of an account
@@ -52,7 +27,7 @@ export async function getRDSInstances(
   accountName: string,
 ): Promise<RDSInstanceInfo[]> {
   // Create RDS client with appropriate credentials
-  const rdsClient = getRDSClient(region, credentials)
+  const rdsClient = createRDSClient(region, credentials)
 
   // Initialize array to store instance information
   const instances: RDSInstanceInfo[] = []
@@ -84,9 +59,9 @@ export async function getRDSInstances(
 
     return instances
   } catch (error) {
-    // Log error and return empty array if retrieval fails
-    console.error(`Error fetching RDS instances in ${region} for account ${accountId}:`, error)
-    return []
+    // Log error and let the caller record the failure for this account/region
+    logger.debug(`Error fetching RDS instances in ${region} for account ${accountId}:`, error)
+    throw error
   }
 }
 
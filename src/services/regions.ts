@@ -0,0 +1,59 @@
+// File: src/services/regions.ts
+// Region discovery functions
+// This module determines which regions are enabled for an account, so that commands
+// can scan every enabled region instead of a hand-maintained list.
+
+import { DescribeRegionsCommand } from '@aws-sdk/client-ec2'
+import { RoleCredentials } from '../types'
+import { createEC2Client } from '../utils/clients'
+import { logger } from '../utils/logger'
+
+/**
+ * Regions of an account split by opt-in status
+ */
+export interface AccountRegions {
+  enabled: string[] // Regions that do not require opt-in, or that the account opted in to
+  disabled: string[] // Opt-in regions the account has not enabled
+}
+
+/**
+ * Get the enabled and disabled regions of an account
+ *
+ * Uses EC2 DescribeRegions with AllRegions so that opt-in regions the account has not
+ * enabled are returned too, along with their opt-in status.
+ *
+ * @param credentials - Credentials for cross-account access (null for current account)
+ * @param region - Region used to call the EC2 API (must be enabled for the account)
+ * @param accountId - AWS account ID, used in log messages
+ * @returns Enabled and disabled region names, sorted alphabetically
+ */
+export async function getAccountRegions(
+  credentials: RoleCredentials | null,
+  region: string,
+  accountId: string,
+): Promise<AccountRegions> {
+  const ec2Client = createEC2Client(region, credentials)
+
+  try {
+    const response = await ec2Client.send(new DescribeRegionsCommand({ AllRegions: true }))
+
+    const enabled: string[] = []
+    const disabled: string[] = []
+    for (const regionInfo of response.Regions || []) {
+      if (!regionInfo.RegionName) continue
+
+      // OptInStatus is "opt-in-not-required", "opted-in" or "not-opted-in"
+      if (regionInfo.OptInStatus === 'not-opted-in') {
+        disabled.push(regionInfo.RegionName)
+      } else {
+        enabled.push(regionInfo.RegionName)
+      }
+    }
+
+    return { enabled: enabled.sort(), disabled: disabled.sort() }
+  } catch (error) {
+    // Log error and let the caller record the failure for this account
+    logger.debug(`Error discovering regions for account ${accountId}:`, error)
+    throw error
+  }
+}
@@ -6,31 +6,10 @@
  * It includes functions to list all roles in an account and process role information.
  */
 
-import { IAMClient, ListRolesCommand, Role } from '@aws-sdk/client-iam'
-import { RoleCredentials } from '../types'
-
-/**
- * Create an IAM client for role operations
- *
- * @param credentials - Role credentials for cross-account access (or null for default credentials)
- * @returns Configured IAM client
- */
-function getIAMClient(credentials: RoleCredentials | null): IAMClient {
-  if (credentials) {
-    // Use provided credentials (for cross-account access)
-    return new IAMClient({
-      region: 'us-east-1', // IAM is a global service but requires a region
-      credentials: {
-        accessKeyId: credentials.accessKeyId,
-        secretAccessKey: credentials.secretAccessKey,
-        sessionToken: credentials.sessionToken,
-      },
-    })
-  } else {
-    // Use current credentials
-    return new IAMClient({ region: 'us-east-1' })
-  }
-}
+import { ListRolesCommand, Role } from '@aws-sdk/client-iam'
+import { AccountRoleCounts, RoleCredentials } from '../types'
+import { createIAMClient } from '../utils/clients'
+import { logger } from '../utils/logger'
 
 /**
  * Get all IAM roles in an account
@@ -49,7 +28,7 @@ export async function getIAMRoles(
   accountName: string,
 ): Promise<{ roles: Role[]; accountInfo: { accountId: string; accountName: string } }> {
   // Create IAM client with appropriate credentials
-  const iamClient = getIAMClient(credentials)
+  const iamClient = createIAMClient(undefined, credentials)
 
   try {
     const roles: Role[] = []
@@ -83,15 +62,8 @@ export async function getIAMRoles(
       },
     }
   } catch (error) {
-    console.error(`Error listing IAM roles in account ${accountId}:`, error)
-    // Return empty array if there was an error
-    return {
-      roles: [],
-      accountInfo: {
-        accountId,
-        accountName,
-      },
-    }
+    logger.debug(`Error listing IAM roles in account ${accountId}:`, error)
+    throw error // Let the caller record the failure for this account
   }
 }
 
@@ -156,17 +128,16 @@ export function countRolesByPath(roles: Role[]): Record<string, number> {
  * @param accountRoleCounts - Map of account IDs to role counts
  * @returns Array of formatted objects for display
  */
-export function formatRoleCountResults(
-  accountRoleCounts: Map<string, { counts: Record<string, number>; accountName: string }>,
-): Record<string, unknown>[] {
+export function formatRoleCountResults(accountRoleCounts: Map<string, AccountRoleCounts>): Record<string, unknown>[] {
   const results: Record<string, unknown>[] = []
 
   // Convert map to array of objects
   accountRoleCounts.forEach((data, accountId) => {
-    const { counts, accountName } = data
+    const { counts, accountName, organizationId } = data
 
     // Create a new object with account info and counts
     const result: Record<string, unknown> = {
+      ...(organizationId ? { OrganizationId: organizationId } : {}),
       AccountId: accountId,
       AccountName: accountName,
       TotalRoles: counts.total,
@@ -13,37 +13,10 @@
  * - Support for bucket-level access policies and configurations
  */
 
-import { 
-  S3Client, 
-  ListBucketsCommand, 
-  GetBucketLocationCommand,
-  Bucket
-} from '@aws-sdk/client-s3'
+import { S3Client, ListBucketsCommand, GetBucketLocationCommand, Bucket } from '@aws-sdk/client-s3'
 import { S3BucketInfo, RoleCredentials } from '../types'
-
-/**
- * Create an S3 client with appropriate credentials
- *
- * @param region - AWS region to connect to  
- * @param credentials - Role credentials for cross-account access (or null for default credentials)
- * @returns Configured S3Client instance
- */
-function getS3Client(region: string, credentials: RoleCredentials | null): S3Client {
-  if (credentials) {
-    // Use provided credentials (for cross-account access)
-    return new S3Client({
-      region,
-      credentials: {
-        accessKeyId: credentials.accessKeyId,
-        secretAccessKey: credentials.secretAccessKey,
-        sessionToken: credentials.sessionToken,
-      },
-    })
-  } else {
-    // Use current credentials
-    return new S3Client({ region })
-  }
-}
+import { createS3Client } from '../utils/clients'
+import { logger } from '../utils/logger'
 
 /**
  * Get detailed bucket information including properties and configurations
@@ -55,10 +28,10 @@ function getS3Client(region: string, credentials: RoleCredentials | null): S3Cli
  * @returns Promise resolving to detailed bucket information
  */
 async function getBucketDetails(
-  s3Client: S3Client, 
-  bucketName: string, 
-  accountId: string, 
-  accountName: string
+  s3Client: S3Client,
+  bucketName: string,
+  accountId: string,
+  accountName: string,
 ): Promise<S3BucketInfo> {
   // Initialize bucket info with basic data
   const bucketInfo: S3BucketInfo = {
@@ -66,7 +39,7 @@ async function getBucketDetails(
     AccountName: accountName,
     BucketName: bucketName,
     Region: 'Unknown',
-    CreationDate: 'Unknown'
+    CreationDate: 'Unknown',
   }
 
   try {
@@ -76,11 +49,10 @@ async function getBucketDetails(
       const locationResponse = await s3Client.send(locationCommand)
       bucketInfo.Region = locationResponse.LocationConstraint || 'us-east-1'
     } catch (error) {
-      console.log(`Warning: Could not get location for bucket ${bucketName}: ${error}`)
+      logger.warn(`Could not get location for bucket ${bucketName}: ${error}`)
     }
-
   } catch (error) {
-    console.log(`Warning: Error getting details for bucket ${bucketName}: ${error}`)
+    logger.warn(`Error getting details for bucket ${bucketName}: ${error}`)
   }
 
   return bucketInfo
@@ -107,21 +79,21 @@ export async function getS3Buckets(
   accountName: string,
 ): Promise<S3BucketInfo[]> {
   // Create S3 client with appropriate credentials
-  const s3Client = getS3Client(region, credentials)
+  const s3Client = createS3Client(region, credentials)
 
   try {
-    console.log(`Checking S3 buckets in account ${accountId} (${accountName})...`)
+    logger.verbose(`Checking S3 buckets in account ${accountId} (${accountName})...`)
 
     // List all buckets (this is a global operation)
     const listCommand = new ListBucketsCommand({})
     const response = await s3Client.send(listCommand)
 
     if (!response.Buckets || response.Buckets.length === 0) {
-      console.log(`No S3 buckets found in account ${accountId}`)
+      logger.verbose(`No S3 buckets found in account ${accountId}`)
       return []
     }
 
-    console.log(`Found ${response.Buckets.length} S3 buckets in account ${accountId}`)
+    logger.verbose(`Found ${response.Buckets.length} S3 buckets in account ${accountId}`)
 
     // Get detailed information for each bucket
     const bucketPromises = response.Buckets.map(async (bucket: Bucket) => {
@@ -131,7 +103,7 @@ export async function getS3Buckets(
 
       try {
         const bucketInfo = await getBucketDetails(s3Client, bucket.Name, accountId, accountName)
-        
+
         // Add creation date from the list response
         if (bucket.CreationDate) {
           bucketInfo.CreationDate = bucket.CreationDate.toISOString()
@@ -139,36 +111,35 @@ export async function getS3Buckets(
 
         return bucketInfo
       } catch (error) {
-        console.log(`Warning: Could not get details for bucket ${bucket.Name}: ${error}`)
-        
+        logger.warn(`Could not get details for bucket ${bucket.Name}: ${error}`)
+
         // Return basic bucket info even if detailed info fails
         return {
           AccountId: accountId,
           AccountName: accountName,
           BucketName: bucket.Name,
           Region: 'Unknown',
-          CreationDate: bucket.CreationDate ? bucket.CreationDate.toISOString() : 'Unknown'
+          CreationDate: bucket.CreationDate ? bucket.CreationDate.toISOString() : 'Unknown',
         } as S3BucketInfo
       }
     })
 
     // Wait for all bucket details to be retrieved
     const bucketResults = await Promise.allSettled(bucketPromises)
-    
+
     // Filter out failed results and null values
     const buckets: S3BucketInfo[] = []
     bucketResults.forEach((result, index) => {
       if (result.status === 'fulfilled' && result.value) {
         buckets.push(result.value)
       } else if (result.status === 'rejected') {
-        console.log(`Error processing bucket ${index}: ${result.reason}`)
+        logger.warn(`Error processing bucket ${index}: ${result.reason}`)
       }
     })
 
     return buckets
-
   } catch (error) {
-    console.error(`Error listing S3 buckets for account ${accountId}: ${error}`)
-    return []
+    logger.debug(`Error listing S3 buckets for account ${accountId}: ${error}`)
+    throw error // Let the caller record the failure for this account
   }
-}
\ No newline at end of file
+}
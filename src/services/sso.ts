@@ -0,0 +1,83 @@
+// File: src/services/sso.ts
+// IAM Identity Center (SSO) portal operations
+// This module provides functionality for listing the accounts available to an SSO user
+// and getting credentials for a permission set in those accounts.
+
+import { SSOClient, GetRoleCredentialsCommand, ListAccountsCommand } from '@aws-sdk/client-sso'
+import { RoleCredentials } from '../types'
+import { logger } from '../utils/logger'
+
+/**
+ * Get credentials for a permission set in an account
+ *
+ * @param client - SSO portal client in the region of the IAM Identity Center instance
+ * @param accessToken - SSO access token from the token cache (aws sso login)
+ * @param accountId - Target AWS account ID
+ * @param permissionSet - Name of the permission set (role name in the SSO portal)
+ * @returns Promise resolving to temporary credentials, or undefined if SSO returned no credentials
+ * @throws The original SSO error, e.g. when the permission set is not assigned in the account
+ */
+export async function getSsoRoleCredentials(
+  client: SSOClient,
+  accessToken: string,
+  accountId: string,
+  permissionSet: string,
+): Promise<RoleCredentials | undefined> {
+  try {
+    const response = await client.send(
+      new GetRoleCredentialsCommand({ accessToken, accountId, roleName: permissionSet }),
+    )
+
+    const credentials = response.roleCredentials
+    if (!credentials?.accessKeyId || !credentials.secretAccessKey || !credentials.sessionToken) {
+      return undefined
+    }
+
+    return {
+      accessKeyId: credentials.accessKeyId,
+      secretAccessKey: credentials.secretAccessKey,
+      sessionToken: credentials.sessionToken,
+      expiration: credentials.expiration ? new Date(credentials.expiration) : undefined,
+    }
+  } catch (error) {
+    logger.debug(`Failed to get SSO credentials for ${permissionSet} in account ${accountId}:`, error)
+    throw error
+  }
+}
+
+/**
+ * Get all accounts available to the SSO user with pagination
+ *
+ * Account objects use the same property names as Organizations (Id, Name, Email, Status)
+ * so that they can replace the organization account list.
+ *
+ * @param client - SSO portal client in the region of the IAM Identity Center instance
+ * @param accessToken - SSO access token from the token cache (aws sso login)
+ * @returns Promise resolving to an array of account objects
+ */
+export async function getSsoAccounts(client: SSOClient, accessToken: string): Promise<Record<string, unknown>[]> {
+  const accounts: Record<string, unknown>[] = []
+  let nextToken: string | undefined
+
+  try {
+    do {
+      const response = await client.send(new ListAccountsCommand({ accessToken, nextToken }))
+
+      for (const account of response.accountList || []) {
+        accounts.push({
+          Id: account.accountId,
+          Name: account.accountName,
+          Email: account.emailAddress,
+          Status: 'ACTIVE', // Only active accounts can be accessed through the SSO portal
+        })
+      }
+
+      nextToken = response.nextToken
+    } while (nextToken)
+
+    return accounts
+  } catch (error) {
+    logger.debug('Error listing SSO accounts:', error)
+    throw error
+  }
+}
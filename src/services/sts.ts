@@ -1,35 +1,20 @@
 // File: src/services/sts.ts
 // AWS Security Token Service (STS) operations
-// This module provides functionality for assuming IAM roles across accounts
-// and retrieving caller identity information.
+// This module provides functionality for assuming IAM roles across accounts,
+// getting MFA sessions and retrieving caller identity information.
 
-import { STSClient, AssumeRoleCommand, GetCallerIdentityCommand } from '@aws-sdk/client-sts'
-import { fromIni } from '@aws-sdk/credential-providers'
-import { RoleCredentials } from '../types'
-
-/**
- * Get an STS client with appropriate credentials
- *
- * Creates an AWS STS client, optionally configured to use credentials
- * from a specific AWS profile.
- *
- * @param profile - Optional AWS profile name to use for credentials
- * @returns Configured STS client instance
- */
-function getSTSClient(profile?: string): STSClient {
-  if (profile) {
-    // If profile is specified, create client with profile credentials
-    return new STSClient({
-      region: 'us-east-1', // STS operations are global but require a region
-      credentials: fromIni({ profile }), // Load credentials from named profile
-    })
-  } else {
-    // Otherwise, use default credentials from environment variables or instance profile
-    return new STSClient({
-      region: 'us-east-1',
-    })
-  }
-}
+import {
+  STSClient,
+  AssumeRoleCommand,
+  Credentials,
+  GetCallerIdentityCommand,
+  GetSessionTokenCommand,
+} from '@aws-sdk/client-sts'
+import { AssumeRoleParameters, RoleCredentials } from '../types'
+import { createSTSClient } from '../utils/clients'
+import { DEFAULT_SESSION_DURATION_SECONDS } from '../config/constants'
+import { logger } from '../utils/logger'
+import { buildArn } from '../utils/partition'
 
 /**
  * Assume role in target account
@@ -44,51 +29,115 @@ function getSTSClient(profile?: string): STSClient {
  * @param accountId - Target AWS account ID where role will be assumed
  * @param roleName - IAM role name to assume in the target account
  * @param profile - Optional AWS profile to use if creating a new STS client
- * @returns Promise resolving to temporary credentials, or undefined if assumption fails
+ * @param parameters - Optional external ID, session name and source identity
+ * @returns Promise resolving to temporary credentials with their expiration, or undefined if STS returned no credentials
+ * @throws The original STS error when the role cannot be assumed, so callers can tell
+ *   access denied apart from throttling or other failures
  */
 export async function assumeRole(
   stsClient: STSClient | null,
   accountId: string,
   roleName: string,
   profile?: string,
+  parameters: AssumeRoleParameters = {},
+): Promise<RoleCredentials | undefined> {
+  // Construct the full role ARN (Amazon Resource Name) in the configured partition
+  const roleArn = buildArn('iam', accountId, `role/${roleName}`)
+
+  return assumeRoleArn(stsClient, roleArn, profile, parameters)
+}
+
+/**
+ * Assume a role given by its ARN
+ *
+ * Used directly for the intermediate roles of a role chain, whose ARNs are configured as is.
+ *
+ * @param stsClient - Optional STS client to use, or null to create a new one
+ * @param roleArn - ARN of the role to assume
+ * @param profile - Optional AWS profile to use if creating a new STS client
+ * @param parameters - Optional external ID, session name and source identity
+ * @returns Promise resolving to temporary credentials with their expiration, or undefined if STS returned no credentials
+ * @throws The original STS error when the role cannot be assumed
+ */
+export async function assumeRoleArn(
+  stsClient: STSClient | null,
+  roleArn: string,
+  profile?: string,
+  parameters: AssumeRoleParameters = {},
 ): Promise<RoleCredentials | undefined> {
   try {
     // Create client if not provided
-    const client = stsClient || getSTSClient(profile)
-
-    // Construct the full role ARN (Amazon Resource Name)
-    const roleArn = `arn:aws:iam::${accountId}:role/${roleName}`
+    const client = stsClient || createSTSClient(profile)
 
-    // Create a unique session name with timestamp to aid in auditing/debugging
-    const sessionName = `aws-org-cli-${Date.now()}`
+    // Create a unique session name with timestamp to aid in auditing/debugging, unless one is configured
+    const sessionName = parameters.sessionName || `aws-org-cli-${Date.now()}`
 
     // Execute the AssumeRole API call
     const response = await client.send(
       new AssumeRoleCommand({
         RoleArn: roleArn,
         RoleSessionName: sessionName,
-        DurationSeconds: 900, // 15 minutes session duration
+        DurationSeconds: DEFAULT_SESSION_DURATION_SECONDS,
+        ExternalId: parameters.externalId,
+        SourceIdentity: parameters.sourceIdentity,
       }),
     )
 
-    // Validate that credentials were returned
-    if (!response.Credentials) {
-      return undefined
-    }
+    return toRoleCredentials(response.Credentials)
+  } catch (error) {
+    // Rethrow so the caller classifies and records the failure; only log the details at debug level
+    logger.debug(`Failed to assume role ${roleArn}:`, error)
+    throw error
+  }
+}
 
-    // Return credentials in a standardized format
-    return {
-      accessKeyId: response.Credentials.AccessKeyId!,
-      secretAccessKey: response.Credentials.SecretAccessKey!,
-      sessionToken: response.Credentials.SessionToken!,
-    }
+/**
+ * Get MFA-authenticated session credentials for the caller
+ *
+ * Roles that require MFA accept these credentials, so the MFA token is only needed once per execution.
+ * Only works with IAM user credentials, which is where MFA devices are registered.
+ *
+ * @param stsClient - STS client using the caller credentials
+ * @param serialNumber - ARN (or serial number) of the MFA device
+ * @param tokenCode - Current code displayed by the MFA device
+ * @returns Promise resolving to session credentials, or undefined if STS returned no credentials
+ */
+export async function getSessionToken(
+  stsClient: STSClient,
+  serialNumber: string,
+  tokenCode: string,
+): Promise<RoleCredentials | undefined> {
+  try {
+    const response = await stsClient.send(
+      new GetSessionTokenCommand({
+        SerialNumber: serialNumber,
+        TokenCode: tokenCode,
+        DurationSeconds: DEFAULT_SESSION_DURATION_SECONDS,
+      }),
+    )
+
+    return toRoleCredentials(response.Credentials)
   } catch (error) {
-    // Log warning and return undefined if assume role fails
-    // This is a warning rather than error because it's often expected
-    // that some roles cannot be assumed from certain contexts
-    console.warn(`Failed to assume role in account ${accountId}:`, error)
+    logger.debug(`Failed to get an MFA session with ${serialNumber}:`, error)
+    throw error
+  }
+}
+
+/**
+ * Convert STS credentials into the standardized credentials format
+ */
+function toRoleCredentials(credentials: Credentials | undefined): RoleCredentials | undefined {
+  // Validate that credentials were returned
+  if (!credentials) {
     return undefined
   }
+
+  return {
+    accessKeyId: credentials.AccessKeyId!,
+    secretAccessKey: credentials.SecretAccessKey!,
+    sessionToken: credentials.SessionToken!,
+    expiration: credentials.Expiration,
+  }
 }
 
 /**
@@ -104,7 +153,7 @@ export async function assumeRole(
 export async function getCurrentAccountId(stsClient: STSClient | null, profile?: string): Promise<string> {
   try {
     // Create client if not provided
-    const client = stsClient || getSTSClient(profile)
+    const client = stsClient || createSTSClient(profile)
 
     // Call GetCallerIdentity to determine the current AWS identity
     const command = new GetCallerIdentityCommand({})
@@ -114,7 +163,7 @@ export async function getCurrentAccountId(stsClient: STSClient | null, profile?:
     return response.Account || ''
   } catch (error) {
     // Log error and return empty string
-    console.error('Error getting caller identity:', error)
+    logger.error('Error getting caller identity:', error)
     return ''
   }
 }
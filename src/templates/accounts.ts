@@ -1,12 +1,21 @@
 // File: src/templates/accounts-template.ts
 // Accounts HTML report template
 
+import { TargetError } from '../types'
+import { escapeHtml, generateErrorsSectionHtml } from './errors'
+import { generateOrganizationHeadingHtml, groupByOrganization } from './organizations'
+
 /**
  * Generate enhanced HTML output for AWS accounts
  * @param accounts The AWS accounts to display
  * @param title The title for the report
+ * @param errors Account details that could not be fetched
  */
-export function generateAccountsHtml(accounts: Record<string, unknown>[], title: string): string {
+export function generateAccountsHtml(
+  accounts: Record<string, unknown>[],
+  title: string,
+  errors: TargetError[] = [],
+): string {
   // Group accounts by status
   const accountsByStatus = new Map<string, Record<string, unknown>[]>()
 
@@ -87,26 +96,37 @@ export function generateAccountsHtml(accounts: Record<string, unknown>[], title:
     return a[0].localeCompare(b[0])
   })
 
-  sortedStatuses.forEach(([status, statusAccounts]) => {
-    const statusClass = status.toLowerCase()
-    const resourceClass = accountsByStatus.get(status)?.length ? 'has-resources' : 'empty-account'
+  // One set of status sections per organization in multi-organization mode
+  groupByOrganization(accounts).forEach(([organizationId, organizationAccounts]) => {
+    if (organizationId) {
+      statusSectionsHtml += generateOrganizationHeadingHtml(organizationId, organizationAccounts.length)
+    }
 
-    statusSectionsHtml += `
-        <div class="account-container status-${statusClass} ${resourceClass}" data-status="${status.toLowerCase()}">
-          <div class="account-header" onclick="toggleSection(this)">
-            <h2>${status} Accounts 
-              <span class="account-count">${statusAccounts.length} Account${statusAccounts.length !== 1 ? 's' : ''}</span>
-            </h2>
-            <span class="toggle-icon">▼</span>
-          </div>
-          <div class="account-content">
-            <div class="resource-section">
-              <h3>${status} Accounts (${statusAccounts.length})</h3>
-              ${generateAccountsTable(statusAccounts)}
+    sortedStatuses.forEach(([status]) => {
+      const statusAccounts = organizationAccounts.filter((account) => String(account.Status || 'Unknown') === status)
+      if (statusAccounts.length === 0) {
+        return
+      }
+
+      const statusClass = status.toLowerCase()
+
+      statusSectionsHtml += `
+          <div class="account-container status-${statusClass} has-resources" data-status="${status.toLowerCase()}">
+            <div class="account-header" onclick="toggleSection(this)">
+              <h2>${status} Accounts 
+                <span class="account-count">${statusAccounts.length} Account${statusAccounts.length !== 1 ? 's' : ''}</span>
+              </h2>
+              <span class="toggle-icon">▼</span>
+            </div>
+            <div class="account-content">
+              <div class="resource-section">
+                <h3>${status} Accounts (${statusAccounts.length})</h3>
+                ${generateAccountsTable(statusAccounts)}
+              </div>
             </div>
           </div>
-        </div>
-      `
+        `
+    })
   })
 
   // Create complete HTML with header, summary, and accounts
@@ -338,6 +358,14 @@ export function generateAccountsHtml(accounts: Record<string, unknown>[], title:
             color: #666;
             font-style: italic;
         }
+        .tag {
+            display: inline-block;
+            background-color: #e6f2ff;
+            border-radius: 3px;
+            padding: 1px 5px;
+            margin: 1px;
+            font-size: 0.85em;
+        }
       </style>
       <script>
           function toggleSection(header) {
@@ -403,15 +431,45 @@ export function generateAccountsHtml(accounts: Record<string, unknown>[], title:
       <h1>AWS Organization - ${title}</h1>
       ${summaryHtml}
       ${statusSectionsHtml}
+      ${generateErrorsSectionHtml(errors)}
       <div class="timestamp">Generated on: ${new Date().toLocaleString()}</div>
   </body>
   </html>`
 }
 
+/**
+ * Optional columns added by the list-accounts enrichment options, shown when any account has them
+ */
+const ENRICHED_COLUMNS: Array<{ key: string; label: string }> = [
+  { key: 'OuPath', label: 'OU Path' },
+  { key: 'AccountAlias', label: 'Alias' },
+  { key: 'Tags', label: 'Tags' },
+  { key: 'BillingContact', label: 'Billing Contact' },
+  { key: 'OperationsContact', label: 'Operations Contact' },
+  { key: 'SecurityContact', label: 'Security Contact' },
+]
+
+/**
+ * Format an enriched value for a table cell
+ */
+function formatEnrichedValue(key: string, value: unknown): string {
+  if (value === undefined || value === null) {
+    return ''
+  }
+  if (key === 'Tags' && typeof value === 'object') {
+    return Object.entries(value as Record<string, string>)
+      .map(([tagKey, tagValue]) => `<span class="tag">${escapeHtml(tagKey)}=${escapeHtml(tagValue)}</span>`)
+      .join(' ')
+  }
+  return escapeHtml(String(value))
+}
+
 /**
  * Generate accounts table HTML
  */
 function generateAccountsTable(accounts: Record<string, unknown>[]): string {
+  const enrichedColumns = ENRICHED_COLUMNS.filter(({ key }) => accounts.some((account) => key in account))
+
   // Sort accounts by name
   const sortedAccounts = [...accounts].sort((a, b) => {
     const nameA = String(a.Name || '').toLowerCase()
@@ -428,6 +486,7 @@ function generateAccountsTable(accounts: Record<string, unknown>[]): string {
             <th>Email</th>
             <th>Status</th>
             <th>Joined</th>
+            ${enrichedColumns.map(({ label }) => `<th>${label}</th>`).join('')}
           </tr>
         </thead>
         <tbody>
@@ -462,6 +521,7 @@ function generateAccountsTable(accounts: Record<string, unknown>[]): string {
           <td>${account.Email || ''}</td>
           <td class="${statusClass}">${account.Status || ''}</td>
           <td>${joinedDate}</td>
+          ${enrichedColumns.map(({ key }) => `<td>${formatEnrichedValue(key, account[key])}</td>`).join('')}
         </tr>
       `
   })
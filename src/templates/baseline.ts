@@ -0,0 +1,255 @@
+// File: src/templates/baseline.ts
+// Baseline conformance (check-baseline) HTML report template
+
+import { AccountBaselineSummary, BaselineCheckResult, BaselineCheckStatus, SkippedRegion, TargetError } from '../types'
+import { escapeHtml, generateErrorsSectionHtml, generateSkippedRegionsSectionHtml } from './errors'
+import { createOrganizationHeadings, getAccountGroupKey } from './organizations'
+
+/**
+ * Generate the status badge of a check or an account
+ */
+function generateStatusBadge(status: BaselineCheckStatus): string {
+  return `<span class="badge status-${status.toLowerCase()}">${status}</span>`
+}
+
+/**
+ * Generate the section of an account: its summary and the result of every check
+ */
+function generateAccountSection(summary: AccountBaselineSummary, results: BaselineCheckResult[]): string {
+  const rows = results
+    .map(
+      (result) => `
+        <tr class="check-${result.Status.toLowerCase()}">
+          <td>${escapeHtml(result.Check)}</td>
+          <td>${escapeHtml(result.Region)}</td>
+          <td>${generateStatusBadge(result.Status)}</td>
+          <td>${escapeHtml(result.Details)}</td>
+        </tr>
+      `,
+    )
+    .join('')
+
+  return `
+      <div class="section account account-${summary.Status.toLowerCase()}">
+        <h2>
+          ${escapeHtml(summary.AccountName)} <span class="muted">${escapeHtml(summary.AccountId)}</span>
+          ${generateStatusBadge(summary.Status)}
+          ${summary.NewAccount ? '<span class="badge new-badge">New account</span>' : ''}
+        </h2>
+        <p class="muted">
+          ${summary.Passed} passed, ${summary.Failed} failed, ${summary.Errors} errors
+          ${summary.JoinedTimestamp ? ` - joined ${new Date(summary.JoinedTimestamp).toLocaleDateString()}` : ''}
+        </p>
+        ${
+          results.length > 0
+            ? `<table>
+          <thead>
+            <tr>
+              <th>Check</th>
+              <th>Region</th>
+              <th>Status</th>
+              <th>Details</th>
+            </tr>
+          </thead>
+          <tbody>${rows}</tbody>
+        </table>`
+            : '<p class="muted">No check could be run in this account (see Errors)</p>'
+        }
+      </div>
+    `
+}
+
+/**
+ * Generate an HTML report of the baseline conformance of each account
+ * @param summaries Conformance summary of each account
+ * @param results Result of every check
+ * @param title The title for the report
+ * @param errors Accounts/regions that could not be checked
+ * @param skippedRegions Regions not enabled in the account (--all-regions)
+ */
+export function generateBaselineHtml(
+  summaries: AccountBaselineSummary[],
+  results: BaselineCheckResult[],
+  title: string,
+  errors: TargetError[] = [],
+  skippedRegions: SkippedRegion[] = [],
+): string {
+  const count = (status: BaselineCheckStatus) => summaries.filter((summary) => summary.Status === status).length
+  const newAccounts = summaries.filter((summary) => summary.NewAccount).length
+
+  // Sort accounts by organization and account so that organization headings are emitted once
+  const accountKeys = new Map(
+    summaries.map((summary) => [summary, getAccountGroupKey(summary, summary.AccountId, summary.AccountName)]),
+  )
+  const sorted = [...summaries].sort((a, b) => String(accountKeys.get(a)).localeCompare(String(accountKeys.get(b))))
+  const organizationHeading = createOrganizationHeadings(Array.from(accountKeys.values()))
+
+  return `<!DOCTYPE html>
+  <html lang="en">
+  <head>
+      <meta charset="UTF-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>AWS Organizations - ${escapeHtml(title)}</title>
+      <style>
+        body {
+            font-family: Arial, sans-serif;
+            margin: 20px;
+            background-color: #f5f5f5;
+            color: #333;
+        }
+        h1, h2, h3 {
+            color: #0066cc;
+        }
+        h1 {
+            text-align: center;
+            margin-bottom: 30px;
+            padding-bottom: 10px;
+            border-bottom: 2px solid #0066cc;
+        }
+        .summary, .section {
+            background-color: white;
+            border-radius: 8px;
+            box-shadow: 0 2px 4px rgba(0,0,0,0.1);
+            margin-bottom: 20px;
+            padding: 15px;
+        }
+        .summary-cards {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 15px;
+        }
+        .summary-card {
+            background-color: #e6f2ff;
+            border-radius: 5px;
+            padding: 15px;
+            min-width: 150px;
+            text-align: center;
+        }
+        .summary-title {
+            font-size: 0.9em;
+            color: #666;
+        }
+        .summary-value {
+            font-size: 1.8em;
+            font-weight: bold;
+            color: #003366;
+        }
+        .filter-button {
+            background-color: #0066cc;
+            color: white;
+            border: none;
+            padding: 8px 15px;
+            border-radius: 4px;
+            cursor: pointer;
+            margin-top: 15px;
+        }
+        .filter-button:hover {
+            background-color: #004c99;
+        }
+        table {
+            width: 100%;
+            border-collapse: collapse;
+        }
+        th, td {
+            border: 1px solid #ddd;
+            padding: 8px;
+            text-align: left;
+            vertical-align: top;
+        }
+        th {
+            background-color: #0066cc;
+            color: white;
+        }
+        tr.check-fail {
+            background-color: #f8d7da;
+        }
+        tr.check-error {
+            background-color: #fff3cd;
+        }
+        .muted {
+            color: #666;
+            font-size: 0.85em;
+            font-weight: normal;
+        }
+        .badge {
+            font-size: 0.6em;
+            padding: 2px 8px;
+            border-radius: 12px;
+            white-space: nowrap;
+            vertical-align: middle;
+            color: white;
+        }
+        td .badge {
+            font-size: 0.8em;
+        }
+        .status-pass {
+            background-color: #28a745;
+        }
+        .status-fail {
+            background-color: #dc3545;
+        }
+        .status-error {
+            background-color: #fd7e14;
+        }
+        .new-badge {
+            background-color: #6f42c1;
+        }
+        .only-failing .account-pass {
+            display: none;
+        }
+        .timestamp {
+            text-align: center;
+            color: #666;
+            font-size: 0.9em;
+            margin-top: 20px;
+        }
+      </style>
+  </head>
+  <body>
+      <h1>${escapeHtml(title)}</h1>
+
+      <div class="summary">
+        <h2>Summary</h2>
+        <div class="summary-cards">
+          <div class="summary-card">
+            <div class="summary-title">Accounts</div>
+            <div class="summary-value">${summaries.length}</div>
+          </div>
+          <div class="summary-card">
+            <div class="summary-title">Conforming</div>
+            <div class="summary-value">${count('PASS')}</div>
+          </div>
+          <div class="summary-card">
+            <div class="summary-title">Failing</div>
+            <div class="summary-value">${count('FAIL')}</div>
+          </div>
+          <div class="summary-card">
+            <div class="summary-title">Not Fully Checked</div>
+            <div class="summary-value">${count('ERROR')}</div>
+          </div>
+          <div class="summary-card">
+            <div class="summary-title">New Accounts</div>
+            <div class="summary-value">${newAccounts}</div>
+          </div>
+        </div>
+        <button class="filter-button" onclick="document.body.classList.toggle('only-failing')">Toggle Only Non-Conforming Accounts</button>
+      </div>
+
+      ${sorted
+        .map(
+          (summary) =>
+            organizationHeading(String(accountKeys.get(summary))) +
+            generateAccountSection(
+              summary,
+              results.filter((result) => result.AccountId === summary.AccountId),
+            ),
+        )
+        .join('')}
+
+      ${generateErrorsSectionHtml(errors)}
+      ${generateSkippedRegionsSectionHtml(skippedRegions)}
+
+      <div class="timestamp">Report generated on ${new Date().toLocaleString()}</div>
+  </body>
+  </html>`
+}
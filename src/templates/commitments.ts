@@ -0,0 +1,242 @@
+// File: src/templates/commitments.ts
+// EC2 Reserved Instance commitment analysis (ec2-commitment-analysis) HTML report template
+
+import { EC2CommitmentGroup, EC2CommitmentTotal, SkippedRegion, TargetError } from '../types'
+import { HOURS_PER_MONTH } from '../utils/ec2-costs'
+import { escapeHtml, generateErrorsSectionHtml, generateSkippedRegionsSectionHtml } from './errors'
+
+/**
+ * Format a cost with its currency, e.g. $12.34 or 12.34 CNY
+ */
+function formatCost(value: number, currency: string): string {
+  return currency === 'USD' ? `$${value.toFixed(2)}` : `${value.toFixed(2)} ${currency}`
+}
+
+/**
+ * Generate the table of the savings of each option over the whole fleet
+ */
+function generateTotalsTable(totals: EC2CommitmentTotal[]): string {
+  if (totals.length === 0) {
+    return '<p class="muted">No Reserved Instance price was found for the running instances</p>'
+  }
+
+  const rows = totals
+    .map(
+      (total) => `
+        <tr>
+          <td>${escapeHtml(total.Option)}</td>
+          <td>${total.RunningInstances}</td>
+          <td>${formatCost(total.OnDemandMonthlyCost, total.Currency)}</td>
+          <td>${formatCost(total.EffectiveMonthlyCost, total.Currency)}</td>
+          <td class="savings">${formatCost(total.MonthlySavings, total.Currency)}</td>
+          <td>${total.SavingsPercent}%</td>
+          <td>${formatCost(total.UpfrontCost, total.Currency)}</td>
+        </tr>
+      `,
+    )
+    .join('')
+
+  return `
+        <table>
+          <thead>
+            <tr>
+              <th>Option</th>
+              <th>Covered Instances</th>
+              <th>On-Demand Monthly</th>
+              <th>Effective Monthly</th>
+              <th>Monthly Savings</th>
+              <th>Savings</th>
+              <th>Upfront Cost</th>
+            </tr>
+          </thead>
+          <tbody>${rows}</tbody>
+        </table>
+      `
+}
+
+/**
+ * Generate the section of an instance group: its on-demand cost and every option
+ */
+function generateGroupSection(group: EC2CommitmentGroup): string {
+  const heading = `
+        <h3>
+          ${escapeHtml(group.InstanceType)} <span class="muted">${escapeHtml(group.Region)} - ${escapeHtml(group.PricingOS)}
+          - ${group.RunningInstances} running in ${group.Accounts} account(s)</span>
+        </h3>`
+
+  if (group.PriceError) {
+    return `
+      <div class="section group">
+        ${heading}
+        <p class="muted">${escapeHtml(group.PriceError)}</p>
+      </div>
+    `
+  }
+
+  const rows = group.Options.map(
+    (option) => `
+          <tr${option.Option === group.BestOption ? ' class="best-option"' : ''}>
+            <td>${escapeHtml(option.Option)}</td>
+            <td>${formatCost(option.UpfrontCost, group.Currency)}</td>
+            <td>${formatCost(option.EffectiveMonthlyCost, group.Currency)}</td>
+            <td class="savings">${formatCost(option.MonthlySavings, group.Currency)}</td>
+            <td>${option.SavingsPercent}%</td>
+          </tr>
+        `,
+  ).join('')
+
+  return `
+      <div class="section group">
+        ${heading}
+        <p>On-demand: <strong>${formatCost(group.OnDemandMonthlyCost, group.Currency)}</strong> per month</p>
+        <table>
+          <thead>
+            <tr>
+              <th>Option</th>
+              <th>Upfront Cost</th>
+              <th>Effective Monthly</th>
+              <th>Monthly Savings</th>
+              <th>Savings</th>
+            </tr>
+          </thead>
+          <tbody>${rows}</tbody>
+        </table>
+      </div>
+    `
+}
+
+/**
+ * Generate an HTML report comparing the on-demand cost of the running instances with Reserved Instance prices
+ * @param groups Running instances grouped by region, instance type and OS, with their options
+ * @param totals Savings of each option over the whole fleet
+ * @param title The title for the report
+ * @param errors Accounts/regions that could not be checked
+ * @param skippedRegions Regions not enabled in the account (--all-regions)
+ */
+export function generateEC2CommitmentHtml(
+  groups: EC2CommitmentGroup[],
+  totals: EC2CommitmentTotal[],
+  title: string,
+  errors: TargetError[] = [],
+  skippedRegions: SkippedRegion[] = [],
+): string {
+  const runningInstances = groups.reduce((sum, group) => sum + group.RunningInstances, 0)
+  const unpriced = groups.filter((group) => group.PriceError).length
+
+  return `<!DOCTYPE html>
+  <html lang="en">
+  <head>
+      <meta charset="UTF-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>AWS Organizations - ${escapeHtml(title)}</title>
+      <style>
+        body {
+            font-family: Arial, sans-serif;
+            margin: 20px;
+            background-color: #f5f5f5;
+            color: #333;
+        }
+        h1, h2, h3 {
+            color: #0066cc;
+        }
+        h1 {
+            text-align: center;
+            margin-bottom: 30px;
+            padding-bottom: 10px;
+            border-bottom: 2px solid #0066cc;
+        }
+        .summary, .section {
+            background-color: white;
+            border-radius: 8px;
+            box-shadow: 0 2px 4px rgba(0,0,0,0.1);
+            margin-bottom: 20px;
+            padding: 15px;
+        }
+        .summary-cards {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 15px;
+            margin-bottom: 15px;
+        }
+        .summary-card {
+            background-color: #e6f2ff;
+            border-radius: 5px;
+            padding: 15px;
+            min-width: 150px;
+            text-align: center;
+        }
+        .summary-title {
+            font-size: 0.9em;
+            color: #666;
+        }
+        .summary-value {
+            font-size: 1.8em;
+            font-weight: bold;
+            color: #003366;
+        }
+        table {
+            width: 100%;
+            border-collapse: collapse;
+        }
+        th, td {
+            border: 1px solid #ddd;
+            padding: 8px;
+            text-align: left;
+        }
+        th {
+            background-color: #0066cc;
+            color: white;
+        }
+        tr.best-option {
+            background-color: #d4edda;
+        }
+        .savings {
+            color: #28a745;
+            font-weight: bold;
+        }
+        .muted {
+            color: #666;
+            font-size: 0.85em;
+            font-weight: normal;
+        }
+        .timestamp {
+            text-align: center;
+            color: #666;
+            font-size: 0.9em;
+            margin-top: 20px;
+        }
+      </style>
+  </head>
+  <body>
+      <h1>${escapeHtml(title)}</h1>
+
+      <div class="summary">
+        <h2>Summary</h2>
+        <div class="summary-cards">
+          <div class="summary-card">
+            <div class="summary-title">Running Instances</div>
+            <div class="summary-value">${runningInstances}</div>
+          </div>
+          <div class="summary-card">
+            <div class="summary-title">Instance Groups</div>
+            <div class="summary-value">${groups.length}</div>
+          </div>
+          <div class="summary-card">
+            <div class="summary-title">Groups Without Prices</div>
+            <div class="summary-value">${unpriced}</div>
+          </div>
+        </div>
+        <h3>Potential savings over all running instances</h3>
+        <p class="muted">Projected for ${HOURS_PER_MONTH} hours per month; upfront fees are spread over the term.</p>
+        ${generateTotalsTable(totals)}
+      </div>
+
+      ${groups.map(generateGroupSection).join('')}
+
+      ${generateErrorsSectionHtml(errors)}
+      ${generateSkippedRegionsSectionHtml(skippedRegions)}
+
+      <div class="timestamp">Report generated on ${new Date().toLocaleString()}</div>
+  </body>
+  </html>`
+}
@@ -1,7 +1,9 @@
 // File: src/templates/ebs.ts
 // EBS HTML report template
 
-import { EBSVolumeInfo } from '../types'
+import { EBSVolumeInfo, SkippedRegion, TargetError } from '../types'
+import { generateErrorsSectionHtml, generateSkippedRegionsSectionHtml } from './errors'
+import { createOrganizationHeadings, getAccountGroupKey } from './organizations'
 
 /**
  * Generate enhanced HTML output for EBS volumes
@@ -9,12 +11,16 @@ import { EBSVolumeInfo } from '../types'
  * @param title The title for the report
  * @param totalOrganizationAccounts The total number of accounts in the organization
  * @param allAccounts All accounts in the organization
+ * @param errors Accounts/regions that could not be checked
+ * @param skippedRegions Regions skipped because they are not enabled in the account (--all-regions)
  */
 export function generateEBSHtml(
   volumes: EBSVolumeInfo[],
   title: string,
   totalOrganizationAccounts?: number,
   allAccounts?: Record<string, unknown>[],
+  errors: TargetError[] = [],
+  skippedRegions: SkippedRegion[] = [],
 ): string {
   // Group volumes by account for visualization
   const accountGroups = new Map<string, EBSVolumeInfo[]>()
@@ -27,7 +33,7 @@ export function generateEBSHtml(
         const accountName = String(account.Name || 'Unknown')
 
         // Initialize empty array for accounts without volumes
-        const key = `${accountId} (${accountName})`
+        const key = getAccountGroupKey(account, accountId, accountName)
         if (!accountGroups.has(key)) {
           accountGroups.set(key, [])
         }
@@ -40,7 +46,7 @@ export function generateEBSHtml(
     const accountId = volume.AccountId
     const accountName = volume.AccountName
 
-    const key = `${accountId} (${accountName})`
+    const key = getAccountGroupKey(volume, accountId, accountName)
     if (!accountGroups.has(key)) {
       accountGroups.set(key, [])
     }
@@ -170,7 +176,10 @@ export function generateEBSHtml(
   // Convert the Map to an array and sort by account name
   const sortedAccounts = Array.from(accountGroups.entries()).sort((a, b) => a[0].localeCompare(b[0]))
 
+  const organizationHeading = createOrganizationHeadings(sortedAccounts.map(([accountKey]) => accountKey))
+
   sortedAccounts.forEach(([accountKey, accountVolumes]) => {
+    accountsHtml += organizationHeading(accountKey)
     const isEmpty = accountVolumes.length === 0
     const accountClass = isEmpty ? 'empty-account' : 'has-resources'
 
@@ -609,6 +618,8 @@ export function generateEBSHtml(
 <body>
     <h1>AWS EBS Volumes - ${title}</h1>
     ${summaryHtml}
+    ${generateErrorsSectionHtml(errors)}
+    ${generateSkippedRegionsSectionHtml(skippedRegions)}
     ${accountsHtml}
     <div class="timestamp">Generated on: ${new Date().toLocaleString()}</div>
 </body>
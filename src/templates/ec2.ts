@@ -1,7 +1,10 @@
 // File: src/templates/ec2.ts
 // EC2 HTML report template with pricing information and OS details
 
-import { EC2InstanceInfo } from '../types'
+import { EC2CostTotal, EC2InstanceInfo, EC2UpgradeRecommendation, SkippedRegion, TargetError } from '../types'
+import { HOURS_PER_MONTH, summarizeEC2Costs } from '../utils/ec2-costs'
+import { generateErrorsSectionHtml, generateSkippedRegionsSectionHtml } from './errors'
+import { createOrganizationHeadings, getAccountGroupKey } from './organizations'
 
 /**
  * Generate enhanced HTML output for EC2 instances
@@ -9,12 +12,18 @@ import { EC2InstanceInfo } from '../types'
  * @param title The title for the report
  * @param totalOrganizationAccounts The total number of accounts in the organization
  * @param allAccounts All accounts in the organization
+ * @param errors Accounts/regions that could not be checked
+ * @param skippedRegions Regions skipped because they are not enabled in the account (--all-regions)
+ * @param recommendations Upgrade recommendations (--recommend); adds a Recommendation column when given
  */
 export function generateEC2Html(
   instances: EC2InstanceInfo[],
   title: string,
   totalOrganizationAccounts?: number,
   allAccounts?: Record<string, unknown>[],
+  errors: TargetError[] = [],
+  skippedRegions: SkippedRegion[] = [],
+  recommendations?: EC2UpgradeRecommendation[],
 ): string {
   // Group instances by account for visualization
   const accountGroups = new Map<string, EC2InstanceInfo[]>()
@@ -27,7 +36,7 @@ export function generateEC2Html(
         const accountName = String(account.Name || 'Unknown')
 
         // Initialize empty array for accounts without instances
-        const key = `${accountId} (${accountName})`
+        const key = getAccountGroupKey(account, accountId, accountName)
         if (!accountGroups.has(key)) {
           accountGroups.set(key, [])
         }
@@ -40,7 +49,7 @@ export function generateEC2Html(
     const accountId = instance.AccountId
     const accountName = instance.AccountName
 
-    const key = `${accountId} (${accountName})`
+    const key = getAccountGroupKey(instance, accountId, accountName)
     if (!accountGroups.has(key)) {
       accountGroups.set(key, [])
     }
@@ -71,53 +80,46 @@ export function generateEC2Html(
   })
 
   // Check if pricing data is available
-  const hasPricing = instances.some((instance) => 'HourlyPrice' in instance)
+  const hasPricing = instances.some((instance) => instance.HourlyPrice !== undefined || instance.PriceError)
 
   // Calculate pricing summary if pricing information is available
   let pricingSummaryHtml = ''
 
   if (hasPricing) {
-    // Only calculate for running instances
-    const runningInstances = instances.filter((instance) => instance.State.toLowerCase() === 'running')
-
-    // Calculate estimated hourly cost
-    let totalHourlyCost = 0
-
-    runningInstances.forEach((instance) => {
-      if (instance.HourlyPrice) {
-        // Extract the numeric part from strings like "0.0416 USD/hr"
-        const priceMatch = instance.HourlyPrice.match(/([0-9.]+)/)
-        if (priceMatch && priceMatch[1]) {
-          const price = parseFloat(priceMatch[1])
-          if (!isNaN(price)) {
-            totalHourlyCost += price
-          }
-        }
-      }
-    })
+    // Only running instances are billed for compute
+    const costTotals = summarizeEC2Costs(instances)
+    const runningInstances = costTotals.Total.reduce((count, total) => count + total.RunningInstances, 0)
 
-    // Calculate daily and monthly estimates (30-day month)
-    const dailyCost = totalHourlyCost * 24
-    const monthlyCost = dailyCost * 30
-
-    // Create pricing summary section with 4 decimal places for hourly costs
-    pricingSummaryHtml = `
-      <h3>Cost Estimates (Running Instances Only)</h3>
-      <div class="cost-summary">
+    // One set of cards per currency (USD, or CNY in the China regions)
+    const costCardsHtml = costTotals.Total.map(
+      (total) => `
         <div class="summary-card">
           <div class="summary-title">Hourly</div>
-          <div class="summary-value">$${totalHourlyCost.toFixed(4)}</div>
+          <div class="summary-value">${formatCost(total.HourlyCost, total.Currency, 4)}</div>
         </div>
         <div class="summary-card">
           <div class="summary-title">Daily</div>
-          <div class="summary-value">$${dailyCost.toFixed(2)}</div>
+          <div class="summary-value">${formatCost(total.HourlyCost * 24, total.Currency)}</div>
         </div>
         <div class="summary-card">
-          <div class="summary-title">Monthly (est.)</div>
-          <div class="summary-value">$${monthlyCost.toFixed(2)}</div>
+          <div class="summary-title">Monthly (${HOURS_PER_MONTH} h)</div>
+          <div class="summary-value">${formatCost(total.MonthlyCost, total.Currency)}</div>
         </div>
+      `,
+    ).join('')
+
+    // Create pricing summary section with 4 decimal places for hourly costs
+    pricingSummaryHtml = `
+      <h3>Cost Estimates (Running Instances Only)</h3>
+      <div class="cost-summary">
+        ${costCardsHtml}
       </div>
-      <p class="cost-disclaimer">* Cost estimates are based on on-demand pricing for ${runningInstances.length} running instances and may not reflect actual costs including reserved instances, savings plans, or other discounts.</p>
+      <div class="cost-breakdown">
+        ${generateCostTotalsTable('By Account', costTotals.ByAccount)}
+        ${generateCostTotalsTable('By Region', costTotals.ByRegion)}
+        ${generateCostTotalsTable('By Instance Family', costTotals.ByFamily)}
+      </div>
+      <p class="cost-disclaimer">* Cost estimates are based on on-demand pricing for ${runningInstances} running instances and may not reflect actual costs including reserved instances, savings plans, or other discounts.</p>
     `
   }
 
@@ -214,7 +216,10 @@ export function generateEC2Html(
   // Convert the Map to an array and sort by account name
   const sortedAccounts = Array.from(accountGroups.entries()).sort((a, b) => a[0].localeCompare(b[0]))
 
+  const organizationHeading = createOrganizationHeadings(sortedAccounts.map(([accountKey]) => accountKey))
+
   sortedAccounts.forEach(([accountKey, accountInstances]) => {
+    accountsHtml += organizationHeading(accountKey)
     const isEmpty = accountInstances.length === 0
     const accountClass = isEmpty ? 'empty-account' : 'has-resources'
 
@@ -233,7 +238,7 @@ export function generateEC2Html(
             ${
               accountInstances.length === 0
                 ? '<p class="no-resources">No EC2 instances found in this account.</p>'
-                : generateEC2Table(accountInstances)
+                : generateEC2Table(accountInstances, recommendations)
             }
           </div>
         </div>
@@ -523,6 +528,21 @@ export function generateEC2Html(
             color: #666;
             font-style: italic;
         }
+        .cost-breakdown {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 20px;
+        }
+        .cost-breakdown-table {
+            flex: 1;
+            min-width: 250px;
+        }
+        .upgrade-saving {
+            color: green;
+        }
+        .upgrade-cost {
+            color: #c0392b;
+        }
         .cost-disclaimer {
             font-size: 0.8em;
             font-style: italic;
@@ -698,16 +718,77 @@ export function generateEC2Html(
 <body>
     <h1>AWS EC2 Instances - ${title}</h1>
     ${summaryHtml}
+    ${generateErrorsSectionHtml(errors)}
+    ${generateSkippedRegionsSectionHtml(skippedRegions)}
     ${accountsHtml}
     <div class="timestamp">Generated on: ${new Date().toLocaleString()}</div>
 </body>
 </html>`
 }
 
+/**
+ * Format a cost with its currency, e.g. $12.34 or 12.34 CNY
+ */
+function formatCost(value: number, currency: string, decimals = 2): string {
+  return currency === 'USD' ? `$${value.toFixed(decimals)}` : `${value.toFixed(decimals)} ${currency}`
+}
+
+/**
+ * Generate a table of cost totals by account, region or instance family
+ */
+function generateCostTotalsTable(title: string, totals: EC2CostTotal[]): string {
+  return `
+    <div class="cost-breakdown-table">
+      <h4>${title}</h4>
+      <table>
+        <thead>
+          <tr>
+            <th>${title.replace(/^By /, '')}</th>
+            <th>Running</th>
+            <th>Hourly</th>
+            <th>Monthly (est.)</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${totals
+            .map(
+              (total) => `
+          <tr>
+            <td>${total.Group}</td>
+            <td>${total.RunningInstances}</td>
+            <td>${formatCost(total.HourlyCost, total.Currency, 4)}</td>
+            <td>${formatCost(total.MonthlyCost, total.Currency)}</td>
+          </tr>`,
+            )
+            .join('')}
+        </tbody>
+      </table>
+    </div>
+  `
+}
+
+/**
+ * Generate the upgrade recommendations of an instance, e.g. "m7i.large -$5.11/mo"
+ */
+function generateRecommendationCell(recommendations: EC2UpgradeRecommendation[]): string {
+  return recommendations
+    .map((recommendation) => {
+      const label = `${recommendation.Option === 'Graviton' ? 'Graviton: ' : ''}${recommendation.RecommendedType}`
+      if (recommendation.MonthlyDelta === undefined) {
+        return `<div>${label} <span class="cost-disclaimer">${recommendation.PriceError || ''}</span></div>`
+      }
+      const delta = formatCost(Math.abs(recommendation.MonthlyDelta), String(recommendation.Currency))
+      return recommendation.MonthlyDelta <= 0
+        ? `<div>${label} <span class="upgrade-saving">-${delta}/mo</span></div>`
+        : `<div>${label} <span class="upgrade-cost">+${delta}/mo</span></div>`
+    })
+    .join('')
+}
+
 /**
  * Generate EC2 instances table HTML
  */
-function generateEC2Table(instances: EC2InstanceInfo[]): string {
+function generateEC2Table(instances: EC2InstanceInfo[], recommendations?: EC2UpgradeRecommendation[]): string {
   // Sort instances by state and name
   const sortedInstances = [...instances].sort((a, b) => {
     // First by state (running first)
@@ -719,7 +800,7 @@ function generateEC2Table(instances: EC2InstanceInfo[]): string {
   })
 
   // Check if pricing data is available for any instance
-  const hasPricing = sortedInstances.some((instance) => 'HourlyPrice' in instance)
+  const hasPricing = sortedInstances.some((instance) => instance.HourlyPrice !== undefined || instance.PriceError)
 
   // Check if any instances have Tags
   const hasTags = sortedInstances.some((instance) => instance.Tags && Object.keys(instance.Tags).length > 0)
@@ -753,7 +834,8 @@ function generateEC2Table(instances: EC2InstanceInfo[]): string {
           <th>Private IP</th>
           <th>Public IP</th>
           <th>Region</th>
-          ${hasPricing ? '<th>Hourly Price</th>' : ''}
+          ${hasPricing ? '<th>Hourly Price</th><th>Monthly (est.)</th>' : ''}
+          ${recommendations ? '<th>Recommendation</th>' : ''}
         </tr>
       </thead>
       <tbody>
@@ -804,20 +886,10 @@ function generateEC2Table(instances: EC2InstanceInfo[]): string {
     }
 
     // Format the price display if available
-    let formattedPrice = instance.HourlyPrice || 'N/A'
-    if (
-      instance.HourlyPrice &&
-      instance.HourlyPrice !== 'N/A' &&
-      instance.HourlyPrice !== 'Price not available' &&
-      instance.HourlyPrice !== 'Error retrieving price'
-    ) {
-      // Try to extract and reformat the numeric part
-      const priceMatch = instance.HourlyPrice.match(/([0-9.]+)\s+([A-Z]{3})\/hr\s+\(([^)]+)\)/)
-      if (priceMatch) {
-        const [, price, currency, os] = priceMatch
-        formattedPrice = `${parseFloat(price).toFixed(4)} ${currency}/hr (${os})`
-      }
-    }
+    const formattedPrice =
+      instance.HourlyPrice !== undefined
+        ? `${instance.HourlyPrice.toFixed(4)} ${instance.Currency}/hr (${instance.PricingOS})`
+        : instance.PriceError || 'N/A'
 
     // Generate HTML for tag columns only if we have tags
     let tagColumnsHtml = ''
@@ -841,7 +913,8 @@ function generateEC2Table(instances: EC2InstanceInfo[]): string {
         <td>${instance.PrivateIp}</td>
         <td>${instance.PublicIp}</td>
         <td>${instance.Region}</td>
-        ${hasPricing ? `<td>${formattedPrice}</td>` : ''}
+        ${hasPricing ? `<td>${formattedPrice}</td><td>${instance.MonthlyCost !== undefined ? formatCost(instance.MonthlyCost, String(instance.Currency)) : ''}</td>` : ''}
+        ${recommendations ? `<td>${generateRecommendationCell(recommendations.filter((recommendation) => recommendation.InstanceId === instance.InstanceId))}</td>` : ''}
       </tr>
     `
   })
@@ -0,0 +1,262 @@
+// File: src/templates/effective-policies.ts
+// Effective policies HTML report template
+
+import { EffectivePolicyInfo, EffectivePolicyType, TargetError } from '../types'
+import { escapeHtml, generateErrorsSectionHtml } from './errors'
+import { generateOrganizationHeadingHtml, groupByOrganization } from './organizations'
+
+/**
+ * Section titles of the policy types, in display order
+ */
+const EFFECTIVE_POLICY_TYPE_TITLES: Record<EffectivePolicyType, string> = {
+  TAG_POLICY: 'Tag Policies',
+  BACKUP_POLICY: 'Backup Policies',
+  AISERVICES_OPT_OUT_POLICY: 'AI Services Opt-Out Policies',
+}
+
+/**
+ * Pretty-print a policy document, keeping it as is when it is not valid JSON
+ */
+function formatPolicyContent(content: string): string {
+  try {
+    return JSON.stringify(JSON.parse(content), null, 2)
+  } catch {
+    return content
+  }
+}
+
+/**
+ * Generate the table of the effective policies of one type, grouped by OU
+ */
+function generatePolicyTypeSection(policyType: EffectivePolicyType, policies: EffectivePolicyInfo[]): string {
+  const sorted = [...policies].sort(
+    (a, b) => a.OuPath.localeCompare(b.OuPath) || a.AccountName.localeCompare(b.AccountName),
+  )
+  const differing = policies.filter((policy) => policy.DiffersFromOuMajority).length
+
+  const rows = sorted
+    .map(
+      (policy) => `
+        <tr class="${policy.DiffersFromOuMajority ? 'differs' : 'same'}">
+          <td>${escapeHtml(policy.OuPath)}</td>
+          <td>${escapeHtml(policy.AccountName)}<div class="muted">${escapeHtml(policy.AccountId)}</div></td>
+          <td>${policy.DiffersFromOuMajority ? '<span class="badge differs-badge">Differs from OU</span>' : ''}</td>
+          <td>${policy.LastUpdated ? new Date(policy.LastUpdated).toLocaleString() : ''}</td>
+          <td>
+            ${
+              policy.Content
+                ? `<details>
+              <summary>Show effective policy</summary>
+              <pre>${escapeHtml(formatPolicyContent(policy.Content))}</pre>
+            </details>`
+                : '<span class="muted">No policy applies</span>'
+            }
+          </td>
+        </tr>
+      `,
+    )
+    .join('')
+
+  return `
+      <div class="section">
+        <h2>${EFFECTIVE_POLICY_TYPE_TITLES[policyType]}
+          <span class="muted">${policies.length} accounts, ${differing} differing from their OU</span>
+        </h2>
+        <table>
+          <thead>
+            <tr>
+              <th>OU Path</th>
+              <th>Account</th>
+              <th>OU Majority</th>
+              <th>Last Updated</th>
+              <th>Effective Policy</th>
+            </tr>
+          </thead>
+          <tbody>${rows}</tbody>
+        </table>
+      </div>
+    `
+}
+
+/**
+ * Generate an HTML report of the effective policies of each account
+ * @param policies Effective policies of the accounts, with the OU majority comparison
+ * @param title The title for the report
+ * @param errors Accounts whose effective policy could not be fetched
+ */
+export function generateEffectivePoliciesHtml(
+  policies: EffectivePolicyInfo[],
+  title: string,
+  errors: TargetError[] = [],
+): string {
+  const policyTypes = (Object.keys(EFFECTIVE_POLICY_TYPE_TITLES) as EffectivePolicyType[]).filter((type) =>
+    policies.some((policy) => policy.PolicyType === type),
+  )
+  const accountCount = new Set(policies.map((policy) => policy.AccountId)).size
+  const differingCount = policies.filter((policy) => policy.DiffersFromOuMajority).length
+
+  // Sections of each organization, under its heading in multi-organization mode
+  const organizationSections = groupByOrganization(policies)
+    .map(([organizationId, organizationPolicies]) => {
+      const organizationAccountCount = new Set(organizationPolicies.map((policy) => policy.AccountId)).size
+      const sections = policyTypes
+        .filter((type) => organizationPolicies.some((policy) => policy.PolicyType === type))
+        .map((type) =>
+          generatePolicyTypeSection(
+            type,
+            organizationPolicies.filter((policy) => policy.PolicyType === type),
+          ),
+        )
+        .join('')
+      return `${organizationId ? generateOrganizationHeadingHtml(organizationId, organizationAccountCount) : ''}${sections}`
+    })
+    .join('')
+
+  return `<!DOCTYPE html>
+  <html lang="en">
+  <head>
+      <meta charset="UTF-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>AWS Organizations - ${escapeHtml(title)}</title>
+      <style>
+        body {
+            font-family: Arial, sans-serif;
+            margin: 20px;
+            background-color: #f5f5f5;
+            color: #333;
+        }
+        h1, h2, h3 {
+            color: #0066cc;
+        }
+        h1 {
+            text-align: center;
+            margin-bottom: 30px;
+            padding-bottom: 10px;
+            border-bottom: 2px solid #0066cc;
+        }
+        .summary, .section {
+            background-color: white;
+            border-radius: 8px;
+            box-shadow: 0 2px 4px rgba(0,0,0,0.1);
+            margin-bottom: 20px;
+            padding: 15px;
+        }
+        .summary-cards {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 15px;
+        }
+        .summary-card {
+            background-color: #e6f2ff;
+            border-radius: 5px;
+            padding: 15px;
+            min-width: 150px;
+            text-align: center;
+        }
+        .summary-title {
+            font-size: 0.9em;
+            color: #666;
+        }
+        .summary-value {
+            font-size: 1.8em;
+            font-weight: bold;
+            color: #003366;
+        }
+        .filter-button {
+            background-color: #0066cc;
+            color: white;
+            border: none;
+            padding: 8px 15px;
+            border-radius: 4px;
+            cursor: pointer;
+            margin-top: 15px;
+        }
+        .filter-button:hover {
+            background-color: #004c99;
+        }
+        table {
+            width: 100%;
+            border-collapse: collapse;
+        }
+        th, td {
+            border: 1px solid #ddd;
+            padding: 8px;
+            text-align: left;
+            vertical-align: top;
+        }
+        th {
+            background-color: #0066cc;
+            color: white;
+        }
+        tr.differs {
+            background-color: #fff3cd;
+        }
+        .muted {
+            color: #666;
+            font-size: 0.85em;
+            font-weight: normal;
+        }
+        .badge {
+            font-size: 0.8em;
+            padding: 2px 8px;
+            border-radius: 12px;
+            white-space: nowrap;
+        }
+        .differs-badge {
+            background-color: #fd7e14;
+            color: white;
+        }
+        .only-differing tr.same {
+            display: none;
+        }
+        pre {
+            background-color: #f8f9fa;
+            border: 1px solid #ddd;
+            border-radius: 4px;
+            padding: 10px;
+            overflow-x: auto;
+            max-height: 400px;
+        }
+        .timestamp {
+            text-align: center;
+            color: #666;
+            font-size: 0.9em;
+            margin-top: 20px;
+        }
+      </style>
+  </head>
+  <body>
+      <h1>${escapeHtml(title)}</h1>
+
+      <div class="summary">
+        <h2>Summary</h2>
+        <div class="summary-cards">
+          <div class="summary-card">
+            <div class="summary-title">Accounts</div>
+            <div class="summary-value">${accountCount}</div>
+          </div>
+          ${policyTypes
+            .map(
+              (type) => `
+          <div class="summary-card">
+            <div class="summary-title">${EFFECTIVE_POLICY_TYPE_TITLES[type]} Applied</div>
+            <div class="summary-value">${policies.filter((policy) => policy.PolicyType === type && policy.Content).length}</div>
+          </div>`,
+            )
+            .join('')}
+          <div class="summary-card">
+            <div class="summary-title">Differing From OU Majority</div>
+            <div class="summary-value">${differingCount}</div>
+          </div>
+        </div>
+        <button class="filter-button" onclick="document.body.classList.toggle('only-differing')">Toggle Only Differing Accounts</button>
+      </div>
+
+      ${organizationSections}
+
+      ${generateErrorsSectionHtml(errors)}
+
+      <div class="timestamp">Report generated on ${new Date().toLocaleString()}</div>
+  </body>
+  </html>`
+}
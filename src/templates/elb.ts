@@ -1,7 +1,9 @@
 // File: src/templates/elb-template.ts
 // ELB HTML report template
 
-import { ELBInfo } from '../types'
+import { ELBInfo, SkippedRegion, TargetError } from '../types'
+import { generateErrorsSectionHtml, generateSkippedRegionsSectionHtml } from './errors'
+import { createOrganizationHeadings, getAccountGroupKey } from './organizations'
 
 /**
  * Generate enhanced HTML output for Elastic Load Balancers
@@ -9,12 +11,16 @@ import { ELBInfo } from '../types'
  * @param title The title for the report
  * @param totalOrganizationAccounts The total number of accounts in the organization
  * @param allAccounts All accounts in the organization
+ * @param errors Accounts/regions that could not be checked
+ * @param skippedRegions Regions skipped because they are not enabled in the account (--all-regions)
  */
 export function generateELBHtml(
   elbs: ELBInfo[],
   title: string,
   totalOrganizationAccounts?: number,
   allAccounts?: Record<string, unknown>[],
+  errors: TargetError[] = [],
+  skippedRegions: SkippedRegion[] = [],
 ): string {
   // Group ELBs by account for visualization
   const accountGroups = new Map<string, ELBInfo[]>()
@@ -27,7 +33,7 @@ export function generateELBHtml(
         const accountName = String(account.Name || 'Unknown')
 
         // Initialize empty array for accounts without ELBs
-        const key = `${accountId} (${accountName})`
+        const key = getAccountGroupKey(account, accountId, accountName)
         if (!accountGroups.has(key)) {
           accountGroups.set(key, [])
         }
@@ -40,7 +46,7 @@ export function generateELBHtml(
     const accountId = elb.AccountId
     const accountName = elb.AccountName
 
-    const key = `${accountId} (${accountName})`
+    const key = getAccountGroupKey(elb, accountId, accountName)
     if (!accountGroups.has(key)) {
       accountGroups.set(key, [])
     }
@@ -140,7 +146,10 @@ export function generateELBHtml(
   // Convert the Map to an array and sort by account name
   const sortedAccounts = Array.from(accountGroups.entries()).sort((a, b) => a[0].localeCompare(b[0]))
 
+  const organizationHeading = createOrganizationHeadings(sortedAccounts.map(([accountKey]) => accountKey))
+
   sortedAccounts.forEach(([accountKey, accountElbs]) => {
+    accountsHtml += organizationHeading(accountKey)
     const isEmpty = accountElbs.length === 0
     const accountClass = isEmpty ? 'empty-account' : 'has-resources'
 
@@ -508,6 +517,8 @@ export function generateELBHtml(
 <body>
     <h1>AWS Elastic Load Balancers - ${title}</h1>
     ${summaryHtml}
+    ${generateErrorsSectionHtml(errors)}
+    ${generateSkippedRegionsSectionHtml(skippedRegions)}
     ${accountsHtml}
     <div class="timestamp">Generated on: ${new Date().toLocaleString()}</div>
 </body>
@@ -0,0 +1,154 @@
+// File: src/templates/errors.ts
+// HTML sections listing the accounts/regions that could not be checked or were skipped
+// Shared by all resource reports; styles are inline so the section renders the same in every template.
+
+import { SkippedRegion, TargetError, TargetStatus } from '../types'
+
+/**
+ * Colors used for each failure status badge
+ */
+const STATUS_COLORS: Record<Exclude<TargetStatus, 'ok'>, string> = {
+  'access-denied': '#dc3545',
+  throttled: '#fd7e14',
+  'region-disabled': '#6c757d',
+  error: '#721c24',
+}
+
+/**
+ * Escape text for safe inclusion in HTML
+ * Shared by all report templates.
+ */
+export function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+/**
+ * Generate the errors section of a report
+ * @param errors Accounts/regions that could not be checked
+ * @returns HTML for the section, or an empty string when there are no errors
+ */
+export function generateErrorsSectionHtml(errors: TargetError[]): string {
+  if (errors.length === 0) {
+    return ''
+  }
+
+  // Count failures per status for the section header
+  const countsByStatus = new Map<string, number>()
+  errors.forEach((error) => {
+    countsByStatus.set(error.Status, (countsByStatus.get(error.Status) || 0) + 1)
+  })
+
+  // Organization column in multi-organization mode, with the errors grouped by organization
+  const showOrganization = errors.some((error) => error.OrganizationId)
+
+  const sortedErrors = [...errors].sort(
+    (a, b) =>
+      (a.OrganizationId || '').localeCompare(b.OrganizationId || '') ||
+      a.AccountId.localeCompare(b.AccountId) ||
+      (a.Region || '').localeCompare(b.Region || ''),
+  )
+
+  const rows = sortedErrors
+    .map(
+      (error) => `
+        <tr>
+          ${showOrganization ? `<td style="border: 1px solid #ddd; padding: 8px;">${escapeHtml(error.OrganizationId || '')}</td>` : ''}
+          <td style="border: 1px solid #ddd; padding: 8px;">${escapeHtml(error.AccountId)}</td>
+          <td style="border: 1px solid #ddd; padding: 8px;">${escapeHtml(error.AccountName)}</td>
+          <td style="border: 1px solid #ddd; padding: 8px;">${escapeHtml(error.Region || 'All regions')}</td>
+          <td style="border: 1px solid #ddd; padding: 8px;">
+            <span style="background-color: ${STATUS_COLORS[error.Status]}; color: white; padding: 2px 8px; border-radius: 10px; font-size: 0.85em;">${error.Status}</span>
+          </td>
+          <td style="border: 1px solid #ddd; padding: 8px; word-break: break-word;">${escapeHtml(error.Error)}</td>
+        </tr>
+      `,
+    )
+    .join('')
+
+  return `
+    <div class="errors-section" style="background-color: #fff5f5; border: 1px solid #f5c6cb; border-left: 4px solid #dc3545; border-radius: 8px; margin-bottom: 20px; padding: 15px;">
+      <h2 style="color: #721c24; margin-top: 0;">Errors (${errors.length})</h2>
+      <p style="margin: 0 0 10px 0;">
+        The following accounts/regions could not be checked, so the results above may be incomplete:
+        ${Array.from(countsByStatus.entries())
+          .map(([status, count]) => `<strong>${status}</strong>: ${count}`)
+          .join(', ')}
+      </p>
+      <table style="border-collapse: collapse; width: 100%;">
+        <thead>
+          <tr>
+            ${showOrganization ? '<th style="background-color: #721c24; color: white; padding: 8px; text-align: left;">Organization</th>' : ''}
+            <th style="background-color: #721c24; color: white; padding: 8px; text-align: left;">Account ID</th>
+            <th style="background-color: #721c24; color: white; padding: 8px; text-align: left;">Account Name</th>
+            <th style="background-color: #721c24; color: white; padding: 8px; text-align: left;">Region</th>
+            <th style="background-color: #721c24; color: white; padding: 8px; text-align: left;">Status</th>
+            <th style="background-color: #721c24; color: white; padding: 8px; text-align: left;">Error</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${rows}
+        </tbody>
+      </table>
+    </div>
+  `
+}
+
+/**
+ * Generate the skipped regions section of a report (--all-regions)
+ * @param skippedRegions Regions that were not checked because they are not enabled in the account
+ * @returns HTML for the section, or an empty string when no region was skipped
+ */
+export function generateSkippedRegionsSectionHtml(skippedRegions: SkippedRegion[]): string {
+  if (skippedRegions.length === 0) {
+    return ''
+  }
+
+  // Group the regions by account to keep the section short; Organization column in multi-organization mode
+  const showOrganization = skippedRegions.some((skipped) => skipped.OrganizationId)
+  const regionsByAccount = new Map<string, { organizationId: string; name: string; regions: string[] }>()
+  skippedRegions.forEach((skipped) => {
+    const entry = regionsByAccount.get(skipped.AccountId) || {
+      organizationId: skipped.OrganizationId || '',
+      name: skipped.AccountName,
+      regions: [],
+    }
+    entry.regions.push(skipped.Region)
+    regionsByAccount.set(skipped.AccountId, entry)
+  })
+
+  const rows = Array.from(regionsByAccount.entries())
+    .sort(([a, first], [b, second]) => first.organizationId.localeCompare(second.organizationId) || a.localeCompare(b))
+    .map(
+      ([accountId, { organizationId, name, regions }]) => `
+        <tr>
+          ${showOrganization ? `<td style="border: 1px solid #ddd; padding: 8px;">${escapeHtml(organizationId)}</td>` : ''}
+          <td style="border: 1px solid #ddd; padding: 8px;">${escapeHtml(accountId)}</td>
+          <td style="border: 1px solid #ddd; padding: 8px;">${escapeHtml(name)}</td>
+          <td style="border: 1px solid #ddd; padding: 8px; word-break: break-word;">${escapeHtml(regions.sort().join(', '))}</td>
+        </tr>
+      `,
+    )
+    .join('')
+
+  return `
+    <div class="skipped-regions-section" style="background-color: #f8f9fa; border: 1px solid #dee2e6; border-left: 4px solid #6c757d; border-radius: 8px; margin-bottom: 20px; padding: 15px;">
+      <h2 style="color: #495057; margin-top: 0;">Skipped Regions (${skippedRegions.length})</h2>
+      <p style="margin: 0 0 10px 0;">
+        The following regions were not checked because they are not enabled (opted in) for the account:
+      </p>
+      <table style="border-collapse: collapse; width: 100%;">
+        <thead>
+          <tr>
+            ${showOrganization ? '<th style="background-color: #6c757d; color: white; padding: 8px; text-align: left;">Organization</th>' : ''}
+            <th style="background-color: #6c757d; color: white; padding: 8px; text-align: left;">Account ID</th>
+            <th style="background-color: #6c757d; color: white; padding: 8px; text-align: left;">Account Name</th>
+            <th style="background-color: #6c757d; color: white; padding: 8px; text-align: left;">Regions</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${rows}
+        </tbody>
+      </table>
+    </div>
+  `
+}
@@ -1,7 +1,9 @@
 // File: src/templates/heni.ts
 // HENI HTML report template
 
-import { HENIInfo } from '../types'
+import { HENIInfo, SkippedRegion, TargetError } from '../types'
+import { generateErrorsSectionHtml, generateSkippedRegionsSectionHtml } from './errors'
+import { createOrganizationHeadings, getAccountGroupKey } from './organizations'
 
 /**
  * Generate enhanced HTML output for Hyperplane ENIs
@@ -9,12 +11,16 @@ import { HENIInfo } from '../types'
  * @param title The title for the report
  * @param totalOrganizationAccounts The total number of accounts in the organization
  * @param allAccounts All accounts in the organization
+ * @param errors Accounts/regions that could not be checked
+ * @param skippedRegions Regions skipped because they are not enabled in the account (--all-regions)
  */
 export function generateHENIHtml(
   heniInfos: HENIInfo[],
   title: string,
   totalOrganizationAccounts?: number,
   allAccounts?: Record<string, unknown>[],
+  errors: TargetError[] = [],
+  skippedRegions: SkippedRegion[] = [],
 ): string {
   // Group HENI info by account for visualization
   const accountGroups = new Map<string, HENIInfo[]>()
@@ -27,7 +33,7 @@ export function generateHENIHtml(
         const accountName = String(account.Name || 'Unknown')
 
         // Initialize empty array for accounts
-        const key = `${accountId} (${accountName})`
+        const key = getAccountGroupKey(account, accountId, accountName)
         if (!accountGroups.has(key)) {
           accountGroups.set(key, [])
         }
@@ -40,7 +46,7 @@ export function generateHENIHtml(
     const accountId = info.AccountId
     const accountName = info.AccountName
 
-    const key = `${accountId} (${accountName})`
+    const key = getAccountGroupKey(info, accountId, accountName)
     if (!accountGroups.has(key)) {
       accountGroups.set(key, [])
     }
@@ -137,7 +143,10 @@ export function generateHENIHtml(
   // Convert the Map to an array and sort by account name
   const sortedAccounts = Array.from(accountGroups.entries()).sort((a, b) => a[0].localeCompare(b[0]))
 
+  const organizationHeading = createOrganizationHeadings(sortedAccounts.map(([accountKey]) => accountKey))
+
   sortedAccounts.forEach(([accountKey, accountInfos]) => {
+    accountsHtml += organizationHeading(accountKey)
     // Calculate account-specific totals
     const accountTotalENIs = accountInfos.reduce((sum, info) => sum + info.TotalENIs, 0)
     const accountAvailableENIs = accountInfos.reduce((sum, info) => sum + info.AvailableENIs, 0)
@@ -514,6 +523,8 @@ export function generateHENIHtml(
 <body>
     <h1>AWS Hyperplane ENIs - ${title}</h1>
     ${summaryHtml}
+    ${generateErrorsSectionHtml(errors)}
+    ${generateSkippedRegionsSectionHtml(skippedRegions)}
     ${accountsHtml}
     <div class="timestamp">Generated on: ${new Date().toLocaleString()}</div>
 </body>
@@ -11,3 +11,12 @@ export * from './ebs'
 export * from './heni'
 export * from './role'
 export * from './s3'
+export * from './errors'
+export * from './org-tree'
+export * from './org-policies'
+export * from './org-services'
+export * from './org-diff'
+export * from './effective-policies'
+export * from './organizations'
+export * from './baseline'
+export * from './commitments'
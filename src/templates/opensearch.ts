@@ -1,7 +1,9 @@
 // File: src/templates/opensearch-template.ts
 // OpenSearch HTML report template
 
-import { OpenSearchDomainInfo } from '../types'
+import { OpenSearchDomainInfo, SkippedRegion, TargetError } from '../types'
+import { generateErrorsSectionHtml, generateSkippedRegionsSectionHtml } from './errors'
+import { createOrganizationHeadings, getAccountGroupKey } from './organizations'
 
 /**
  * Generate enhanced HTML output for OpenSearch domains
@@ -9,12 +11,16 @@ import { OpenSearchDomainInfo } from '../types'
  * @param title The title for the report
  * @param totalOrganizationAccounts The total number of accounts in the organization
  * @param allAccounts All accounts in the organization
+ * @param errors Accounts/regions that could not be checked
+ * @param skippedRegions Regions skipped because they are not enabled in the account (--all-regions)
  */
 export function generateOpenSearchHtml(
   domains: OpenSearchDomainInfo[],
   title: string,
   totalOrganizationAccounts?: number,
   allAccounts?: Record<string, unknown>[],
+  errors: TargetError[] = [],
+  skippedRegions: SkippedRegion[] = [],
 ): string {
   // Group domains by account for visualization
   const accountGroups = new Map<string, OpenSearchDomainInfo[]>()
@@ -29,7 +35,7 @@ export function generateOpenSearchHtml(
         //accountMap.set(accountId, accountName)
 
         // Initialize empty array for accounts without domains
-        const key = `${accountId} (${accountName})`
+        const key = getAccountGroupKey(account, accountId, accountName)
         if (!accountGroups.has(key)) {
           accountGroups.set(key, [])
         }
@@ -43,7 +49,7 @@ export function generateOpenSearchHtml(
     const accountName = domain.AccountName
     //accountMap.set(accountId, accountName) // Update map with any new accounts found
 
-    const key = `${accountId} (${accountName})`
+    const key = getAccountGroupKey(domain, accountId, accountName)
     if (!accountGroups.has(key)) {
       accountGroups.set(key, [])
     }
@@ -143,7 +149,10 @@ export function generateOpenSearchHtml(
   // Convert the Map to an array and sort by account name
   const sortedAccounts = Array.from(accountGroups.entries()).sort((a, b) => a[0].localeCompare(b[0]))
 
+  const organizationHeading = createOrganizationHeadings(sortedAccounts.map(([accountKey]) => accountKey))
+
   sortedAccounts.forEach(([accountKey, accountDomains]) => {
+    accountsHtml += organizationHeading(accountKey)
     const isEmpty = accountDomains.length === 0
     const accountClass = isEmpty ? 'empty-account' : 'has-resources'
 
@@ -467,6 +476,8 @@ export function generateOpenSearchHtml(
 <body>
     <h1>AWS OpenSearch Domains - ${title}</h1>
     ${summaryHtml}
+    ${generateErrorsSectionHtml(errors)}
+    ${generateSkippedRegionsSectionHtml(skippedRegions)}
     ${accountsHtml}
     <div class="timestamp">Generated on: ${new Date().toLocaleString()}</div>
 </body>
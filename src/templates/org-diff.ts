@@ -0,0 +1,184 @@
+// File: src/templates/org-diff.ts
+// Organization changes (org-diff) HTML report template
+
+import { OrganizationChangeType, OrganizationDiff } from '../types'
+import { escapeHtml } from './errors'
+
+/**
+ * Display label and color of each change type
+ */
+const CHANGE_TYPES: Record<OrganizationChangeType, { label: string; color: string }> = {
+  ACCOUNT_ADDED: { label: 'Account added', color: '#00cc66' },
+  ACCOUNT_REMOVED: { label: 'Account removed', color: '#dc3545' },
+  ACCOUNT_STATUS_CHANGED: { label: 'Account status changed', color: '#fd7e14' },
+  ACCOUNT_MOVED: { label: 'Account moved', color: '#0066cc' },
+  ACCOUNT_RENAMED: { label: 'Account renamed', color: '#6f42c1' },
+  ACCOUNT_EMAIL_CHANGED: { label: 'Account email changed', color: '#6f42c1' },
+  OU_ADDED: { label: 'OU added', color: '#00cc66' },
+  OU_REMOVED: { label: 'OU removed', color: '#dc3545' },
+  OU_RENAMED: { label: 'OU renamed', color: '#6f42c1' },
+  OU_MOVED: { label: 'OU moved', color: '#0066cc' },
+  POLICY_ATTACHED: { label: 'SCP attached', color: '#00cc66' },
+  POLICY_DETACHED: { label: 'SCP detached', color: '#dc3545' },
+}
+
+/**
+ * Generate an HTML report of the changes between two organization snapshots
+ * @param diff Changes with the times of both snapshots
+ * @param title The title for the report
+ */
+export function generateOrganizationDiffHtml(diff: OrganizationDiff, title: string): string {
+  const counts = new Map<OrganizationChangeType, number>()
+  diff.Changes.forEach((change) => counts.set(change.ChangeType, (counts.get(change.ChangeType) || 0) + 1))
+
+  const summaryCards = Array.from(counts.entries())
+    .map(
+      ([type, count]) => `
+          <div class="summary-card" style="border-top: 4px solid ${CHANGE_TYPES[type].color}">
+            <div class="summary-title">${CHANGE_TYPES[type].label}</div>
+            <div class="summary-value">${count}</div>
+          </div>
+        `,
+    )
+    .join('')
+
+  const rows = diff.Changes.map(
+    (change) => `
+        <tr>
+          <td><span class="change-badge" style="background-color: ${CHANGE_TYPES[change.ChangeType].color}">${CHANGE_TYPES[change.ChangeType].label}</span></td>
+          <td>${escapeHtml(change.Name)}<div class="muted">${escapeHtml(change.Id)}</div></td>
+          <td>${escapeHtml(change.Before)}</td>
+          <td>${escapeHtml(change.After)}</td>
+        </tr>
+      `,
+  ).join('')
+
+  return `<!DOCTYPE html>
+  <html lang="en">
+  <head>
+      <meta charset="UTF-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>AWS Organizations - ${escapeHtml(title)}</title>
+      <style>
+        body {
+            font-family: Arial, sans-serif;
+            margin: 20px;
+            background-color: #f5f5f5;
+            color: #333;
+        }
+        h1, h2, h3 {
+            color: #0066cc;
+        }
+        h1 {
+            text-align: center;
+            margin-bottom: 30px;
+            padding-bottom: 10px;
+            border-bottom: 2px solid #0066cc;
+        }
+        .summary, .section {
+            background-color: white;
+            border-radius: 8px;
+            box-shadow: 0 2px 4px rgba(0,0,0,0.1);
+            margin-bottom: 20px;
+            padding: 15px;
+        }
+        .summary-cards {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 15px;
+        }
+        .summary-card {
+            background-color: #e6f2ff;
+            border-radius: 5px;
+            padding: 15px;
+            min-width: 150px;
+            text-align: center;
+        }
+        .summary-title {
+            font-size: 0.9em;
+            color: #666;
+        }
+        .summary-value {
+            font-size: 1.8em;
+            font-weight: bold;
+            color: #003366;
+        }
+        table {
+            width: 100%;
+            border-collapse: collapse;
+        }
+        th, td {
+            border: 1px solid #ddd;
+            padding: 8px;
+            text-align: left;
+            vertical-align: top;
+        }
+        th {
+            background-color: #0066cc;
+            color: white;
+        }
+        tr:nth-child(even) {
+            background-color: #f2f2f2;
+        }
+        .muted {
+            color: #666;
+            font-size: 0.85em;
+        }
+        .change-badge {
+            color: white;
+            font-size: 0.85em;
+            padding: 2px 8px;
+            border-radius: 12px;
+            white-space: nowrap;
+        }
+        .no-changes {
+            color: #666;
+            font-style: italic;
+        }
+        .timestamp {
+            text-align: center;
+            color: #666;
+            font-size: 0.9em;
+            margin-top: 20px;
+        }
+      </style>
+  </head>
+  <body>
+      <h1>${escapeHtml(title)}</h1>
+
+      <div class="summary">
+        <h2>Summary</h2>
+        <p>Changes between <strong>${escapeHtml(diff.Before)}</strong> and <strong>${escapeHtml(diff.After)}</strong></p>
+        <div class="summary-cards">
+          <div class="summary-card">
+            <div class="summary-title">Total Changes</div>
+            <div class="summary-value">${diff.Changes.length}</div>
+          </div>
+          ${summaryCards}
+        </div>
+        ${diff.Warnings.map((warning) => `<p class="muted">${escapeHtml(warning)}</p>`).join('')}
+      </div>
+
+      <div class="section">
+        <h2>Changes</h2>
+        ${
+          diff.Changes.length > 0
+            ? `<table>
+          <thead>
+            <tr>
+              <th>Change</th>
+              <th>Account / OU / Policy</th>
+              <th>Before</th>
+              <th>After</th>
+            </tr>
+          </thead>
+          <tbody>${rows}</tbody>
+        </table>`
+            : '<p class="no-changes">No changes</p>'
+        }
+      </div>
+
+      <div class="timestamp">Report generated on ${new Date().toLocaleString()}</div>
+  </body>
+  </html>`
+}
@@ -0,0 +1,309 @@
+// File: src/templates/org-policies.ts
+// Organization policies HTML report template
+
+import { AccountPolicyInheritance, OrganizationPolicyInfo, OrganizationPolicyType } from '../types'
+import { escapeHtml } from './errors'
+import { generateOrganizationHeadingHtml, getRecordOrganizationId, groupByOrganization } from './organizations'
+
+/**
+ * Section titles of the policy types, in display order
+ */
+const POLICY_TYPE_TITLES: Record<OrganizationPolicyType, string> = {
+  SERVICE_CONTROL_POLICY: 'Service Control Policies',
+  TAG_POLICY: 'Tag Policies',
+  BACKUP_POLICY: 'Backup Policies',
+}
+
+/**
+ * Pretty-print a policy document, keeping it as is when it is not valid JSON
+ */
+function formatPolicyContent(content: string): string {
+  try {
+    return JSON.stringify(JSON.parse(content), null, 2)
+  } catch {
+    return content
+  }
+}
+
+/**
+ * Generate the table of the policies of one type
+ */
+function generatePoliciesTable(policies: OrganizationPolicyInfo[]): string {
+  const rows = policies
+    .map(
+      (policy) => `
+        <tr>
+          <td>
+            <strong>${escapeHtml(policy.PolicyName)}</strong>
+            ${policy.AwsManaged ? '<span class="badge managed">AWS managed</span>' : ''}
+            <div class="muted">${escapeHtml(policy.PolicyId)}</div>
+            ${policy.Description ? `<div class="muted">${escapeHtml(policy.Description)}</div>` : ''}
+          </td>
+          <td>
+            ${
+              policy.Targets.length > 0
+                ? policy.Targets.map(
+                    (target) =>
+                      `<span class="target target-${target.Type.toLowerCase()}" title="${escapeHtml(target.TargetId)}">${escapeHtml(target.Name)}</span>`,
+                  ).join(' ')
+                : '<span class="muted">Not attached</span>'
+            }
+          </td>
+          <td>
+            <details>
+              <summary>Show document</summary>
+              <pre>${escapeHtml(formatPolicyContent(policy.Content))}</pre>
+            </details>
+          </td>
+        </tr>
+      `,
+    )
+    .join('')
+
+  return `
+      <table>
+        <thead>
+          <tr>
+            <th>Policy</th>
+            <th>Attached To</th>
+            <th>Content</th>
+          </tr>
+        </thead>
+        <tbody>${rows}</tbody>
+      </table>
+    `
+}
+
+/**
+ * Generate the table of the SCPs inherited by each account
+ */
+function generateInheritanceTable(inheritance: AccountPolicyInheritance[]): string {
+  const rows = [...inheritance]
+    .sort((a, b) => a.AccountName.localeCompare(b.AccountName))
+    .map(
+      (account) => `
+        <tr>
+          <td>${escapeHtml(account.AccountName)}</td>
+          <td>${escapeHtml(account.AccountId)}</td>
+          <td>${escapeHtml(account.OuPath)}</td>
+          <td>
+            ${account.Policies.map(
+              (policy) =>
+                `<span class="target target-${policy.AttachedTo.Type.toLowerCase()}" title="Attached to ${escapeHtml(policy.AttachedTo.Name)}">${escapeHtml(policy.PolicyName)} <small>(${escapeHtml(policy.AttachedTo.Name)})</small></span>`,
+            ).join(' ')}
+          </td>
+        </tr>
+      `,
+    )
+    .join('')
+
+  return `
+      <table>
+        <thead>
+          <tr>
+            <th>Account Name</th>
+            <th>Account ID</th>
+            <th>OU Path</th>
+            <th>SCPs (attached to)</th>
+          </tr>
+        </thead>
+        <tbody>${rows}</tbody>
+      </table>
+    `
+}
+
+/**
+ * Generate an HTML report of the organization policies
+ * @param policies Policies with their targets and content
+ * @param inheritance SCPs inherited by each account (empty when SCPs were not listed)
+ * @param title The title for the report
+ */
+export function generateOrganizationPoliciesHtml(
+  policies: OrganizationPolicyInfo[],
+  inheritance: AccountPolicyInheritance[],
+  title: string,
+): string {
+  const policyTypes = (Object.keys(POLICY_TYPE_TITLES) as OrganizationPolicyType[]).filter((type) =>
+    policies.some((policy) => policy.Type === type),
+  )
+
+  const summaryCards = policyTypes
+    .map(
+      (type) => `
+          <div class="summary-card">
+            <div class="summary-title">${POLICY_TYPE_TITLES[type]}</div>
+            <div class="summary-value">${policies.filter((policy) => policy.Type === type).length}</div>
+          </div>
+        `,
+    )
+    .join('')
+
+  // Policies and inherited SCPs of each organization, under its heading in multi-organization mode
+  const organizationSections = groupByOrganization<object>([...policies, ...inheritance])
+    .map(([organizationId]) => {
+      const organizationPolicies = policies.filter((policy) => getRecordOrganizationId(policy) === organizationId)
+      const organizationInheritance = inheritance.filter(
+        (account) => getRecordOrganizationId(account) === organizationId,
+      )
+
+      const policySections = policyTypes
+        .filter((type) => organizationPolicies.some((policy) => policy.Type === type))
+        .map(
+          (type) => `
+      <div class="section">
+        <h2>${POLICY_TYPE_TITLES[type]}</h2>
+        ${generatePoliciesTable(organizationPolicies.filter((policy) => policy.Type === type))}
+      </div>
+    `,
+        )
+        .join('')
+
+      return `
+      ${organizationId ? generateOrganizationHeadingHtml(organizationId) : ''}
+      ${policySections}
+      ${
+        organizationInheritance.length > 0
+          ? `<div class="section">
+        <h2>Inherited SCPs by Account</h2>
+        <p class="muted">SCPs attached to the root, to every OU on the path of the account and to the account itself, from the root down.</p>
+        ${generateInheritanceTable(organizationInheritance)}
+      </div>`
+          : ''
+      }
+    `
+    })
+    .join('')
+
+  return `<!DOCTYPE html>
+  <html lang="en">
+  <head>
+      <meta charset="UTF-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>AWS Organizations - ${escapeHtml(title)}</title>
+      <style>
+        body {
+            font-family: Arial, sans-serif;
+            margin: 20px;
+            background-color: #f5f5f5;
+            color: #333;
+        }
+        h1, h2, h3 {
+            color: #0066cc;
+        }
+        h1 {
+            text-align: center;
+            margin-bottom: 30px;
+            padding-bottom: 10px;
+            border-bottom: 2px solid #0066cc;
+        }
+        .summary, .section {
+            background-color: white;
+            border-radius: 8px;
+            box-shadow: 0 2px 4px rgba(0,0,0,0.1);
+            margin-bottom: 20px;
+            padding: 15px;
+        }
+        .summary-cards {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 15px;
+        }
+        .summary-card {
+            background-color: #e6f2ff;
+            border-radius: 5px;
+            padding: 15px;
+            min-width: 150px;
+            text-align: center;
+        }
+        .summary-title {
+            font-size: 0.9em;
+            color: #666;
+        }
+        .summary-value {
+            font-size: 1.8em;
+            font-weight: bold;
+            color: #003366;
+        }
+        table {
+            width: 100%;
+            border-collapse: collapse;
+        }
+        th, td {
+            border: 1px solid #ddd;
+            padding: 8px;
+            text-align: left;
+            vertical-align: top;
+        }
+        th {
+            background-color: #0066cc;
+            color: white;
+        }
+        tr:nth-child(even) {
+            background-color: #f2f2f2;
+        }
+        .muted {
+            color: #666;
+            font-size: 0.85em;
+        }
+        .badge {
+            font-size: 0.75em;
+            padding: 2px 6px;
+            border-radius: 10px;
+            margin-left: 5px;
+        }
+        .managed {
+            background-color: #ffcc00;
+        }
+        .target {
+            display: inline-block;
+            border-radius: 3px;
+            padding: 2px 6px;
+            margin: 2px;
+            font-size: 0.85em;
+        }
+        .target-root {
+            background-color: #003366;
+            color: white;
+        }
+        .target-organizational_unit {
+            background-color: #cce0ff;
+        }
+        .target-account {
+            background-color: #d4edda;
+        }
+        pre {
+            background-color: #f8f9fa;
+            border: 1px solid #ddd;
+            border-radius: 4px;
+            padding: 10px;
+            overflow-x: auto;
+            max-height: 400px;
+        }
+        .timestamp {
+            text-align: center;
+            color: #666;
+            font-size: 0.9em;
+            margin-top: 20px;
+        }
+      </style>
+  </head>
+  <body>
+      <h1>${escapeHtml(title)}</h1>
+
+      <div class="summary">
+        <h2>Summary</h2>
+        <div class="summary-cards">
+          ${summaryCards}
+          <div class="summary-card">
+            <div class="summary-title">Accounts</div>
+            <div class="summary-value">${inheritance.length}</div>
+          </div>
+        </div>
+      </div>
+
+      ${organizationSections}
+
+      <div class="timestamp">Report generated on ${new Date().toLocaleString()}</div>
+  </body>
+  </html>`
+}
@@ -0,0 +1,237 @@
+// File: src/templates/org-services.ts
+// Organization services HTML report template (trusted access and delegated administrators)
+
+import { OrganizationServicesReport } from '../types'
+import { escapeHtml } from './errors'
+
+/**
+ * Format an API date for display
+ */
+function formatDate(value: Date | undefined): string {
+  return value ? new Date(value).toLocaleDateString() : ''
+}
+
+/**
+ * Generate the summary, findings and tables of one organization
+ */
+function generateOrganizationSectionsHtml(report: OrganizationServicesReport): string {
+  const accountNames = new Map(
+    report.DelegatedAdministrators.map((administrator) => [administrator.AccountId, administrator.AccountName]),
+  )
+
+  const trustedRows = report.TrustedServices.map(
+    (service) => `
+        <tr>
+          <td>${escapeHtml(service.ServicePrincipal)}</td>
+          <td>${formatDate(service.DateEnabled)}</td>
+          <td>${service.DelegatedAdministrators.map((accountId) => `${escapeHtml(accountNames.get(accountId) || '')} <span class="muted">${escapeHtml(accountId)}</span>`).join('<br>')}</td>
+        </tr>
+      `,
+  ).join('')
+
+  const administratorRows = report.DelegatedAdministrators.map(
+    (administrator) => `
+        <tr>
+          <td>${escapeHtml(administrator.AccountName)}<div class="muted">${escapeHtml(administrator.Email)}</div></td>
+          <td>${escapeHtml(administrator.AccountId)}</td>
+          <td class="${administrator.Status === 'ACTIVE' ? 'status-active' : 'status-problem'}">${escapeHtml(administrator.Status)}</td>
+          <td>${formatDate(administrator.DelegationEnabledDate)}</td>
+          <td>
+            ${administrator.Services.map(
+              (service) =>
+                `<span class="service ${service.TrustedAccess ? '' : 'service-untrusted'}" title="${service.TrustedAccess ? 'Trusted access enabled' : 'Trusted access not enabled'}">${escapeHtml(service.ServicePrincipal)}</span>`,
+            ).join(' ')}
+          </td>
+        </tr>
+      `,
+  ).join('')
+
+  return `
+      <div class="summary">
+        <h2>Organization</h2>
+        <div class="summary-cards">
+          <div class="summary-card">
+            <div class="summary-title">Organization ID</div>
+            <div class="summary-value">${escapeHtml(report.OrganizationId)}</div>
+          </div>
+          <div class="summary-card">
+            <div class="summary-title">Feature Set</div>
+            <div class="summary-value">${escapeHtml(report.FeatureSet)}</div>
+          </div>
+          <div class="summary-card">
+            <div class="summary-title">Management Account</div>
+            <div class="summary-value">${escapeHtml(report.ManagementAccountName)}</div>
+            <div class="muted">${escapeHtml(report.ManagementAccountId)} ${escapeHtml(report.ManagementAccountEmail)}</div>
+          </div>
+          <div class="summary-card">
+            <div class="summary-title">Trusted Services</div>
+            <div class="summary-value">${report.TrustedServices.length}</div>
+          </div>
+          <div class="summary-card">
+            <div class="summary-title">Delegated Administrators</div>
+            <div class="summary-value">${report.DelegatedAdministrators.length}</div>
+          </div>
+        </div>
+      </div>
+
+      ${
+        report.Findings.length > 0
+          ? `<div class="section">
+        <h2>Findings</h2>
+        <div class="findings">
+          <ul>${report.Findings.map((finding) => `<li>${escapeHtml(finding)}</li>`).join('')}</ul>
+        </div>
+      </div>`
+          : ''
+      }
+
+      <div class="section">
+        <h2>Services with Trusted Access</h2>
+        <table>
+          <thead>
+            <tr>
+              <th>Service Principal</th>
+              <th>Enabled</th>
+              <th>Delegated Administrators</th>
+            </tr>
+          </thead>
+          <tbody>${trustedRows}</tbody>
+        </table>
+      </div>
+
+      <div class="section">
+        <h2>Delegated Administrators</h2>
+        <table>
+          <thead>
+            <tr>
+              <th>Account Name</th>
+              <th>Account ID</th>
+              <th>Status</th>
+              <th>Delegated Since</th>
+              <th>Services</th>
+            </tr>
+          </thead>
+          <tbody>${administratorRows}</tbody>
+        </table>
+      </div>
+    `
+}
+
+/**
+ * Generate an HTML report of the trusted services and delegated administrators
+ * @param reports Organization settings, trusted services and delegated administrators; one per organization in multi-organization mode
+ * @param title The title for the report
+ */
+export function generateOrganizationServicesHtml(reports: OrganizationServicesReport[], title: string): string {
+  return `<!DOCTYPE html>
+  <html lang="en">
+  <head>
+      <meta charset="UTF-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>AWS Organizations - ${escapeHtml(title)}</title>
+      <style>
+        body {
+            font-family: Arial, sans-serif;
+            margin: 20px;
+            background-color: #f5f5f5;
+            color: #333;
+        }
+        h1, h2, h3 {
+            color: #0066cc;
+        }
+        h1 {
+            text-align: center;
+            margin-bottom: 30px;
+            padding-bottom: 10px;
+            border-bottom: 2px solid #0066cc;
+        }
+        .summary, .section {
+            background-color: white;
+            border-radius: 8px;
+            box-shadow: 0 2px 4px rgba(0,0,0,0.1);
+            margin-bottom: 20px;
+            padding: 15px;
+        }
+        .summary-cards {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 15px;
+        }
+        .summary-card {
+            background-color: #e6f2ff;
+            border-radius: 5px;
+            padding: 15px;
+            min-width: 150px;
+            text-align: center;
+        }
+        .summary-title {
+            font-size: 0.9em;
+            color: #666;
+        }
+        .summary-value {
+            font-size: 1.4em;
+            font-weight: bold;
+            color: #003366;
+        }
+        table {
+            width: 100%;
+            border-collapse: collapse;
+        }
+        th, td {
+            border: 1px solid #ddd;
+            padding: 8px;
+            text-align: left;
+            vertical-align: top;
+        }
+        th {
+            background-color: #0066cc;
+            color: white;
+        }
+        tr:nth-child(even) {
+            background-color: #f2f2f2;
+        }
+        .muted {
+            color: #666;
+            font-size: 0.85em;
+        }
+        .status-active {
+            color: green;
+            font-weight: bold;
+        }
+        .status-problem {
+            color: red;
+            font-weight: bold;
+        }
+        .service {
+            display: inline-block;
+            background-color: #cce0ff;
+            border-radius: 3px;
+            padding: 2px 6px;
+            margin: 2px;
+            font-size: 0.85em;
+        }
+        .service-untrusted {
+            background-color: #f8d7da;
+        }
+        .findings {
+            background-color: #fff3cd;
+            border-left: 4px solid #ffcc00;
+            padding: 10px 15px;
+        }
+        .timestamp {
+            text-align: center;
+            color: #666;
+            font-size: 0.9em;
+            margin-top: 20px;
+        }
+      </style>
+  </head>
+  <body>
+      <h1>${escapeHtml(title)}</h1>
+
+      ${reports.map(generateOrganizationSectionsHtml).join('')}
+
+      <div class="timestamp">Report generated on ${new Date().toLocaleString()}</div>
+  </body>
+  </html>`
+}
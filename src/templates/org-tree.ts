@@ -0,0 +1,324 @@
+// File: src/templates/org-tree.ts
+// Organization tree HTML report template
+
+import { OrganizationTreeNode } from '../types'
+import { describeAccountCounts } from '../utils/org-tree'
+import { escapeHtml } from './errors'
+import { generateOrganizationHeadingHtml } from './organizations'
+
+/**
+ * Generate the HTML of a tree node and its children
+ * @param node Root, OU or account node
+ */
+function generateNodeHtml(node: OrganizationTreeNode): string {
+  if (node.Type === 'ACCOUNT') {
+    const status = node.Status || 'Unknown'
+    return `
+      <li class="account-node" data-search="${escapeHtml(`${node.Name} ${node.Id}`.toLowerCase())}">
+        <span class="account-name">${escapeHtml(node.Name)}</span>
+        <span class="node-id">${escapeHtml(node.Id)}</span>
+        <span class="status-badge status-${escapeHtml(status.toLowerCase())}">${escapeHtml(status)}</span>
+        ${node.Email ? `<span class="account-email">${escapeHtml(node.Email)}</span>` : ''}
+      </li>
+    `
+  }
+
+  const statusBadges = Object.entries(node.StatusCounts || {})
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(
+      ([status, count]) =>
+        `<span class="status-badge status-${escapeHtml(status.toLowerCase())}">${count} ${escapeHtml(status)}</span>`,
+    )
+    .join('')
+
+  return `
+    <li class="ou-node ${node.Type === 'ROOT' ? 'root-node' : ''}" data-search="${escapeHtml(`${node.Name} ${node.Id}`.toLowerCase())}">
+      <div class="ou-header" onclick="toggleNode(this)">
+        <span class="toggle-icon">▼</span>
+        <span class="ou-name">${escapeHtml(node.Name)}</span>
+        <span class="node-id">${escapeHtml(node.Id)}</span>
+        <span class="account-count" title="${escapeHtml(describeAccountCounts(node))}">${node.AccountCount || 0} Account${node.AccountCount !== 1 ? 's' : ''}</span>
+        ${statusBadges}
+      </div>
+      <ul class="children">
+        ${(node.Children || []).map(generateNodeHtml).join('')}
+      </ul>
+    </li>
+  `
+}
+
+/**
+ * Count the OUs below a node
+ */
+function countOrganizationalUnits(node: OrganizationTreeNode): number {
+  return (node.Children || [])
+    .filter((child) => child.Type === 'ORGANIZATIONAL_UNIT')
+    .reduce((total, child) => total + 1 + countOrganizationalUnits(child), 0)
+}
+
+/**
+ * Generate an interactive HTML report of the organization tree
+ * @param roots Root node of the organization tree; one per organization in multi-organization mode
+ * @param title The title for the report
+ */
+export function generateOrganizationTreeHtml(roots: OrganizationTreeNode[], title: string): string {
+  const sum = (count: (root: OrganizationTreeNode) => number): number =>
+    roots.reduce((total, root) => total + count(root), 0)
+  const totalAccounts = sum((root) => root.AccountCount || 0)
+  const activeAccounts = sum((root) => root.StatusCounts?.ACTIVE || 0)
+  const suspendedAccounts = sum((root) => root.StatusCounts?.SUSPENDED || 0)
+  const otherAccounts = totalAccounts - activeAccounts - suspendedAccounts
+
+  const trees = roots
+    .map(
+      (root) => `
+        ${root.OrganizationId ? generateOrganizationHeadingHtml(root.OrganizationId, root.AccountCount || 0) : ''}
+        <ul class="tree">
+          ${generateNodeHtml(root)}
+        </ul>
+      `,
+    )
+    .join('')
+
+  return `<!DOCTYPE html>
+  <html lang="en">
+  <head>
+      <meta charset="UTF-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>AWS Organizations - ${escapeHtml(title)}</title>
+      <style>
+        body {
+            font-family: Arial, sans-serif;
+            margin: 20px;
+            background-color: #f5f5f5;
+            color: #333;
+        }
+        h1, h2, h3 {
+            color: #0066cc;
+        }
+        h1 {
+            text-align: center;
+            margin-bottom: 30px;
+            padding-bottom: 10px;
+            border-bottom: 2px solid #0066cc;
+        }
+        .summary, .tree-container {
+            background-color: white;
+            border-radius: 8px;
+            box-shadow: 0 2px 4px rgba(0,0,0,0.1);
+            margin-bottom: 20px;
+            padding: 15px;
+        }
+        .summary-cards {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 15px;
+        }
+        .summary-card {
+            background-color: #e6f2ff;
+            border-radius: 5px;
+            padding: 15px;
+            min-width: 150px;
+            text-align: center;
+        }
+        .summary-title {
+            font-size: 0.9em;
+            color: #666;
+        }
+        .summary-value {
+            font-size: 1.8em;
+            font-weight: bold;
+            color: #003366;
+        }
+        .filter-controls {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 10px;
+            margin-bottom: 15px;
+        }
+        .filter-button {
+            background-color: #0066cc;
+            color: white;
+            border: none;
+            padding: 8px 15px;
+            border-radius: 4px;
+            cursor: pointer;
+        }
+        .filter-button:hover {
+            background-color: #004c99;
+        }
+        #search {
+            padding: 8px;
+            border: 1px solid #ccc;
+            border-radius: 4px;
+            min-width: 250px;
+        }
+        ul.tree, ul.children {
+            list-style: none;
+            margin: 0;
+            padding-left: 24px;
+        }
+        ul.tree {
+            padding-left: 0;
+        }
+        ul.children {
+            border-left: 1px dashed #99c2ff;
+            margin-left: 8px;
+        }
+        .ou-header {
+            background-color: #e6f2ff;
+            padding: 6px 10px;
+            border-radius: 5px;
+            margin: 4px 0;
+            cursor: pointer;
+            display: flex;
+            align-items: center;
+            flex-wrap: wrap;
+            gap: 8px;
+        }
+        .root-node > .ou-header {
+            background-color: #003366;
+            color: white;
+        }
+        .ou-name {
+            font-weight: bold;
+        }
+        .collapsed > .children {
+            display: none;
+        }
+        .collapsed > .ou-header .toggle-icon {
+            transform: rotate(-90deg);
+        }
+        .toggle-icon {
+            display: inline-block;
+            transition: transform 0.2s ease;
+            font-size: 0.8em;
+        }
+        .account-node {
+            padding: 4px 10px;
+            display: flex;
+            align-items: center;
+            flex-wrap: wrap;
+            gap: 8px;
+        }
+        .node-id, .account-email {
+            font-family: monospace;
+            font-size: 0.9em;
+            color: #666;
+        }
+        .root-node > .ou-header .node-id {
+            color: #cce0ff;
+        }
+        .account-count {
+            font-size: 0.8em;
+            background-color: #0066cc;
+            color: white;
+            padding: 2px 8px;
+            border-radius: 12px;
+        }
+        .status-badge {
+            font-size: 0.8em;
+            padding: 2px 8px;
+            border-radius: 12px;
+            background-color: #6c757d;
+            color: white;
+        }
+        .status-active {
+            background-color: #00cc66;
+        }
+        .status-suspended {
+            background-color: #dc3545;
+        }
+        .status-pending_closure {
+            background-color: #fd7e14;
+        }
+        .hidden {
+            display: none !important;
+        }
+        .timestamp {
+            text-align: center;
+            color: #666;
+            font-size: 0.9em;
+            margin-top: 20px;
+        }
+      </style>
+  </head>
+  <body>
+      <h1>${escapeHtml(title)}</h1>
+
+      <div class="summary">
+        <h2>Summary</h2>
+        <div class="summary-cards">
+          <div class="summary-card">
+            <div class="summary-title">Organizational Units</div>
+            <div class="summary-value">${sum(countOrganizationalUnits)}</div>
+          </div>
+          <div class="summary-card">
+            <div class="summary-title">Total Accounts</div>
+            <div class="summary-value">${totalAccounts}</div>
+          </div>
+          <div class="summary-card">
+            <div class="summary-title">Active Accounts</div>
+            <div class="summary-value">${activeAccounts}</div>
+          </div>
+          <div class="summary-card">
+            <div class="summary-title">Suspended Accounts</div>
+            <div class="summary-value">${suspendedAccounts}</div>
+          </div>
+          <div class="summary-card">
+            <div class="summary-title">Other Status</div>
+            <div class="summary-value">${otherAccounts}</div>
+          </div>
+        </div>
+      </div>
+
+      <div class="tree-container">
+        <div class="filter-controls">
+          <input id="search" type="text" placeholder="Filter by OU or account name/ID" oninput="filterTree(this.value)">
+          <button class="filter-button" onclick="expandAll()">Expand All</button>
+          <button class="filter-button" onclick="collapseAll()">Collapse All</button>
+        </div>
+        ${trees}
+      </div>
+
+      <div class="timestamp">Report generated on ${new Date().toLocaleString()}</div>
+
+      <script>
+        function toggleNode(header) {
+          header.parentElement.classList.toggle('collapsed')
+        }
+
+        function expandAll() {
+          document.querySelectorAll('.ou-node').forEach((node) => node.classList.remove('collapsed'))
+        }
+
+        function collapseAll() {
+          document.querySelectorAll('.ou-node:not(.root-node)').forEach((node) => node.classList.add('collapsed'))
+        }
+
+        // Show the nodes matching the filter together with their ancestors
+        function filterTree(value) {
+          const query = value.trim().toLowerCase()
+          const nodes = document.querySelectorAll('.ou-node, .account-node')
+          nodes.forEach((node) => node.classList.toggle('hidden', query !== ''))
+          if (query === '') {
+            return
+          }
+          nodes.forEach((node) => {
+            if (node.dataset.search.includes(query)) {
+              let current = node
+              while (current && current.classList) {
+                if (current.matches('.ou-node, .account-node')) {
+                  current.classList.remove('hidden', 'collapsed')
+                }
+                current = current.parentElement
+              }
+              // A matching OU is shown with everything below it
+              node.querySelectorAll('.ou-node, .account-node').forEach((child) => child.classList.remove('hidden'))
+            }
+          })
+        }
+      </script>
+  </body>
+  </html>`
+}
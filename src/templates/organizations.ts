@@ -0,0 +1,95 @@
+// File: src/templates/organizations.ts
+// Grouping of report sections by organization in multi-organization mode (--org-profile)
+// Records then carry an OrganizationId; without it, reports are rendered as for a single organization.
+// Shared by all resource reports; styles are inline so the headings render the same in every template.
+
+import { escapeHtml } from './errors'
+
+/**
+ * Separator between the organization and the account in account group keys
+ */
+const ORGANIZATION_SEPARATOR = ' / '
+
+/**
+ * Get the organization of an account, result or error record
+ * @param record Record tagged by the multi-account engine
+ * @returns OrganizationId, or undefined outside multi-organization mode
+ */
+export function getRecordOrganizationId(record: object): string | undefined {
+  const organizationId = (record as { OrganizationId?: unknown }).OrganizationId
+  return organizationId ? String(organizationId) : undefined
+}
+
+/**
+ * Get the key an account is grouped under, e.g. "o-abc123 / 111111111111 (Prod)"
+ *
+ * The organization comes first so that sorting the keys groups the accounts by organization.
+ *
+ * @param record Account or resource record
+ * @param accountId Account ID
+ * @param accountName Account name
+ */
+export function getAccountGroupKey(record: object, accountId: string, accountName: string): string {
+  const organizationId = getRecordOrganizationId(record)
+  const accountKey = `${accountId} (${accountName})`
+  return organizationId ? `${organizationId}${ORGANIZATION_SEPARATOR}${accountKey}` : accountKey
+}
+
+/**
+ * Generate the heading introducing the accounts of an organization
+ * @param organizationId Organization ID
+ * @param accountCount Number of accounts of the organization in the report, when known
+ */
+export function generateOrganizationHeadingHtml(organizationId: string, accountCount?: number): string {
+  const count = accountCount === undefined ? '' : ` (${accountCount} account${accountCount !== 1 ? 's' : ''})`
+  return `
+    <h2 class="organization-heading" style="grid-column: 1 / -1; background-color: #003366; color: white; padding: 10px 15px; border-radius: 8px; margin: 25px 0 10px;">
+      Organization ${escapeHtml(organizationId)}${count}
+    </h2>
+  `
+}
+
+/**
+ * Create a function that returns an organization heading whenever the organization changes
+ *
+ * Used while rendering account groups sorted by their getAccountGroupKey key.
+ *
+ * @param accountKeys All account group keys, used to count the accounts of each organization
+ * @returns Function returning the heading HTML for the first account of each organization, or ''
+ */
+export function createOrganizationHeadings(accountKeys: string[]): (accountKey: string) => string {
+  const organizationOf = (accountKey: string): string | undefined => {
+    const index = accountKey.indexOf(ORGANIZATION_SEPARATOR)
+    return accountKey.startsWith('o-') && index > 0 ? accountKey.slice(0, index) : undefined
+  }
+
+  let current: string | undefined
+  return (accountKey) => {
+    const organizationId = organizationOf(accountKey)
+    if (!organizationId || organizationId === current) {
+      return ''
+    }
+    current = organizationId
+    return generateOrganizationHeadingHtml(
+      organizationId,
+      accountKeys.filter((key) => organizationOf(key) === organizationId).length,
+    )
+  }
+}
+
+/**
+ * Split records by organization, in organization ID order
+ * @param records Account, result or error records
+ * @returns One entry per organization; a single entry without an ID outside multi-organization mode
+ */
+export function groupByOrganization<T extends object>(records: T[]): Array<[string | undefined, T[]]> {
+  const groups = new Map<string | undefined, T[]>()
+  records.forEach((record) => {
+    const organizationId = getRecordOrganizationId(record)
+    groups.set(organizationId, [...(groups.get(organizationId) || []), record])
+  })
+  if (groups.size === 0) {
+    return [[undefined, []]]
+  }
+  return Array.from(groups.entries()).sort(([a], [b]) => (a || '').localeCompare(b || ''))
+}
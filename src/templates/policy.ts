@@ -1,6 +1,7 @@
 // File: src/templates/policy-template.ts
 // Policy verification HTML report template
 import { PolicyDocument, PolicyVerificationResult } from '../types'
+import { escapeHtml } from './errors'
 /**
  * Generate enhanced HTML output for policy verification results
  * @param results The policy verification results to display
@@ -16,6 +17,12 @@ export function generatePolicyVerificationHtml(
   const validPrincipals = results.filter((r) => r.Exists)
   const invalidPrincipals = results.filter((r) => !r.Exists)
 
+  // Organization column in multi-organization mode
+  const showOrganization = results.some((r) => r.OrganizationId)
+  const organizationHeader = showOrganization ? '<th>Organization</th>' : ''
+  const organizationCell = (principal: PolicyVerificationResult): string =>
+    showOrganization ? `<td>${escapeHtml(principal.OrganizationId || '')}</td>` : ''
+
   // Create summary section
   const summaryHtml = `
     <div class="summary">
@@ -51,6 +58,7 @@ export function generatePolicyVerificationHtml(
           <tr>
             <th>Principal</th>
             <th>Type</th>
+            ${organizationHeader}
             <th>Account ID</th>
           </tr>
         </thead>
@@ -62,6 +70,7 @@ export function generatePolicyVerificationHtml(
         <tr class="valid-principal">
           <td>${principal.Principal}</td>
           <td>${principal.Type}</td>
+          ${organizationCell(principal)}
           <td>${principal.AccountId || 'N/A'}</td>
         </tr>
       `
@@ -81,6 +90,7 @@ export function generatePolicyVerificationHtml(
           <tr>
             <th>Principal</th>
             <th>Type</th>
+            ${organizationHeader}
             <th>Account ID</th>
             <th>Error</th>
           </tr>
@@ -93,6 +103,7 @@ export function generatePolicyVerificationHtml(
         <tr class="invalid-principal">
           <td>${principal.Principal}</td>
           <td>${principal.Type}</td>
+          ${organizationCell(principal)}
           <td>${principal.AccountId || 'N/A'}</td>
           <td>${principal.Error || 'Not found'}</td>
         </tr>
@@ -1,7 +1,9 @@
 // File: src/templates/rds-template.ts
 // RDS HTML report template
 
-import { RDSInstanceInfo } from '../types'
+import { RDSInstanceInfo, SkippedRegion, TargetError } from '../types'
+import { generateErrorsSectionHtml, generateSkippedRegionsSectionHtml } from './errors'
+import { createOrganizationHeadings, getAccountGroupKey } from './organizations'
 
 /**
  * Generate enhanced HTML output for RDS instances
@@ -9,12 +11,16 @@ import { RDSInstanceInfo } from '../types'
  * @param title The title for the report
  * @param totalOrganizationAccounts The total number of accounts in the organization
  * @param allAccounts All accounts in the organization
+ * @param errors Accounts/regions that could not be checked
+ * @param skippedRegions Regions skipped because they are not enabled in the account (--all-regions)
  */
 export function generateRDSHtml(
   instances: RDSInstanceInfo[],
   title: string,
   totalOrganizationAccounts?: number,
   allAccounts?: Record<string, unknown>[],
+  errors: TargetError[] = [],
+  skippedRegions: SkippedRegion[] = [],
 ): string {
   // Group instances by account for visualization
   const accountGroups = new Map<string, RDSInstanceInfo[]>()
@@ -29,7 +35,7 @@ export function generateRDSHtml(
         //accountMap.set(accountId, accountName)
 
         // Initialize empty array for accounts without instances
-        const key = `${accountId} (${accountName})`
+        const key = getAccountGroupKey(account, accountId, accountName)
         if (!accountGroups.has(key)) {
           accountGroups.set(key, [])
         }
@@ -43,7 +49,7 @@ export function generateRDSHtml(
     const accountName = instance.AccountName
     //accountMap.set(accountId, accountName) // Update map with any new accounts found
 
-    const key = `${accountId} (${accountName})`
+    const key = getAccountGroupKey(instance, accountId, accountName)
     if (!accountGroups.has(key)) {
       accountGroups.set(key, [])
     }
@@ -143,7 +149,10 @@ export function generateRDSHtml(
   // Convert the Map to an array and sort by account name
   const sortedAccounts = Array.from(accountGroups.entries()).sort((a, b) => a[0].localeCompare(b[0]))
 
+  const organizationHeading = createOrganizationHeadings(sortedAccounts.map(([accountKey]) => accountKey))
+
   sortedAccounts.forEach(([accountKey, accountInstances]) => {
+    accountsHtml += organizationHeading(accountKey)
     const isEmpty = accountInstances.length === 0
     const accountClass = isEmpty ? 'empty-account' : 'has-resources'
 
@@ -476,6 +485,8 @@ export function generateRDSHtml(
 <body>
     <h1>AWS RDS Instances - ${title}</h1>
     ${summaryHtml}
+    ${generateErrorsSectionHtml(errors)}
+    ${generateSkippedRegionsSectionHtml(skippedRegions)}
     ${accountsHtml}
     <div class="timestamp">Generated on: ${new Date().toLocaleString()}</div>
 </body>
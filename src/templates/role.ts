@@ -1,16 +1,21 @@
 // File: src/templates/role.ts
 // Role count HTML report template
 
+import { AccountRoleCounts, TargetError } from '../types'
+import { generateErrorsSectionHtml } from './errors'
+
 /**
  * Generate enhanced HTML output for IAM role counts
  * @param formattedResults The formatted role count results
  * @param accountRoleCounts The raw role count data by account
  * @param title The title for the report
+ * @param errors Accounts that could not be checked
  */
 export function generateRoleCountHtml(
   formattedResults: Record<string, unknown>[],
-  accountRoleCounts: Map<string, { counts: Record<string, number>; accountName: string }>,
+  accountRoleCounts: Map<string, AccountRoleCounts>,
   title: string,
+  errors: TargetError[] = [],
 ): string {
   // Calculate organization totals
   const organizationTotals: Record<string, number> = {
@@ -217,6 +222,7 @@ export function generateRoleCountHtml(
   <body>
       <h1>AWS IAM Role Counts - ${title}</h1>
       ${summaryHtml}
+      ${generateErrorsSectionHtml(errors)}
       ${tableHtml}
       <div class="timestamp">Generated on: ${new Date().toLocaleString()}</div>
   </body>
@@ -278,10 +284,17 @@ function createRoleDistributionChart(totals: Record<string, number>): string {
  * Generate the role count results table
  */
 function generateRoleCountTable(results: Record<string, unknown>[]): string {
+  // Organization column in multi-organization mode, with the accounts grouped by organization
+  const showOrganization = results.some((result) => result.OrganizationId)
+  const sortedResults = showOrganization
+    ? [...results].sort((a, b) => String(a.OrganizationId || '~').localeCompare(String(b.OrganizationId || '~')))
+    : results
+
   let tableHtml = `
       <table>
         <thead>
           <tr>
+            ${showOrganization ? '<th>Organization</th>' : ''}
             <th>Account ID</th>
             <th>Account Name</th>
             <th>Total Roles</th>
@@ -293,11 +306,12 @@ function generateRoleCountTable(results: Record<string, unknown>[]): string {
         <tbody>
     `
 
-  results.forEach((result) => {
+  sortedResults.forEach((result) => {
     const isTotal = String(result.AccountId) === 'ALL'
 
     tableHtml += `
         <tr class="${isTotal ? 'total-row' : ''}">
+          ${showOrganization ? `<td>${result.OrganizationId || ''}</td>` : ''}
           <td>${result.AccountId}</td>
           <td>${result.AccountName}</td>
           <td>${result.TotalRoles}</td>
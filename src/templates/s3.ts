@@ -1,7 +1,9 @@
 // File: src/templates/s3.ts
 // S3 HTML report template
 
-import { S3BucketInfo } from '../types'
+import { S3BucketInfo, TargetError } from '../types'
+import { generateErrorsSectionHtml } from './errors'
+import { createOrganizationHeadings, getAccountGroupKey, getRecordOrganizationId } from './organizations'
 
 /**
  * Generate enhanced HTML output for S3 buckets
@@ -9,12 +11,14 @@ import { S3BucketInfo } from '../types'
  * @param title The title for the report
  * @param totalOrganizationAccounts The total number of accounts in the organization
  * @param allAccounts All accounts in the organization
+ * @param errors Accounts/regions that could not be checked
  */
 export function generateS3Html(
   buckets: S3BucketInfo[],
   title: string,
   totalOrganizationAccounts?: number,
   allAccounts?: Record<string, unknown>[],
+  errors: TargetError[] = [],
 ): string {
   // Group buckets by account for visualization
   const accountGroups = new Map<string, S3BucketInfo[]>()
@@ -27,7 +31,7 @@ export function generateS3Html(
         const accountName = String(account.Name || 'Unknown')
 
         // Initialize empty array for accounts without buckets
-        const key = `${accountId} (${accountName})`
+        const key = getAccountGroupKey(account, accountId, accountName)
         if (!accountGroups.has(key)) {
           accountGroups.set(key, [])
         }
@@ -40,7 +44,7 @@ export function generateS3Html(
     const accountId = bucket.AccountId
     const accountName = bucket.AccountName
 
-    const key = `${accountId} (${accountName})`
+    const key = getAccountGroupKey(bucket, accountId, accountName)
     if (!accountGroups.has(key)) {
       accountGroups.set(key, [])
     }
@@ -90,6 +94,8 @@ export function generateS3Html(
         
         ${summaryCards}
         
+        ${generateErrorsSectionHtml(errors)}
+        
         ${accountSection}
         
         <h2>S3 Buckets</h2>
@@ -125,11 +131,18 @@ function generateAccountSection(
 
   // Show accounts with buckets
   const accountsWithBuckets = Array.from(accountGroups.entries()).filter(([, buckets]) => buckets.length > 0)
-  accountsWithBuckets.sort((a, b) => b[1].length - a[1].length) // Sort by bucket count descending
+  // Sort by organization (multi-organization mode), then by bucket count descending
+  accountsWithBuckets.sort(
+    (a, b) =>
+      (getRecordOrganizationId(a[1][0]) || '').localeCompare(getRecordOrganizationId(b[1][0]) || '') ||
+      b[1].length - a[1].length,
+  )
+  const organizationHeading = createOrganizationHeadings(Array.from(accountGroups.keys()))
 
   accountsWithBuckets.forEach(([accountKey, buckets]) => {
     const bucketCount = buckets.length
 
+    accountsHtml += organizationHeading(accountKey)
     accountsHtml += `
       <div class="account-card has-buckets">
         <div class="account-name">${accountKey}</div>
@@ -142,8 +155,13 @@ function generateAccountSection(
 
   // Show accounts without buckets (if any)
   if (accountsWithoutBuckets > 0) {
-    const accountsWithoutBucketsEntries = Array.from(accountGroups.entries()).filter(([, buckets]) => buckets.length === 0)
+    const accountsWithoutBucketsEntries = Array.from(accountGroups.entries()).filter(
+      ([, buckets]) => buckets.length === 0,
+    )
+    const emptyAccountHeading = createOrganizationHeadings(Array.from(accountGroups.keys()))
+    accountsWithoutBucketsEntries.sort((a, b) => a[0].localeCompare(b[0]))
     accountsWithoutBucketsEntries.forEach(([accountKey]) => {
+      accountsHtml += emptyAccountHeading(accountKey)
       accountsHtml += `
         <div class="account-card no-buckets">
           <div class="account-name">${accountKey}</div>
@@ -170,8 +188,10 @@ function generateS3Table(buckets: S3BucketInfo[]): string {
     return '<p class="no-resources">No S3 buckets found in the specified accounts.</p>'
   }
 
-  // Sort buckets by account name, then by bucket name
+  // Sort buckets by organization (multi-organization mode), account name, then by bucket name
   const sortedBuckets = [...buckets].sort((a, b) => {
+    const organizationCompare = (getRecordOrganizationId(a) || '').localeCompare(getRecordOrganizationId(b) || '')
+    if (organizationCompare !== 0) return organizationCompare
     const accountCompare = a.AccountName.localeCompare(b.AccountName)
     if (accountCompare !== 0) return accountCompare
     return a.BucketName.localeCompare(b.BucketName)
@@ -208,6 +228,7 @@ function generateS3Table(buckets: S3BucketInfo[]): string {
           <div class="account-info">
             <div class="account-name">${bucket.AccountName}</div>
             <div class="account-id">${bucket.AccountId}</div>
+            ${getRecordOrganizationId(bucket) ? `<div class="account-id">${getRecordOrganizationId(bucket)}</div>` : ''}
           </div>
         </td>
         <td>${bucket.Region}</td>
@@ -224,8 +245,6 @@ function generateS3Table(buckets: S3BucketInfo[]): string {
   return tableHtml
 }
 
-
-
 /**
  * Get common styles used across all templates
  */
@@ -13,12 +13,165 @@ export interface EC2InstanceInfo {
   Type: string
   PrivateIp: string
   PublicIp: string
-  HourlyPrice?: string // Optional hourly price field
+  HourlyPrice?: number // On-demand hourly price (--include-pricing)
+  Currency?: string // Currency of the price: USD, or CNY in the China regions
+  PricingOS?: string // Operating system the price applies to: Linux, Windows, RHEL or SUSE
+  PricingSku?: string // Price List API SKU of the price
+  MonthlyCost?: number // Projected monthly on-demand cost; 0 unless the instance is running
+  PriceError?: string // Why no price is available, e.g. "Price not found"
   OS: string // Operating system information
   Role?: string // Optional Role tag information
   Tags?: Record<string, string>
 }
 
+// On-demand price of an instance type in a region from the Price List API
+export interface EC2Price {
+  HourlyPrice: number
+  Currency: string
+  PricingOS: string
+  PricingSku: string
+}
+
+// Price dimension of a Price List term: the price of one unit (Hrs or Quantity) per currency
+export interface PriceListDimension {
+  unit?: string
+  pricePerUnit?: Record<string, string>
+}
+
+// Term of a Price List product; Reserved terms carry LeaseContractLength, OfferingClass and PurchaseOption
+export interface PriceListTerm {
+  termAttributes?: Record<string, string>
+  priceDimensions?: Record<string, PriceListDimension>
+}
+
+// Product returned by the Price List API, limited to the fields we read
+export interface PriceListProduct {
+  product?: { sku?: string; attributes?: Record<string, string> }
+  terms?: {
+    OnDemand?: Record<string, PriceListTerm>
+    Reserved?: Record<string, PriceListTerm>
+  }
+}
+
+// Reserved Instance price of an instance type in a region from the Price List API
+export interface EC2ReservedPrice {
+  LeaseContractLength: '1yr' | '3yr'
+  PurchaseOption: 'No Upfront' | 'Partial Upfront' | 'All Upfront'
+  OfferingClass: string // standard or convertible
+  UpfrontFee: number
+  HourlyPrice: number // Recurring hourly charge
+  EffectiveHourlyPrice: number // Hourly charge plus the upfront fee spread over the term
+  Currency: string
+}
+
+// Cost of a Reserved Instance purchase option for a group of running instances (ec2-commitment-analysis)
+export interface EC2CommitmentOption {
+  Option: string // e.g. "3yr standard All Upfront"
+  LeaseContractLength: EC2ReservedPrice['LeaseContractLength']
+  PurchaseOption: EC2ReservedPrice['PurchaseOption']
+  OfferingClass: string
+  UpfrontCost: number // Upfront fees of the whole group
+  EffectiveMonthlyCost: number // Recurring charges plus the upfront fees spread over the term
+  MonthlySavings: number // Compared with the on-demand cost of the group
+  SavingsPercent: number
+}
+
+// Running instances of the same type, region and OS, with the cost of each Reserved Instance option
+export interface EC2CommitmentGroup {
+  Region: string
+  InstanceType: string
+  PricingOS: string
+  RunningInstances: number
+  Accounts: number // Accounts running instances of the group
+  Currency: string
+  OnDemandMonthlyCost: number
+  BestOption: string // Option with the largest savings; empty when no reserved price is available
+  BestMonthlySavings: number
+  BestSavingsPercent: number
+  Options: EC2CommitmentOption[]
+  PriceError?: string // Why the group could not be priced
+}
+
+// Savings of a Reserved Instance option across all the groups it is offered for
+export interface EC2CommitmentTotal {
+  Option: string
+  Currency: string
+  RunningInstances: number
+  OnDemandMonthlyCost: number
+  EffectiveMonthlyCost: number
+  MonthlySavings: number
+  SavingsPercent: number
+  UpfrontCost: number
+}
+
+// Projected on-demand cost of the running instances of an account, region or instance family
+export interface EC2CostTotal {
+  Group: string // "accountId (accountName)", region or instance family; "All" for the grand total
+  Currency: string
+  RunningInstances: number // Running instances with a price
+  HourlyCost: number
+  MonthlyCost: number
+}
+
+// Cost totals of list-ec2 --include-pricing; one entry per group and currency
+export interface EC2CostTotals {
+  ByAccount: EC2CostTotal[]
+  ByRegion: EC2CostTotal[]
+  ByFamily: EC2CostTotal[]
+  Total: EC2CostTotal[]
+}
+
+// Family of EC2 instance types in the bundled catalog (src/config/instance-families.ts)
+export interface EC2InstanceFamily {
+  Category: 'burstable' | 'general' | 'compute' | 'memory' | 'storage'
+  Generation: number
+  Current: boolean // false for previous-generation families
+  Architecture: 'x86_64' | 'arm64'
+  MemoryPerVCpu: number // GiB per vCPU of the sizes not listed in SizeSpecs
+  SizeSpecs?: Record<string, [number, number]> // [vCPUs, memory GiB] of sizes that do not follow MemoryPerVCpu
+  Sizes?: string[] // Available sizes, for the families recommended as upgrades
+  Upgrade?: string // Current-generation x86 family of a previous-generation family
+  GravitonUpgrade?: string // Current-generation Graviton (arm64) family of a previous-generation family
+}
+
+// vCPUs and memory of an instance type
+export interface EC2InstanceTypeSpecs {
+  InstanceType: string
+  Family: string
+  VCpus: number
+  MemoryGiB: number
+}
+
+// Upgrade of an instance of a previous-generation family (list-ec2 --recommend)
+export interface EC2UpgradeRecommendation {
+  AccountId: string
+  AccountName: string
+  Region: string
+  InstanceId: string
+  Name: string
+  State: string
+  InstanceType: string
+  Option: 'Current generation' | 'Graviton'
+  RecommendedType: string
+  VCpus: string // e.g. "2 -> 2"
+  MemoryGiB: string // e.g. "3.75 -> 4"
+  Currency?: string
+  HourlyPrice?: number // On-demand price of the current type
+  RecommendedHourlyPrice?: number
+  MonthlyDelta?: number // Monthly cost change of the upgrade; negative when it saves money
+  PriceError?: string // Why the price delta is not available
+  Note?: string // e.g. the arm64 AMI required by Graviton types
+}
+
+// Instance filters of list-ec2; each filter matches any of its values, and all filters must match
+export interface EC2InstanceFilters {
+  states?: string[] // Instance states, e.g. running
+  instanceTypes?: string[] // Instance types, * and ? wildcards allowed (e.g. m5.*)
+  tags?: string[] // key=value tags, * and ? wildcards allowed in the value; values of the same key are alternatives
+  vpcIds?: string[]
+  names?: string[] // Name tag, * wildcards allowed, case-insensitive
+}
+
 // RDS instance information
 export interface RDSInstanceInfo {
   AccountId: string
@@ -61,23 +214,421 @@ export interface OrganizationTreeData {
   accounts: Record<string, unknown>[]
 }
 
+// Node of the nested organization tree (root, OU or account) built from OrganizationTreeData
+export interface OrganizationTreeNode {
+  OrganizationId?: string // Set on the root in multi-organization mode only
+  Id: string
+  Name: string
+  Type: 'ROOT' | 'ORGANIZATIONAL_UNIT' | 'ACCOUNT'
+  Status?: string // Account status (accounts only)
+  Email?: string // Account email (accounts only)
+  AccountCount?: number // Accounts in this OU and all child OUs (root and OUs only)
+  StatusCounts?: Record<string, number> // Account count per status, including child OUs (root and OUs only)
+  Children?: OrganizationTreeNode[] // Child OUs first, then accounts (root and OUs only)
+}
+
+// Organizations policy types covered by list-policies
+export type OrganizationPolicyType = 'SERVICE_CONTROL_POLICY' | 'TAG_POLICY' | 'BACKUP_POLICY'
+
+// Root, OU or account a policy is attached to
+export interface PolicyTarget {
+  TargetId: string
+  Name: string
+  Type: 'ROOT' | 'ORGANIZATIONAL_UNIT' | 'ACCOUNT'
+}
+
+// Organizations policy with its attachments and document
+export interface OrganizationPolicyInfo {
+  OrganizationId?: string // Set in multi-organization mode only
+  PolicyId: string
+  PolicyName: string
+  Type: OrganizationPolicyType
+  Description: string
+  AwsManaged: boolean
+  Targets: PolicyTarget[]
+  Content: string // Policy document as returned by the API (JSON text)
+}
+
+// Policy that applies to an account through an attachment to the account or one of its ancestors
+export interface InheritedPolicy {
+  PolicyId: string
+  PolicyName: string
+  AttachedTo: PolicyTarget // Root, OU or the account itself
+}
+
+// Full set of SCPs applying to an account, from the root down to the account
+export interface AccountPolicyInheritance {
+  OrganizationId?: string // Set in multi-organization mode only
+  AccountId: string
+  AccountName: string
+  OuPath: string // e.g. /Prod/Apps
+  Policies: InheritedPolicy[] // Ordered from the root to the account
+}
+
+// Root, OU or account on the path of an account, with the policies attached to it
+export interface PolicyLevel {
+  Target: PolicyTarget
+  Policies: OrganizationPolicyInfo[]
+}
+
+// Request evaluated locally against the SCPs of an account (evaluate-scp)
+export interface ScpEvaluationRequest {
+  Action: string // e.g. s3:PutObject
+  Resource?: string // Resource ARN; undefined when not known
+  Context: Record<string, string[]> // Condition keys of the request, e.g. aws:RequestedRegion
+}
+
+// Outcome of an SCP evaluation
+// - ALLOWED: every level of the hierarchy allows the action and no statement denies it
+// - EXPLICIT_DENY: a Deny statement matches the request
+// - IMPLICIT_DENY: no SCP attached to one of the levels allows the action
+export type ScpDecision = 'ALLOWED' | 'EXPLICIT_DENY' | 'IMPLICIT_DENY'
+
+// Statement of an SCP that matched the request
+export interface ScpStatementMatch {
+  PolicyId: string
+  PolicyName: string
+  AttachedTo: PolicyTarget
+  StatementIndex: number // Position of the statement in the policy, starting at 0
+  Sid?: string
+  Effect: 'Allow' | 'Deny'
+}
+
+// Result of evaluate-scp
+export interface ScpEvaluationResult {
+  OrganizationId?: string // Set in multi-organization mode only
+  AccountId: string
+  AccountName: string
+  Action: string
+  Resource: string
+  Decision: ScpDecision
+  Reason: string
+  DecidingStatement?: ScpStatementMatch // Undefined for implicit denies and the management account
+  MatchedStatements: ScpStatementMatch[] // Every statement matching the request, from the root down
+  Warnings: string[] // Assumptions made during the evaluation (missing condition keys, unsupported operators)
+}
+
+// AWS service with trusted access enabled for the organization
+export interface TrustedServiceInfo {
+  ServicePrincipal: string
+  DateEnabled?: Date
+  DelegatedAdministrators: string[] // IDs of the accounts delegated for this service
+}
+
+// Service delegated to a delegated administrator account
+export interface DelegatedServiceInfo {
+  ServicePrincipal: string
+  DelegationEnabledDate?: Date
+  TrustedAccess: boolean // Whether trusted access is enabled for the service
+}
+
+// Delegated administrator account, cross-referenced with the account list of the organization
+export interface DelegatedAdministratorInfo {
+  AccountId: string
+  AccountName: string
+  Email: string
+  Status: string // Status from the account list, or NOT_FOUND when the account is not in it
+  DelegationEnabledDate?: Date
+  Services: DelegatedServiceInfo[]
+}
+
+// Organization settings, trusted services and delegated administrators (org-services)
+export interface OrganizationServicesReport {
+  OrganizationId: string
+  FeatureSet: string // ALL or CONSOLIDATED_BILLING
+  ManagementAccountId: string
+  ManagementAccountEmail: string
+  ManagementAccountName: string
+  TrustedServices: TrustedServiceInfo[]
+  DelegatedAdministrators: DelegatedAdministratorInfo[]
+  Findings: string[] // Inconsistencies, e.g. a delegated administrator that is suspended or not in the organization
+}
+
+// Policy types with an effective policy per account (effective-policies)
+export type EffectivePolicyType = 'TAG_POLICY' | 'BACKUP_POLICY' | 'AISERVICES_OPT_OUT_POLICY'
+
+// Effective (merged) policy of one type for an account
+export interface EffectivePolicyInfo {
+  OrganizationId?: string // Set in multi-organization mode only
+  AccountId: string
+  AccountName: string
+  ParentId: string
+  OuPath: string
+  PolicyType: EffectivePolicyType
+  Content: string // Effective policy document (JSON text); empty when no policy of this type applies
+  LastUpdated?: Date
+  DiffersFromOuMajority: boolean // The content differs from the most common content among the accounts of the same OU
+}
+
+// Account as recorded in an organization snapshot
+export interface SnapshotAccount {
+  Id: string
+  Name: string
+  Email: string
+  Status: string
+  JoinedTimestamp?: string
+  ParentId: string
+  OuPath: string
+}
+
+// OU as recorded in an organization snapshot
+export interface SnapshotOrganizationalUnit {
+  Id: string
+  Name: string
+  ParentId: string
+  Path: string
+}
+
+// Attachment of a policy to a root, OU or account in an organization snapshot
+export interface SnapshotPolicyAttachment {
+  PolicyId: string
+  PolicyName: string
+  Type: OrganizationPolicyType
+  TargetId: string
+  TargetName: string
+  TargetType: PolicyTarget['Type']
+}
+
+// Point-in-time state of the organization (org-snapshot), compared with org-diff
+export interface OrganizationSnapshot {
+  Version: number
+  CreatedAt: string // ISO 8601
+  OrganizationId: string
+  RootId: string
+  OrganizationalUnits: SnapshotOrganizationalUnit[]
+  Accounts: SnapshotAccount[]
+  PolicyAttachments: SnapshotPolicyAttachment[] | null // SCP attachments; null when they could not be read
+}
+
+// Kinds of changes detected by org-diff
+export type OrganizationChangeType =
+  | 'ACCOUNT_ADDED'
+  | 'ACCOUNT_REMOVED'
+  | 'ACCOUNT_STATUS_CHANGED'
+  | 'ACCOUNT_MOVED'
+  | 'ACCOUNT_RENAMED'
+  | 'ACCOUNT_EMAIL_CHANGED'
+  | 'OU_ADDED'
+  | 'OU_REMOVED'
+  | 'OU_RENAMED'
+  | 'OU_MOVED'
+  | 'POLICY_ATTACHED'
+  | 'POLICY_DETACHED'
+
+// Single change between two organization snapshots
+export interface OrganizationChange {
+  ChangeType: OrganizationChangeType
+  Id: string // Account, OU or policy ID
+  Name: string
+  Before: string // Previous value (status, OU path, name, ...); empty for additions
+  After: string // New value; empty for removals
+}
+
+// Result of org-diff
+export interface OrganizationDiff {
+  Before: string // CreatedAt of the older snapshot
+  After: string // CreatedAt of the newer snapshot, or the time of the live read
+  Changes: OrganizationChange[]
+  Warnings: string[] // Parts of the snapshots that could not be compared
+}
+
+// AWS partition: commercial regions, China regions or AWS GovCloud (US)
+export type AwsPartition = 'aws' | 'aws-cn' | 'aws-us-gov'
+
+// Regions used to reach AWS in a partition
+export interface PartitionRegions {
+  defaultRegion: string // Region checked when no region is configured
+  iamRegion: string // Region of the global IAM endpoint
+  organizationsRegion: string // Region of the Organizations and Account Management endpoints
+  pricingRegion?: string // Region of the Price List API; undefined when the partition has none
+}
+
+// Parts of an Amazon Resource Name: arn:partition:service:region:account-id:resource
+export interface ParsedArn {
+  partition: AwsPartition
+  service: string
+  region: string
+  accountId: string
+  resource: string
+}
+
+// IAM role counts of an account (count-role)
+export interface AccountRoleCounts {
+  counts: Record<string, number>
+  accountName: string
+  organizationId?: string // Set in multi-organization mode only
+}
+
+// Landing zone baseline checked by check-baseline, read from a YAML or JSON baseline file
+export interface BaselineDefinition {
+  requiredRoles: string[] // IAM roles that must exist (role name or path/role name)
+  cloudTrail: boolean // A multi-region trail must be logging
+  config: boolean // An AWS Config recorder must be recording in every region
+  defaultVpcDeleted: boolean // No default VPC may remain in any region
+  ebsEncryptionByDefault: boolean // EBS encryption by default must be enabled in every region
+  requiredTags: string[] // Account tags that must be set: "Key" (any value) or "Key=Value"
+  newAccountDays?: number // Accounts that joined within this many days are flagged as new
+}
+
+// Outcome of a single baseline check
+export type BaselineCheckStatus = 'PASS' | 'FAIL' | 'ERROR'
+
+// Result of a single baseline check in an account or account/region pair
+export interface BaselineCheckResult {
+  AccountId: string
+  AccountName: string
+  Region: string // 'global' for account-level checks (IAM roles, CloudTrail, tags)
+  Check: string // e.g. iam-role:AuditRole, cloudtrail, config, default-vpc, ebs-encryption, tag:CostCenter
+  Status: BaselineCheckStatus
+  Details: string
+}
+
+// Baseline conformance of an account
+export interface AccountBaselineSummary {
+  AccountId: string
+  AccountName: string
+  JoinedTimestamp: string // ISO 8601; empty when unknown
+  NewAccount: boolean // Joined within the newAccountDays of the baseline
+  Passed: number
+  Failed: number
+  Errors: number // Checks that could not be evaluated
+  Status: BaselineCheckStatus // FAIL when a check failed, ERROR when one could not be evaluated
+}
+
 // Role credentials
 export interface RoleCredentials {
   accessKeyId: string
   secretAccessKey: string
   sessionToken: string
+  expiration?: Date // End of the role session; undefined when unknown
+}
+
+// Options applied to every role session (global --role-chain, --external-id, --mfa-serial,
+// --session-name and --source-identity options or the matching settings)
+export interface RoleSessionOptions {
+  roleChain: string[] // Role ARNs assumed in order before the target role
+  externalId?: string // Only passed for the target role
+  mfaSerial?: string // MFA device of the caller; used once to get an MFA-authenticated session
+  sessionName?: string
+  sourceIdentity?: string
 }
 
+// How credentials for target accounts are obtained
+// - assume-role: assume a role in each account (optionally through a role chain)
+// - sso: get credentials for an IAM Identity Center permission set in each account
+export type AccessMode = 'assume-role' | 'sso'
+
+// Options of the SSO access mode (global --permission-set option or the matching setting)
+export interface SsoAccessOptions {
+  profile?: string // AWS profile configured with an sso-session; defaults to AWS_PROFILE or "default"
+  permissionSet?: string // Defaults to the sso_role_name of the profile
+}
+
+// Parameters of a single AssumeRole call
+export type AssumeRoleParameters = Pick<RoleSessionOptions, 'externalId' | 'sessionName' | 'sourceIdentity'>
+
 // Command options shared across commands
 export interface BaseCommandOptions {
   profile?: string
   output?: string
 }
 
-export interface MultiRegionCommandOptions extends BaseCommandOptions {
+// Options selecting the accounts a multi-account command runs against
+// Different selectors are combined (an account must match all of them);
+// repeated values of the same selector are alternatives, except tags which must all match.
+export interface AccountSelectionOptions {
+  accountId?: string[] // Account IDs
+  ou?: string[] // OU IDs (ou-xxxx), root ID (r-xxxx) or OU paths (e.g. Prod/Apps), including child OUs
+  accountTag?: string[] // Tags in key=value form
+  accountName?: string // Regular expression matched against the account name
+  excludeAccount?: string[] // Account IDs or names (with * wildcards) to skip
+}
+
+export interface MultiRegionCommandOptions extends BaseCommandOptions, AccountSelectionOptions {
   region: string[]
+  allRegions?: boolean // Discover and scan every region enabled in each account
+  excludeRegion?: string[] // Regions to leave out
   roleName: string
-  accountId?: string
+  maxConcurrency?: number
+}
+
+// Settings read from configuration files (see src/config/settings.ts)
+export interface AppSettings {
+  regions: string[] // Default regions for multi-region commands
+  roleName: string // Default role to assume in target accounts
+  profile?: string // Default AWS profile
+  output: string // Default output format (json, table, html)
+  excludeAccounts: string[] // Account IDs skipped by every multi-account command
+  roleChain: string[] // Role ARNs assumed in order before the role in each target account
+  externalId?: string // External ID passed when assuming the role in target accounts
+  mfaSerial?: string // MFA device ARN; a token is prompted once per execution
+  sessionName?: string // Role session name
+  sourceIdentity?: string // Source identity recorded in CloudTrail for every role session
+  accessMode: AccessMode // How credentials for target accounts are obtained
+  permissionSet?: string // IAM Identity Center permission set used in the sso access mode
+  orgProfiles: string[] // Management account profiles of the organizations checked in multi-organization mode
+  partition: AwsPartition // AWS partition of the accounts (aws, aws-cn, aws-us-gov)
+}
+
+// Where a setting comes from: a configuration file path or the built-in default
+export type AppSettingsSources = Record<keyof AppSettings, string>
+
+// Account being processed by the multi-account execution engine
+export interface AccountTarget {
+  accountId: string
+  accountName: string
+  credentials: RoleCredentials | null // null when the target is the current account and no profile is set
+  organizationId?: string // Set in multi-organization mode only
+}
+
+// Account/region pair being processed by the multi-account execution engine
+export interface RegionTarget extends AccountTarget {
+  region: string
+}
+
+// Outcome of checking a single account or account/region pair
+export type TargetStatus = 'ok' | 'access-denied' | 'throttled' | 'region-disabled' | 'error'
+
+// Status recorded for a single account or account/region pair
+export interface TargetStatusInfo {
+  OrganizationId?: string // Set in multi-organization mode only
+  AccountId: string
+  AccountName: string
+  Region?: string // Omitted for account-level checks and failures before any region was checked
+  Status: TargetStatus
+  Error?: string
+}
+
+// Failure recorded for a single account or account/region pair
+export interface TargetError extends TargetStatusInfo {
+  Status: Exclude<TargetStatus, 'ok'>
+  Error: string
+}
+
+// SDK retry counters collected by the client factories
+export interface RetryStats {
+  retriedRequests: number // Requests that needed at least one retry
+  totalRetries: number // Sum of retries across all requests
+  throttledFailures: number // Requests that still failed with a throttling error after all retries
+}
+
+// Region left out of a run because it is not enabled for the account (--all-regions)
+export interface SkippedRegion {
+  OrganizationId?: string // Set in multi-organization mode only
+  AccountId: string
+  AccountName: string
+  Region: string
+  Reason: string
+}
+
+// Combined output of a multi-account run
+export interface MultiAccountResult<T> {
+  accounts: Record<string, unknown>[] // All selected accounts, including inactive ones
+  activeAccounts: Record<string, unknown>[]
+  results: T[]
+  statuses: TargetStatusInfo[] // One entry per account (account-level runs) or account/region pair
+  errors: TargetError[] // Statuses of the targets that could not be checked
+  skippedRegions: SkippedRegion[] // Disabled regions left out by region discovery (--all-regions)
 }
 
 // ELB information
@@ -122,6 +673,7 @@ export interface PolicyVerificationResult {
   Principal: string
   Type: string
   Exists: boolean
+  OrganizationId?: string // Organization of the account, in multi-organization mode only
   AccountId?: string
   Error?: string
 }
@@ -174,4 +726,4 @@ export interface S3BucketInfo {
   BucketName: string
   Region: string
   CreationDate: string
-}
\ No newline at end of file
+}
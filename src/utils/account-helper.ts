@@ -1,55 +1,46 @@
 // File: src/utils/account-helper.ts
 // Helper functions for account identity operations
 
-import { STSClient, GetCallerIdentityCommand, STSClientConfig } from '@aws-sdk/client-sts'
-import { fromIni } from '@aws-sdk/credential-providers'
+import { STSClient, GetCallerIdentityCommand } from '@aws-sdk/client-sts'
+import { createSTSClient } from './clients'
+import { logger } from './logger'
 
 /**
- * Cache for the current account ID to avoid repeated API calls
+ * Cache for the current account ID of each profile to avoid repeated API calls
+ * The default credentials are stored under an empty profile name.
  */
-let currentAccountIdCache: string | null = null
-
-/**
- * Create an STS client with the appropriate credentials
- */
-function getSTSClient(profile?: string): STSClient {
-  const clientConfig: STSClientConfig = {
-    region: 'us-east-1',
-  }
-
-  if (profile) {
-    clientConfig.credentials = fromIni({ profile })
-  }
-
-  return new STSClient(clientConfig)
-}
+const currentAccountIdCache = new Map<string, string>()
 
 /**
  * Get the current account ID from STS caller identity
  * Uses caching to avoid repeated API calls in the same execution
+ *
+ * @param stsClient STS client; created from the profile when omitted
+ * @param profile AWS profile the STS client uses, which scopes the cached value
  */
 export async function getCurrentAccountId(stsClient?: STSClient, profile?: string): Promise<string> {
   // Return cached value if available
-  if (currentAccountIdCache) {
-    return currentAccountIdCache
+  const cached = currentAccountIdCache.get(profile || '')
+  if (cached) {
+    return cached
   }
 
   try {
     // Create client if not provided
-    const client = stsClient || getSTSClient(profile)
+    const client = stsClient || createSTSClient(profile)
 
     const command = new GetCallerIdentityCommand({})
     const response = await client.send(command)
 
     if (response.Account) {
       // Cache the account ID for future use
-      currentAccountIdCache = response.Account
+      currentAccountIdCache.set(profile || '', response.Account)
       return response.Account
     }
 
     throw new Error('Unable to determine current account ID')
   } catch (error) {
-    console.error('Error getting caller identity:', error)
+    logger.error('Error getting caller identity:', error)
     throw new Error('Failed to get current account ID')
   }
 }
@@ -58,5 +49,5 @@ export async function getCurrentAccountId(stsClient?: STSClient, profile?: strin
  * Clear the account ID cache - useful for testing
  */
 export function clearAccountIdCache(): void {
-  currentAccountIdCache = null
+  currentAccountIdCache.clear()
 }
@@ -0,0 +1,229 @@
+// File: src/utils/account-selection.ts
+// Shared account selectors (--account-id, --ou, --account-tag, --account-name, --exclude-account)
+// Every multi-account command registers the same options through addAccountSelectionOptions
+// and resolves them with selectAccounts, so selection behaves identically across commands.
+
+import { Command, InvalidArgumentError } from 'commander'
+import { Organizations } from '@aws-sdk/client-organizations'
+import { AccountSelectionOptions } from '../types'
+import {
+  getAccount,
+  getAccountTags,
+  getAllAccounts,
+  getAllOrganizationalUnits,
+  getOrganizationRoot,
+  getParentInfoForAccounts,
+} from '../services/organization'
+import { getSettings } from '../config/settings'
+import { DEFAULT_MAX_CONCURRENCY, mapWithConcurrency } from './concurrency'
+import { logger } from './logger'
+import { toErrorMessage } from './errors'
+import { isSsoAccess, listSsoAccounts } from './sso-session'
+import { buildOrganizationalUnitPaths } from './org-tree'
+
+/**
+ * Collect repeated option values into an array
+ */
+function collectValues(val: string, values: string[] = []): string[] {
+  return [...values, val]
+}
+
+/**
+ * Parse and collect a key=value tag selector
+ */
+function collectTag(val: string, tags: string[] = []): string[] {
+  if (val.indexOf('=') < 1) {
+    throw new InvalidArgumentError('Expected a tag in key=value form.')
+  }
+  return [...tags, val]
+}
+
+/**
+ * Validate an account name regular expression
+ */
+function parseNamePattern(val: string): string {
+  try {
+    new RegExp(val)
+  } catch {
+    throw new InvalidArgumentError('Must be a valid regular expression.')
+  }
+  return val
+}
+
+/**
+ * Register the account selection options on a command
+ *
+ * @param command - Command to add the options to
+ * @returns The same command, for chaining
+ */
+export function addAccountSelectionOptions(command: Command): Command {
+  return command
+    .option('-a, --account-id <accountId>', 'Account ID to check (can be specified multiple times)', collectValues)
+    .option(
+      '--ou <ou>',
+      'Only accounts under this OU, by ID or path (e.g. Prod/Apps), including child OUs (can be specified multiple times)',
+      collectValues,
+    )
+    .option('--account-tag <key=value>', 'Only accounts with this tag (can be specified multiple times)', collectTag)
+    .option('--account-name <regex>', 'Only accounts whose name matches this regular expression', parseNamePattern)
+    .option(
+      '--exclude-account <account>',
+      'Account ID or name (* wildcards allowed) to skip, in addition to the configured exclusions (can be specified multiple times)',
+      collectValues,
+    )
+}
+
+/**
+ * Check whether an account matches an exclusion pattern (account ID or name with * wildcards)
+ */
+function matchesExclusion(account: Record<string, unknown>, pattern: string): boolean {
+  if (String(account.Id) === pattern) {
+    return true
+  }
+
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*')
+  return new RegExp(`^${escaped}$`).test(String(account.Name || ''))
+}
+
+/**
+ * Resolve OU selectors to the set of matching OU IDs, including all child OUs
+ *
+ * @param client - Organizations client
+ * @param ouSelectors - OU IDs, root IDs or OU paths (names from the root, separated by "/")
+ * @returns IDs of the selected OUs and of all their descendants
+ */
+async function resolveOrganizationalUnits(client: Organizations, ouSelectors: string[]): Promise<Set<string>> {
+  const rootId = await getOrganizationRoot(client)
+  const ous = await getAllOrganizationalUnits(client, rootId)
+
+  const ouPaths = buildOrganizationalUnitPaths(ous)
+
+  // Map each selector to an OU (or root) ID
+  const selectedIds = ouSelectors.map((selector) => {
+    if (selector === rootId || ouPaths.has(selector)) {
+      return selector
+    }
+
+    const normalizedPath = selector.replace(/^\/+|\/+$/g, '')
+    const match = ous.find((ou) => ouPaths.get(String(ou.Id)) === normalizedPath)
+    if (!match) {
+      throw new Error(`Organizational unit not found: ${selector}`)
+    }
+    return String(match.Id)
+  })
+
+  // Expand the selection with all descendants
+  const result = new Set(selectedIds)
+  let added = true
+  while (added) {
+    added = false
+    for (const ou of ous) {
+      if (result.has(String(ou.ParentId)) && !result.has(String(ou.Id))) {
+        result.add(String(ou.Id))
+        added = true
+      }
+    }
+  }
+
+  return result
+}
+
+/**
+ * Get the candidate accounts in the SSO access mode
+ *
+ * SSO users often cannot call the Organizations API; the accounts assigned to them in
+ * IAM Identity Center (with their names) are used instead in that case.
+ *
+ * @param client - Organizations client
+ * @param accountIds - Account IDs to keep, or undefined for all accounts
+ * @returns Candidate account objects
+ */
+async function getSsoCandidateAccounts(
+  client: Organizations,
+  accountIds: string[] | undefined,
+): Promise<Record<string, unknown>[]> {
+  let accounts: Record<string, unknown>[]
+  try {
+    accounts = await getAllAccounts(client)
+  } catch (error) {
+    logger.warn(
+      `Organizations API not accessible (${toErrorMessage(error)}), using the accounts assigned in IAM Identity Center`,
+    )
+    accounts = await listSsoAccounts()
+  }
+
+  if (accountIds && accountIds.length > 0) {
+    accounts = accounts.filter((account) => accountIds.includes(String(account.Id)))
+  }
+  return accounts
+}
+
+/**
+ * Get the accounts matching the selection options
+ *
+ * Selectors are applied in order of cost: account IDs and the whole organization first,
+ * then name and exclusion patterns, then OU membership and tags, which need extra API calls.
+ * Accounts listed in the excludeAccounts setting are always skipped.
+ *
+ * @param client - Organizations client
+ * @param selection - Account selection options
+ * @returns Selected account objects
+ */
+export async function selectAccounts(
+  client: Organizations,
+  selection: AccountSelectionOptions = {},
+): Promise<Record<string, unknown>[]> {
+  let accounts: Record<string, unknown>[]
+
+  if (isSsoAccess()) {
+    accounts = await getSsoCandidateAccounts(client, selection.accountId)
+  } else if (selection.accountId && selection.accountId.length > 0) {
+    const found = await Promise.all(selection.accountId.map((accountId) => getAccount(client, accountId)))
+    accounts = found.filter((account): account is Record<string, unknown> => !!account)
+  } else {
+    accounts = await getAllAccounts(client)
+  }
+  const candidateCount = accounts.length
+
+  // Name pattern
+  if (selection.accountName) {
+    const namePattern = new RegExp(selection.accountName)
+    accounts = accounts.filter((account) => namePattern.test(String(account.Name || '')))
+  }
+
+  // Exclusions from the configuration file and the command line
+  const exclusions = [...getSettings().excludeAccounts, ...(selection.excludeAccount || [])]
+  if (exclusions.length > 0) {
+    const before = accounts.length
+    accounts = accounts.filter((account) => !exclusions.some((pattern) => matchesExclusion(account, pattern)))
+    if (accounts.length < before) {
+      logger.info(`Skipping ${before - accounts.length} excluded accounts`)
+    }
+  }
+
+  // OU membership, using the direct parent of each account
+  if (selection.ou && selection.ou.length > 0) {
+    const ouIds = await resolveOrganizationalUnits(client, selection.ou)
+    const accountsWithParents = await getParentInfoForAccounts(client, accounts)
+    accounts = accountsWithParents.filter((account) => ouIds.has(String(account.ParentId)))
+  }
+
+  // Tags; every tag selector must match
+  if (selection.accountTag && selection.accountTag.length > 0) {
+    const requiredTags = selection.accountTag.map((tag) => {
+      const separator = tag.indexOf('=')
+      return { key: tag.slice(0, separator), value: tag.slice(separator + 1) }
+    })
+
+    const accountTags = await mapWithConcurrency(accounts, DEFAULT_MAX_CONCURRENCY, (account) =>
+      getAccountTags(client, String(account.Id)),
+    )
+    accounts = accounts.filter((_, index) => requiredTags.every(({ key, value }) => accountTags[index][key] === value))
+  }
+
+  if (accounts.length < candidateCount) {
+    logger.info(`Selected ${accounts.length} of ${candidateCount} accounts`)
+  }
+
+  return accounts
+}
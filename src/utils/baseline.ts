@@ -0,0 +1,210 @@
+// File: src/utils/baseline.ts
+// Landing zone baseline used by check-baseline
+// The baseline is a declarative YAML or JSON file listing what every vended account must have:
+// required IAM roles, CloudTrail, AWS Config, no default VPC, EBS encryption by default and
+// required account tags. Checks left out of the file are not evaluated.
+
+import * as fs from 'fs'
+import { parse as parseYaml } from 'yaml'
+import {
+  AccountBaselineSummary,
+  BaselineCheckResult,
+  BaselineCheckStatus,
+  BaselineDefinition,
+  TargetError,
+} from '../types'
+import { toErrorMessage } from './errors'
+
+/**
+ * Accounts that joined the organization within this many days are flagged as new by default
+ */
+export const DEFAULT_NEW_ACCOUNT_DAYS = 30
+
+/**
+ * Keys accepted in a baseline file
+ */
+const BASELINE_KEYS: (keyof BaselineDefinition)[] = [
+  'requiredRoles',
+  'cloudTrail',
+  'config',
+  'defaultVpcDeleted',
+  'ebsEncryptionByDefault',
+  'requiredTags',
+  'newAccountDays',
+]
+
+const LIST_KEYS: (keyof BaselineDefinition)[] = ['requiredRoles', 'requiredTags']
+const BOOLEAN_KEYS: (keyof BaselineDefinition)[] = [
+  'cloudTrail',
+  'config',
+  'defaultVpcDeleted',
+  'ebsEncryptionByDefault',
+]
+
+/**
+ * Read and validate a baseline file
+ *
+ * JSON and YAML are both accepted whatever the file name, since YAML is a superset of JSON.
+ *
+ * @param filePath - Path of the baseline file
+ * @returns Baseline, with the checks missing from the file disabled
+ */
+export function readBaselineFile(filePath: string): BaselineDefinition {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Baseline file not found: ${filePath}`)
+  }
+
+  let content: unknown
+  try {
+    content = parseYaml(fs.readFileSync(filePath, 'utf8'))
+  } catch (error) {
+    throw new Error(`Could not parse baseline file ${filePath}: ${toErrorMessage(error)}`)
+  }
+
+  if (!content || typeof content !== 'object' || Array.isArray(content)) {
+    throw new Error(`Invalid baseline file ${filePath}: expected an object of checks`)
+  }
+
+  const baseline: BaselineDefinition = {
+    requiredRoles: [],
+    cloudTrail: false,
+    config: false,
+    defaultVpcDeleted: false,
+    ebsEncryptionByDefault: false,
+    requiredTags: [],
+  }
+  const values = baseline as unknown as Record<string, unknown>
+
+  for (const [key, value] of Object.entries(content as Record<string, unknown>)) {
+    const baselineKey = key as keyof BaselineDefinition
+    if (!BASELINE_KEYS.includes(baselineKey)) {
+      throw new Error(`Unknown check "${key}" in ${filePath}. Supported keys: ${BASELINE_KEYS.join(', ')}`)
+    }
+
+    if (LIST_KEYS.includes(baselineKey)) {
+      if (!Array.isArray(value) || value.some((item) => typeof item !== 'string' || !item.trim())) {
+        throw new Error(`Invalid value for "${key}" in ${filePath}: expected a list of names`)
+      }
+      values[key] = value.map((item: string) => item.trim())
+    } else if (BOOLEAN_KEYS.includes(baselineKey)) {
+      if (typeof value !== 'boolean') {
+        throw new Error(`Invalid value for "${key}" in ${filePath}: expected true or false`)
+      }
+      values[key] = value
+    } else {
+      if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+        throw new Error(`Invalid value for "${key}" in ${filePath}: expected a number of days`)
+      }
+      values[key] = value
+    }
+  }
+
+  if (!hasBaselineChecks(baseline)) {
+    throw new Error(`Baseline file ${filePath} does not enable any check`)
+  }
+
+  return baseline
+}
+
+/**
+ * Check whether a baseline enables at least one check
+ */
+function hasBaselineChecks(baseline: BaselineDefinition): boolean {
+  return (
+    baseline.requiredRoles.length > 0 ||
+    baseline.requiredTags.length > 0 ||
+    BOOLEAN_KEYS.some((key) => baseline[key] === true)
+  )
+}
+
+/**
+ * Check whether a baseline has checks that run in every region
+ */
+export function hasRegionalChecks(baseline: BaselineDefinition): boolean {
+  return baseline.config || baseline.defaultVpcDeleted || baseline.ebsEncryptionByDefault
+}
+
+/**
+ * Get the name of the check of a required tag, e.g. tag:CostCenter for "CostCenter=1234"
+ */
+export function getTagCheckName(requiredTag: string): string {
+  return `tag:${requiredTag.split('=')[0]}`
+}
+
+/**
+ * Compare the tags of an account with a required tag of the baseline
+ *
+ * @param tags - Tags of the account
+ * @param requiredTag - "Key" for any non-empty value, or "Key=Value" for an exact value
+ * @returns Status and details of the check
+ */
+export function checkRequiredTag(tags: Record<string, string>, requiredTag: string): [BaselineCheckStatus, string] {
+  const separator = requiredTag.indexOf('=')
+  const key = separator === -1 ? requiredTag : requiredTag.slice(0, separator)
+  const expected = separator === -1 ? undefined : requiredTag.slice(separator + 1)
+  const value = tags[key]
+
+  if (value === undefined || value === '') {
+    return ['FAIL', 'Tag not set']
+  }
+  if (expected !== undefined && value !== expected) {
+    return ['FAIL', `Value is "${value}", expected "${expected}"`]
+  }
+  return ['PASS', `Value is "${value}"`]
+}
+
+/**
+ * Check whether an account joined the organization recently
+ *
+ * @param joinedTimestamp - When the account joined the organization
+ * @param days - Number of days an account is considered new
+ * @param now - Current time
+ */
+export function isNewAccount(joinedTimestamp: Date | undefined, days: number, now: Date = new Date()): boolean {
+  if (!joinedTimestamp) {
+    return false
+  }
+  return now.getTime() - joinedTimestamp.getTime() < days * 24 * 60 * 60 * 1000
+}
+
+/**
+ * Summarize the check results of each account
+ *
+ * @param accounts - Accounts that were checked (Organizations account records)
+ * @param results - Results of every check
+ * @param errors - Accounts/regions that could not be checked; they count as errors of their account
+ * @param newAccountDays - Number of days an account is considered new
+ * @returns One summary per account, failing accounts first
+ */
+export function summarizeBaseline(
+  accounts: Record<string, unknown>[],
+  results: BaselineCheckResult[],
+  errors: TargetError[],
+  newAccountDays: number,
+): AccountBaselineSummary[] {
+  const statusOrder: Record<BaselineCheckStatus, number> = { FAIL: 0, ERROR: 1, PASS: 2 }
+
+  return accounts
+    .map((account) => {
+      const accountId = String(account.Id)
+      const joined = account.JoinedTimestamp ? new Date(account.JoinedTimestamp as Date) : undefined
+      const accountResults = results.filter((result) => result.AccountId === accountId)
+      const count = (status: BaselineCheckStatus) => accountResults.filter((result) => result.Status === status).length
+      const failed = count('FAIL')
+      const errorCount = count('ERROR') + errors.filter((error) => error.AccountId === accountId).length
+
+      const summary: AccountBaselineSummary = {
+        AccountId: accountId,
+        AccountName: String(account.Name || 'Unknown'),
+        JoinedTimestamp: joined ? joined.toISOString() : '',
+        NewAccount: isNewAccount(joined, newAccountDays),
+        Passed: count('PASS'),
+        Failed: failed,
+        Errors: errorCount,
+        Status: failed > 0 ? 'FAIL' : errorCount > 0 ? 'ERROR' : 'PASS',
+      }
+      // Keep the OrganizationId added by the multi-account engine in multi-organization mode
+      return account.OrganizationId ? { OrganizationId: String(account.OrganizationId), ...summary } : summary
+    })
+    .sort((a, b) => statusOrder[a.Status] - statusOrder[b.Status] || a.AccountId.localeCompare(b.AccountId))
+}
@@ -1,28 +1,132 @@
 // File: src/utils/clients.ts
 // Client creation utilities
+// All AWS SDK clients are created here so that retry/backoff behaviour is configured
+// in one place and retries caused by throttling can be reported at the end of a run.
 
 import { Organizations, OrganizationsClientConfig } from '@aws-sdk/client-organizations'
+import { AccountClient, AccountClientConfig } from '@aws-sdk/client-account'
 import { EC2Client, EC2ClientConfig } from '@aws-sdk/client-ec2'
 import { RDSClient, RDSClientConfig } from '@aws-sdk/client-rds'
 import { STSClient, STSClientConfig } from '@aws-sdk/client-sts'
 import { IAMClient, IAMClientConfig } from '@aws-sdk/client-iam'
 import { S3Client, S3ClientConfig } from '@aws-sdk/client-s3'
+import { PricingClient, PricingClientConfig } from '@aws-sdk/client-pricing'
+import { SSOClient, SSOClientConfig } from '@aws-sdk/client-sso'
 import { OpenSearchClient, OpenSearchClientConfig } from '@aws-sdk/client-opensearch'
 import { ElasticLoadBalancingClient, ElasticLoadBalancingClientConfig } from '@aws-sdk/client-elastic-load-balancing'
 import {
   ElasticLoadBalancingV2Client,
   ElasticLoadBalancingV2ClientConfig,
 } from '@aws-sdk/client-elastic-load-balancing-v2'
+import { CloudTrailClient, CloudTrailClientConfig } from '@aws-sdk/client-cloudtrail'
+import { ConfigServiceClient, ConfigServiceClientConfig } from '@aws-sdk/client-config-service'
 import { fromIni } from '@aws-sdk/credential-providers'
-import { RoleCredentials } from '../types'
-import { DEFAULT_REGION } from '../config/constants'
+import { RoleCredentials, RetryStats } from '../types'
+import { getSettings } from '../config/settings'
+import { isThrottlingError } from './errors'
+import { getPartition, getPartitionRegions, getRegionInPartition } from './partition'
+
+/**
+ * Maximum number of attempts (initial call + retries) for each AWS API request
+ */
+export const DEFAULT_MAX_ATTEMPTS = 8
+
+/**
+ * Retry settings applied to every client created by this module
+ * Adaptive mode adds client-side rate limiting on top of exponential backoff,
+ * which keeps org-wide scans from hammering throttled APIs.
+ */
+const retryConfig = {
+  maxAttempts: DEFAULT_MAX_ATTEMPTS,
+  retryMode: 'adaptive',
+}
+
+/**
+ * Counters describing retries performed by the SDK during this execution
+ */
+const retryStats: RetryStats = {
+  retriedRequests: 0,
+  totalRetries: 0,
+  throttledFailures: 0,
+}
+
+// Minimal structural view of an SDK client, enough to register a middleware on it
+type TrackedHandler = (args: never) => Promise<{ output: unknown }>
+interface MiddlewareClient {
+  middlewareStack: {
+    add(middleware: (next: TrackedHandler) => TrackedHandler, options: { step: 'initialize'; name: string }): void
+  }
+}
+
+// Shape of the SDK metadata attached to responses and service errors
+interface MetadataBearer {
+  name?: string
+  $metadata?: { attempts?: number }
+}
+
+/**
+ * Record the number of attempts a request needed
+ */
+function recordAttempts(attempts: number | undefined): void {
+  if (attempts && attempts > 1) {
+    retryStats.retriedRequests++
+    retryStats.totalRetries += attempts - 1
+  }
+}
+
+/**
+ * Register a middleware on the client that records SDK retries in retryStats
+ *
+ * @param client - AWS SDK client
+ * @returns The same client, for chaining
+ */
+function trackRetries<C extends MiddlewareClient>(client: C): C {
+  client.middlewareStack.add(
+    (next) => async (args) => {
+      try {
+        const result = await next(args)
+        recordAttempts((result.output as MetadataBearer).$metadata?.attempts)
+        return result
+      } catch (error) {
+        const serviceError = error as MetadataBearer
+        recordAttempts(serviceError.$metadata?.attempts)
+        if (isThrottlingError(error)) {
+          retryStats.throttledFailures++
+        }
+        throw error
+      }
+    },
+    { step: 'initialize', name: 'awsOrgRetryTracking' },
+  )
+  return client
+}
+
+/**
+ * Get a copy of the retry counters collected so far
+ */
+export function getRetryStats(): RetryStats {
+  return { ...retryStats }
+}
+
+/**
+ * Convert role credentials into the shape expected by SDK clients
+ */
+function toClientCredentials(credentials: RoleCredentials) {
+  return {
+    accessKeyId: credentials.accessKeyId,
+    secretAccessKey: credentials.secretAccessKey,
+    sessionToken: credentials.sessionToken,
+    expiration: credentials.expiration,
+  }
+}
 
 /**
  * Create an AWS Organizations client
  */
 export function createOrganizationsClient(profile?: string): Organizations {
   const clientConfig: OrganizationsClientConfig = {
-    region: 'us-east-1', // Organizations API is global, but requires a region
+    ...retryConfig,
+    region: getPartitionRegions().organizationsRegion, // Organizations API is global, but requires a region
   }
 
   // If profile is specified, use credentials from profile
@@ -30,7 +134,7 @@ export function createOrganizationsClient(profile?: string): Organizations {
     clientConfig.credentials = fromIni({ profile })
   }
 
-  return new Organizations(clientConfig)
+  return trackRetries(new Organizations(clientConfig))
 }
 
 /**
@@ -39,20 +143,13 @@ export function createOrganizationsClient(profile?: string): Organizations {
  * @param credentials Role credentials (if null, use current credentials)
  */
 export function createEC2Client(region: string, credentials: RoleCredentials | null): EC2Client {
+  const config: EC2ClientConfig = { ...retryConfig, region }
+
   if (credentials) {
-    const config: EC2ClientConfig = {
-      region,
-      credentials: {
-        accessKeyId: credentials.accessKeyId,
-        secretAccessKey: credentials.secretAccessKey,
-        sessionToken: credentials.sessionToken,
-      },
-    }
-    return new EC2Client(config)
-  } else {
-    // Use current credentials
-    return new EC2Client({ region })
+    config.credentials = toClientCredentials(credentials)
   }
+
+  return trackRetries(new EC2Client(config))
 }
 
 /**
@@ -61,20 +158,13 @@ export function createEC2Client(region: string, credentials: RoleCredentials | n
  * @param credentials Role credentials (if null, use current credentials)
  */
 export function createRDSClient(region: string, credentials: RoleCredentials | null): RDSClient {
+  const config: RDSClientConfig = { ...retryConfig, region }
+
   if (credentials) {
-    const config: RDSClientConfig = {
-      region,
-      credentials: {
-        accessKeyId: credentials.accessKeyId,
-        secretAccessKey: credentials.secretAccessKey,
-        sessionToken: credentials.sessionToken,
-      },
-    }
-    return new RDSClient(config)
-  } else {
-    // Use current credentials
-    return new RDSClient({ region })
+    config.credentials = toClientCredentials(credentials)
   }
+
+  return trackRetries(new RDSClient(config))
 }
 
 /**
@@ -83,20 +173,13 @@ export function createRDSClient(region: string, credentials: RoleCredentials | n
  * @param credentials Role credentials (if null, use current credentials)
  */
 export function createOpenSearchClient(region: string, credentials: RoleCredentials | null): OpenSearchClient {
+  const config: OpenSearchClientConfig = { ...retryConfig, region }
+
   if (credentials) {
-    const config: OpenSearchClientConfig = {
-      region,
-      credentials: {
-        accessKeyId: credentials.accessKeyId,
-        secretAccessKey: credentials.secretAccessKey,
-        sessionToken: credentials.sessionToken,
-      },
-    }
-    return new OpenSearchClient(config)
-  } else {
-    // Use current credentials
-    return new OpenSearchClient({ region })
+    config.credentials = toClientCredentials(credentials)
   }
+
+  return trackRetries(new OpenSearchClient(config))
 }
 
 /**
@@ -105,20 +188,13 @@ export function createOpenSearchClient(region: string, credentials: RoleCredenti
  * @param credentials Role credentials (if null, use current credentials)
  */
 export function createELBClient(region: string, credentials: RoleCredentials | null): ElasticLoadBalancingClient {
+  const config: ElasticLoadBalancingClientConfig = { ...retryConfig, region }
+
   if (credentials) {
-    const config: ElasticLoadBalancingClientConfig = {
-      region,
-      credentials: {
-        accessKeyId: credentials.accessKeyId,
-        secretAccessKey: credentials.secretAccessKey,
-        sessionToken: credentials.sessionToken,
-      },
-    }
-    return new ElasticLoadBalancingClient(config)
-  } else {
-    // Use current credentials
-    return new ElasticLoadBalancingClient({ region })
+    config.credentials = toClientCredentials(credentials)
   }
+
+  return trackRetries(new ElasticLoadBalancingClient(config))
 }
 
 /**
@@ -127,61 +203,79 @@ export function createELBClient(region: string, credentials: RoleCredentials | n
  * @param credentials Role credentials (if null, use current credentials)
  */
 export function createELBv2Client(region: string, credentials: RoleCredentials | null): ElasticLoadBalancingV2Client {
+  const config: ElasticLoadBalancingV2ClientConfig = { ...retryConfig, region }
+
   if (credentials) {
-    const config: ElasticLoadBalancingV2ClientConfig = {
-      region,
-      credentials: {
-        accessKeyId: credentials.accessKeyId,
-        secretAccessKey: credentials.secretAccessKey,
-        sessionToken: credentials.sessionToken,
-      },
-    }
-    return new ElasticLoadBalancingV2Client(config)
-  } else {
-    // Use current credentials
-    return new ElasticLoadBalancingV2Client({ region })
+    config.credentials = toClientCredentials(credentials)
   }
+
+  return trackRetries(new ElasticLoadBalancingV2Client(config))
+}
+
+/**
+ * Create a CloudTrail client
+ * @param region AWS region
+ * @param credentials Role credentials (if null, use current credentials)
+ */
+export function createCloudTrailClient(region: string, credentials: RoleCredentials | null): CloudTrailClient {
+  const config: CloudTrailClientConfig = { ...retryConfig, region }
+
+  if (credentials) {
+    config.credentials = toClientCredentials(credentials)
+  }
+
+  return trackRetries(new CloudTrailClient(config))
+}
+
+/**
+ * Create an AWS Config client
+ * @param region AWS region
+ * @param credentials Role credentials (if null, use current credentials)
+ */
+export function createConfigServiceClient(region: string, credentials: RoleCredentials | null): ConfigServiceClient {
+  const config: ConfigServiceClientConfig = { ...retryConfig, region }
+
+  if (credentials) {
+    config.credentials = toClientCredentials(credentials)
+  }
+
+  return trackRetries(new ConfigServiceClient(config))
 }
 
 /**
  * Create an STS client
  */
-export function createSTSClient(profile?: string): STSClient {
+export function createSTSClient(profile?: string, credentials?: RoleCredentials | null): STSClient {
   const clientConfig: STSClientConfig = {
-    region: DEFAULT_REGION,
+    ...retryConfig,
+    region: getRegionInPartition(getSettings().regions[0]), // First configured region, if in the partition
   }
 
-  if (profile) {
+  if (credentials) {
+    clientConfig.credentials = toClientCredentials(credentials)
+  } else if (profile) {
     clientConfig.credentials = fromIni({ profile })
   }
 
-  return new STSClient(clientConfig)
+  return trackRetries(new STSClient(clientConfig))
 }
 
 /**
  * Create an IAM client
  */
 export function createIAMClient(profile?: string, credentials?: RoleCredentials | null): IAMClient {
+  const config: IAMClientConfig = {
+    ...retryConfig,
+    region: getPartitionRegions().iamRegion, // IAM is a global service but requires a region
+  }
+
   if (credentials) {
-    const config: IAMClientConfig = {
-      region: 'us-east-1', // IAM is a global service but requires a region
-      credentials: {
-        accessKeyId: credentials.accessKeyId,
-        secretAccessKey: credentials.secretAccessKey,
-        sessionToken: credentials.sessionToken,
-      },
-    }
-    return new IAMClient(config)
+    config.credentials = toClientCredentials(credentials)
   } else if (profile) {
-    const config: IAMClientConfig = {
-      region: 'us-east-1',
-      credentials: fromIni({ profile }),
-    }
-    return new IAMClient(config)
-  } else {
-    // Use current credentials
-    return new IAMClient({ region: 'us-east-1' })
+    config.credentials = fromIni({ profile })
   }
+
+  return trackRetries(new IAMClient(config))
 }
 
 /**
@@ -190,18 +284,63 @@ export function createIAMClient(profile?: string, credentials?: RoleCredentials
  * @param credentials Role credentials (if null, use current credentials)
  */
 export function createS3Client(region: string, credentials: RoleCredentials | null): S3Client {
+  const config: S3ClientConfig = { ...retryConfig, region }
+
+  if (credentials) {
+    config.credentials = toClientCredentials(credentials)
+  }
+
+  return trackRetries(new S3Client(config))
+}
+
+/**
+ * Create a Pricing client
+ * Note that the AWS Pricing API is only available in some regions of the aws and aws-cn partitions.
+ * @param credentials Role credentials (if null, use current credentials)
+ * @throws When the configured partition has no Price List API (aws-us-gov)
+ */
+export function createPricingClient(credentials: RoleCredentials | null): PricingClient {
+  const { pricingRegion } = getPartitionRegions()
+  if (!pricingRegion) {
+    throw new Error(`The AWS Pricing API is not available in the ${getPartition()} partition`)
+  }
+
+  const config: PricingClientConfig = {
+    ...retryConfig,
+    region: pricingRegion, // Pricing API is only available in a few regions of each partition
+  }
+
   if (credentials) {
-    const config: S3ClientConfig = {
-      region,
-      credentials: {
-        accessKeyId: credentials.accessKeyId,
-        secretAccessKey: credentials.secretAccessKey,
-        sessionToken: credentials.sessionToken,
-      },
-    }
-    return new S3Client(config)
-  } else {
-    // Use current credentials
-    return new S3Client({ region })
-  }
-}
\ No newline at end of file
+    config.credentials = toClientCredentials(credentials)
+  }
+
+  return trackRetries(new PricingClient(config))
+}
+
+/**
+ * Create an IAM Identity Center (SSO) portal client
+ * The portal API is authorized with the SSO access token, so the client needs no AWS credentials.
+ * @param region Region of the IAM Identity Center instance
+ */
+export function createSSOClient(region: string): SSOClient {
+  const config: SSOClientConfig = { ...retryConfig, region }
+
+  return trackRetries(new SSOClient(config))
+}
+
+/**
+ * Create an Account Management client
+ * Used from the management account to read the settings of member accounts.
+ */
+export function createAccountClient(profile?: string): AccountClient {
+  const clientConfig: AccountClientConfig = {
+    ...retryConfig,
+    region: getPartitionRegions().organizationsRegion, // Account Management API is global, but requires a region
+  }
+
+  if (profile) {
+    clientConfig.credentials = fromIni({ profile })
+  }
+
+  return trackRetries(new AccountClient(clientConfig))
+}
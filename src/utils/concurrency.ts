@@ -0,0 +1,77 @@
+// File: src/utils/concurrency.ts
+// Helpers for bounding the number of concurrent AWS API operations
+
+/**
+ * Default number of account/region operations allowed to run at the same time
+ */
+export const DEFAULT_MAX_CONCURRENCY = 10
+
+/**
+ * Function that schedules a task so that it runs within the concurrency limit
+ */
+export type Limiter = <T>(task: () => Promise<T>) => Promise<T>
+
+/**
+ * Create a limiter that allows at most maxConcurrency tasks to run at once
+ *
+ * Tasks beyond the limit are queued and started in submission order as running
+ * tasks complete. A limiter can be shared by independent callers so that the
+ * limit applies to all of them together.
+ *
+ * Tasks scheduled through a limiter must not wait on other tasks scheduled through
+ * the same limiter, otherwise the run can deadlock once every slot is taken.
+ *
+ * @param maxConcurrency - Maximum number of tasks running at the same time
+ * @returns Limiter function
+ */
+export function createLimiter(maxConcurrency: number): Limiter {
+  const limit = Math.max(1, Math.floor(maxConcurrency))
+  const queue: Array<() => void> = []
+  let running = 0
+
+  // Start the next queued task if a slot is free
+  const startNext = (): void => {
+    if (running >= limit || queue.length === 0) {
+      return
+    }
+    running++
+    const start = queue.shift()
+    if (start) {
+      start()
+    }
+  }
+
+  return <T>(task: () => Promise<T>): Promise<T> =>
+    new Promise<T>((resolve, reject) => {
+      queue.push(() => {
+        task()
+          .then(resolve, reject)
+          .finally(() => {
+            running--
+            startNext()
+          })
+      })
+      startNext()
+    })
+}
+
+/**
+ * Map over items with at most maxConcurrency operations in flight
+ *
+ * Behaves like Promise.all(items.map(fn)) but never runs more than
+ * maxConcurrency invocations of fn at the same time. Results keep the
+ * order of the input items.
+ *
+ * @param items - Items to process
+ * @param maxConcurrency - Maximum number of concurrent invocations
+ * @param fn - Async function applied to each item
+ * @returns Promise resolving to the results in input order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  maxConcurrency: number,
+  fn: (item: T) => Promise<R>,
+): Promise<R[]> {
+  const limit = createLimiter(maxConcurrency)
+  return Promise.all(items.map((item) => limit(() => fn(item))))
+}
@@ -0,0 +1,425 @@
+// File: src/utils/credential-broker.ts
+// Process-wide cache of assumed role credentials
+// Every command obtains cross-account credentials through getRoleCredentials, so a role is
+// assumed at most once per account for as long as its session is valid. Credentials are
+// refreshed shortly before they expire, which keeps long runs working past the session lifetime.
+// Intermediate sessions (MFA session, roles of the role chain) and IAM Identity Center (SSO)
+// permission set credentials are cached the same way.
+//
+// With the optional disk cache (--credential-cache), credentials are also stored encrypted
+// (AES-256-GCM) in the user cache directory so that later runs can reuse them until they expire.
+
+import * as crypto from 'crypto'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { STSClient } from '@aws-sdk/client-sts'
+import { fromIni } from '@aws-sdk/credential-providers'
+import { assumeRole, assumeRoleArn, getSessionToken } from '../services/sts'
+import { getSsoRoleCredentials } from '../services/sso'
+import { RoleCredentials, RoleSessionOptions } from '../types'
+import { createSTSClient } from './clients'
+import { toErrorMessage } from './errors'
+import { logger } from './logger'
+import { promptForInput } from './prompt'
+import { getSsoSession } from './sso-session'
+
+/**
+ * Credentials are refreshed when less than this much time is left before they expire
+ */
+export const CREDENTIAL_REFRESH_MARGIN_MS = 5 * 60 * 1000
+
+/**
+ * Environment variable holding an optional passphrase for the disk cache encryption key
+ * When it is not set, a random key is generated and stored next to the cache.
+ */
+export const CREDENTIAL_CACHE_KEY_ENV = 'AWS_ORG_CREDENTIAL_CACHE_KEY'
+
+// Serialized form of a cache entry in the disk cache
+interface StoredCredentials {
+  accessKeyId: string
+  secretAccessKey: string
+  sessionToken: string
+  expiration: string
+}
+
+// Encrypted disk cache file content
+interface EncryptedCacheFile {
+  iv: string
+  tag: string
+  data: string
+}
+
+// Credentials by cache key; see getCacheKey
+const credentialCache = new Map<string, RoleCredentials>()
+
+// AssumeRole calls in progress, so that concurrent callers share a single call per key
+const pendingRequests = new Map<string, Promise<RoleCredentials>>()
+
+// Credentials of AWS profiles by profile name; never written to the disk cache, since
+// profiles can hold long-term access keys
+const profileCredentials = new Map<string, Promise<RoleCredentials>>()
+
+// Options applied to every role session; set once from the global CLI options
+let sessionOptions: RoleSessionOptions = { roleChain: [] }
+
+// Whether credentials are also read from and written to the disk cache
+let diskCacheEnabled = false
+
+// Whether the in-memory cache holds credentials that are not in the disk cache yet
+let diskCacheDirty = false
+
+/**
+ * Get the directory holding the disk cache
+ */
+export function getCredentialCacheDir(): string {
+  const cacheHome = process.env.XDG_CACHE_HOME || path.join(os.homedir(), '.cache')
+  return path.join(cacheHome, 'aws-org')
+}
+
+/**
+ * Get the path of the encrypted disk cache file
+ */
+function getCacheFilePath(): string {
+  return path.join(getCredentialCacheDir(), 'credentials.enc')
+}
+
+/**
+ * Get the path of the generated encryption key file
+ */
+function getKeyFilePath(): string {
+  return path.join(getCredentialCacheDir(), 'credentials.key')
+}
+
+/**
+ * Build the cache key for a session
+ *
+ * The caller account and the path of sessions leading to the role (MFA session, role chain) are part
+ * of the key so that credentials obtained with one profile or chain are never reused by another one.
+ * The session name and source identity are included since they are recorded in CloudTrail for the whole
+ * session, and the external ID since a session obtained with one ID must not be reused with another.
+ *
+ * @param sourceAccountId - Account of the caller credentials
+ * @param sessionPath - Sessions from the caller to the role, the role last
+ */
+function getCacheKey(sourceAccountId: string, sessionPath: string[]): string {
+  const { sessionName, externalId, sourceIdentity } = sessionOptions
+  return [sourceAccountId, ...sessionPath, sessionName || '', externalId || '', sourceIdentity || ''].join('|')
+}
+
+/**
+ * Check whether credentials are still valid for at least the refresh margin
+ * Credentials without an expiration are considered valid for the whole execution.
+ */
+function isFresh(credentials: RoleCredentials): boolean {
+  return !credentials.expiration || credentials.expiration.getTime() - Date.now() > CREDENTIAL_REFRESH_MARGIN_MS
+}
+
+/**
+ * Get the disk cache encryption key, creating the key file on first use
+ *
+ * @param create - Whether to generate the key file when it does not exist
+ * @returns 256-bit key, or undefined when there is no key yet and create is false
+ */
+function getEncryptionKey(create: boolean): Buffer | undefined {
+  const passphrase = process.env[CREDENTIAL_CACHE_KEY_ENV]
+  if (passphrase) {
+    return crypto.scryptSync(passphrase, 'aws-org-credential-cache', 32)
+  }
+
+  const keyFile = getKeyFilePath()
+  if (fs.existsSync(keyFile)) {
+    return Buffer.from(fs.readFileSync(keyFile, 'utf8').trim(), 'base64')
+  }
+  if (!create) {
+    return undefined
+  }
+
+  const key = crypto.randomBytes(32)
+  fs.mkdirSync(path.dirname(keyFile), { recursive: true, mode: 0o700 })
+  fs.writeFileSync(keyFile, key.toString('base64'), { encoding: 'utf8', mode: 0o600 })
+  return key
+}
+
+/**
+ * Read the credentials stored in the disk cache
+ * An unreadable cache (e.g. encrypted with another key) is ignored and replaced on the next write.
+ */
+function readDiskCache(): void {
+  const cacheFile = getCacheFilePath()
+  const key = getEncryptionKey(false)
+  if (!key || !fs.existsSync(cacheFile)) {
+    return
+  }
+
+  try {
+    const file = JSON.parse(fs.readFileSync(cacheFile, 'utf8')) as EncryptedCacheFile
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(file.iv, 'base64'))
+    decipher.setAuthTag(Buffer.from(file.tag, 'base64'))
+    const content = Buffer.concat([decipher.update(Buffer.from(file.data, 'base64')), decipher.final()])
+    const entries = JSON.parse(content.toString('utf8')) as Record<string, StoredCredentials>
+
+    let loaded = 0
+    for (const [cacheKey, stored] of Object.entries(entries)) {
+      const credentials: RoleCredentials = { ...stored, expiration: new Date(stored.expiration) }
+      if (isFresh(credentials) && !credentialCache.has(cacheKey)) {
+        credentialCache.set(cacheKey, credentials)
+        loaded++
+      }
+    }
+    logger.debug(`Loaded ${loaded} cached role sessions from ${cacheFile}`)
+  } catch (error) {
+    logger.warn(`Ignoring unreadable credential cache ${cacheFile}: ${toErrorMessage(error)}`)
+  }
+}
+
+/**
+ * Write the unexpired credentials to the disk cache
+ */
+function writeDiskCache(): void {
+  if (!diskCacheDirty) {
+    return
+  }
+
+  const entries: Record<string, StoredCredentials> = {}
+  for (const [cacheKey, credentials] of credentialCache.entries()) {
+    // Credentials without an expiration cannot be safely reused by a later run
+    if (credentials.expiration && isFresh(credentials)) {
+      entries[cacheKey] = {
+        accessKeyId: credentials.accessKeyId,
+        secretAccessKey: credentials.secretAccessKey,
+        sessionToken: credentials.sessionToken,
+        expiration: credentials.expiration.toISOString(),
+      }
+    }
+  }
+
+  try {
+    const key = getEncryptionKey(true)!
+    const iv = crypto.randomBytes(12)
+    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv)
+    const data = Buffer.concat([cipher.update(JSON.stringify(entries), 'utf8'), cipher.final()])
+    const file: EncryptedCacheFile = {
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64'),
+    }
+
+    fs.mkdirSync(getCredentialCacheDir(), { recursive: true, mode: 0o700 })
+    fs.writeFileSync(getCacheFilePath(), JSON.stringify(file), { encoding: 'utf8', mode: 0o600 })
+    diskCacheDirty = false
+  } catch (error) {
+    logger.warn(`Could not write the credential cache: ${toErrorMessage(error)}`)
+  }
+}
+
+/**
+ * Enable the encrypted disk cache for the rest of the execution
+ * Cached credentials are loaded immediately and new ones are saved when the process exits.
+ */
+export function enableCredentialDiskCache(): void {
+  if (diskCacheEnabled) {
+    return
+  }
+  diskCacheEnabled = true
+  readDiskCache()
+  process.once('exit', writeDiskCache)
+}
+
+/**
+ * Remove all cached credentials, in memory and on disk
+ *
+ * @returns Whether a disk cache file was deleted
+ */
+export function clearCredentialCache(): boolean {
+  credentialCache.clear()
+  diskCacheDirty = false
+
+  const cacheFile = getCacheFilePath()
+  if (!fs.existsSync(cacheFile)) {
+    return false
+  }
+  fs.unlinkSync(cacheFile)
+  return true
+}
+
+/**
+ * Set the options applied to every role session for the rest of the execution
+ */
+export function configureRoleSessions(options: RoleSessionOptions): void {
+  sessionOptions = options
+}
+
+/**
+ * Get cached credentials, or obtain new ones when there are none or they are about to expire
+ * Concurrent requests for the same key share a single call to fetchCredentials.
+ *
+ * @param cacheKey - Cache key of the credentials
+ * @param description - Description of the session for log messages
+ * @param fetchCredentials - Function obtaining new credentials
+ * @returns Valid credentials
+ */
+async function getCachedCredentials(
+  cacheKey: string,
+  description: string,
+  fetchCredentials: () => Promise<RoleCredentials | undefined>,
+): Promise<RoleCredentials> {
+  const cached = credentialCache.get(cacheKey)
+  if (cached && isFresh(cached)) {
+    return cached
+  }
+
+  const pending = pendingRequests.get(cacheKey)
+  if (pending) {
+    return pending
+  }
+
+  const request = (async () => {
+    logger.verbose(cached ? `Refreshing ${description} before it expires` : `Getting ${description}...`)
+    const credentials = await fetchCredentials()
+    if (!credentials) {
+      throw new Error(`Could not get ${description}`)
+    }
+
+    credentialCache.set(cacheKey, credentials)
+    diskCacheDirty = diskCacheEnabled
+    return credentials
+  })()
+
+  pendingRequests.set(cacheKey, request)
+  try {
+    return await request
+  } finally {
+    pendingRequests.delete(cacheKey)
+  }
+}
+
+/**
+ * Get an STS client for the last hop before the target role
+ *
+ * With --mfa-serial, an MFA session is created first (prompting for the token once); then every
+ * role of the chain is assumed in order, each one with the credentials of the previous hop.
+ * Without either option, the caller STS client is returned as is.
+ *
+ * @param stsClient - STS client using the caller credentials
+ * @param sourceAccountId - Account of the caller credentials, used to scope the cache
+ * @returns STS client to assume the target role with
+ */
+async function getHopClient(stsClient: STSClient, sourceAccountId: string): Promise<STSClient> {
+  const { mfaSerial, roleChain, sessionName, sourceIdentity } = sessionOptions
+  const sessionPath: string[] = []
+  let credentials: RoleCredentials | undefined
+
+  if (mfaSerial) {
+    sessionPath.push(`mfa:${mfaSerial}`)
+    credentials = await getCachedCredentials(
+      getCacheKey(sourceAccountId, sessionPath),
+      `MFA session for ${mfaSerial}`,
+      async () => {
+        const tokenCode = await promptForInput(`MFA token for ${mfaSerial}: `)
+        if (!/^\d{6}$/.test(tokenCode)) {
+          throw new Error('The MFA token must be a 6-digit code')
+        }
+        return getSessionToken(stsClient, mfaSerial, tokenCode)
+      },
+    )
+  }
+
+  for (const hopArn of roleChain) {
+    const previous = credentials
+    sessionPath.push(hopArn)
+    credentials = await getCachedCredentials(getCacheKey(sourceAccountId, sessionPath), `session for ${hopArn}`, () =>
+      assumeRoleArn(previous ? createSTSClient(undefined, previous) : stsClient, hopArn, undefined, {
+        sessionName,
+        sourceIdentity,
+      }),
+    )
+  }
+
+  return credentials ? createSTSClient(undefined, credentials) : stsClient
+}
+
+/**
+ * Get credentials for a role in another account
+ *
+ * Cached credentials are returned while they are valid for more than CREDENTIAL_REFRESH_MARGIN_MS;
+ * otherwise the role is assumed again, through the configured MFA session and role chain.
+ * Concurrent requests for the same role share one AssumeRole call.
+ *
+ * @param stsClient - STS client using the caller credentials
+ * @param sourceAccountId - Account of the caller credentials, used to scope the cache
+ * @param accountId - Target account ID
+ * @param roleName - Role name to assume in the target account
+ * @returns Valid role credentials
+ * @throws The STS error, or an error when STS returned no credentials
+ */
+export async function getRoleCredentials(
+  stsClient: STSClient,
+  sourceAccountId: string,
+  accountId: string,
+  roleName: string,
+): Promise<RoleCredentials> {
+  const { roleChain, mfaSerial, externalId, sessionName, sourceIdentity } = sessionOptions
+  const targetPath = [...(mfaSerial ? [`mfa:${mfaSerial}`] : []), ...roleChain, `${accountId}/${roleName}`]
+
+  return getCachedCredentials(
+    getCacheKey(sourceAccountId, targetPath),
+    `credentials for role ${roleName} in account ${accountId}`,
+    async () => {
+      const client = await getHopClient(stsClient, sourceAccountId)
+      return assumeRole(client, accountId, roleName, undefined, { externalId, sessionName, sourceIdentity })
+    },
+  )
+}
+
+/**
+ * Get credentials for the configured IAM Identity Center permission set in an account
+ *
+ * Used instead of getRoleCredentials in the SSO access mode, with the same caching and refresh.
+ *
+ * @param accountId - Target account ID
+ * @returns Valid permission set credentials
+ * @throws The SSO error, or an error when the SSO portal returned no credentials
+ */
+export async function getSsoCredentials(accountId: string): Promise<RoleCredentials> {
+  const session = await getSsoSession()
+
+  return getCachedCredentials(
+    getCacheKey(`sso:${session.profile}`, [`${accountId}/${session.permissionSet}`]),
+    `SSO credentials for permission set ${session.permissionSet} in account ${accountId}`,
+    () => getSsoRoleCredentials(session.client, session.accessToken, accountId, session.permissionSet),
+  )
+}
+
+/**
+ * Get the credentials of an AWS profile, for the management account of that profile
+ *
+ * Used in place of the default credential chain when the target account is the account
+ * of the profile, so that each organization uses the credentials it was listed with.
+ *
+ * @param profile - AWS profile name
+ * @returns Profile credentials, resolved again shortly before they expire
+ */
+export async function getProfileCredentials(profile: string): Promise<RoleCredentials> {
+  const pending = profileCredentials.get(profile)
+  if (pending) {
+    const credentials = await pending.catch(() => undefined)
+    if (credentials && isFresh(credentials)) {
+      return credentials
+    }
+  }
+
+  const request = (async () => {
+    logger.verbose(`Getting credentials of profile ${profile}...`)
+    const identity = await fromIni({ profile })()
+    return {
+      accessKeyId: identity.accessKeyId,
+      secretAccessKey: identity.secretAccessKey,
+      sessionToken: identity.sessionToken || '',
+      expiration: identity.expiration,
+    }
+  })()
+
+  profileCredentials.set(profile, request)
+  return request
+}
@@ -2,45 +2,53 @@
 // Helper functions for handling account credentials
 
 import { STSClient } from '@aws-sdk/client-sts'
-import { assumeRole } from '../services/sts'
 import { getCurrentAccountId } from './account-helper'
 import { RoleCredentials } from '../types'
+import { getProfileCredentials, getRoleCredentials, getSsoCredentials } from './credential-broker'
+import { isSsoAccess } from './sso-session'
+import { logger } from './logger'
 
 /**
  * Create credentials for a specific account
- * - If the target account is the current account, return null to use current credentials
- * - Otherwise, assume the specified role in the target account
+ * - In the SSO access mode, return the permission set credentials for the account
+ * - If the target account is the current account, return the profile credentials,
+ *   or null to use current credentials when no profile is set
+ * - Otherwise, get credentials for the specified role from the credential broker,
+ *   which assumes the role only when no valid cached credentials exist
  *
  * @param stsClient STS client
  * @param accountId Target account ID
  * @param roleName Role name to assume
- * @returns RoleCredentials if cross-account, null if current account
+ * @param profile AWS profile the STS client was created with
+ * @returns RoleCredentials if cross-account or a profile is set, null if current account
  */
 export async function getAccountCredentials(
   stsClient: STSClient,
   accountId: string,
   roleName: string,
+  profile?: string,
 ): Promise<RoleCredentials | null> {
   try {
+    // In the SSO access mode, every account (including the current one) uses the permission set
+    if (isSsoAccess()) {
+      return await getSsoCredentials(accountId)
+    }
+
     // Get current account ID for comparison
-    const currentAccountId = await getCurrentAccountId(stsClient)
+    const currentAccountId = await getCurrentAccountId(stsClient, profile)
 
     // If the target account is the current account, use current credentials
     if (accountId === currentAccountId) {
-      console.log(`Account ${accountId} is the current account, using current credentials`)
-      return null // null indicates "use current credentials"
-    }
-
-    // For other accounts, assume the specified role
-    const credentials = await assumeRole(stsClient, accountId, roleName)
-
-    if (!credentials) {
-      throw new Error(`Could not assume role ${roleName} in account ${accountId}`)
+      logger.verbose(`Account ${accountId} is the current account, using current credentials`)
+      // With a profile, the collectors must not fall back to the default credential chain,
+      // which can belong to another account (e.g. another organization in multi-organization mode)
+      return profile ? await getProfileCredentials(profile) : null // null indicates "use current credentials"
     }
 
-    return credentials
+    // For other accounts, use the cached or newly assumed role credentials
+    return await getRoleCredentials(stsClient, currentAccountId, accountId, roleName)
   } catch (error) {
-    console.error(`Error setting up credentials for account ${accountId}:`, error)
+    logger.debug(`Error setting up credentials for account ${accountId}:`, error)
     throw error
   }
 }
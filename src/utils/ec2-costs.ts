@@ -0,0 +1,262 @@
+// File: src/utils/ec2-costs.ts
+// EC2 cost model
+// Projects the monthly on-demand cost of running instances from their hourly price, and
+// totals the projections by account, region and instance family for list-ec2 --include-pricing.
+// ec2-commitment-analysis compares the same on-demand cost with Reserved Instance prices.
+
+import {
+  EC2CommitmentGroup,
+  EC2CommitmentOption,
+  EC2CommitmentTotal,
+  EC2CostTotal,
+  EC2CostTotals,
+  EC2InstanceInfo,
+  EC2Price,
+  EC2ReservedPrice,
+} from '../types'
+
+/**
+ * Hours in an average month (8760 hours per year / 12), as used by the AWS Pricing Calculator
+ */
+export const HOURS_PER_MONTH = 730
+
+/**
+ * Round a cost to 4 decimal places, to drop floating point noise from sums
+ */
+export function roundCost(value: number): number {
+  return Math.round(value * 10000) / 10000
+}
+
+/**
+ * Get the family of an instance type, e.g. m5 for m5.xlarge
+ */
+export function getInstanceFamily(instanceType: string): string {
+  return instanceType.split('.')[0]
+}
+
+/**
+ * Check whether an instance is billed for compute, i.e. running
+ */
+function isRunning(instance: EC2InstanceInfo): boolean {
+  return instance.State.toLowerCase() === 'running'
+}
+
+/**
+ * Set the price fields of an instance and project its monthly cost
+ *
+ * @param instance - Instance to update
+ * @param price - Price of its type, region and OS, or the reason no price is available
+ */
+export function applyEC2Price(instance: EC2InstanceInfo, price: EC2Price | string): void {
+  if (typeof price === 'string') {
+    instance.PriceError = price
+    return
+  }
+
+  Object.assign(instance, price)
+  instance.MonthlyCost = isRunning(instance) ? roundCost(price.HourlyPrice * HOURS_PER_MONTH) : 0
+}
+
+/**
+ * Total the cost of the running, priced instances by group and currency
+ */
+function totalBy(instances: EC2InstanceInfo[], groupOf: (instance: EC2InstanceInfo) => string): EC2CostTotal[] {
+  const totals = new Map<string, EC2CostTotal>()
+
+  instances.forEach((instance) => {
+    const group = groupOf(instance)
+    const currency = instance.Currency || ''
+    const key = `${group}\u0000${currency}`
+    const total = totals.get(key) || {
+      Group: group,
+      Currency: currency,
+      RunningInstances: 0,
+      HourlyCost: 0,
+      MonthlyCost: 0,
+    }
+    total.RunningInstances += 1
+    total.HourlyCost = roundCost(total.HourlyCost + (instance.HourlyPrice || 0))
+    total.MonthlyCost = roundCost(total.MonthlyCost + (instance.MonthlyCost || 0))
+    totals.set(key, total)
+  })
+
+  return Array.from(totals.values()).sort((a, b) => b.MonthlyCost - a.MonthlyCost || a.Group.localeCompare(b.Group))
+}
+
+/**
+ * Total the projected cost of the running instances by account, region and instance family
+ *
+ * Instances without a price are left out; costs in different currencies are never added up.
+ *
+ * @param instances - Instances with their price fields (see applyEC2Price)
+ * @returns Totals, most expensive groups first
+ */
+export function summarizeEC2Costs(instances: EC2InstanceInfo[]): EC2CostTotals {
+  const priced = instances.filter((instance) => isRunning(instance) && instance.HourlyPrice !== undefined)
+
+  return {
+    ByAccount: totalBy(priced, (instance) => `${instance.AccountId} (${instance.AccountName})`),
+    ByRegion: totalBy(priced, (instance) => instance.Region),
+    ByFamily: totalBy(priced, (instance) => getInstanceFamily(instance.Type)),
+    Total: totalBy(priced, () => 'All'),
+  }
+}
+
+/**
+ * Running instances of the same type, region and operating system
+ */
+export interface RunningInstanceGroup {
+  region: string
+  instanceType: string
+  os: string // Pricing OS, as returned by normalizeOSForPricing
+  instances: EC2InstanceInfo[]
+}
+
+/**
+ * Group running instances by region, instance type and pricing OS
+ *
+ * Reserved Instances apply to any account of the consolidated billing family, so accounts
+ * are not part of the grouping.
+ *
+ * @param instances - Instances of the fleet; instances that are not running are left out
+ * @param normalizeOS - Maps a detected OS to its pricing OS (normalizeOSForPricing)
+ * @returns Groups sorted by region and instance type
+ */
+export function groupRunningInstances(
+  instances: EC2InstanceInfo[],
+  normalizeOS: (os: string) => string,
+): RunningInstanceGroup[] {
+  const groups = new Map<string, RunningInstanceGroup>()
+
+  instances.filter(isRunning).forEach((instance) => {
+    const os = normalizeOS(instance.OS)
+    const key = `${instance.Region}:${instance.Type}:${os}`
+    const group = groups.get(key) || {
+      region: instance.Region,
+      instanceType: instance.Type,
+      os,
+      instances: [],
+    }
+    group.instances.push(instance)
+    groups.set(key, group)
+  })
+
+  return Array.from(groups.values()).sort(
+    (a, b) =>
+      a.region.localeCompare(b.region) || a.instanceType.localeCompare(b.instanceType) || a.os.localeCompare(b.os),
+  )
+}
+
+/**
+ * Get savings as a percentage of the on-demand cost, rounded to one decimal place
+ */
+function getSavingsPercent(savings: number, onDemandCost: number): number {
+  return onDemandCost > 0 ? Math.round((savings / onDemandCost) * 1000) / 10 : 0
+}
+
+/**
+ * Compare the on-demand cost of a group of running instances with each Reserved Instance option
+ *
+ * @param group - Running instances of the same type, region and OS
+ * @param onDemandPrice - On-demand price, or the reason it is not available
+ * @param reservedPrices - Reserved prices, or the reason they are not available
+ * @param offeringClasses - Offering classes to compare (standard, convertible)
+ * @returns The group with its options, largest savings first
+ */
+export function analyzeCommitmentGroup(
+  group: RunningInstanceGroup,
+  onDemandPrice: EC2Price | string,
+  reservedPrices: EC2ReservedPrice[] | string,
+  offeringClasses: string[],
+): EC2CommitmentGroup {
+  const count = group.instances.length
+  const result: EC2CommitmentGroup = {
+    Region: group.region,
+    InstanceType: group.instanceType,
+    PricingOS: typeof onDemandPrice === 'string' ? group.os : onDemandPrice.PricingOS,
+    RunningInstances: count,
+    Accounts: new Set(group.instances.map((instance) => instance.AccountId)).size,
+    Currency: typeof onDemandPrice === 'string' ? '' : onDemandPrice.Currency,
+    OnDemandMonthlyCost: 0,
+    BestOption: '',
+    BestMonthlySavings: 0,
+    BestSavingsPercent: 0,
+    Options: [],
+  }
+
+  if (typeof onDemandPrice === 'string') {
+    return { ...result, PriceError: onDemandPrice }
+  }
+
+  const onDemandMonthlyCost = roundCost(onDemandPrice.HourlyPrice * HOURS_PER_MONTH * count)
+  if (typeof reservedPrices === 'string') {
+    return { ...result, OnDemandMonthlyCost: onDemandMonthlyCost, PriceError: reservedPrices }
+  }
+
+  const options: EC2CommitmentOption[] = reservedPrices
+    .filter((price) => offeringClasses.includes(price.OfferingClass) && price.Currency === onDemandPrice.Currency)
+    .map((price) => {
+      const effectiveMonthlyCost = roundCost(price.EffectiveHourlyPrice * HOURS_PER_MONTH * count)
+      const monthlySavings = roundCost(onDemandMonthlyCost - effectiveMonthlyCost)
+      return {
+        Option: `${price.LeaseContractLength} ${price.OfferingClass} ${price.PurchaseOption}`,
+        LeaseContractLength: price.LeaseContractLength,
+        PurchaseOption: price.PurchaseOption,
+        OfferingClass: price.OfferingClass,
+        UpfrontCost: roundCost(price.UpfrontFee * count),
+        EffectiveMonthlyCost: effectiveMonthlyCost,
+        MonthlySavings: monthlySavings,
+        SavingsPercent: getSavingsPercent(monthlySavings, onDemandMonthlyCost),
+      }
+    })
+    .sort((a, b) => b.MonthlySavings - a.MonthlySavings || a.Option.localeCompare(b.Option))
+
+  const best = options[0]
+  return {
+    ...result,
+    OnDemandMonthlyCost: onDemandMonthlyCost,
+    BestOption: best ? best.Option : '',
+    BestMonthlySavings: best ? best.MonthlySavings : 0,
+    BestSavingsPercent: best ? best.SavingsPercent : 0,
+    Options: options,
+  }
+}
+
+/**
+ * Total the savings of each Reserved Instance option over the groups it is offered for
+ *
+ * @param groups - Analyzed groups
+ * @returns One total per option and currency, largest savings first
+ */
+export function summarizeCommitments(groups: EC2CommitmentGroup[]): EC2CommitmentTotal[] {
+  const totals = new Map<string, EC2CommitmentTotal>()
+
+  groups.forEach((group) => {
+    group.Options.forEach((option) => {
+      const key = `${option.Option}\u0000${group.Currency}`
+      const total = totals.get(key) || {
+        Option: option.Option,
+        Currency: group.Currency,
+        RunningInstances: 0,
+        OnDemandMonthlyCost: 0,
+        EffectiveMonthlyCost: 0,
+        MonthlySavings: 0,
+        SavingsPercent: 0,
+        UpfrontCost: 0,
+      }
+      total.RunningInstances += group.RunningInstances
+      total.OnDemandMonthlyCost = roundCost(total.OnDemandMonthlyCost + group.OnDemandMonthlyCost)
+      total.EffectiveMonthlyCost = roundCost(total.EffectiveMonthlyCost + option.EffectiveMonthlyCost)
+      total.MonthlySavings = roundCost(total.MonthlySavings + option.MonthlySavings)
+      total.UpfrontCost = roundCost(total.UpfrontCost + option.UpfrontCost)
+      totals.set(key, total)
+    })
+  })
+
+  return Array.from(totals.values())
+    .map((total) => ({
+      ...total,
+      SavingsPercent: getSavingsPercent(total.MonthlySavings, total.OnDemandMonthlyCost),
+    }))
+    .sort((a, b) => b.MonthlySavings - a.MonthlySavings || a.Option.localeCompare(b.Option))
+}
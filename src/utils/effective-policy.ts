@@ -0,0 +1,70 @@
+// File: src/utils/effective-policy.ts
+// Comparison of effective policies between accounts
+// Accounts of the same OU usually share the same effective policy; accounts whose effective
+// policy differs from the most common one in their OU are flagged, since they often carry an
+// account-level attachment or exception.
+
+import { EffectivePolicyInfo } from '../types'
+
+/**
+ * Serialize a JSON value with sorted object keys, so that equal documents compare equal
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`)
+    return `{${entries.join(',')}}`
+  }
+  return JSON.stringify(value)
+}
+
+/**
+ * Get a canonical form of a policy document for comparison
+ *
+ * @param content - Policy document (JSON text); not valid JSON is compared as is
+ */
+export function canonicalizePolicy(content: string): string {
+  try {
+    return stableStringify(JSON.parse(content))
+  } catch {
+    return content.trim()
+  }
+}
+
+/**
+ * Flag the accounts whose effective policy differs from the majority of their OU
+ *
+ * Accounts are grouped by parent and policy type. An account is flagged when another content
+ * is strictly more common than its own in the group, so accounts sharing one of the most common
+ * contents (including the only account of an OU) are never flagged.
+ *
+ * @param policies - Effective policies of the accounts
+ * @returns The same entries with DiffersFromOuMajority set
+ */
+export function flagOuMajorityDifferences(policies: EffectivePolicyInfo[]): EffectivePolicyInfo[] {
+  const groups = new Map<string, EffectivePolicyInfo[]>()
+  for (const policy of policies) {
+    const key = `${policy.ParentId}|${policy.PolicyType}`
+    groups.set(key, [...(groups.get(key) || []), policy])
+  }
+
+  const flagged = new Set<EffectivePolicyInfo>()
+  for (const group of groups.values()) {
+    const counts = new Map<string, number>()
+    group.forEach((policy) => {
+      const canonical = canonicalizePolicy(policy.Content)
+      counts.set(canonical, (counts.get(canonical) || 0) + 1)
+    })
+    const highest = Math.max(...counts.values())
+
+    group
+      .filter((policy) => counts.get(canonicalizePolicy(policy.Content))! < highest)
+      .forEach((policy) => flagged.add(policy))
+  }
+
+  return policies.map((policy) => ({ ...policy, DiffersFromOuMajority: flagged.has(policy) }))
+}
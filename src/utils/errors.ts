@@ -0,0 +1,116 @@
+// File: src/utils/errors.ts
+// Helpers for classifying AWS errors into per-account/per-region statuses
+
+import { TargetError, TargetStatus } from '../types'
+
+/**
+ * Exit code used when a command completed but some accounts/regions could not be checked
+ * Exit code 1 remains reserved for fatal errors that prevented the command from running.
+ */
+export const EXIT_CODE_INCOMPLETE = 2
+
+/**
+ * Exit code used by check-baseline when at least one account does not conform to the baseline
+ * It takes precedence over EXIT_CODE_INCOMPLETE, since a failed check is a definite finding.
+ */
+export const EXIT_CODE_NON_CONFORMING = 3
+
+/**
+ * Error names returned by AWS when a request is throttled
+ */
+const THROTTLING_ERROR_NAMES = [
+  'Throttling',
+  'ThrottlingException',
+  'ThrottledException',
+  'RequestLimitExceeded',
+  'TooManyRequestsException',
+  'RequestThrottled',
+  'RequestThrottledException',
+  'SlowDown',
+]
+
+/**
+ * Error names returned by AWS when the caller lacks permissions
+ */
+const ACCESS_DENIED_ERROR_NAMES = [
+  'AccessDenied',
+  'AccessDeniedException',
+  'UnauthorizedOperation',
+  'UnauthorizedException',
+  'Forbidden',
+]
+
+/**
+ * Error names returned when calling a region that is not enabled for the account
+ * Opt-in regions reject credentials issued for the account with an invalid token error.
+ */
+const REGION_DISABLED_ERROR_NAMES = [
+  'OptInRequired',
+  'UnrecognizedClientException',
+  'InvalidClientTokenId',
+  'AuthFailure',
+]
+
+// Shape of the fields we inspect on AWS SDK service errors
+interface ServiceErrorLike {
+  name?: string
+  message?: string
+  $metadata?: { httpStatusCode?: number }
+}
+
+/**
+ * Check whether an error is an AWS throttling error
+ */
+export function isThrottlingError(error: unknown): boolean {
+  const name = (error as ServiceErrorLike)?.name
+  return !!name && THROTTLING_ERROR_NAMES.includes(name)
+}
+
+/**
+ * Convert an unknown thrown value into a readable message
+ */
+export function toErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
+
+/**
+ * Classify an error raised while checking an account or account/region pair
+ *
+ * Region-disabled errors are only recognized for region-scoped checks: the same
+ * invalid-token errors raised while assuming a role point to a credential problem.
+ *
+ * @param error - Error thrown by the collector or credential lookup
+ * @param regionScoped - Whether the error happened while checking a specific region
+ * @returns Status describing why the check failed
+ */
+export function classifyError(error: unknown, regionScoped: boolean): Exclude<TargetStatus, 'ok'> {
+  const serviceError = (error || {}) as ServiceErrorLike
+  const name = serviceError.name || ''
+
+  if (isThrottlingError(error)) {
+    return 'throttled'
+  }
+
+  if (regionScoped && REGION_DISABLED_ERROR_NAMES.includes(name)) {
+    return 'region-disabled'
+  }
+
+  if (ACCESS_DENIED_ERROR_NAMES.includes(name) || serviceError.$metadata?.httpStatusCode === 403) {
+    return 'access-denied'
+  }
+
+  return 'error'
+}
+
+/**
+ * Flag the run as incomplete when some accounts/regions could not be checked
+ *
+ * Uses process.exitCode rather than process.exit so that pending output is flushed.
+ *
+ * @param errors - Errors recorded during the run
+ */
+export function setExitCodeForErrors(errors: TargetError[]): void {
+  if (errors.length > 0) {
+    process.exitCode = EXIT_CODE_INCOMPLETE
+  }
+}
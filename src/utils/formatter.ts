@@ -1,6 +1,8 @@
 // Update src/utils/formatter.ts to handle individual tag columns
 
 import { Table } from 'console-table-printer'
+import { SkippedRegion, TargetError } from '../types'
+import { logger } from './logger'
 
 /**
  * Process object values to format them for display
@@ -70,7 +72,38 @@ export function formatOutput(
       break
 
     default:
-      console.log('Unsupported output format. Using JSON:')
+      logger.warn('Unsupported output format. Using JSON:')
       console.log(JSON.stringify(data, null, 2))
   }
 }
+
+/**
+ * Format and display the results of a multi-account run together with the accounts/regions that failed
+ *
+ * JSON output wraps both in a single document ({ results, errors, skippedRegions }) so that consumers can detect
+ * incomplete data; table output prints the results followed by an "Errors" table and, with --all-regions,
+ * a "Skipped regions" table.
+ */
+export function formatResultsOutput(
+  results: Array<Record<string, unknown>>,
+  errors: TargetError[],
+  format = 'table',
+  skippedRegions: SkippedRegion[] = [],
+): void {
+  if (format.toLowerCase() !== 'table') {
+    formatOutput({ results, errors, skippedRegions }, format)
+    return
+  }
+
+  formatOutput(results, format)
+
+  if (errors.length > 0) {
+    console.log(`\nErrors (${errors.length} account/region checks failed):`)
+    formatOutput(errors as unknown as Array<Record<string, unknown>>, format)
+  }
+
+  if (skippedRegions.length > 0) {
+    console.log(`\nSkipped regions (${skippedRegions.length} regions not enabled for the account):`)
+    formatOutput(skippedRegions as unknown as Array<Record<string, unknown>>, format)
+  }
+}
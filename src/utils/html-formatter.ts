@@ -14,6 +14,13 @@ import {
   generateHENIHtml as generateHENITemplate,
   generateRoleCountHtml as generateRoleCountTemplate,
   generateS3Html as generateS3Template,
+  generateOrganizationTreeHtml as generateOrganizationTreeTemplate,
+  generateOrganizationPoliciesHtml as generateOrganizationPoliciesTemplate,
+  generateOrganizationServicesHtml as generateOrganizationServicesTemplate,
+  generateOrganizationDiffHtml as generateOrganizationDiffTemplate,
+  generateEffectivePoliciesHtml as generateEffectivePoliciesTemplate,
+  generateBaselineHtml as generateBaselineTemplate,
+  generateEC2CommitmentHtml as generateEC2CommitmentTemplate,
 } from '../templates'
 import {
   EC2InstanceInfo,
@@ -25,15 +32,33 @@ import {
   EBSVolumeInfo,
   HENIInfo,
   S3BucketInfo,
+  OrganizationTreeNode,
+  OrganizationPolicyInfo,
+  AccountPolicyInheritance,
+  OrganizationServicesReport,
+  OrganizationDiff,
+  EffectivePolicyInfo,
+  SkippedRegion,
+  TargetError,
+  AccountRoleCounts,
+  AccountBaselineSummary,
+  BaselineCheckResult,
+  EC2CommitmentGroup,
+  EC2CommitmentTotal,
+  EC2UpgradeRecommendation,
 } from '../types'
+import { logger } from './logger'
 
 export function generateEC2Html(
   instances: EC2InstanceInfo[],
   title: string,
   totalAccounts?: number,
   allAccounts?: Record<string, unknown>[],
+  errors: TargetError[] = [],
+  skippedRegions: SkippedRegion[] = [],
+  recommendations?: EC2UpgradeRecommendation[],
 ): string {
-  return generateEC2Template(instances, title, totalAccounts, allAccounts)
+  return generateEC2Template(instances, title, totalAccounts, allAccounts, errors, skippedRegions, recommendations)
 }
 
 export function generateRDSHtml(
@@ -41,8 +66,10 @@ export function generateRDSHtml(
   title: string,
   totalAccounts?: number,
   allAccounts?: Record<string, unknown>[],
+  errors: TargetError[] = [],
+  skippedRegions: SkippedRegion[] = [],
 ): string {
-  return generateRDSTemplate(instances, title, totalAccounts, allAccounts)
+  return generateRDSTemplate(instances, title, totalAccounts, allAccounts, errors, skippedRegions)
 }
 
 export function generateOpenSearchHtml(
@@ -50,12 +77,18 @@ export function generateOpenSearchHtml(
   title: string,
   totalAccounts?: number,
   allAccounts?: Record<string, unknown>[],
+  errors: TargetError[] = [],
+  skippedRegions: SkippedRegion[] = [],
 ): string {
-  return generateOpenSearchTemplate(domains, title, totalAccounts, allAccounts)
+  return generateOpenSearchTemplate(domains, title, totalAccounts, allAccounts, errors, skippedRegions)
 }
 
-export function generateAccountsHtml(accounts: Record<string, unknown>[], title: string): string {
-  return generateAccountsTemplate(accounts, title)
+export function generateAccountsHtml(
+  accounts: Record<string, unknown>[],
+  title: string,
+  errors: TargetError[] = [],
+): string {
+  return generateAccountsTemplate(accounts, title, errors)
 }
 
 export function generateELBHtml(
@@ -63,8 +96,10 @@ export function generateELBHtml(
   title: string,
   totalAccounts?: number,
   allAccounts?: Record<string, unknown>[],
+  errors: TargetError[] = [],
+  skippedRegions: SkippedRegion[] = [],
 ): string {
-  return generateELBTemplate(elbs, title, totalAccounts, allAccounts)
+  return generateELBTemplate(elbs, title, totalAccounts, allAccounts, errors, skippedRegions)
 }
 
 // Update the function signature to accept PolicyDocument
@@ -81,8 +116,10 @@ export function generateEBSHtml(
   title: string,
   totalAccounts?: number,
   allAccounts?: Record<string, unknown>[],
+  errors: TargetError[] = [],
+  skippedRegions: SkippedRegion[] = [],
 ): string {
-  return generateEBSTemplate(volumes, title, totalAccounts, allAccounts)
+  return generateEBSTemplate(volumes, title, totalAccounts, allAccounts, errors, skippedRegions)
 }
 
 export function generateHENIHtml(
@@ -90,8 +127,10 @@ export function generateHENIHtml(
   title: string,
   totalAccounts?: number,
   allAccounts?: Record<string, unknown>[],
+  errors: TargetError[] = [],
+  skippedRegions: SkippedRegion[] = [],
 ): string {
-  return generateHENITemplate(heniInfos, title, totalAccounts, allAccounts)
+  return generateHENITemplate(heniInfos, title, totalAccounts, allAccounts, errors, skippedRegions)
 }
 
 export function generateS3Html(
@@ -99,16 +138,18 @@ export function generateS3Html(
   title: string,
   totalAccounts?: number,
   allAccounts?: Record<string, unknown>[],
+  errors: TargetError[] = [],
 ): string {
-  return generateS3Template(buckets, title, totalAccounts, allAccounts)
+  return generateS3Template(buckets, title, totalAccounts, allAccounts, errors)
 }
 
 export function generateRoleCountHtml(
   formattedResults: Record<string, unknown>[],
-  accountRoleCounts: Map<string, { counts: Record<string, number>; accountName: string }>,
+  accountRoleCounts: Map<string, AccountRoleCounts>,
   title: string,
+  errors: TargetError[] = [],
 ): string {
-  return generateRoleCountTemplate(formattedResults, accountRoleCounts, title)
+  return generateRoleCountTemplate(formattedResults, accountRoleCounts, title, errors)
 }
 
 /**
@@ -722,7 +763,7 @@ export function openInBrowser(htmlContent: string, commandName: string): void {
   // Write the HTML content to the file
   fs.writeFileSync(filePath, htmlContent)
 
-  console.log(`Opening HTML report in browser: ${filePath}`)
+  logger.info(`Opening HTML report in browser: ${filePath}`)
 
   // Detect platform and open the browser
   const platform = process.platform
@@ -750,19 +791,53 @@ export function openInBrowser(htmlContent: string, commandName: string): void {
 
 /**
  * Generate HTML for the organization tree
- * Function signature exported for use in index.ts
  */
-export function generateOrganizationTreeHtml(
-  _treeData: {
-    rootId: string
-    ous: Record<string, unknown>[]
-    accounts: Record<string, unknown>[]
-  },
+export function generateOrganizationTreeHtml(roots: OrganizationTreeNode[], title: string): string {
+  return generateOrganizationTreeTemplate(roots, title)
+}
+
+export function generateOrganizationPoliciesHtml(
+  policies: OrganizationPolicyInfo[],
+  inheritance: AccountPolicyInheritance[],
+  title: string,
+): string {
+  return generateOrganizationPoliciesTemplate(policies, inheritance, title)
+}
+
+export function generateOrganizationServicesHtml(reports: OrganizationServicesReport[], title: string): string {
+  return generateOrganizationServicesTemplate(reports, title)
+}
+
+export function generateOrganizationDiffHtml(diff: OrganizationDiff, title: string): string {
+  return generateOrganizationDiffTemplate(diff, title)
+}
+
+export function generateEffectivePoliciesHtml(
+  policies: EffectivePolicyInfo[],
+  title: string,
+  errors: TargetError[] = [],
+): string {
+  return generateEffectivePoliciesTemplate(policies, title, errors)
+}
+
+export function generateBaselineHtml(
+  summaries: AccountBaselineSummary[],
+  results: BaselineCheckResult[],
+  title: string,
+  errors: TargetError[] = [],
+  skippedRegions: SkippedRegion[] = [],
+): string {
+  return generateBaselineTemplate(summaries, results, title, errors, skippedRegions)
+}
+
+export function generateEC2CommitmentHtml(
+  groups: EC2CommitmentGroup[],
+  totals: EC2CommitmentTotal[],
   title: string,
+  errors: TargetError[] = [],
+  skippedRegions: SkippedRegion[] = [],
 ): string {
-  // This is just a stub to export the function
-  // The actual implementation is in index.ts
-  return wrapInHtmlTemplate(`<div>See implementation in index.ts</div>`, title)
+  return generateEC2CommitmentTemplate(groups, totals, title, errors, skippedRegions)
 }
 
 /**
@@ -4,17 +4,69 @@
 export * from './formatter'
 export * from './html-formatter'
 export * from './clients'
-import { DEFAULT_REGION } from '../config/constants'
+import { InvalidArgumentError } from 'commander'
+import { getSettings } from '../config/settings'
+import { ROLE_ARN_PATTERN, SESSION_IDENTIFIER_PATTERN } from '../config/constants'
 
 /**
  * Helper to collect multiple region options
  */
 export function collectRegions(val: string, regions: string[]): string[] {
-  // If this is the first region specified, replace the default
-  if (regions.length === 1 && regions[0] === DEFAULT_REGION) {
+  // If this is the first region specified, replace the configured default regions
+  // (commander passes the default value itself on the first call)
+  if (regions === getSettings().regions) {
     return [val]
   }
   // Otherwise add to the list
   regions.push(val)
   return regions
 }
+
+/**
+ * Helper to parse an option value that must be a positive integer
+ */
+export function parsePositiveInteger(val: string): number {
+  const parsed = Number(val)
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new InvalidArgumentError('Must be a positive integer.')
+  }
+  return parsed
+}
+
+/**
+ * Helper to parse an option value that must be a non-negative integer
+ */
+export function parseNonNegativeInteger(val: string): number {
+  const parsed = Number(val)
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new InvalidArgumentError('Must be a non-negative integer.')
+  }
+  return parsed
+}
+
+/**
+ * Helper to collect the role ARNs of a role chain, in order
+ */
+export function collectRoleArns(val: string, roleArns: string[] = []): string[] {
+  if (!ROLE_ARN_PATTERN.test(val)) {
+    throw new InvalidArgumentError('Must be an IAM role ARN (arn:<partition>:iam::<account-id>:role/<name>).')
+  }
+  return [...roleArns, val]
+}
+
+/**
+ * Helper to collect the management account profiles of multi-organization mode
+ */
+export function collectOrganizationProfiles(val: string, profiles: string[] = []): string[] {
+  return [...profiles, val]
+}
+
+/**
+ * Helper to parse a role session name or source identity
+ */
+export function parseSessionIdentifier(val: string): string {
+  if (!SESSION_IDENTIFIER_PATTERN.test(val)) {
+    throw new InvalidArgumentError('Must be 2 to 64 letters, digits or any of _+=,.@-')
+  }
+  return val
+}
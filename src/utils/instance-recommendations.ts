@@ -0,0 +1,161 @@
+// File: src/utils/instance-recommendations.ts
+// EC2 generation upgrade recommendations
+// Instances of previous-generation families (see src/config/instance-families.ts) are matched with the
+// smallest size of the current-generation x86 and Graviton families that has at least their vCPUs and
+// memory, and the on-demand price of both types is compared for list-ec2 --recommend.
+
+import { EC2InstanceInfo, EC2InstanceTypeSpecs, EC2Price, EC2UpgradeRecommendation } from '../types'
+import { INSTANCE_FAMILIES } from '../config/instance-families'
+import { HOURS_PER_MONTH, getInstanceFamily, roundCost } from './ec2-costs'
+
+/**
+ * Get the vCPUs of a size that follows the usual scheme: 1 for medium, 2 for large, 4 per xlarge
+ *
+ * @returns vCPUs, or undefined for sizes without a fixed number (e.g. metal)
+ */
+function getSizeVCpus(size: string): number | undefined {
+  if (size === 'medium') {
+    return 1
+  }
+  if (size === 'large') {
+    return 2
+  }
+  const match = /^(\d*)xlarge$/.exec(size)
+  return match ? 4 * (parseInt(match[1], 10) || 1) : undefined
+}
+
+/**
+ * Get the vCPUs and memory of an instance type from the instance family catalog
+ *
+ * @param instanceType - Instance type, e.g. m4.xlarge
+ * @returns Specs, or undefined when the family or the size is not in the catalog
+ */
+export function getInstanceTypeSpecs(instanceType: string): EC2InstanceTypeSpecs | undefined {
+  const familyName = getInstanceFamily(instanceType)
+  const family = INSTANCE_FAMILIES[familyName]
+  const size = instanceType.slice(familyName.length + 1)
+  if (!family || !size) {
+    return undefined
+  }
+
+  const specs = family.SizeSpecs?.[size]
+  if (specs) {
+    return { InstanceType: instanceType, Family: familyName, VCpus: specs[0], MemoryGiB: specs[1] }
+  }
+
+  const vCpus = getSizeVCpus(size)
+  if (vCpus === undefined) {
+    return undefined
+  }
+  return { InstanceType: instanceType, Family: familyName, VCpus: vCpus, MemoryGiB: vCpus * family.MemoryPerVCpu }
+}
+
+/**
+ * Find the smallest size of a family with at least the vCPUs and memory of an instance type
+ *
+ * @param familyName - Family to pick a size from; it must list its sizes
+ * @param specs - Specs the size must cover
+ * @returns Instance type, or undefined when no size is large enough
+ */
+function findCoveringType(familyName: string, specs: EC2InstanceTypeSpecs): EC2InstanceTypeSpecs | undefined {
+  return (INSTANCE_FAMILIES[familyName]?.Sizes || [])
+    .map((size) => getInstanceTypeSpecs(`${familyName}.${size}`))
+    .filter((candidate): candidate is EC2InstanceTypeSpecs => candidate !== undefined)
+    .filter((candidate) => candidate.VCpus >= specs.VCpus && candidate.MemoryGiB >= specs.MemoryGiB)
+    .sort((a, b) => a.VCpus - b.VCpus || a.MemoryGiB - b.MemoryGiB)[0]
+}
+
+/**
+ * Get the current-generation types an instance type can be upgraded to
+ *
+ * Graviton types are not offered for Windows, which does not run on arm64.
+ *
+ * @param instanceType - Instance type, e.g. m4.xlarge
+ * @param pricingOS - Operating system, as returned by normalizeOSForPricing
+ * @returns Upgrade options; empty for current-generation families and families not in the catalog
+ */
+export function getUpgradeOptions(
+  instanceType: string,
+  pricingOS: string,
+): Array<{ option: EC2UpgradeRecommendation['Option']; specs: EC2InstanceTypeSpecs }> {
+  const specs = getInstanceTypeSpecs(instanceType)
+  const family = INSTANCE_FAMILIES[getInstanceFamily(instanceType)]
+  if (!specs || !family || family.Current) {
+    return []
+  }
+
+  const options: Array<{ option: EC2UpgradeRecommendation['Option']; specs: EC2InstanceTypeSpecs }> = []
+  const upgrade = family.Upgrade && findCoveringType(family.Upgrade, specs)
+  if (upgrade) {
+    options.push({ option: 'Current generation', specs: upgrade })
+  }
+  const graviton = pricingOS !== 'Windows' && family.GravitonUpgrade && findCoveringType(family.GravitonUpgrade, specs)
+  if (graviton) {
+    options.push({ option: 'Graviton', specs: graviton })
+  }
+  return options
+}
+
+/**
+ * Recommend current-generation types for the instances of previous-generation families
+ *
+ * @param instances - Instances of the fleet
+ * @param normalizeOS - Maps a detected OS to its pricing OS (normalizeOSForPricing)
+ * @param getPrice - Price of an instance type, region and pricing OS, or the reason it is not available
+ * @returns One recommendation per instance and upgrade option, largest monthly savings first
+ */
+export function recommendUpgrades(
+  instances: EC2InstanceInfo[],
+  normalizeOS: (os: string) => string,
+  getPrice: (instanceType: string, region: string, pricingOS: string) => EC2Price | string,
+): EC2UpgradeRecommendation[] {
+  const recommendations: EC2UpgradeRecommendation[] = []
+
+  instances.forEach((instance) => {
+    const pricingOS = normalizeOS(instance.OS)
+    const current = getInstanceTypeSpecs(instance.Type)
+    if (!current) {
+      return
+    }
+
+    getUpgradeOptions(instance.Type, pricingOS).forEach(({ option, specs }) => {
+      const recommendation: EC2UpgradeRecommendation = {
+        AccountId: instance.AccountId,
+        AccountName: instance.AccountName,
+        Region: instance.Region,
+        InstanceId: instance.InstanceId,
+        Name: instance.Name,
+        State: instance.State,
+        InstanceType: instance.Type,
+        Option: option,
+        RecommendedType: specs.InstanceType,
+        VCpus: `${current.VCpus} -> ${specs.VCpus}`,
+        MemoryGiB: `${current.MemoryGiB} -> ${specs.MemoryGiB}`,
+      }
+
+      const price = getPrice(instance.Type, instance.Region, pricingOS)
+      const recommendedPrice = getPrice(specs.InstanceType, instance.Region, pricingOS)
+      if (typeof price === 'string' || typeof recommendedPrice === 'string') {
+        recommendation.PriceError = typeof price === 'string' ? price : `${specs.InstanceType}: ${recommendedPrice}`
+      } else if (price.Currency !== recommendedPrice.Currency) {
+        recommendation.PriceError = 'Prices in different currencies'
+      } else {
+        recommendation.Currency = price.Currency
+        recommendation.HourlyPrice = price.HourlyPrice
+        recommendation.RecommendedHourlyPrice = recommendedPrice.HourlyPrice
+        recommendation.MonthlyDelta = roundCost((recommendedPrice.HourlyPrice - price.HourlyPrice) * HOURS_PER_MONTH)
+      }
+      if (option === 'Graviton') {
+        recommendation.Note = 'Requires arm64 AMIs and software'
+      }
+      recommendations.push(recommendation)
+    })
+  })
+
+  return recommendations.sort(
+    (a, b) =>
+      (a.MonthlyDelta ?? Infinity) - (b.MonthlyDelta ?? Infinity) ||
+      a.InstanceId.localeCompare(b.InstanceId) ||
+      a.Option.localeCompare(b.Option),
+  )
+}
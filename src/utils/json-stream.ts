@@ -0,0 +1,201 @@
+// File: src/utils/json-stream.ts
+// Streaming reader for large JSON files
+// Files such as the AWS bulk price lists can be larger than the longest string V8 can hold, so they
+// cannot go through JSON.parse as a whole. The file is scanned in chunks instead, and only the members
+// the caller asks for are parsed.
+
+import * as fs from 'fs'
+import { StringDecoder } from 'string_decoder'
+
+/**
+ * Size of the chunks read from the file
+ */
+const CHUNK_SIZE = 1024 * 1024
+
+/**
+ * What to do with a member of an object:
+ * - 'descend': report the members of its value (objects only; other values are skipped)
+ * - a function: parse the value and pass it to the function
+ * - undefined: skip the value
+ */
+export type JsonMemberAction = 'descend' | ((value: unknown) => void) | undefined
+
+// Object or array being scanned
+interface ContainerFrame {
+  isObject: boolean
+  key?: string // Key of the member being scanned (objects)
+  expectKey: boolean // Whether the next string is a key (objects)
+  valueStarted: boolean // Whether the value of the current member has started (objects)
+}
+
+/**
+ * Check whether a character is JSON whitespace
+ */
+function isWhitespace(char: string): boolean {
+  return char === ' ' || char === '\n' || char === '\r' || char === '\t'
+}
+
+/**
+ * Read the members of a JSON file without loading the whole file
+ *
+ * The root value must be an object. Its members are reported to onMember with their key path,
+ * e.g. ['products', 'ABC123'], and so are the members of every object onMember descends into.
+ *
+ * @param filePath - Path of the JSON file
+ * @param onMember - Decides what to do with each member, from its key path
+ * @throws When the file cannot be read or is not valid JSON
+ */
+export function readJsonMembers(filePath: string, onMember: (path: string[]) => JsonMemberAction): void {
+  const stack: ContainerFrame[] = []
+  const decoder = new StringDecoder('utf8')
+
+  let inString = false
+  let pendingEscape = false // Whether the chunk ended right after a backslash in a string
+  let stringParts: string[] | undefined // Text of the key being read, quotes included
+  let skipDepth = -1 // Stack depth of the value being skipped; -1 when not skipping
+  let capture: { depth: number; parts: string[]; start: number; handler: (value: unknown) => void } | undefined
+  let capturedPrimitive = false // Whether the captured value is a number or a literal
+
+  const finishCapture = (text: string, end: number): void => {
+    if (!capture) {
+      return
+    }
+    const { parts, start, handler } = capture
+    capture = undefined
+    capturedPrimitive = false
+    handler(JSON.parse(parts.join('') + text.slice(start, end)))
+  }
+
+  // Decide what to do with the value of the current member, which starts at index i
+  const startValue = (text: string, i: number, char: string): void => {
+    const frame = stack[stack.length - 1]
+    if (!frame || !frame.isObject || frame.valueStarted || skipDepth >= 0 || capture) {
+      return
+    }
+    frame.valueStarted = true
+
+    const action = onMember(stack.map((container) => container.key || ''))
+    if (typeof action === 'function') {
+      capture = { depth: stack.length, parts: [], start: i, handler: action }
+      capturedPrimitive = char !== '{' && char !== '[' && char !== '"'
+    } else if ((char === '{' || char === '[') && (action !== 'descend' || char === '[')) {
+      // Other values have no members to report
+      skipDepth = stack.length
+    }
+  }
+
+  const specialInString = /["\\]/g
+  const fd = fs.openSync(filePath, 'r')
+  try {
+    const buffer = Buffer.alloc(CHUNK_SIZE)
+    let bytesRead: number
+    while ((bytesRead = fs.readSync(fd, buffer, 0, CHUNK_SIZE, null)) > 0) {
+      const text = decoder.write(buffer.subarray(0, bytesRead))
+
+      let i = 0
+      while (i < text.length) {
+        if (inString) {
+          if (pendingEscape) {
+            stringParts?.push(text[i])
+            pendingEscape = false
+            i++
+            continue
+          }
+
+          // Jump to the next quote or escape
+          specialInString.lastIndex = i
+          const match = specialInString.exec(text)
+          if (!match) {
+            stringParts?.push(text.slice(i))
+            i = text.length
+            break
+          }
+          const index = match.index
+          if (text[index] === '\\') {
+            // Skip the escaped character, which may be in the next chunk
+            if (index + 1 >= text.length) {
+              stringParts?.push(text.slice(i))
+              i = text.length
+              pendingEscape = true
+              break
+            }
+            stringParts?.push(text.slice(i, index + 2))
+            i = index + 2
+            continue
+          }
+
+          stringParts?.push(text.slice(i, index + 1))
+          inString = false
+          i = index + 1
+          if (stringParts) {
+            stack[stack.length - 1].key = JSON.parse(stringParts.join('')) as string
+            stringParts = undefined
+          } else if (capture && capture.depth === stack.length) {
+            finishCapture(text, i)
+          }
+          continue
+        }
+
+        const char = text[i]
+        if (capturedPrimitive && (char === ',' || char === '}' || char === ']' || isWhitespace(char))) {
+          finishCapture(text, i)
+        }
+
+        const frame = stack[stack.length - 1]
+        switch (char) {
+          case '{':
+          case '[':
+            startValue(text, i, char)
+            stack.push({ isObject: char === '{', expectKey: char === '{', valueStarted: false })
+            break
+          case '}':
+          case ']':
+            stack.pop()
+            if (capture && capture.depth === stack.length) {
+              finishCapture(text, i + 1)
+            }
+            if (skipDepth === stack.length) {
+              skipDepth = -1
+            }
+            break
+          case ':':
+            if (frame?.isObject) {
+              frame.expectKey = false
+            }
+            break
+          case ',':
+            if (frame?.isObject) {
+              frame.expectKey = true
+              frame.valueStarted = false
+            }
+            break
+          case '"':
+            inString = true
+            if (frame?.isObject && frame.expectKey) {
+              // Keys of skipped and captured values are not needed
+              stringParts = skipDepth < 0 && !capture ? ['"'] : undefined
+            } else {
+              startValue(text, i, char)
+            }
+            break
+          default:
+            if (!isWhitespace(char)) {
+              startValue(text, i, char)
+            }
+        }
+        i++
+      }
+
+      if (capture) {
+        capture.parts.push(text.slice(capture.start))
+        capture.start = 0
+      }
+    }
+  } finally {
+    fs.closeSync(fd)
+  }
+
+  if (inString || stack.length > 0) {
+    throw new Error('Unexpected end of JSON input')
+  }
+}
@@ -0,0 +1,92 @@
+// File: src/utils/logger.ts
+// Diagnostic logging for commands and services
+// All diagnostics are written to stderr so that stdout only carries the formatted
+// command result (see formatOutput) and can be piped into other tools.
+
+import { format } from 'util'
+
+/**
+ * Supported log levels, from least to most verbose
+ * - quiet: errors only
+ * - normal: errors, warnings and progress messages (default)
+ * - verbose: adds per-account/per-region progress details
+ * - debug: adds low-level details such as pricing lookups and full error objects
+ */
+export type LogLevel = 'quiet' | 'normal' | 'verbose' | 'debug'
+
+const LOG_LEVEL_ORDER: Record<LogLevel, number> = {
+  quiet: 0,
+  normal: 1,
+  verbose: 2,
+  debug: 3,
+}
+
+// Level applied to the whole process; set once from the global CLI options
+let currentLevel: LogLevel = 'normal'
+
+/**
+ * Global options controlling the log level
+ */
+export interface LogLevelOptions {
+  quiet?: boolean
+  verbose?: boolean
+  debug?: boolean
+}
+
+/**
+ * Set the log level for the rest of the execution
+ */
+export function setLogLevel(level: LogLevel): void {
+  currentLevel = level
+}
+
+/**
+ * Get the current log level
+ */
+export function getLogLevel(): LogLevel {
+  return currentLevel
+}
+
+/**
+ * Resolve the log level from the --quiet/--verbose/--debug flags
+ * When several flags are given, the most verbose one wins.
+ */
+export function resolveLogLevel(options: LogLevelOptions): LogLevel {
+  if (options.debug) return 'debug'
+  if (options.verbose) return 'verbose'
+  if (options.quiet) return 'quiet'
+  return 'normal'
+}
+
+/**
+ * Check whether messages of the given level are currently written
+ */
+export function isLevelEnabled(level: LogLevel): boolean {
+  return LOG_LEVEL_ORDER[currentLevel] >= LOG_LEVEL_ORDER[level]
+}
+
+/**
+ * Write a message to stderr if the level is enabled
+ */
+function write(level: LogLevel, args: unknown[]): void {
+  if (isLevelEnabled(level)) {
+    process.stderr.write(`${format(...args)}\n`)
+  }
+}
+
+/**
+ * Logger shared by commands and services
+ * Arguments are formatted like console.log (util.format).
+ */
+export const logger = {
+  /** Failures; written at every level, including --quiet */
+  error: (...args: unknown[]): void => write('quiet', args),
+  /** Recoverable problems */
+  warn: (...args: unknown[]): void => write('normal', args),
+  /** Progress messages and summaries */
+  info: (...args: unknown[]): void => write('normal', args),
+  /** Per-account/per-region progress details (--verbose) */
+  verbose: (...args: unknown[]): void => write('verbose', args),
+  /** Low-level troubleshooting details (--debug) */
+  debug: (...args: unknown[]): void => write('debug', args),
+}
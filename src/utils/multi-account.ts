@@ -0,0 +1,332 @@
+// File: src/utils/multi-account.ts
+// Shared execution engine for commands that fan out across accounts and regions
+// Every list-* command delegates account selection, credential setup and region
+// iteration to this module so behaviour, logging and error handling stay consistent.
+
+import {
+  AccountSelectionOptions,
+  AccountTarget,
+  MultiAccountResult,
+  RegionTarget,
+  RoleCredentials,
+  SkippedRegion,
+  TargetError,
+  TargetStatusInfo,
+} from '../types'
+import { STSClient } from '@aws-sdk/client-sts'
+import { createSTSClient, getRetryStats } from './clients'
+import { getAccountCredentials } from './credential-helper'
+import { createLimiter, DEFAULT_MAX_CONCURRENCY, Limiter } from './concurrency'
+import { classifyError, toErrorMessage } from './errors'
+import { selectAccounts } from './account-selection'
+import { getOrganizationTargets, OrganizationTarget, withOrganizationId } from './multi-org'
+import { getAccountRegions } from '../services/regions'
+import { logger } from './logger'
+
+/**
+ * Options controlling a multi-account run
+ */
+export interface MultiAccountRunOptions {
+  profile?: string // AWS profile used for Organizations and STS calls; replaced by the organization profiles in multi-organization mode
+  roleName: string // Role to assume in each target account
+  selection?: AccountSelectionOptions // Account selectors; all accounts of the organization when omitted
+  resourceLabel: string // Plural resource name used in progress messages (e.g. "EC2 instances")
+  maxConcurrency?: number // Maximum number of account/region operations running at once
+}
+
+/**
+ * Options for a run that iterates over regions inside each account
+ */
+export interface MultiRegionRunOptions extends MultiAccountRunOptions {
+  regions: string[] // Regions to check; with allRegions, the first one is used for region discovery
+  allRegions?: boolean // Check every region enabled in each account instead of the regions list
+  excludeRegions?: string[] // Regions never checked
+}
+
+/**
+ * Collector invoked once per account
+ */
+export type AccountCollector<T> = (target: AccountTarget) => Promise<T[]>
+
+/**
+ * Collector invoked once per account/region pair
+ */
+export type RegionCollector<T> = (target: RegionTarget) => Promise<T[]>
+
+/**
+ * Run a collector once for every active account in the selection
+ *
+ * This function:
+ * 1. Retrieves the selected accounts from AWS Organizations (from each organization in multi-organization mode)
+ * 2. Filters out suspended/closed accounts
+ * 3. Resolves credentials for each account (current credentials for the caller's own account)
+ * 4. Runs the collector and gathers results and per-account errors
+ *
+ * Failures never abort the run; each account gets a status (ok, access-denied, throttled, error)
+ * and the failed ones are also returned in the errors array.
+ *
+ * @param options - Run options (profile, role name, account selectors, resource label)
+ * @param collector - Function returning the resources found in one account
+ * @returns Results from all accounts along with any per-account errors
+ */
+export async function runAcrossAccounts<T>(
+  options: MultiAccountRunOptions,
+  collector: AccountCollector<T>,
+): Promise<MultiAccountResult<T>> {
+  const statuses: TargetStatusInfo[] = []
+
+  const results = await executeAcrossAccounts(options, statuses, async (target, limit) => {
+    const items = await limit(() => collector(target))
+    logger.verbose(`Found ${items.length} ${options.resourceLabel} for account ${target.accountId}`)
+    statuses.push({ AccountId: target.accountId, AccountName: target.accountName, Status: 'ok' })
+    return items
+  })
+
+  return { ...results, statuses, errors: getErrors(statuses), skippedRegions: [] }
+}
+
+/**
+ * Run a collector for every region of every active account in the selection
+ *
+ * Regions of an account are processed concurrently once the account credentials
+ * are resolved, within the overall concurrency limit. A failing region is recorded
+ * with its status (e.g. region-disabled) without affecting the other regions of the same account.
+ *
+ * With allRegions, the regions enabled in each account are discovered first; regions the
+ * account has not opted in to are reported in skippedRegions instead of being checked.
+ *
+ * @param options - Run options including the regions to check
+ * @param collector - Function returning the resources found in one account/region
+ * @returns Results from all accounts and regions along with any per-target errors
+ */
+export async function runAcrossAccountsAndRegions<T>(
+  options: MultiRegionRunOptions,
+  collector: RegionCollector<T>,
+): Promise<MultiAccountResult<T>> {
+  const statuses: TargetStatusInfo[] = []
+  const skippedRegions: SkippedRegion[] = []
+  const excludedRegions = new Set(options.excludeRegions || [])
+
+  const results = await executeAcrossAccounts(options, statuses, async (target, limit, resolveCredentials) => {
+    // Either the requested regions or every region enabled for the account
+    let regions = options.regions
+    if (options.allRegions) {
+      const accountRegions = await limit(() =>
+        getAccountRegions(target.credentials, options.regions[0], target.accountId),
+      )
+      regions = accountRegions.enabled
+      logger.verbose(
+        `Discovered ${accountRegions.enabled.length} enabled regions for account ${target.accountId} (${accountRegions.disabled.length} disabled)`,
+      )
+
+      accountRegions.disabled
+        .filter((region) => !excludedRegions.has(region))
+        .forEach((region) => {
+          const skipped: SkippedRegion = {
+            AccountId: target.accountId,
+            AccountName: target.accountName,
+            Region: region,
+            Reason: 'Region not enabled for this account',
+          }
+          skippedRegions.push(target.organizationId ? withOrganizationId(skipped, target.organizationId) : skipped)
+        })
+    }
+
+    const regionResults = await Promise.all(
+      regions
+        .filter((region) => !excludedRegions.has(region))
+        .map(async (region) => {
+          try {
+            // Credentials are resolved again when the region starts, since queued regions can start
+            // long after the account credentials were obtained; expiring credentials are refreshed
+            const items = await limit(async () =>
+              collector({ ...target, credentials: await resolveCredentials(), region }),
+            )
+            logger.verbose(
+              `Found ${items.length} ${options.resourceLabel} in ${region} for account ${target.accountId}`,
+            )
+            statuses.push({
+              AccountId: target.accountId,
+              AccountName: target.accountName,
+              Region: region,
+              Status: 'ok',
+            })
+            return items
+          } catch (regionError) {
+            logger.warn(
+              `Error checking region ${region} in account ${target.accountId}: ${toErrorMessage(regionError)}`,
+            )
+            logger.debug(regionError)
+            statuses.push({
+              AccountId: target.accountId,
+              AccountName: target.accountName,
+              Region: region,
+              Status: classifyError(regionError, true),
+              Error: toErrorMessage(regionError),
+            })
+            return []
+          }
+        }),
+    )
+
+    return regionResults.flat()
+  })
+
+  if (skippedRegions.length > 0) {
+    logger.info(`Skipped ${skippedRegions.length} account/region pairs where the region is not enabled`)
+  }
+
+  return { ...results, statuses, errors: getErrors(statuses), skippedRegions }
+}
+
+/**
+ * Extract the failed targets from the recorded statuses
+ */
+function getErrors(statuses: TargetStatusInfo[]): TargetError[] {
+  return statuses.filter((status): status is TargetError => status.Status !== 'ok')
+}
+
+/**
+ * Shared implementation behind runAcrossAccounts and runAcrossAccountsAndRegions
+ *
+ * @param options - Run options
+ * @param statuses - Array that account-level failures are appended to
+ * @param processAccount - Function processing a single account once credentials are resolved.
+ *   It receives the shared limiter and must schedule each API-bound unit of work through it,
+ *   and a function returning valid (refreshed if needed) credentials for the account.
+ * @returns Selected accounts and the flattened results
+ */
+async function executeAcrossAccounts<T>(
+  options: MultiAccountRunOptions,
+  statuses: TargetStatusInfo[],
+  processAccount: (
+    target: AccountTarget,
+    limit: Limiter,
+    resolveCredentials: () => Promise<RoleCredentials | null>,
+  ) => Promise<T[]>,
+): Promise<Omit<MultiAccountResult<T>, 'statuses' | 'errors' | 'skippedRegions'>> {
+  // Accounts of every organization: the organization of each management profile in
+  // multi-organization mode, otherwise the organization of the command profile
+  const organizations = await listOrganizationAccounts(options)
+  const accounts = organizations.flatMap((organization) => organization.accounts)
+
+  logger.info(`Found ${accounts.length} accounts to check`)
+
+  // One limiter is shared by credential lookups and collectors so that the limit
+  // applies to the whole run rather than to each account separately
+  const maxConcurrency = options.maxConcurrency || DEFAULT_MAX_CONCURRENCY
+  const limit = createLimiter(maxConcurrency)
+
+  // Filter only active accounts to process (ignore suspended/closed accounts)
+  const activeTargets = organizations.flatMap((organization) =>
+    organization.accounts
+      .filter((account) => account.Id && account.Status === 'ACTIVE')
+      .map((account) => ({ account, organization })),
+  )
+  const activeAccounts = activeTargets.map(({ account }) => account)
+
+  logger.info(`Processing ${activeAccounts.length} active accounts (max concurrency ${maxConcurrency})...`)
+
+  const accountPromises = activeTargets.map(async ({ account, organization }) => {
+    const accountId = String(account.Id)
+    const accountName = String(account.Name || 'Unknown')
+    const { organizationId, profile, stsClient } = organization
+    logger.verbose(`Starting check for account: ${accountId} (${accountName})`)
+
+    try {
+      // Returns the profile credentials (or null without a profile) for the current account,
+      // or assumed role credentials for cross-account access
+      const resolveCredentials = () => getAccountCredentials(stsClient, accountId, options.roleName, profile)
+      const credentials = await limit(resolveCredentials)
+
+      const items = await processAccount(
+        { accountId, accountName, credentials, organizationId },
+        limit,
+        resolveCredentials,
+      )
+      return organizationId ? items.map((item) => withOrganizationId(item, organizationId)) : items
+    } catch (accountError) {
+      logger.warn(`Error processing account ${accountId}: ${toErrorMessage(accountError)}`)
+      logger.debug(accountError)
+      statuses.push({
+        AccountId: accountId,
+        AccountName: accountName,
+        Status: classifyError(accountError, false),
+        Error: toErrorMessage(accountError),
+      })
+      return []
+    }
+  })
+
+  const results = (await Promise.all(accountPromises)).flat()
+
+  logger.info(`Found ${results.length} ${options.resourceLabel} total`)
+
+  // Surface SDK retries so that throttling is visible instead of silently slowing the run
+  const retryStats = getRetryStats()
+  if (retryStats.retriedRequests > 0) {
+    logger.warn(
+      `${retryStats.retriedRequests} API requests were retried (${retryStats.totalRetries} retries in total) due to throttling or transient errors`,
+    )
+  }
+  if (retryStats.throttledFailures > 0) {
+    logger.warn(`${retryStats.throttledFailures} API requests failed because of throttling after all retries`)
+  }
+
+  const failedCount = statuses.filter((status) => status.Status !== 'ok').length
+  if (failedCount > 0) {
+    logger.warn(`Completed with ${failedCount} failed account/region checks`)
+  }
+
+  // Statuses are recorded by the callers, so they are tagged once every account is done
+  if (organizations.some((organization) => organization.organizationId)) {
+    const organizationByAccount = new Map(activeTargets.map(({ account, organization }) => [account.Id, organization]))
+    statuses.forEach((status, index) => {
+      const organizationId = organizationByAccount.get(status.AccountId)?.organizationId
+      if (organizationId) {
+        statuses[index] = withOrganizationId(status, organizationId)
+      }
+    })
+  }
+
+  return { accounts, activeAccounts, results }
+}
+
+/**
+ * Selected accounts of one organization, with the clients used to reach them
+ */
+interface OrganizationAccounts extends Omit<OrganizationTarget, 'client'> {
+  stsClient: STSClient
+  accounts: Record<string, unknown>[]
+}
+
+/**
+ * Get the selected accounts of each organization to check
+ *
+ * In multi-organization mode, every account is tagged with the OrganizationId of the
+ * profile it was listed with.
+ *
+ * @param options - Run options (profile and account selectors)
+ * @returns Accounts of each organization, in the order of the profiles
+ */
+async function listOrganizationAccounts(options: MultiAccountRunOptions): Promise<OrganizationAccounts[]> {
+  const organizations: OrganizationAccounts[] = []
+
+  for (const { organizationId, profile, client } of await getOrganizationTargets(options.profile)) {
+    // Get the accounts matching the selectors (or all accounts in the organization)
+    const accounts = await selectAccounts(client, options.selection)
+    if (organizationId) {
+      logger.info(`Found ${accounts.length} accounts in organization ${organizationId} (profile ${profile})`)
+    }
+
+    organizations.push({
+      organizationId,
+      profile,
+      // STS client of the same profile, used to assume roles in the accounts of the organization
+      stsClient: createSTSClient(profile),
+      accounts: organizationId ? accounts.map((account) => withOrganizationId(account, organizationId)) : accounts,
+    })
+  }
+
+  return organizations
+}
@@ -0,0 +1,100 @@
+// File: src/utils/multi-org.ts
+// Multi-organization mode
+// With one or more management account profiles (global --org-profile option or the orgProfiles
+// setting), multi-account commands run against the organization of each profile and tag every
+// account, result and error with its OrganizationId. Otherwise the --profile of the command
+// selects a single organization and results are left as they are.
+
+import { Organizations } from '@aws-sdk/client-organizations'
+import { getOrganizationDetails } from '../services/organization'
+import { createOrganizationsClient } from './clients'
+import { logger } from './logger'
+
+/**
+ * Organization reached through a management account profile
+ */
+export interface OrganizationTarget {
+  organizationId?: string // Set in multi-organization mode only
+  profile?: string // Management account profile
+  client: Organizations
+}
+
+// Management account profiles; set once from the global CLI options
+let organizationProfiles: string[] = []
+
+/**
+ * Set the management account profiles of the organizations to check
+ *
+ * @param profiles - AWS profiles, one per organization; an empty list disables the mode
+ */
+export function configureOrganizationProfiles(profiles: string[]): void {
+  organizationProfiles = [...new Set(profiles)]
+}
+
+/**
+ * Get the management account profiles of the organizations to check
+ */
+export function getOrganizationProfiles(): string[] {
+  return organizationProfiles
+}
+
+/**
+ * Check whether commands run against several organizations
+ */
+export function isMultiOrganization(): boolean {
+  return organizationProfiles.length > 0
+}
+
+/**
+ * Get the ID of the organization an Organizations client belongs to
+ *
+ * @param client - Organizations client of the management account profile
+ * @param profile - Profile name, used in the error message
+ * @returns Organization ID (o-xxxxxxxxxx)
+ * @throws When the account of the profile is not in an organization
+ */
+export async function getOrganizationId(client: Organizations, profile: string): Promise<string> {
+  const organization = await getOrganizationDetails(client)
+  if (!organization?.Id) {
+    throw new Error(`The account of profile "${profile}" is not part of an organization`)
+  }
+  return String(organization.Id)
+}
+
+/**
+ * Get the organizations a command runs against
+ *
+ * In multi-organization mode, one per configured profile; a profile of an organization
+ * already listed is skipped with a warning. Otherwise, the organization of the command profile.
+ *
+ * @param profile - AWS profile of the command, used outside multi-organization mode
+ * @returns Organizations with their Organizations client, in the order of the profiles
+ */
+export async function getOrganizationTargets(profile?: string): Promise<OrganizationTarget[]> {
+  if (!isMultiOrganization()) {
+    return [{ profile, client: createOrganizationsClient(profile) }]
+  }
+
+  const targets: OrganizationTarget[] = []
+  for (const organizationProfile of organizationProfiles) {
+    const client = createOrganizationsClient(organizationProfile)
+    const organizationId = await getOrganizationId(client, organizationProfile)
+    if (targets.some((target) => target.organizationId === organizationId)) {
+      logger.warn(`Profile ${organizationProfile} belongs to organization ${organizationId}, which is already checked`)
+      continue
+    }
+    targets.push({ organizationId, profile: organizationProfile, client })
+  }
+  return targets
+}
+
+/**
+ * Add the OrganizationId column in front of the fields of a record
+ *
+ * @param record - Account, result or error record
+ * @param organizationId - Organization the record belongs to
+ * @returns Copy of the record with OrganizationId as its first field
+ */
+export function withOrganizationId<T>(record: T, organizationId: string): T {
+  return { OrganizationId: organizationId, ...record }
+}
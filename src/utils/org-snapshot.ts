@@ -0,0 +1,233 @@
+// File: src/utils/org-snapshot.ts
+// Organization snapshots and the comparison of two snapshots
+// A snapshot records the accounts, OUs and SCP attachments of the organization at a point in time
+// as JSON, so that `org-diff` can later report what changed.
+
+import * as fs from 'fs'
+import {
+  OrganizationChange,
+  OrganizationDiff,
+  OrganizationSnapshot,
+  SnapshotAccount,
+  SnapshotOrganizationalUnit,
+  SnapshotPolicyAttachment,
+} from '../types'
+
+/**
+ * Version of the snapshot file format
+ */
+export const SNAPSHOT_VERSION = 1
+
+/**
+ * Get the default file name of a snapshot, e.g. org-snapshot-2024-05-01T10-00-00Z.json
+ *
+ * In multi-organization mode, the organization is part of the name,
+ * e.g. org-snapshot-o-abc123-2024-05-01T10-00-00Z.json.
+ *
+ * @param createdAt - Creation time of the snapshot (ISO 8601)
+ * @param organizationId - Organization of the snapshot, in multi-organization mode
+ */
+export function getSnapshotFileName(createdAt: string, organizationId?: string): string {
+  const timestamp = createdAt.replace(/\.\d+Z$/, 'Z').replace(/:/g, '-')
+  return `org-snapshot-${organizationId ? `${organizationId}-` : ''}${timestamp}.json`
+}
+
+/**
+ * Read and validate a snapshot file
+ *
+ * @param filePath - Path of a file written by org-snapshot
+ * @returns The snapshot
+ * @throws When the file cannot be read or is not an organization snapshot
+ */
+export function readSnapshot(filePath: string): OrganizationSnapshot {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Snapshot file not found: ${filePath}`)
+  }
+
+  const snapshot = JSON.parse(fs.readFileSync(filePath, 'utf8')) as OrganizationSnapshot
+  if (!snapshot || !Array.isArray(snapshot.Accounts) || !Array.isArray(snapshot.OrganizationalUnits)) {
+    throw new Error(`Not an organization snapshot: ${filePath}`)
+  }
+  if (snapshot.Version > SNAPSHOT_VERSION) {
+    throw new Error(
+      `Snapshot ${filePath} has version ${snapshot.Version}; this version of aws-org reads up to ${SNAPSHOT_VERSION}`,
+    )
+  }
+
+  // Attachments that were not recorded are not compared, rather than reported as detached
+  return { ...snapshot, PolicyAttachments: snapshot.PolicyAttachments ?? null }
+}
+
+/**
+ * Compare two lists of items by ID and report additions, removals and changed fields
+ */
+function diffById<T extends { Id: string; Name: string }>(
+  before: T[],
+  after: T[],
+  onAdded: (item: T) => OrganizationChange,
+  onRemoved: (item: T) => OrganizationChange,
+  onChanged: (previous: T, current: T) => OrganizationChange[],
+): OrganizationChange[] {
+  const beforeById = new Map(before.map((item) => [item.Id, item]))
+  const afterById = new Map(after.map((item) => [item.Id, item]))
+  const changes: OrganizationChange[] = []
+
+  for (const item of after) {
+    const previous = beforeById.get(item.Id)
+    changes.push(...(previous ? onChanged(previous, item) : [onAdded(item)]))
+  }
+  for (const item of before) {
+    if (!afterById.has(item.Id)) {
+      changes.push(onRemoved(item))
+    }
+  }
+
+  return changes
+}
+
+/**
+ * Compare the accounts of two snapshots
+ */
+function diffAccounts(before: SnapshotAccount[], after: SnapshotAccount[]): OrganizationChange[] {
+  return diffById(
+    before,
+    after,
+    (account) => ({
+      ChangeType: 'ACCOUNT_ADDED',
+      Id: account.Id,
+      Name: account.Name,
+      Before: '',
+      After: account.OuPath,
+    }),
+    (account) => ({
+      ChangeType: 'ACCOUNT_REMOVED',
+      Id: account.Id,
+      Name: account.Name,
+      Before: account.OuPath,
+      After: '',
+    }),
+    (previous, current) => {
+      const changes: OrganizationChange[] = []
+      const change = (ChangeType: OrganizationChange['ChangeType'], beforeValue: string, afterValue: string): void => {
+        if (beforeValue !== afterValue) {
+          changes.push({ ChangeType, Id: current.Id, Name: current.Name, Before: beforeValue, After: afterValue })
+        }
+      }
+      change('ACCOUNT_STATUS_CHANGED', previous.Status, current.Status)
+      // Compare parents rather than paths, so that renaming an OU is not reported as moving its accounts;
+      // parents that could not be read (Unknown/Error) are not compared
+      const parentsKnown = ![previous.ParentId, current.ParentId].some((id) => id === 'Unknown' || id === 'Error')
+      if (parentsKnown && previous.ParentId !== current.ParentId) {
+        changes.push({
+          ChangeType: 'ACCOUNT_MOVED',
+          Id: current.Id,
+          Name: current.Name,
+          Before: previous.OuPath,
+          After: current.OuPath,
+        })
+      }
+      change('ACCOUNT_RENAMED', previous.Name, current.Name)
+      change('ACCOUNT_EMAIL_CHANGED', previous.Email, current.Email)
+      return changes
+    },
+  )
+}
+
+/**
+ * Compare the OUs of two snapshots
+ */
+function diffOrganizationalUnits(
+  before: SnapshotOrganizationalUnit[],
+  after: SnapshotOrganizationalUnit[],
+): OrganizationChange[] {
+  return diffById(
+    before,
+    after,
+    (ou) => ({ ChangeType: 'OU_ADDED', Id: ou.Id, Name: ou.Name, Before: '', After: ou.Path }),
+    (ou) => ({ ChangeType: 'OU_REMOVED', Id: ou.Id, Name: ou.Name, Before: ou.Path, After: '' }),
+    (previous, current) => {
+      const changes: OrganizationChange[] = []
+      if (previous.Name !== current.Name) {
+        changes.push({
+          ChangeType: 'OU_RENAMED',
+          Id: current.Id,
+          Name: current.Name,
+          Before: previous.Name,
+          After: current.Name,
+        })
+      }
+      if (previous.ParentId !== current.ParentId) {
+        changes.push({
+          ChangeType: 'OU_MOVED',
+          Id: current.Id,
+          Name: current.Name,
+          Before: previous.Path,
+          After: current.Path,
+        })
+      }
+      return changes
+    },
+  )
+}
+
+/**
+ * Compare the policy attachments of two snapshots
+ */
+function diffPolicyAttachments(
+  before: SnapshotPolicyAttachment[],
+  after: SnapshotPolicyAttachment[],
+): OrganizationChange[] {
+  const key = (attachment: SnapshotPolicyAttachment): string => `${attachment.PolicyId}|${attachment.TargetId}`
+  const beforeKeys = new Set(before.map(key))
+  const afterKeys = new Set(after.map(key))
+  const describeTarget = (attachment: SnapshotPolicyAttachment): string =>
+    `${attachment.TargetName} (${attachment.TargetId})`
+
+  return [
+    ...after
+      .filter((attachment) => !beforeKeys.has(key(attachment)))
+      .map((attachment): OrganizationChange => ({
+        ChangeType: 'POLICY_ATTACHED',
+        Id: attachment.PolicyId,
+        Name: attachment.PolicyName,
+        Before: '',
+        After: describeTarget(attachment),
+      })),
+    ...before
+      .filter((attachment) => !afterKeys.has(key(attachment)))
+      .map((attachment): OrganizationChange => ({
+        ChangeType: 'POLICY_DETACHED',
+        Id: attachment.PolicyId,
+        Name: attachment.PolicyName,
+        Before: describeTarget(attachment),
+        After: '',
+      })),
+  ]
+}
+
+/**
+ * Compare two organization snapshots
+ *
+ * @param before - Older snapshot
+ * @param after - Newer snapshot (or the live state)
+ * @returns Every change, accounts first, then OUs, then policy attachments; the policy attachments are
+ * skipped with a warning when one of the snapshots has none recorded
+ */
+export function diffSnapshots(before: OrganizationSnapshot, after: OrganizationSnapshot): OrganizationDiff {
+  const changes = [
+    ...diffAccounts(before.Accounts, after.Accounts),
+    ...diffOrganizationalUnits(before.OrganizationalUnits, after.OrganizationalUnits),
+  ]
+  const warnings: string[] = []
+
+  if (before.PolicyAttachments && after.PolicyAttachments) {
+    changes.push(...diffPolicyAttachments(before.PolicyAttachments, after.PolicyAttachments))
+  } else {
+    const missing = [before, after]
+      .filter((snapshot) => !snapshot.PolicyAttachments)
+      .map((snapshot) => snapshot.CreatedAt)
+    warnings.push(`SCP attachments not compared: not recorded in the snapshot of ${missing.join(' and ')}`)
+  }
+
+  return { Before: before.CreatedAt, After: after.CreatedAt, Changes: changes, Warnings: warnings }
+}
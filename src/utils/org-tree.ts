@@ -0,0 +1,144 @@
+// File: src/utils/org-tree.ts
+// Organization tree building and text rendering
+// The flat lists returned by the Organizations API (OUs and accounts with their ParentId)
+// are turned into a nested tree that the org-tree command prints as text, JSON or HTML.
+
+import { OrganizationTreeData, OrganizationTreeNode } from '../types'
+
+/**
+ * Build the path of every OU from its parent chain, e.g. "Prod/Apps"
+ *
+ * @param ous - All OUs of the organization, with their ParentId
+ * @returns Path of each OU keyed by OU ID, without the root
+ */
+export function buildOrganizationalUnitPaths(ous: Record<string, unknown>[]): Map<string, string> {
+  const ouById = new Map(ous.map((ou) => [String(ou.Id), ou]))
+  const paths = new Map<string, string>()
+
+  const pathOf = (ouId: string): string => {
+    const ou = ouById.get(ouId)
+    if (!ou) return ''
+    if (!paths.has(ouId)) {
+      const parentPath = pathOf(String(ou.ParentId))
+      paths.set(ouId, parentPath ? `${parentPath}/${ou.Name}` : String(ou.Name))
+    }
+    return paths.get(ouId)!
+  }
+  ous.forEach((ou) => pathOf(String(ou.Id)))
+
+  return paths
+}
+
+/**
+ * Sort child nodes: OUs first, then accounts, each group by name
+ */
+function compareNodes(a: OrganizationTreeNode, b: OrganizationTreeNode): number {
+  if (a.Type !== b.Type) {
+    return a.Type === 'ACCOUNT' ? 1 : -1
+  }
+  return a.Name.localeCompare(b.Name)
+}
+
+/**
+ * Build the nested organization tree
+ *
+ * Account counts and status counts of every OU include its child OUs.
+ * Accounts whose parent could not be determined are attached to the root.
+ *
+ * @param treeData - Root ID, OUs and accounts with parent information
+ * @returns Root node of the tree
+ */
+export function buildOrganizationTree(treeData: OrganizationTreeData): OrganizationTreeNode {
+  const root: OrganizationTreeNode = { Id: treeData.rootId, Name: 'Root', Type: 'ROOT', Children: [] }
+
+  // Create every OU node first, since OUs are listed before or after their children
+  const containers = new Map<string, OrganizationTreeNode>([[root.Id, root]])
+  treeData.ous.forEach((ou) => {
+    containers.set(String(ou.Id), {
+      Id: String(ou.Id),
+      Name: String(ou.Name || ou.Id),
+      Type: 'ORGANIZATIONAL_UNIT',
+      Children: [],
+    })
+  })
+
+  treeData.ous.forEach((ou) => {
+    const parent = containers.get(String(ou.ParentId)) || root
+    parent.Children!.push(containers.get(String(ou.Id))!)
+  })
+
+  treeData.accounts.forEach((account) => {
+    const parent = containers.get(String(account.ParentId)) || root
+    parent.Children!.push({
+      Id: String(account.Id),
+      Name: String(account.Name || account.Id),
+      Type: 'ACCOUNT',
+      Status: String(account.Status || 'Unknown'),
+      Email: account.Email ? String(account.Email) : undefined,
+    })
+  })
+
+  // Sort children and compute the counts bottom-up
+  const summarize = (node: OrganizationTreeNode): void => {
+    node.AccountCount = 0
+    node.StatusCounts = {}
+    node.Children!.sort(compareNodes)
+
+    for (const child of node.Children!) {
+      if (child.Type === 'ACCOUNT') {
+        node.AccountCount++
+        node.StatusCounts[child.Status!] = (node.StatusCounts[child.Status!] || 0) + 1
+      } else {
+        summarize(child)
+        node.AccountCount += child.AccountCount!
+        for (const [status, count] of Object.entries(child.StatusCounts!)) {
+          node.StatusCounts[status] = (node.StatusCounts[status] || 0) + count
+        }
+      }
+    }
+  }
+  summarize(root)
+
+  return root
+}
+
+/**
+ * Describe the accounts of an OU, e.g. "3 accounts: 2 ACTIVE, 1 SUSPENDED"
+ */
+export function describeAccountCounts(node: OrganizationTreeNode): string {
+  const count = node.AccountCount || 0
+  const statuses = Object.entries(node.StatusCounts || {})
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([status, statusCount]) => `${statusCount} ${status}`)
+    .join(', ')
+  return `${count} account${count !== 1 ? 's' : ''}${statuses ? `: ${statuses}` : ''}`
+}
+
+/**
+ * Render the organization tree as ASCII text
+ *
+ * @param root - Root node of the tree
+ * @returns One line per node, with box-drawing connectors
+ */
+export function renderOrganizationTreeText(root: OrganizationTreeNode): string {
+  const lines: string[] = []
+
+  const label = (node: OrganizationTreeNode): string =>
+    node.Type === 'ACCOUNT'
+      ? `${node.Name} (${node.Id}) ${node.Status}`
+      : `${node.Name} (${node.Id}) [${describeAccountCounts(node)}]`
+
+  const renderChildren = (node: OrganizationTreeNode, prefix: string): void => {
+    const children = node.Children || []
+    children.forEach((child, index) => {
+      const isLast = index === children.length - 1
+      lines.push(`${prefix}${isLast ? '└── ' : '├── '}${label(child)}`)
+      renderChildren(child, `${prefix}${isLast ? '    ' : '│   '}`)
+    })
+  }
+
+  lines.push(label(root))
+  renderChildren(root, '')
+
+  return lines.join('\n')
+}
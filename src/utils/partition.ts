@@ -0,0 +1,101 @@
+// File: src/utils/partition.ts
+// AWS partition handling
+// The partition (aws, aws-cn or aws-us-gov) comes from the global --partition option or the
+// partition setting. ARNs, the regions of global services (IAM, Organizations, STS) and the
+// Price List API endpoint are all derived from it, so the tool works in China and GovCloud.
+
+import { AwsPartition, ParsedArn, PartitionRegions } from '../types'
+import { PARTITION_REGIONS } from '../config/constants'
+import { getSettings } from '../config/settings'
+
+/**
+ * Region name prefixes of the partitions other than aws
+ */
+const REGION_PREFIXES: Array<[string, AwsPartition]> = [
+  ['cn-', 'aws-cn'],
+  ['us-gov-', 'aws-us-gov'],
+]
+
+/**
+ * Format of an ARN: arn:partition:service:region:account-id:resource
+ */
+const ARN_PATTERN = /^arn:(aws|aws-cn|aws-us-gov):([^:]*):([^:]*):([^:]*):(.*)$/
+
+// Partition given on the command line; the partition setting applies when undefined
+let configuredPartition: AwsPartition | undefined
+
+/**
+ * Set the partition for the rest of the execution (global --partition option)
+ */
+export function configurePartition(partition: AwsPartition | undefined): void {
+  configuredPartition = partition
+}
+
+/**
+ * Get the partition of the accounts being checked
+ */
+export function getPartition(): AwsPartition {
+  return configuredPartition || getSettings().partition
+}
+
+/**
+ * Get the regions used to reach AWS in a partition
+ *
+ * @param partition - Partition; the configured one when omitted
+ */
+export function getPartitionRegions(partition: AwsPartition = getPartition()): PartitionRegions {
+  return PARTITION_REGIONS[partition]
+}
+
+/**
+ * Get the partition a region belongs to, e.g. aws-cn for cn-north-1
+ */
+export function getRegionPartition(region: string): AwsPartition {
+  const match = REGION_PREFIXES.find(([prefix]) => region.startsWith(prefix))
+  return match ? match[1] : 'aws'
+}
+
+/**
+ * Get a region of the configured partition for regional API calls that can use any region
+ *
+ * @param region - Preferred region, e.g. the first configured region
+ * @returns The preferred region when it is in the partition, otherwise the default region of the partition
+ */
+export function getRegionInPartition(region: string | undefined): string {
+  const partition = getPartition()
+  return region && getRegionPartition(region) === partition ? region : getPartitionRegions(partition).defaultRegion
+}
+
+/**
+ * Build an ARN in the configured partition
+ *
+ * @param service - Service namespace, e.g. iam
+ * @param accountId - Account ID, empty for resources without one
+ * @param resource - Resource part, e.g. role/Admin
+ * @param region - Region, empty for global resources
+ */
+export function buildArn(service: string, accountId: string, resource: string, region = ''): string {
+  return `arn:${getPartition()}:${service}:${region}:${accountId}:${resource}`
+}
+
+/**
+ * Parse an ARN of any partition
+ *
+ * @param arn - ARN to parse
+ * @returns Parts of the ARN, or undefined when the value is not an ARN
+ */
+export function parseArn(arn: string): ParsedArn | undefined {
+  const match = ARN_PATTERN.exec(arn)
+  if (!match) {
+    return undefined
+  }
+  const [, partition, service, region, accountId, resource] = match
+  return { partition: partition as AwsPartition, service, region, accountId, resource }
+}
+
+/**
+ * Remove the DNS suffix of a service principal, e.g. ec2.amazonaws.com or ec2.amazonaws.com.cn → ec2
+ */
+export function getServicePrincipalName(servicePrincipal: string): string {
+  return servicePrincipal.replace(/\.amazonaws\.com(\.cn)?$/, '')
+}
@@ -0,0 +1,112 @@
+// File: src/utils/policy-inheritance.ts
+// Policy inheritance along the organization hierarchy
+// An SCP applies to an account when it is attached to the root, to any OU on the path from
+// the root to the account, or to the account itself.
+
+import {
+  AccountPolicyInheritance,
+  OrganizationPolicyInfo,
+  OrganizationTreeData,
+  PolicyLevel,
+  PolicyTarget,
+} from '../types'
+import { buildOrganizationalUnitPaths } from './org-tree'
+
+/**
+ * Get the IDs of the containers above an account, from the root down to its direct parent
+ *
+ * @param parentId - Direct parent of the account (root or OU ID)
+ * @param ouParents - Parent ID of every OU, keyed by OU ID
+ * @returns Root and OU IDs ordered from the root to the direct parent
+ */
+export function getAncestorIds(parentId: string, ouParents: Map<string, string>): string[] {
+  const ancestors: string[] = []
+  let current: string | undefined = parentId
+  while (current && !ancestors.includes(current)) {
+    ancestors.unshift(current)
+    current = ouParents.get(current)
+  }
+  return ancestors
+}
+
+/**
+ * Get the levels of the hierarchy above and including an account, with the policies attached to each
+ *
+ * Accounts whose parent could not be determined only have the account level.
+ *
+ * @param treeData - Root ID, all OUs and the accounts, with their ParentId
+ * @param account - Account to compute, with its ParentId
+ * @param policies - Policies to take into account (typically the SCPs)
+ * @returns Root, OUs and account, ordered from the root down
+ */
+export function getPolicyLevels(
+  treeData: OrganizationTreeData,
+  account: Record<string, unknown>,
+  policies: OrganizationPolicyInfo[],
+): PolicyLevel[] {
+  const ouById = new Map(treeData.ous.map((ou) => [String(ou.Id), ou]))
+  const ouParents = new Map(treeData.ous.map((ou) => [String(ou.Id), String(ou.ParentId)]))
+  const parentId = String(account.ParentId)
+  const hasKnownParent = parentId === treeData.rootId || ouById.has(parentId)
+
+  const targets: PolicyTarget[] = hasKnownParent
+    ? getAncestorIds(parentId, ouParents).map((id) =>
+        id === treeData.rootId
+          ? { TargetId: id, Name: 'Root', Type: 'ROOT' }
+          : { TargetId: id, Name: String(ouById.get(id)?.Name || id), Type: 'ORGANIZATIONAL_UNIT' },
+      )
+    : []
+  targets.push({ TargetId: String(account.Id), Name: String(account.Name || account.Id), Type: 'ACCOUNT' })
+
+  return targets.map((target) => ({
+    Target: target,
+    Policies: policies.filter((policy) => policy.Targets.some(({ TargetId }) => TargetId === target.TargetId)),
+  }))
+}
+
+/**
+ * Get the OU path of an account, e.g. /Prod/Apps
+ *
+ * @param treeData - Root ID and all OUs
+ * @param account - Account with its ParentId
+ * @param ouPaths - OU paths from buildOrganizationalUnitPaths
+ * @returns The path, "/" for accounts directly under the root, or "Unknown"
+ */
+function getAccountOuPath(
+  treeData: OrganizationTreeData,
+  account: Record<string, unknown>,
+  ouPaths: Map<string, string>,
+): string {
+  const parentId = String(account.ParentId)
+  if (parentId === treeData.rootId) {
+    return '/'
+  }
+  return ouPaths.has(parentId) ? `/${ouPaths.get(parentId)}` : 'Unknown'
+}
+
+/**
+ * Compute the policies applying to every account through inheritance
+ *
+ * @param treeData - Root ID, OUs and the accounts to compute, with their ParentId
+ * @param policies - Policies to take into account (typically the SCPs)
+ * @returns One entry per account, with the policies ordered from the root to the account
+ */
+export function computeInheritedPolicies(
+  treeData: OrganizationTreeData,
+  policies: OrganizationPolicyInfo[],
+): AccountPolicyInheritance[] {
+  const ouPaths = buildOrganizationalUnitPaths(treeData.ous)
+
+  return treeData.accounts.map((account) => ({
+    AccountId: String(account.Id),
+    AccountName: String(account.Name || ''),
+    OuPath: getAccountOuPath(treeData, account, ouPaths),
+    Policies: getPolicyLevels(treeData, account, policies).flatMap((level) =>
+      level.Policies.map((policy) => ({
+        PolicyId: policy.PolicyId,
+        PolicyName: policy.PolicyName,
+        AttachedTo: level.Target,
+      })),
+    ),
+  }))
+}
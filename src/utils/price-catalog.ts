@@ -0,0 +1,174 @@
+// File: src/utils/price-catalog.ts
+// On-disk catalog of EC2 Price List products
+// Products fetched from the Price List API are stored in the user cache directory, so that later
+// runs reuse them until they are older than the TTL. The catalog is also filled ahead of time by
+// `pricing refresh` and `pricing import`. In offline mode (--offline-pricing), the catalog is the
+// only source of prices, whatever the age of its entries.
+
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { PriceListProduct } from '../types'
+import { toErrorMessage } from './errors'
+import { logger } from './logger'
+
+/**
+ * Entries of the catalog are fetched again once they are older than this
+ */
+export const PRICE_CATALOG_TTL_MS = 7 * 24 * 60 * 60 * 1000
+
+/**
+ * Version of the catalog file format; files of another version are ignored
+ */
+const CATALOG_VERSION = 1
+
+// Catalog entry: the product, or the reason the Price List API has none (e.g. "Price not found")
+interface StoredPriceListEntry {
+  fetchedAt: string
+  product?: PriceListProduct
+  reason?: string
+}
+
+// Catalog file content
+interface PriceCatalogFile {
+  version: number
+  entries: Record<string, StoredPriceListEntry>
+}
+
+// Entries by key ("instanceType:region:os"); read from disk on first use
+let catalogEntries: Map<string, StoredPriceListEntry> | undefined
+
+// Whether the in-memory catalog holds entries that are not on disk yet
+let catalogDirty = false
+
+// Whether prices are only read from the catalog
+let offlinePricing = false
+
+/**
+ * Get the path of the price catalog file
+ */
+export function getPriceCatalogPath(): string {
+  const cacheHome = process.env.XDG_CACHE_HOME || path.join(os.homedir(), '.cache')
+  return path.join(cacheHome, 'aws-org', 'price-catalog.json')
+}
+
+/**
+ * Only read prices from the catalog for the rest of the execution (global --offline-pricing option)
+ */
+export function configureOfflinePricing(offline: boolean): void {
+  offlinePricing = offline
+}
+
+/**
+ * Check whether prices are only read from the catalog
+ */
+export function isOfflinePricing(): boolean {
+  return offlinePricing
+}
+
+/**
+ * Get the catalog entries, reading the catalog file on first use
+ * An unreadable catalog is ignored and replaced on the next write.
+ */
+function getCatalogEntries(): Map<string, StoredPriceListEntry> {
+  if (catalogEntries) {
+    return catalogEntries
+  }
+
+  catalogEntries = new Map()
+  const catalogFile = getPriceCatalogPath()
+  if (!fs.existsSync(catalogFile)) {
+    return catalogEntries
+  }
+
+  try {
+    const file = JSON.parse(fs.readFileSync(catalogFile, 'utf8')) as PriceCatalogFile
+    if (file.version !== CATALOG_VERSION || !file.entries) {
+      throw new Error(`unsupported catalog version ${file.version}`)
+    }
+    catalogEntries = new Map(Object.entries(file.entries))
+    logger.debug(`Loaded ${catalogEntries.size} price catalog entries from ${catalogFile}`)
+  } catch (error) {
+    logger.warn(`Ignoring unreadable price catalog ${catalogFile}: ${toErrorMessage(error)}`)
+  }
+  return catalogEntries
+}
+
+/**
+ * Look up a product in the catalog
+ *
+ * @param key - Catalog key, "instanceType:region:os"
+ * @returns The product or the stored reason it is not available; undefined when the catalog has no
+ * entry, or an entry older than the TTL outside offline mode
+ */
+export function readPriceCatalog(key: string): PriceListProduct | string | undefined {
+  const entry = getCatalogEntries().get(key)
+  if (!entry) {
+    return undefined
+  }
+  if (!offlinePricing && Date.now() - new Date(entry.fetchedAt).getTime() > PRICE_CATALOG_TTL_MS) {
+    return undefined
+  }
+  return entry.product || entry.reason || 'Price not found'
+}
+
+/**
+ * Store a product in the catalog
+ * The catalog file is written when the process exits, or by savePriceCatalog.
+ *
+ * @param key - Catalog key, "instanceType:region:os"
+ * @param product - The product, or the reason the Price List API has none
+ */
+export function writePriceCatalog(key: string, product: PriceListProduct | string): void {
+  const entry: StoredPriceListEntry = { fetchedAt: new Date().toISOString() }
+  if (typeof product === 'string') {
+    entry.reason = product
+  } else {
+    entry.product = product
+  }
+  getCatalogEntries().set(key, entry)
+
+  if (!catalogDirty) {
+    catalogDirty = true
+    process.once('exit', savePriceCatalog)
+  }
+}
+
+/**
+ * Write the catalog file when it holds new entries
+ * The file is replaced atomically, so that concurrent runs never read a partial catalog.
+ */
+export function savePriceCatalog(): void {
+  if (!catalogDirty || !catalogEntries) {
+    return
+  }
+
+  const catalogFile = getPriceCatalogPath()
+  const file: PriceCatalogFile = { version: CATALOG_VERSION, entries: Object.fromEntries(catalogEntries) }
+  try {
+    fs.mkdirSync(path.dirname(catalogFile), { recursive: true })
+    const tempFile = `${catalogFile}.${process.pid}.tmp`
+    fs.writeFileSync(tempFile, JSON.stringify(file), 'utf8')
+    fs.renameSync(tempFile, catalogFile)
+    catalogDirty = false
+  } catch (error) {
+    logger.warn(`Could not write the price catalog: ${toErrorMessage(error)}`)
+  }
+}
+
+/**
+ * Remove all entries of the catalog, in memory and on disk
+ *
+ * @returns Whether a catalog file was deleted
+ */
+export function clearPriceCatalog(): boolean {
+  catalogEntries = new Map()
+  catalogDirty = false
+
+  const catalogFile = getPriceCatalogPath()
+  if (!fs.existsSync(catalogFile)) {
+    return false
+  }
+  fs.unlinkSync(catalogFile)
+  return true
+}
@@ -0,0 +1,29 @@
+// File: src/utils/prompt.ts
+// Interactive prompts
+// Questions are written to stderr, like all diagnostics, so that stdout only carries the command result.
+
+import * as readline from 'readline'
+
+/**
+ * Ask a question and wait for a line of input
+ *
+ * Works with a terminal as well as with input piped to stdin.
+ *
+ * @param question - Text displayed before the input
+ * @returns The answer, without surrounding whitespace
+ */
+export function promptForInput(question: string): Promise<string> {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stderr })
+
+  return new Promise((resolve, reject) => {
+    // Input closed before an answer was given (e.g. empty stdin)
+    const onClose = () => reject(new Error('No input available to answer the prompt'))
+    rl.once('close', onClose)
+
+    rl.question(question, (answer) => {
+      rl.off('close', onClose)
+      rl.close()
+      resolve(answer.trim())
+    })
+  })
+}
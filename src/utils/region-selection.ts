@@ -0,0 +1,34 @@
+// File: src/utils/region-selection.ts
+// Shared region selectors (--region, --all-regions, --exclude-region) for multi-region commands
+
+import { Command } from 'commander'
+import { getSettings } from '../config/settings'
+import { collectRegions } from '.'
+
+/**
+ * Collect repeated --exclude-region values into an array
+ */
+function collectExcludedRegions(val: string, regions: string[] = []): string[] {
+  return [...regions, val]
+}
+
+/**
+ * Register the region selection options on a command
+ *
+ * @param command - Command to add the options to
+ * @returns The same command, for chaining
+ */
+export function addRegionSelectionOptions(command: Command): Command {
+  return command
+    .option(
+      '--region <region>',
+      'AWS region to check (can be specified multiple times)',
+      collectRegions,
+      getSettings().regions,
+    )
+    .option(
+      '--all-regions',
+      'Check every region enabled in each account (discovered with the first --region) instead of --region',
+    )
+    .option('--exclude-region <region>', 'AWS region to skip (can be specified multiple times)', collectExcludedRegions)
+}
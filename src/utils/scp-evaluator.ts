@@ -0,0 +1,372 @@
+// File: src/utils/scp-evaluator.ts
+// Local evaluation of service control policies
+// Reproduces the SCP part of the AWS authorization logic for a single request:
+// - an explicit Deny in any SCP on the path of the account denies the request
+// - otherwise, every level (root, each OU, the account) must have an SCP that allows it
+// Conditions are evaluated against the condition keys given with the request; keys that are
+// not given are treated as absent from the request, and each such assumption is reported.
+
+import {
+  PolicyDocument,
+  PolicyLevel,
+  PolicyStatement,
+  ScpEvaluationRequest,
+  ScpEvaluationResult,
+  ScpStatementMatch,
+} from '../types'
+
+// Result of a condition block: matched, not matched, or not evaluable (unsupported operator)
+type ConditionOutcome = boolean | undefined
+
+/**
+ * Convert a policy pattern with * and ? wildcards to a regular expression
+ */
+function wildcardToRegExp(pattern: string, ignoreCase: boolean): RegExp {
+  const escaped = pattern
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*')
+    .replace(/\?/g, '.')
+  return new RegExp(`^${escaped}$`, ignoreCase ? 'i' : '')
+}
+
+/**
+ * Normalize a policy element that may be a single value or a list
+ */
+function toList(value: unknown): string[] {
+  if (value === undefined || value === null) {
+    return []
+  }
+  return (Array.isArray(value) ? value : [value]).map(String)
+}
+
+/**
+ * Replace policy variables such as ${aws:PrincipalAccount} with the values from the request context
+ */
+function substituteVariables(pattern: string, context: Record<string, string[]>): string {
+  return pattern.replace(/\$\{([^}]+)\}/g, (variable, key: string) => {
+    const values = findContextValues(context, key)
+    return values && values.length === 1 ? values[0] : variable
+  })
+}
+
+/**
+ * Look up a condition key; key names are case-insensitive
+ */
+function findContextValues(context: Record<string, string[]>, key: string): string[] | undefined {
+  const match = Object.keys(context).find((name) => name.toLowerCase() === key.toLowerCase())
+  return match ? context[match] : undefined
+}
+
+/**
+ * Check whether the action matches the Action or NotAction element of a statement
+ */
+function matchesAction(statement: PolicyStatement, action: string): boolean {
+  if (statement.NotAction !== undefined) {
+    return !toList(statement.NotAction).some((pattern) => wildcardToRegExp(pattern, true).test(action))
+  }
+  return toList(statement.Action).some((pattern) => wildcardToRegExp(pattern, true).test(action))
+}
+
+/**
+ * Check whether the resource matches the Resource or NotResource element of a statement
+ *
+ * An unknown resource (none given) matches every statement; a warning is added when the
+ * statement is scoped to specific resources.
+ */
+function matchesResource(
+  statement: PolicyStatement,
+  request: ScpEvaluationRequest,
+  warn: (message: string) => void,
+): boolean {
+  if (statement.Resource === undefined && statement.NotResource === undefined) {
+    return true
+  }
+
+  const patterns = toList(statement.NotResource !== undefined ? statement.NotResource : statement.Resource).map(
+    (pattern) => substituteVariables(pattern, request.Context),
+  )
+
+  if (!request.Resource) {
+    if (statement.NotResource !== undefined || !patterns.includes('*')) {
+      warn('is scoped to specific resources; no --resource given, so it is assumed to apply')
+    }
+    return true
+  }
+
+  const matched = patterns.some((pattern) => wildcardToRegExp(pattern, false).test(request.Resource!))
+  return statement.NotResource !== undefined ? !matched : matched
+}
+
+/**
+ * Compare a single request value with a single policy value using a condition operator
+ *
+ * @returns The comparison result, or undefined when the operator is not supported
+ */
+function compareValues(operator: string, requestValue: string, policyValue: string): boolean | undefined {
+  switch (operator) {
+    case 'StringEquals':
+    case 'ArnEquals':
+      return requestValue === policyValue
+    case 'StringEqualsIgnoreCase':
+      return requestValue.toLowerCase() === policyValue.toLowerCase()
+    case 'StringLike':
+    case 'ArnLike':
+      return wildcardToRegExp(policyValue, false).test(requestValue)
+    case 'Bool':
+      return requestValue.toLowerCase() === policyValue.toLowerCase()
+    case 'NumericEquals':
+      return Number(requestValue) === Number(policyValue)
+    case 'NumericLessThan':
+      return Number(requestValue) < Number(policyValue)
+    case 'NumericLessThanEquals':
+      return Number(requestValue) <= Number(policyValue)
+    case 'NumericGreaterThan':
+      return Number(requestValue) > Number(policyValue)
+    case 'NumericGreaterThanEquals':
+      return Number(requestValue) >= Number(policyValue)
+    case 'DateEquals':
+      return Date.parse(requestValue) === Date.parse(policyValue)
+    case 'DateLessThan':
+      return Date.parse(requestValue) < Date.parse(policyValue)
+    case 'DateLessThanEquals':
+      return Date.parse(requestValue) <= Date.parse(policyValue)
+    case 'DateGreaterThan':
+      return Date.parse(requestValue) > Date.parse(policyValue)
+    case 'DateGreaterThanEquals':
+      return Date.parse(requestValue) >= Date.parse(policyValue)
+    case 'IpAddress':
+      return matchesCidr(requestValue, policyValue)
+    default:
+      return undefined
+  }
+}
+
+/**
+ * Check whether an IPv4 address is within a CIDR block
+ */
+function matchesCidr(address: string, cidr: string): boolean | undefined {
+  const toNumber = (ip: string): number | undefined => {
+    const parts = ip.split('.').map(Number)
+    if (parts.length !== 4 || parts.some((part) => !Number.isInteger(part) || part < 0 || part > 255)) {
+      return undefined
+    }
+    return parts.reduce((total, part) => total * 256 + part, 0)
+  }
+
+  const [network, bits = '32'] = cidr.split('/')
+  const addressNumber = toNumber(address)
+  const networkNumber = toNumber(network)
+  if (addressNumber === undefined || networkNumber === undefined) {
+    return undefined // IPv6 is not supported
+  }
+  const blockSize = 2 ** (32 - Number(bits))
+  return Math.floor(addressNumber / blockSize) === Math.floor(networkNumber / blockSize)
+}
+
+/**
+ * Evaluate one condition operator with its keys
+ *
+ * Supports the String, Arn, Bool, Numeric, Date and IpAddress operator families, their Not
+ * variants, the IfExists suffix, the Null operator and the ForAnyValue/ForAllValues qualifiers.
+ */
+function evaluateOperator(
+  qualifiedOperator: string,
+  conditions: Record<string, unknown>,
+  context: Record<string, string[]>,
+  warn: (message: string) => void,
+): ConditionOutcome {
+  const [qualifier, operatorWithSuffix] = qualifiedOperator.includes(':')
+    ? qualifiedOperator.split(':', 2)
+    : ['', qualifiedOperator]
+  const ifExists = operatorWithSuffix.endsWith('IfExists')
+  let operator = ifExists ? operatorWithSuffix.slice(0, -'IfExists'.length) : operatorWithSuffix
+
+  // Negated operators match when no value matches (NotIpAddress, StringNotEquals, ArnNotLike, ...)
+  const negated = operator === 'NotIpAddress' || /^(String|Arn|Numeric|Date)Not/.test(operator)
+  if (operator === 'NotIpAddress') {
+    operator = 'IpAddress'
+  } else if (negated) {
+    operator = operator.replace('Not', '')
+  }
+
+  for (const [key, rawPolicyValues] of Object.entries(conditions)) {
+    const policyValues = toList(rawPolicyValues).map((value) => substituteVariables(value, context))
+    const requestValues = findContextValues(context, key)
+
+    if (operator === 'Null') {
+      // Null: true checks that the key is absent, false that it is present
+      if (!requestValues) {
+        warn(`uses ${key}, which was not given; assumed absent`)
+      }
+      if ((policyValues[0] || '').toLowerCase() === 'true' ? !!requestValues : !requestValues) {
+        return false
+      }
+      continue
+    }
+
+    if (!requestValues || requestValues.length === 0) {
+      warn(`uses ${key}, which was not given; assumed absent`)
+      // A missing key only satisfies IfExists operators, ForAllValues and negated operators without
+      // ForAnyValue, which needs at least one request value
+      if (ifExists || qualifier === 'ForAllValues' || (negated && qualifier !== 'ForAnyValue')) {
+        continue
+      }
+      return false
+    }
+
+    const matchesOne = (requestValue: string): boolean | undefined => {
+      const results = policyValues.map((policyValue) => compareValues(operator, requestValue, policyValue))
+      if (results.some((result) => result === undefined)) {
+        return undefined
+      }
+      return results.some((result) => result)
+    }
+
+    const perValue = requestValues.map(matchesOne)
+    if (perValue.some((result) => result === undefined)) {
+      return undefined
+    }
+
+    // ForAllValues: every request value must satisfy the operator; ForAnyValue: at least one.
+    // Without a qualifier, a negated operator requires that no request value matches.
+    let matched: boolean
+    if (qualifier === 'ForAllValues') {
+      matched = perValue.every((result) => (negated ? !result : result))
+    } else if (qualifier === 'ForAnyValue') {
+      matched = perValue.some((result) => (negated ? !result : result))
+    } else {
+      matched = negated ? perValue.every((result) => !result) : perValue.some((result) => result)
+    }
+
+    if (!matched) {
+      return false
+    }
+  }
+
+  return true
+}
+
+/**
+ * Evaluate the Condition element of a statement; all operators must match
+ */
+function evaluateConditions(
+  statement: PolicyStatement,
+  context: Record<string, string[]>,
+  warn: (message: string) => void,
+): ConditionOutcome {
+  let outcome: ConditionOutcome = true
+  for (const [operator, conditions] of Object.entries(statement.Condition || {})) {
+    const result = evaluateOperator(operator, conditions, context, warn)
+    if (result === false) {
+      return false
+    }
+    if (result === undefined) {
+      warn(`uses the unsupported condition operator ${operator}; assumed to match`)
+      outcome = undefined
+    }
+  }
+  return outcome
+}
+
+/**
+ * Parse the statements of a policy document
+ * A document without a Statement element has no statements, which is reported through warn.
+ */
+function getStatements(content: string, warn: (message: string) => void): PolicyStatement[] {
+  const document = JSON.parse(content) as PolicyDocument
+  if (!document.Statement) {
+    warn('has no Statement element; ignored')
+    return []
+  }
+  return Array.isArray(document.Statement) ? document.Statement : [document.Statement]
+}
+
+/**
+ * Evaluate a request against the SCPs applying to an account
+ *
+ * @param levels - Root, OUs and account with their attached SCPs, from the root down
+ * @param request - Action, resource and condition keys of the request
+ * @returns The decision with the statement that decided it
+ */
+export function evaluateScps(
+  levels: PolicyLevel[],
+  request: ScpEvaluationRequest,
+): Omit<ScpEvaluationResult, 'AccountId' | 'AccountName'> {
+  const warnings = new Set<string>()
+  const matchedStatements: ScpStatementMatch[] = []
+  const allowedLevels = new Set<string>()
+
+  for (const level of levels) {
+    for (const policy of level.Policies) {
+      const warnPolicy = (message: string): void => {
+        warnings.add(`${policy.PolicyName} ${message}`)
+      }
+      getStatements(policy.Content, warnPolicy).forEach((statement, index) => {
+        if (!matchesAction(statement, request.Action)) {
+          return
+        }
+
+        // Assumptions are only reported for the statements that end up matching the request
+        const statementWarnings: string[] = []
+        const warn = (message: string): void => {
+          statementWarnings.push(message)
+        }
+        if (
+          !matchesResource(statement, request, warn) ||
+          evaluateConditions(statement, request.Context, warn) === false
+        ) {
+          return
+        }
+        const label = `${policy.PolicyName} statement ${statement.Sid || `#${index}`}`
+        statementWarnings.forEach((message) => warnings.add(`${label} ${message}`))
+
+        matchedStatements.push({
+          PolicyId: policy.PolicyId,
+          PolicyName: policy.PolicyName,
+          AttachedTo: level.Target,
+          StatementIndex: index,
+          Sid: statement.Sid,
+          Effect: statement.Effect,
+        })
+        if (statement.Effect === 'Allow') {
+          allowedLevels.add(level.Target.TargetId)
+        }
+      })
+    }
+  }
+
+  const base = {
+    Action: request.Action,
+    Resource: request.Resource || '*',
+    MatchedStatements: matchedStatements,
+    Warnings: [...warnings],
+  }
+
+  const deny = matchedStatements.find((match) => match.Effect === 'Deny')
+  if (deny) {
+    return {
+      ...base,
+      Decision: 'EXPLICIT_DENY',
+      Reason: `Denied by ${deny.PolicyName} (statement ${deny.Sid || `#${deny.StatementIndex}`}) attached to ${deny.AttachedTo.Name}`,
+      DecidingStatement: deny,
+    }
+  }
+
+  const blockingLevel = levels.find((level) => !allowedLevels.has(level.Target.TargetId))
+  if (blockingLevel) {
+    return {
+      ...base,
+      Decision: 'IMPLICIT_DENY',
+      Reason: `No SCP attached to ${blockingLevel.Target.Name} (${blockingLevel.Target.TargetId}) allows the action`,
+    }
+  }
+
+  // Every level allows the action; the allow closest to the account is reported
+  const allow = [...matchedStatements].reverse().find((match) => match.Effect === 'Allow')
+  return {
+    ...base,
+    Decision: 'ALLOWED',
+    Reason: 'Allowed at every level of the organization and not denied by any SCP',
+    DecidingStatement: allow,
+  }
+}
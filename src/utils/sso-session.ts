@@ -0,0 +1,107 @@
+// File: src/utils/sso-session.ts
+// IAM Identity Center (SSO) access mode
+// In this mode, credentials for each account come from the SSO portal (sso:GetRoleCredentials)
+// for a permission set, instead of assuming a role. The SSO access token is read from the
+// token cache written by `aws sso login`, using the sso-session of the selected AWS profile.
+
+import { SSOClient } from '@aws-sdk/client-sso'
+import { fromSso } from '@aws-sdk/token-providers'
+import { getProfileName, loadSsoSessionData, parseKnownFiles } from '@smithy/shared-ini-file-loader'
+import { SsoAccessOptions } from '../types'
+import { getSsoAccounts } from '../services/sso'
+import { createSSOClient } from './clients'
+import { logger } from './logger'
+
+/**
+ * SSO session resolved from the AWS profile
+ */
+export interface SsoSession {
+  profile: string // AWS profile holding the sso-session
+  region: string // Region of the IAM Identity Center instance
+  permissionSet: string // Permission set used in every account
+  accessToken: string // Access token from the SSO token cache
+  client: SSOClient // Portal client in the IAM Identity Center region
+}
+
+// Options set once from the global CLI options; undefined when roles are assumed instead
+let ssoOptions: SsoAccessOptions | undefined
+
+// The session is resolved on first use and shared by all accounts
+let sessionPromise: Promise<SsoSession> | undefined
+
+/**
+ * Enable the SSO access mode for the rest of the execution
+ */
+export function configureSsoAccess(options: SsoAccessOptions): void {
+  ssoOptions = options
+  sessionPromise = undefined
+}
+
+/**
+ * Check whether account credentials come from IAM Identity Center
+ */
+export function isSsoAccess(): boolean {
+  return !!ssoOptions
+}
+
+/**
+ * Resolve the SSO session from the AWS profile and the SSO token cache
+ */
+async function resolveSsoSession(options: SsoAccessOptions): Promise<SsoSession> {
+  const profileName = getProfileName({ profile: options.profile })
+  const profiles = await parseKnownFiles({ profile: profileName })
+  const profile = profiles[profileName]
+  if (!profile) {
+    throw new Error(`AWS profile "${profileName}" not found`)
+  }
+
+  const sessionName = profile.sso_session
+  if (!sessionName) {
+    throw new Error(
+      `AWS profile "${profileName}" has no sso_session; configure it with "aws configure sso" to use the SSO access mode`,
+    )
+  }
+
+  const sessions = await loadSsoSessionData()
+  const region = sessions[sessionName]?.sso_region || profile.sso_region
+  if (!region) {
+    throw new Error(`SSO session "${sessionName}" has no sso_region`)
+  }
+
+  const permissionSet = options.permissionSet || profile.sso_role_name
+  if (!permissionSet) {
+    throw new Error(`No permission set given; use --permission-set or set sso_role_name in profile "${profileName}"`)
+  }
+
+  // Reads the token cache and refreshes the token when it is about to expire
+  const { token } = await fromSso({ profile: profileName })()
+
+  logger.verbose(`Using IAM Identity Center session "${sessionName}" with permission set ${permissionSet}`)
+  return { profile: profileName, region, permissionSet, accessToken: token, client: createSSOClient(region) }
+}
+
+/**
+ * Get the SSO session for this execution
+ *
+ * @returns The resolved session
+ * @throws When the SSO access mode is not enabled, the profile is not an SSO profile,
+ *   or there is no valid token (run `aws sso login`)
+ */
+export function getSsoSession(): Promise<SsoSession> {
+  if (!ssoOptions) {
+    throw new Error('The SSO access mode is not enabled')
+  }
+  if (!sessionPromise) {
+    sessionPromise = resolveSsoSession(ssoOptions)
+  }
+  return sessionPromise
+}
+
+/**
+ * Get the accounts available to the SSO user
+ * Used as the account list when the Organizations API is not accessible with the SSO credentials.
+ */
+export async function listSsoAccounts(): Promise<Record<string, unknown>[]> {
+  const session = await getSsoSession()
+  return getSsoAccounts(session.client, session.accessToken)
+}